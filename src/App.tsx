@@ -33,6 +33,7 @@ import AnomalyDetection from './pages/AnomalyDetection';
 import SuperAdminTemplates from './pages/SuperAdminTemplates';
 import TemplateWithXeroData from './pages/TemplateWithXeroData';
 import BASProcessing from './pages/BASProcessing';
+import BASBatchProcessing from './pages/BASBatchProcessing';
 import FASProcessing from './pages/FASProcessing';
 import XeroOAuth2Page from './pages/XeroOAuth2Page';
 import XeroDataDisplay from './pages/XeroDataDisplay';
@@ -241,6 +242,14 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/admin/bas-batch"
+                element={
+                  <SuperAdminRoute>
+                    <BASBatchProcessing />
+                  </SuperAdminRoute>
+                }
+              />
               <Route
                 path="/fas-processing"
                 element={
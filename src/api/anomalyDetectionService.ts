@@ -1,9 +1,54 @@
 import apiClient from './client';
 
+export type AnomalyBlankHandling = 'dropRow' | 'fillZero' | 'fillMedian';
+
+// How the columns of an imported CSV/XLSX file become the dataset; saved with the model so scoring reuses it
+export interface AnomalyColumnMapping {
+  numericColumns: string[];
+  categoricalColumns: string[];
+  /** Column carried through to the results to identify each row; not used as a feature */
+  identifierColumn: string | null;
+  blankHandling: AnomalyBlankHandling;
+  /** Values used for blank numeric cells, worked out from the training data */
+  fillValues?: Record<string, number>;
+}
+
+export type AnomalyReviewStatus = 'confirmed' | 'falsePositive' | 'followUp';
+
+// An analyst's verdict on a flagged result, saved with the row it was given on so retraining can find it again
+export interface AnomalyReview {
+  id?: string;
+  /** Identifies the row across datasets: the Xero transaction, the identifier column or a fingerprint of the row */
+  rowKey: string;
+  /** Dataset the row was scored in, e.g. the imported file */
+  datasetName: string;
+  /** The row as it was scored */
+  row: Record<string, any>;
+  /** Model that flagged the row; null when it was scored in the browser */
+  modelId: string | null;
+  score: number;
+  status: AnomalyReviewStatus;
+  note: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+}
+
+export type AnomalyFalsePositiveHandling = 'exclude' | 'weight';
+
+// How reviewed false positives were used when training; saved with the model
+export interface AnomalyReviewFeedback {
+  falsePositives: AnomalyFalsePositiveHandling;
+  /** Times each false positive row was included, when weighted */
+  weight?: number;
+  falsePositiveRows: number;
+}
+
 export interface TrainingParameters {
   contamination?: number;
   nEstimators?: number;
   randomState?: number;
+  columnMapping?: AnomalyColumnMapping;
+  reviewFeedback?: AnomalyReviewFeedback;
   [key: string]: any;
 }
 
@@ -63,6 +108,15 @@ export interface ScoringResponse {
   };
 }
 
+export interface ModelMetrics {
+  accuracy?: number;
+  /** Share of reviewed flags confirmed as issues */
+  precision?: number;
+  recall?: number;
+  /** Flags reviewed as a confirmed issue or a false positive */
+  reviewedCount?: number;
+}
+
 export interface Model {
   id: string;
   name: string;
@@ -71,11 +125,7 @@ export interface Model {
   createdAt: string;
   updatedAt: string;
   parameters: TrainingParameters;
-  metrics?: {
-    accuracy?: number;
-    precision?: number;
-    recall?: number;
-  };
+  metrics?: ModelMetrics;
 }
 
 export interface ModelsResponse {
@@ -128,6 +178,25 @@ class AnomalyDetectionService {
     return response.data;
   }
 
+  async updateModelMetrics(id: string, metrics: ModelMetrics): Promise<{ success: boolean; message: string }> {
+    const response = await apiClient.put(`/anomaly-detection/models/${id}/metrics`, metrics);
+    return response.data;
+  }
+
+  // Reviews
+  async getReviews(params?: { modelId?: string }): Promise<{ success: boolean; message: string; data: AnomalyReview[] }> {
+    const response = await apiClient.get('/anomaly-detection/reviews', { params });
+    return response.data;
+  }
+
+  /**
+   * Saves a review; a row already reviewed for the same model is updated
+   */
+  async saveReview(review: AnomalyReview): Promise<{ success: boolean; message: string; data: AnomalyReview }> {
+    const response = await apiClient.post('/anomaly-detection/reviews', review);
+    return response.data;
+  }
+
   // Export
   async exportResults(request: ExportRequest): Promise<Blob> {
     const response = await apiClient.post('/anomaly-detection/export', request, {
@@ -0,0 +1,109 @@
+import apiClient from './client';
+
+export type AnomalyScanFrequency = 'daily' | 'weekly';
+
+export interface AnomalyScanSchedule {
+  id?: number;
+  companyId?: number;
+  enabled: boolean;
+  /** Xero organisation whose new transactions are scanned */
+  tenantId: string;
+  frequency: AnomalyScanFrequency;
+  /** 0 (Sunday) to 6 (Saturday), for weekly scans */
+  dayOfWeek: number;
+  /** Time of day the scan runs (HH:mm), in timeZone */
+  runAt: string;
+  /** IANA time zone of runAt, e.g. 'Australia/Sydney' */
+  timeZone: string;
+  /** Alert when a scan flags at least this many transactions */
+  alertMinAnomalies: number;
+  /** Alert when any flagged transaction scores at least this; null to alert on the count only */
+  alertMinScore: number | null;
+  smsEnabled: boolean;
+  emailEnabled: boolean;
+  /** Overrides the company's phone number for SMS alerts */
+  phoneNumber?: string;
+  /** Overrides the company's email address for email alerts */
+  emailAddress?: string;
+  /** Address of this app, so alerts can link back to the scan */
+  appUrl?: string;
+  lastRunAt?: string;
+  nextRunAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface AnomalyScanFlag {
+  transactionId: string;
+  source: 'invoice' | 'bill' | 'bankTransaction';
+  reference: string;
+  contactName: string;
+  /** Transaction date (YYYY-MM-DD) */
+  date: string;
+  amount: number;
+  score: number;
+}
+
+export interface AnomalyScanRun {
+  id: number;
+  companyId: number;
+  tenantId: string;
+  /** Active model the scan scored with */
+  modelId: string | null;
+  modelName?: string;
+  trigger: 'schedule' | 'manual';
+  status: 'running' | 'completed' | 'failed';
+  /** Transactions changed from this date to the run date were scanned (YYYY-MM-DD) */
+  fromDate: string;
+  toDate: string;
+  transactionsScanned: number;
+  anomaliesDetected: number;
+  maxScore: number | null;
+  alertSent: boolean;
+  alertChannels: Array<'sms' | 'email'>;
+  flagged: AnomalyScanFlag[];
+  error?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+export interface AnomalyScanRunsResponse {
+  runs: AnomalyScanRun[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    pages: number;
+  };
+}
+
+// Schedule Management
+export const getAnomalyScanSchedule = async (): Promise<AnomalyScanSchedule | null> => {
+  const response = await apiClient.get('/anomaly-detection/scan-schedule');
+  return response.data.data;
+};
+
+export const updateAnomalyScanSchedule = async (
+  schedule: Partial<AnomalyScanSchedule>
+): Promise<AnomalyScanSchedule> => {
+  const response = await apiClient.put('/anomaly-detection/scan-schedule', schedule);
+  return response.data.data;
+};
+
+// Scans
+export const runAnomalyScan = async (): Promise<AnomalyScanRun> => {
+  const response = await apiClient.post('/anomaly-detection/scans/run');
+  return response.data.data;
+};
+
+export const getAnomalyScanRuns = async (page = 1, limit = 20): Promise<AnomalyScanRunsResponse> => {
+  const response = await apiClient.get('/anomaly-detection/scans', {
+    params: { page, limit }
+  });
+  return response.data.data;
+};
+
+export const getAnomalyScanRun = async (id: number | string): Promise<AnomalyScanRun> => {
+  const response = await apiClient.get(`/anomaly-detection/scans/${id}`);
+  return response.data.data;
+};
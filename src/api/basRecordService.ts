@@ -0,0 +1,122 @@
+import apiClient from './client';
+import { ApiResponse } from './companyService';
+
+// Review and lodgement workflow of a saved BAS, in order
+export type BASRecordStatus = 'Draft' | 'Prepared' | 'Reviewed' | 'Client Approved' | 'Lodged';
+
+// BAS labels and their values, e.g. { G1: 1200, '1A': 109.09, T4: '21' }
+export type BASFieldValues = Record<string, number | string | null>;
+
+export interface BASStatusTransition {
+  fromStatus: BASRecordStatus | null;
+  toStatus: BASRecordStatus;
+  changedBy: string;
+  changedAt: string;
+  comment?: string;
+}
+
+export interface BASReviewComment {
+  id: number;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+// G7 increases and G18 decreases GST for the period; an override replaces the calculated value of a label
+export type BASAdjustmentKind = 'G7' | 'G18' | 'Override';
+
+export interface BASAdjustment {
+  id: string;
+  kind: BASAdjustmentKind;
+  // BAS label the adjustment applies to; 'G7' or 'G18' for increasing and decreasing adjustments
+  label: string;
+  // GST-inclusive adjustment amount, or the replacement value of an override
+  amount: number;
+  reason: string;
+  attachmentReference?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface BASAdjustmentLogEntry {
+  action: 'Added' | 'Removed';
+  adjustment: BASAdjustment;
+  changedBy: string;
+  changedAt: string;
+}
+
+export interface BASRecord {
+  id: number;
+  companyId: number;
+  tenantId: string;
+  tenantName?: string;
+  periodKey: string;
+  periodLabel: string;
+  fromDate: string;
+  toDate: string;
+  gstBasis?: string;
+  status: BASRecordStatus;
+  figures: BASFieldValues;
+  // Full calculation payload (breakdowns, reconciliation) kept for reference
+  payload?: Record<string, any>;
+  adjustments?: BASAdjustment[];
+  adjustmentLog?: BASAdjustmentLogEntry[];
+  history: BASStatusTransition[];
+  comments: BASReviewComment[];
+  // Set when the BAS is lodged; the figures can no longer be changed
+  lockedAt?: string | null;
+  lockedBy?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BASRecordInput {
+  tenantId: string;
+  tenantName?: string;
+  periodKey: string;
+  periodLabel: string;
+  fromDate: string;
+  toDate: string;
+  gstBasis?: string;
+  figures: BASFieldValues;
+  payload?: Record<string, any>;
+  adjustments?: BASAdjustment[];
+  adjustmentLog?: BASAdjustmentLogEntry[];
+}
+
+export interface BASRecordFilters {
+  tenantId?: string;
+  companyId?: number;
+  status?: BASRecordStatus;
+}
+
+export const basRecordService = {
+  async getRecords(filters: BASRecordFilters = {}): Promise<BASRecord[]> {
+    const response = await apiClient.get<ApiResponse<BASRecord[]>>('/bas-records', { params: filters });
+    return response.data.data || [];
+  },
+
+  async getRecordById(id: number): Promise<BASRecord> {
+    const response = await apiClient.get<ApiResponse<BASRecord>>(`/bas-records/${id}`);
+    return response.data.data as BASRecord;
+  },
+
+  // Creates the Draft for a tenant and period, or updates its figures while it is not locked
+  async saveRecord(data: BASRecordInput): Promise<BASRecord> {
+    const response = await apiClient.post<ApiResponse<BASRecord>>('/bas-records', data);
+    return response.data.data as BASRecord;
+  },
+
+  async transitionRecord(id: number, toStatus: BASRecordStatus, comment?: string): Promise<BASRecord> {
+    const response = await apiClient.post<ApiResponse<BASRecord>>(`/bas-records/${id}/transition`, {
+      toStatus,
+      comment,
+    });
+    return response.data.data as BASRecord;
+  },
+
+  async addComment(id: number, body: string): Promise<BASRecord> {
+    const response = await apiClient.post<ApiResponse<BASRecord>>(`/bas-records/${id}/comments`, { body });
+    return response.data.data as BASRecord;
+  },
+};
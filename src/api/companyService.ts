@@ -13,6 +13,86 @@ export interface CompanyLoginData {
   password: string;
 }
 
+// PAYG instalment option reported on the BAS: the ATO-notified amount or the instalment rate
+export type PaygInstalmentMethod = 'None' | 'Amount' | 'Rate';
+
+// GST accounting basis: cash reports GST when paid, accrual when invoiced
+export type GstAccountingBasis = 'Cash' | 'Accrual';
+
+// BAS labels outside GST and PAYG: fuel tax credits (7D), wine equalisation tax (1C/1D), luxury car tax (1E/1F)
+export type BASOtherTaxLabel = '7D' | '1C' | '1D' | '1E' | '1F';
+
+export interface BASOtherTaxSettings {
+  fuelTaxCredits: boolean;
+  wineEqualisationTax: boolean;
+  luxuryCarTax: boolean;
+  /** Xero account codes whose transactions make up each label */
+  accountMappings: Partial<Record<BASOtherTaxLabel, string[]>>;
+}
+
+// Fuel of a car in the FBT car register; zero and low emissions cars can be exempt from FBT
+export type FBTCarFuelType = 'Petrol' | 'Diesel' | 'Hybrid' | 'PlugInHybrid' | 'Electric' | 'Hydrogen';
+
+export interface FBTCar {
+  id: string;
+  /** FBT year (the year in which 31 March falls) the entry covers */
+  fbtYear: number;
+  vehicle: string;
+  fuelType: FBTCarFuelType;
+  /** Date the car was first held (YYYY-MM-DD) */
+  acquisitionDate: string;
+  /** GST-inclusive cost of the car, or its market value when leased */
+  costBase: number;
+  /** Days in the FBT year the car was available for the employee's private use */
+  daysAvailable: number;
+  /** Running costs for the year, including deemed depreciation and interest on an owned car */
+  operatingCosts: number;
+  /** Business use percentage from a valid logbook; null when there is no logbook */
+  logbookBusinessPercentage: number | null;
+  /** After-tax payments the employee made towards the car */
+  employeeContributions: number;
+  /** True when the employer claims GST credits on the car (Type 1) */
+  gstCreditClaimed: boolean;
+  /** Xero Payroll EmployeeID of the employee the car is provided to */
+  employeeId?: string;
+}
+
+// Benefit other than a car allocated to an employee for reportable fringe benefits
+export interface FBTBenefitAllocation {
+  id: string;
+  fbtYear: number;
+  /** Xero Payroll EmployeeID */
+  employeeId: string;
+  description: string;
+  taxableValue: number;
+}
+
+// Valuation of meal entertainment: actual per-event amounts, or the elected 50/50 split or 12-week register method
+export type FBTEntertainmentMethod = 'Actual' | 'FiftyFifty' | 'TwelveWeekRegister';
+
+export interface FBTEntertainmentEvent {
+  id: string;
+  date: string; // YYYY-MM-DD
+  description: string;
+  /** GST-inclusive cost of the event */
+  cost: number;
+  /** Employees and their associates who attended */
+  employeeAttendees: number;
+  /** Clients and other attendees */
+  otherAttendees: number;
+  gstCreditClaimed: boolean;
+}
+
+export interface FBTEntertainmentElection {
+  /** FBT year (the year in which 31 March falls) the election covers */
+  fbtYear: number;
+  method: FBTEntertainmentMethod;
+  /** First day of the 12-week register kept in this FBT year */
+  registerStartDate?: string;
+  /** The 12-week register, or the events valued under the actual method */
+  events: FBTEntertainmentEvent[];
+}
+
 export interface ComplianceData {
   basFrequency: 'Monthly' | 'Quarterly' | 'Annually';
   nextBasDue: string;
@@ -22,6 +102,14 @@ export interface ComplianceData {
   iasFrequency?: 'Monthly' | 'Quarterly' | 'Annually';
   nextIasDue?: string;
   financialYearEnd: string;
+  gstAccountingBasis?: GstAccountingBasis;
+  paygInstalmentMethod?: PaygInstalmentMethod;
+  paygInstalmentAmount?: number; // ATO-notified instalment amount per period
+  paygInstalmentRate?: number; // ATO-notified instalment rate (%)
+  basOtherTaxes?: BASOtherTaxSettings;
+  fbtCars?: FBTCar[];
+  fbtEntertainment?: FBTEntertainmentElection[];
+  fbtAllocations?: FBTBenefitAllocation[];
 }
 
 export interface ProfileData {
@@ -42,6 +130,10 @@ export interface Company {
   basFrequency?: 'Monthly' | 'Quarterly' | 'Annually';
   fbtApplicable?: boolean;
   financialYearEnd?: string;
+  gstAccountingBasis?: GstAccountingBasis;
+  paygInstalmentMethod?: PaygInstalmentMethod;
+  paygInstalmentAmount?: number;
+  paygInstalmentRate?: number;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -183,6 +275,12 @@ export const companyService = {
     return response.data;
   },
 
+  // Saves only the given compliance settings, so settings changed elsewhere are not overwritten
+  async updateComplianceSettings(data: Partial<ComplianceData>): Promise<ApiResponse<Company>> {
+    const response = await apiClient.patch<ApiResponse<Company>>('/companies/compliance', data);
+    return response.data;
+  },
+
   async updateProfile(data: ProfileData): Promise<ApiResponse<Company>> {
     const response = await apiClient.patch<ApiResponse<Company>>('/companies/profile', data);
     return response.data;
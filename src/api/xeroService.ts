@@ -1,6 +1,7 @@
 import apiClient from './client';
 import { getForcedRedirectUri, getProductionSafeRedirectUri, getRenderRedirectUri } from '../utils/envChecker';
 import { xeroOAuthHelper } from '../utils/xeroOAuthHelper';
+import { extractXeroCollection } from '../utils/xeroRecords';
 
 export interface XeroTokens {
   accessToken: string;
@@ -48,6 +49,21 @@ export interface XeroSettings {
   updatedAt: string;
 }
 
+export interface XeroCompanyStatus {
+  id: number;
+  name: string;
+  createdAt: string;
+  xeroSettings: {
+    hasSettings: boolean;
+    hasCredentials: boolean;
+    hasValidTokens: boolean;
+    isConnected: boolean;
+    tenantId?: string;
+    lastUpdated?: string;
+    createdAt?: string;
+  };
+}
+
 export interface XeroDataResponse<T> {
   success: boolean;
   message: string;
@@ -161,6 +177,21 @@ export const getAllXeroSettings = async (): Promise<XeroSettings[]> => {
   return response.data.data;
 };
 
+// Xero connection status of every company (superadmin only)
+export const getCompaniesXeroStatus = async (): Promise<{
+  companies: XeroCompanyStatus[];
+  stats: {
+    totalCompanies: number;
+    withSettings: number;
+    withCredentials: number;
+    connected: number;
+    withoutSettings: number;
+  };
+}> => {
+  const response = await apiClient.get('/xero-plug-play/admin/companies-status');
+  return response.data.data;
+};
+
 // Authentication
 
 // Get authorization URL for Xero login
@@ -341,6 +372,30 @@ export const getAllInvoices = async (page = 1, pageSize = 50, tenantId?: string)
   return response.data;
 };
 
+// Invoice IDs sent per request, so the query string stays within URL and proxy length limits
+const INVOICE_IDS_PER_REQUEST = 50;
+
+// Fetches specific invoices, e.g. earlier invoices that were paid in a cash-basis BAS period
+export const getInvoicesByIds = async (
+  invoiceIds: string[],
+  tenantId?: string,
+  // Superadmin only: load the invoices of another company's Xero connection
+  companyId?: number
+): Promise<XeroDataResponse<{ Invoices: any[] }>> => {
+  const invoices: any[] = [];
+  let message = '';
+  // One batch at a time to stay within the Xero rate limit
+  for (let start = 0; start < invoiceIds.length; start += INVOICE_IDS_PER_REQUEST) {
+    const params = new URLSearchParams({ ids: invoiceIds.slice(start, start + INVOICE_IDS_PER_REQUEST).join(',') });
+    if (tenantId) params.append('tenantId', tenantId);
+    if (companyId) params.append('companyId', companyId.toString());
+    const response = await apiClient.get(`/xero/all-invoices?${params.toString()}`);
+    invoices.push(...extractXeroCollection(response.data, 'Invoices'));
+    message = response.data?.message || message;
+  }
+  return { success: true, message, data: { Invoices: invoices } };
+};
+
 export const getAllContacts = async (page = 1, pageSize = 50, tenantId?: string): Promise<XeroDataResponse<any>> => {
   const url = tenantId ? `/xero/all-contacts?page=${page}&pageSize=${pageSize}&tenantId=${tenantId}` : `/xero/all-contacts?page=${page}&pageSize=${pageSize}`;
   const response = await apiClient.get(url);
@@ -353,8 +408,15 @@ export const getAllBankTransactions = async (page = 1, pageSize = 50, tenantId?:
   return response.data;
 };
 
-export const getAllAccounts = async (tenantId?: string): Promise<XeroDataResponse<any>> => {
-  const url = tenantId ? `/xero/all-accounts?tenantId=${tenantId}` : '/xero/all-accounts';
+export const getAllAccounts = async (
+  tenantId?: string,
+  // Superadmin only: load the chart of accounts of another company's Xero connection
+  companyId?: number
+): Promise<XeroDataResponse<any>> => {
+  const params = new URLSearchParams();
+  if (tenantId) params.append('tenantId', tenantId);
+  if (companyId) params.append('companyId', companyId.toString());
+  const url = `/xero/all-accounts${params.toString() ? `?${params.toString()}` : ''}`;
   const response = await apiClient.get(url);
   return response.data;
 };
@@ -500,17 +562,51 @@ export const getBASData = async (options?: {
   fromDate?: string;
   toDate?: string;
   useCache?: boolean;
+  tenantId?: string;
+  // Superadmin only: load the BAS data of another company's Xero connection
+  companyId?: number;
 }): Promise<XeroDataResponse<any>> => {
   const params = new URLSearchParams();
   if (options?.fromDate) params.append('fromDate', options.fromDate);
   if (options?.toDate) params.append('toDate', options.toDate);
   if (options?.useCache !== undefined) params.append('useCache', options.useCache.toString());
+  if (options?.tenantId) params.append('tenantId', options.tenantId);
+  if (options?.companyId) params.append('companyId', options.companyId.toString());
   
   const url = `/xero/bas-data${params.toString() ? `?${params.toString()}` : ''}`;
   const response = await apiClient.get(url);
   return response.data;
 };
 
+// Payments and pay runs of a period; the BAS data does not always include them
+export const getPayments = async (options: {
+  fromDate: string;
+  toDate: string;
+  tenantId?: string;
+  companyId?: number;
+}): Promise<XeroDataResponse<any>> => {
+  const response = await apiClient.get('/xero-plug-play/payments', { params: options });
+  return response.data;
+};
+
+export const getPayrollPayRuns = async (options: {
+  fromDate: string;
+  toDate: string;
+  tenantId?: string;
+  companyId?: number;
+}): Promise<XeroDataResponse<any>> => {
+  const response = await apiClient.get('/xero-plug-play/payroll/pay-runs', { params: options });
+  return response.data;
+};
+
+export const getPayrollEmployees = async (options: {
+  tenantId?: string;
+  companyId?: number;
+} = {}): Promise<XeroDataResponse<any>> => {
+  const response = await apiClient.get('/xero-plug-play/payroll/employees', { params: options });
+  return response.data;
+};
+
 export const getCurrentBASData = async (): Promise<XeroDataResponse<any>> => {
   const response = await apiClient.get('/xero/bas-data/current');
   return response.data;
@@ -547,11 +643,13 @@ export const getFASData = async (options?: {
   fromDate?: string;
   toDate?: string;
   useCache?: boolean;
+  tenantId?: string;
 }): Promise<XeroDataResponse<any>> => {
   const params = new URLSearchParams();
   if (options?.fromDate) params.append('fromDate', options.fromDate);
   if (options?.toDate) params.append('toDate', options.toDate);
   if (options?.useCache !== undefined) params.append('useCache', options.useCache.toString());
+  if (options?.tenantId) params.append('tenantId', options.tenantId);
   
   const url = `/xero/fas-data${params.toString() ? `?${params.toString()}` : ''}`;
   const response = await apiClient.get(url);
@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { AnomalyBlankHandling, AnomalyColumnMapping } from '../api/anomalyDetectionService';
+import {
+  ANOMALY_BLANK_HANDLING_LABELS,
+  ANOMALY_COLUMN_ROLE_LABELS,
+  AnomalyColumnRole,
+  AnomalyImportedTable,
+  applyColumnMapping,
+  getColumnRole,
+  isBlankCell,
+  setColumnRole,
+} from '../utils/anomalyColumnMapping';
+
+interface AnomalyColumnMappingDialogProps {
+  /** Imported file to map, or null when the dialog is closed */
+  table: AnomalyImportedTable | null;
+  initialMapping: AnomalyColumnMapping | null;
+  /** Name of the model the initial mapping was saved with, if any */
+  mappingSource?: string | null;
+  onApply: (mapping: AnomalyColumnMapping) => void;
+  onClose: () => void;
+}
+
+// Number of sample values shown for each column
+const SAMPLE_VALUES = 3;
+
+const AnomalyColumnMappingDialog: React.FC<AnomalyColumnMappingDialogProps> = ({
+  table,
+  initialMapping,
+  mappingSource,
+  onApply,
+  onClose,
+}) => {
+  const [mapping, setMapping] = useState<AnomalyColumnMapping | null>(initialMapping);
+
+  useEffect(() => {
+    setMapping(initialMapping);
+  }, [initialMapping]);
+
+  const preview = useMemo(() => (table && mapping ? applyColumnMapping(table, mapping) : null), [table, mapping]);
+  const featureCount = mapping ? mapping.numericColumns.length + mapping.categoricalColumns.length : 0;
+
+  return (
+    <Dialog open={!!table} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle className="bg-gradient-to-r from-blue-500 to-blue-600 text-white">
+        Map Columns{table ? ` – ${table.fileName}` : ''}
+      </DialogTitle>
+      <DialogContent className="pt-6">
+        {table && mapping && (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2, mb: 2 }}>
+              Choose how each column is used. Numeric and categorical columns are sent to the model, the identifier is
+              shown with the results, and ignored columns are left out.
+            </Typography>
+            {mappingSource && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Using the column mapping saved with {mappingSource}.
+              </Alert>
+            )}
+
+            <TableContainer component={Paper} sx={{ mb: 2, maxHeight: 380 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Column</TableCell>
+                    <TableCell>Sample Values</TableCell>
+                    <TableCell>Blanks</TableCell>
+                    <TableCell>Use As</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {table.columns.map((column, index) => {
+                    const values = table.rows.map((row) => row[index]);
+                    const samples = values.filter((value) => !isBlankCell(value)).slice(0, SAMPLE_VALUES);
+                    const blanks = values.filter(isBlankCell).length;
+                    return (
+                      <TableRow key={column}>
+                        <TableCell className="font-medium">{column}</TableCell>
+                        <TableCell sx={{ color: 'text.secondary' }}>{samples.join(', ') || '-'}</TableCell>
+                        <TableCell>{blanks}</TableCell>
+                        <TableCell>
+                          <Select
+                            size="small"
+                            value={getColumnRole(mapping, column)}
+                            onChange={(e) => setMapping(setColumnRole(mapping, column, e.target.value as AnomalyColumnRole))}
+                            sx={{ minWidth: 190 }}
+                          >
+                            {(Object.keys(ANOMALY_COLUMN_ROLE_LABELS) as AnomalyColumnRole[]).map((role) => (
+                              <MenuItem key={role} value={role}>
+                                {ANOMALY_COLUMN_ROLE_LABELS[role]}
+                              </MenuItem>
+                            ))}
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+              <FormControl size="small" sx={{ minWidth: 280 }}>
+                <InputLabel>Blank Cells</InputLabel>
+                <Select
+                  value={mapping.blankHandling}
+                  label="Blank Cells"
+                  onChange={(e) =>
+                    setMapping({ ...mapping, blankHandling: e.target.value as AnomalyBlankHandling, fillValues: undefined })
+                  }
+                >
+                  {(Object.keys(ANOMALY_BLANK_HANDLING_LABELS) as AnomalyBlankHandling[]).map((handling) => (
+                    <MenuItem key={handling} value={handling}>
+                      {ANOMALY_BLANK_HANDLING_LABELS[handling]}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              {preview && (
+                <Typography variant="body2" color="text.secondary">
+                  {preview.dataset.length} of {table.rows.length} rows will be used
+                  {preview.droppedRows > 0 ? ` (${preview.droppedRows} dropped for blanks)` : ''}
+                </Typography>
+              )}
+            </Box>
+            {mapping.blankHandling !== 'dropRow' && mapping.categoricalColumns.length > 0 && (
+              <Typography variant="caption" color="text.secondary">
+                Blank categorical cells are treated as their own category.
+              </Typography>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions className="p-4">
+        <Button onClick={onClose} variant="outlined">
+          Cancel
+        </Button>
+        <Button
+          onClick={() => mapping && onApply(mapping)}
+          variant="contained"
+          disabled={featureCount === 0 || !preview || preview.dataset.length === 0}
+        >
+          Use Mapping
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AnomalyColumnMappingDialog;
@@ -0,0 +1,119 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  LinearProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { AnomalyExplanation, toFieldLabel, UNUSUAL_DEVIATION } from '../utils/anomalyExplanation';
+
+interface AnomalyExplanationDetailsProps {
+  explanation: AnomalyExplanation;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '-';
+  return typeof value === 'number' ? value.toLocaleString('en-AU', { maximumFractionDigits: 2 }) : String(value);
+};
+
+const formatDeviation = (deviation: number) => `${deviation > 0 ? '+' : ''}${deviation.toFixed(1)}`;
+
+/**
+ * Shows why a result was flagged: the original record and how far each field is from its typical value
+ */
+const AnomalyExplanationDetails: React.FC<AnomalyExplanationDetailsProps> = ({ explanation }) => (
+  <Box sx={{ p: 2, backgroundColor: 'grey.50', borderRadius: 1 }}>
+    <Alert severity="warning" sx={{ mb: 2 }}>
+      {explanation.reason}
+    </Alert>
+
+    <Typography variant="subtitle2" gutterBottom>
+      Original Record
+    </Typography>
+    <Box
+      sx={{
+        display: 'grid',
+        gridTemplateColumns: { xs: '1fr 1fr', md: 'repeat(4, 1fr)' },
+        gap: 1,
+        mb: 2,
+      }}
+    >
+      {Object.entries(explanation.record).map(([field, value]) => (
+        <Box key={field}>
+          <Typography variant="caption" color="text.secondary">{field}</Typography>
+          <Typography variant="body2">{formatValue(value)}</Typography>
+        </Box>
+      ))}
+    </Box>
+
+    <Typography variant="subtitle2" gutterBottom>
+      Feature Contributions
+    </Typography>
+    <TableContainer component={Paper}>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Field</TableCell>
+            <TableCell align="right">Value</TableCell>
+            <TableCell align="right">Typical</TableCell>
+            <TableCell align="right">Deviation</TableCell>
+            <TableCell>Peer Comparison</TableCell>
+            <TableCell sx={{ minWidth: 140 }}>Contribution</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {explanation.contributions.map((contribution) => {
+            const unusual =
+              Math.abs(contribution.deviation) >= UNUSUAL_DEVIATION ||
+              Math.abs(contribution.peer?.deviation || 0) >= UNUSUAL_DEVIATION;
+            return (
+              <TableRow key={contribution.field}>
+                <TableCell sx={{ fontWeight: unusual ? 600 : undefined }}>{toFieldLabel(contribution.field)}</TableCell>
+                <TableCell align="right">{formatValue(contribution.value)}</TableCell>
+                <TableCell align="right">
+                  {contribution.kind === 'categorical'
+                    ? `${((contribution.frequency || 0) * 100).toFixed(1)}% of rows`
+                    : formatValue(contribution.typical)}
+                </TableCell>
+                <TableCell align="right" sx={{ color: unusual ? 'error.main' : undefined }}>
+                  {contribution.kind === 'categorical' ? contribution.deviation.toFixed(1) : formatDeviation(contribution.deviation)}
+                </TableCell>
+                <TableCell>
+                  {contribution.peer
+                    ? `${formatDeviation(contribution.peer.deviation)} vs ${formatValue(contribution.peer.typical)} for ${
+                        contribution.peer.group
+                      } "${contribution.peer.key}" (${contribution.peer.size} others)`
+                    : '-'}
+                </TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <LinearProgress
+                      variant="determinate"
+                      value={contribution.share * 100}
+                      color={unusual ? 'error' : 'primary'}
+                      sx={{ flexGrow: 1, height: 6, borderRadius: 3 }}
+                    />
+                    <Typography variant="caption">{(contribution.share * 100).toFixed(0)}%</Typography>
+                  </Box>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </TableContainer>
+    <Typography variant="caption" color="text.secondary">
+      Deviations are robust z-scores (distance from the median in robust standard deviations); categorical values are
+      scored on how rare they are. {UNUSUAL_DEVIATION} or more is unusual.
+    </Typography>
+  </Box>
+);
+
+export default AnomalyExplanationDetails;
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { AnomalyReview, AnomalyReviewStatus } from '../api/anomalyDetectionService';
+import { ANOMALY_REVIEW_STATUS_LABELS } from '../utils/anomalyReviews';
+
+interface AnomalyReviewDialogProps {
+  open: boolean;
+  /** Identifier or index of the reviewed result */
+  label: string;
+  score: number;
+  reason?: string;
+  review: AnomalyReview | null;
+  saving: boolean;
+  onSave: (status: AnomalyReviewStatus, note: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lets an analyst record whether a flagged result is a real issue, a false positive or needs follow-up
+ */
+const AnomalyReviewDialog: React.FC<AnomalyReviewDialogProps> = ({
+  open,
+  label,
+  score,
+  reason,
+  review,
+  saving,
+  onSave,
+  onClose,
+}) => {
+  const [status, setStatus] = useState<AnomalyReviewStatus>('confirmed');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setStatus(review?.status || 'confirmed');
+    setNote(review?.note || '');
+  }, [open, review]);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Review {label}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Score {score.toFixed(4)}
+          {reason ? ` — ${reason}` : ''}
+        </Typography>
+        {review?.reviewedAt && (
+          <Typography variant="caption" color="text.secondary" display="block" gutterBottom>
+            Last reviewed {new Date(review.reviewedAt).toLocaleString()}
+            {review.reviewedBy ? ` by ${review.reviewedBy}` : ''}
+          </Typography>
+        )}
+        <RadioGroup value={status} onChange={(e) => setStatus(e.target.value as AnomalyReviewStatus)} sx={{ my: 1 }}>
+          {(Object.keys(ANOMALY_REVIEW_STATUS_LABELS) as AnomalyReviewStatus[]).map((option) => (
+            <FormControlLabel key={option} value={option} control={<Radio />} label={ANOMALY_REVIEW_STATUS_LABELS[option]} />
+          ))}
+        </RadioGroup>
+        <TextField
+          fullWidth
+          label="Note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          multiline
+          rows={3}
+          placeholder="What was found, or what still needs checking"
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} variant="outlined">
+          Cancel
+        </Button>
+        <Button onClick={() => onSave(status, note.trim())} variant="contained" disabled={saving}>
+          {saving ? 'Saving...' : 'Save Review'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AnomalyReviewDialog;
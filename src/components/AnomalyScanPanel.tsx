@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { PlayArrow as RunIcon, Save as SaveIcon, Visibility as ViewIcon } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { AnomalyScanFrequency, AnomalyScanRun, AnomalyScanSchedule } from '../api/anomalyScanService';
+import { useXero } from '../contexts/XeroContext';
+import { useAnomalyScans } from '../hooks/useAnomalyScans';
+import { DAY_OF_WEEK_LABELS } from '../utils/anomalyDataset';
+import {
+  ANOMALY_SCAN_FREQUENCY_LABELS,
+  DEFAULT_ANOMALY_SCAN_SCHEDULE,
+  describeAnomalyScanAlert,
+  describeAnomalyScanSchedule,
+} from '../utils/anomalyScans';
+
+interface AnomalyScanPanelProps {
+  /** Name of the active model scans score with, or null when no model is active */
+  activeModelName: string | null;
+  onOpenRun: (runId: number) => void;
+}
+
+const getRunStatusColor = (run: AnomalyScanRun) => {
+  if (run.status === 'failed') return 'error';
+  if (run.status === 'running') return 'info';
+  return run.anomaliesDetected > 0 ? 'warning' : 'success';
+};
+
+/**
+ * Schedule for scanning new Xero transactions with the active model, and the history of scans
+ */
+const AnomalyScanPanel: React.FC<AnomalyScanPanelProps> = ({ activeModelName, onOpenRun }) => {
+  const { availableTenants, selectedTenant } = useXero();
+  const [page, setPage] = useState(1);
+  const {
+    schedule,
+    runs,
+    pagination,
+    scheduleLoading,
+    runsLoading,
+    isSavingSchedule,
+    isRunningScan,
+    saveSchedule,
+    runScan,
+  } = useAnomalyScans(page);
+  const [form, setForm] = useState<AnomalyScanSchedule>(DEFAULT_ANOMALY_SCAN_SCHEDULE);
+  const selectedTenantId = selectedTenant ? selectedTenant.tenantId || selectedTenant.id : '';
+
+  // Until a schedule is saved, the connected organization is scanned in the browser's time zone
+  useEffect(() => {
+    if (scheduleLoading) return;
+    setForm({
+      ...DEFAULT_ANOMALY_SCAN_SCHEDULE,
+      tenantId: selectedTenantId,
+      ...(schedule || {}),
+      timeZone: schedule?.timeZone || DEFAULT_ANOMALY_SCAN_SCHEDULE.timeZone,
+    });
+  }, [schedule, scheduleLoading, selectedTenantId]);
+
+  const update = (changes: Partial<AnomalyScanSchedule>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const handleSave = async () => {
+    if (form.enabled && !form.tenantId) {
+      toast.error('Choose the Xero organization to scan');
+      return;
+    }
+    if (form.enabled && !form.smsEnabled && !form.emailEnabled) {
+      toast.error('Turn on SMS or email alerts');
+      return;
+    }
+    try {
+      await saveSchedule({ ...form, appUrl: window.location.origin });
+      toast.success('Scan schedule saved');
+    } catch (err) {
+      toast.error('Failed to save scan schedule');
+    }
+  };
+
+  const handleRunNow = async () => {
+    try {
+      const run = await runScan();
+      toast.success(`Scan complete: ${run.anomaliesDetected} of ${run.transactionsScanned} transactions flagged`);
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'Failed to run scan');
+    }
+  };
+
+  return (
+    <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <Typography variant="h6" className="text-gray-800">
+          Scheduled Scans
+        </Typography>
+        <Button
+          startIcon={<RunIcon />}
+          onClick={handleRunNow}
+          disabled={isRunningScan || !schedule?.tenantId || !activeModelName}
+          variant="outlined"
+          size="small"
+        >
+          {isRunningScan ? 'Scanning...' : 'Run Now'}
+        </Button>
+      </div>
+
+      {!activeModelName && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Scans score with the active model. Activate a trained model before scheduling scans.
+        </Alert>
+      )}
+
+      {scheduleLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Each scan scores the Xero transactions added or changed since the previous scan
+            {activeModelName ? ` with "${activeModelName}"` : ''}, and sends an alert when it finds{' '}
+            {describeAnomalyScanAlert(form)}. Alerts use the SMS and email providers in notification settings and
+            link back to the flagged transactions.
+          </Typography>
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: 'repeat(3, 1fr)' }, gap: 2 }}>
+            <FormControlLabel
+              control={<Switch checked={form.enabled} onChange={(e) => update({ enabled: e.target.checked })} />}
+              label={form.enabled ? describeAnomalyScanSchedule(form) : 'Scheduled scans off'}
+            />
+            <FormControl size="small" fullWidth>
+              <InputLabel>Organization</InputLabel>
+              <Select value={form.tenantId} label="Organization" onChange={(e) => update({ tenantId: e.target.value })}>
+                {availableTenants.map((tenant) => (
+                  <MenuItem key={tenant.tenantId || tenant.id} value={tenant.tenantId || tenant.id}>
+                    {tenant.name || tenant.organizationName}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <FormControl size="small" fullWidth>
+                <InputLabel>Frequency</InputLabel>
+                <Select
+                  value={form.frequency}
+                  label="Frequency"
+                  onChange={(e) => update({ frequency: e.target.value as AnomalyScanFrequency })}
+                >
+                  {(Object.keys(ANOMALY_SCAN_FREQUENCY_LABELS) as AnomalyScanFrequency[]).map((option) => (
+                    <MenuItem key={option} value={option}>
+                      {ANOMALY_SCAN_FREQUENCY_LABELS[option]}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              {form.frequency === 'weekly' && (
+                <FormControl size="small" fullWidth>
+                  <InputLabel>Day</InputLabel>
+                  <Select
+                    value={form.dayOfWeek}
+                    label="Day"
+                    onChange={(e) => update({ dayOfWeek: Number(e.target.value) })}
+                  >
+                    {DAY_OF_WEEK_LABELS.map((label, index) => (
+                      <MenuItem key={label} value={index}>
+                        {label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+              <TextField
+                size="small"
+                type="time"
+                label="Time"
+                value={form.runAt}
+                onChange={(e) => update({ runAt: e.target.value })}
+                helperText={form.timeZone}
+                InputLabelProps={{ shrink: true }}
+                fullWidth
+              />
+            </Box>
+            <TextField
+              size="small"
+              type="number"
+              label="Alert at flagged transactions"
+              value={form.alertMinAnomalies}
+              onChange={(e) => update({ alertMinAnomalies: Math.max(1, Math.round(Number(e.target.value) || 1)) })}
+              inputProps={{ min: 1 }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Alert at score (optional)"
+              value={form.alertMinScore ?? ''}
+              onChange={(e) =>
+                update({ alertMinScore: e.target.value === '' ? null : Math.min(1, Math.max(0, Number(e.target.value))) })
+              }
+              inputProps={{ min: 0, max: 1, step: 0.05 }}
+            />
+            <Box />
+            <Box>
+              <FormControlLabel
+                control={<Switch checked={form.smsEnabled} onChange={(e) => update({ smsEnabled: e.target.checked })} />}
+                label="SMS alerts"
+              />
+              {form.smsEnabled && (
+                <TextField
+                  size="small"
+                  label="Phone number"
+                  value={form.phoneNumber || ''}
+                  onChange={(e) => update({ phoneNumber: e.target.value })}
+                  placeholder="Company phone number"
+                  fullWidth
+                />
+              )}
+            </Box>
+            <Box>
+              <FormControlLabel
+                control={<Switch checked={form.emailEnabled} onChange={(e) => update({ emailEnabled: e.target.checked })} />}
+                label="Email alerts"
+              />
+              {form.emailEnabled && (
+                <TextField
+                  size="small"
+                  label="Email address"
+                  value={form.emailAddress || ''}
+                  onChange={(e) => update({ emailAddress: e.target.value })}
+                  placeholder="Company email address"
+                  fullWidth
+                />
+              )}
+            </Box>
+            <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'flex-end' }}>
+              <Button variant="contained" startIcon={<SaveIcon />} onClick={handleSave} disabled={isSavingSchedule}>
+                {isSavingSchedule ? 'Saving...' : 'Save Schedule'}
+              </Button>
+            </Box>
+          </Box>
+          {schedule?.enabled && (
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+              {schedule.lastRunAt ? `Last scan ${new Date(schedule.lastRunAt).toLocaleString()}. ` : ''}
+              {schedule.nextRunAt ? `Next scan ${new Date(schedule.nextRunAt).toLocaleString()}.` : ''}
+            </Typography>
+          )}
+        </>
+      )}
+
+      <Typography variant="subtitle1" sx={{ mt: 3, mb: 1 }}>
+        Scan History
+      </Typography>
+      {runsLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress />
+        </Box>
+      ) : runs.length === 0 ? (
+        <Alert severity="info">No scans yet.</Alert>
+      ) : (
+        <>
+          <TableContainer component={Paper} className="shadow-sm">
+            <Table size="small">
+              <TableHead>
+                <TableRow className="bg-gray-50">
+                  <TableCell className="font-semibold">Started</TableCell>
+                  <TableCell className="font-semibold">Trigger</TableCell>
+                  <TableCell className="font-semibold">Period</TableCell>
+                  <TableCell className="font-semibold" align="right">Scanned</TableCell>
+                  <TableCell className="font-semibold" align="right">Flagged</TableCell>
+                  <TableCell className="font-semibold" align="right">Top Score</TableCell>
+                  <TableCell className="font-semibold">Alert</TableCell>
+                  <TableCell className="font-semibold">Status</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id} className="hover:bg-gray-50">
+                    <TableCell>{new Date(run.startedAt).toLocaleString()}</TableCell>
+                    <TableCell>{run.trigger === 'schedule' ? 'Scheduled' : 'Manual'}</TableCell>
+                    <TableCell>
+                      {run.fromDate} to {run.toDate}
+                    </TableCell>
+                    <TableCell align="right">{run.transactionsScanned}</TableCell>
+                    <TableCell align="right">{run.anomaliesDetected}</TableCell>
+                    <TableCell align="right" className="font-mono">
+                      {run.maxScore !== null ? run.maxScore.toFixed(4) : '-'}
+                    </TableCell>
+                    <TableCell>{run.alertSent ? run.alertChannels.join(', ') : '-'}</TableCell>
+                    <TableCell>
+                      <Chip label={run.status} color={getRunStatusColor(run)} size="small" />
+                    </TableCell>
+                    <TableCell>
+                      <Button size="small" startIcon={<ViewIcon />} onClick={() => onOpenRun(run.id)}>
+                        View
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          {pagination && pagination.pages > 1 && (
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: 1, mt: 1 }}>
+              <Button size="small" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <Typography variant="caption">
+                Page {page} of {pagination.pages}
+              </Typography>
+              <Button size="small" disabled={page >= pagination.pages} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </Box>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnomalyScanPanel;
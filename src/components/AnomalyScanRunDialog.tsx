@@ -0,0 +1,127 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Link,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { OpenInNew as OpenIcon } from '@mui/icons-material';
+import { useAnomalyScanRun } from '../hooks/useAnomalyScans';
+import { ANOMALY_SOURCE_LABELS } from '../utils/anomalyDataset';
+import { getXeroTransactionUrl } from '../utils/basGstCoding';
+
+interface AnomalyScanRunDialogProps {
+  /** Scan to show; the dialog is closed while null */
+  runId: string | null;
+  onClose: () => void;
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-AU', { style: 'currency', currency: 'AUD' });
+
+/**
+ * The transactions a scheduled or manual scan flagged, with links to open them in Xero
+ */
+const AnomalyScanRunDialog: React.FC<AnomalyScanRunDialogProps> = ({ runId, onClose }) => {
+  const { data: run, isLoading, error } = useAnomalyScanRun(runId);
+
+  return (
+    <Dialog open={Boolean(runId)} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle className="bg-gradient-to-r from-purple-500 to-purple-600 text-white">
+        Anomaly Scan{run ? ` — ${new Date(run.startedAt).toLocaleString()}` : ''}
+      </DialogTitle>
+      <DialogContent className="pt-6">
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : error || !run ? (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            The scan could not be loaded. It may belong to another company.
+          </Alert>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 2, mb: 2 }}>
+              <Chip label={`${run.fromDate} to ${run.toDate}`} />
+              <Chip label={`Model: ${run.modelName || run.modelId || 'Active model'}`} />
+              <Chip label={`${run.transactionsScanned} scanned`} />
+              <Chip label={`${run.anomaliesDetected} flagged`} color={run.anomaliesDetected ? 'error' : 'success'} />
+              {run.alertSent && <Chip label={`Alert sent by ${run.alertChannels.join(' and ')}`} color="warning" />}
+            </Box>
+            {run.status === 'failed' && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {run.error || 'The scan failed.'}
+              </Alert>
+            )}
+            {run.flagged.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No transactions were flagged.
+              </Typography>
+            ) : (
+              <TableContainer component={Paper} className="shadow-sm">
+                <Table size="small">
+                  <TableHead>
+                    <TableRow className="bg-gray-50">
+                      <TableCell className="font-semibold">Date</TableCell>
+                      <TableCell className="font-semibold">Type</TableCell>
+                      <TableCell className="font-semibold">Reference</TableCell>
+                      <TableCell className="font-semibold">Contact</TableCell>
+                      <TableCell className="font-semibold" align="right">Amount</TableCell>
+                      <TableCell className="font-semibold" align="right">Score</TableCell>
+                      <TableCell className="font-semibold">Xero</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {[...run.flagged]
+                      .sort((a, b) => b.score - a.score)
+                      .map((flag) => (
+                        <TableRow key={flag.transactionId} className="hover:bg-gray-50">
+                          <TableCell>{flag.date}</TableCell>
+                          <TableCell>{ANOMALY_SOURCE_LABELS[flag.source]}</TableCell>
+                          <TableCell>{flag.reference || '-'}</TableCell>
+                          <TableCell>{flag.contactName || '-'}</TableCell>
+                          <TableCell align="right">{formatAmount(flag.amount)}</TableCell>
+                          <TableCell align="right" className="font-mono">{flag.score.toFixed(4)}</TableCell>
+                          <TableCell>
+                            <Link
+                              href={getXeroTransactionUrl(flag)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}
+                            >
+                              Open <OpenIcon fontSize="inherit" />
+                            </Link>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions className="p-4">
+        <Button onClick={onClose} variant="contained">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AnomalyScanRunDialog;
@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { CloudDownload as BuildIcon } from '@mui/icons-material';
+import { useXero } from '../contexts/XeroContext';
+import { useXeroAnomalyDataset } from '../hooks/useXeroAnomalyDataset';
+import {
+  ANOMALY_SOURCE_LABELS,
+  AnomalyDatasetRecord,
+  AnomalySourceType,
+  DAY_OF_WEEK_LABELS,
+} from '../utils/anomalyDataset';
+import { toISODate } from '../utils/xeroRecords';
+
+interface AnomalyXeroDatasetDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onUseDataset: (records: AnomalyDatasetRecord[]) => void;
+}
+
+// Only the first rows are previewed; the whole dataset is used for training
+const PREVIEW_ROWS = 100;
+
+const getDefaultFromDate = () => {
+  const date = new Date();
+  date.setMonth(date.getMonth() - 3);
+  return toISODate(date);
+};
+
+const AnomalyXeroDatasetDialog: React.FC<AnomalyXeroDatasetDialogProps> = ({ open, onClose, onUseDataset }) => {
+  const { availableTenants, selectedTenant } = useXero();
+  const { buildDataset, isBuilding, error, reset } = useXeroAnomalyDataset();
+  const [tenantId, setTenantId] = useState('');
+  const [fromDate, setFromDate] = useState(getDefaultFromDate);
+  const [toDate, setToDate] = useState(() => toISODate(new Date()));
+  const [records, setRecords] = useState<AnomalyDatasetRecord[] | null>(null);
+
+  useEffect(() => {
+    if (!tenantId && selectedTenant) {
+      setTenantId(selectedTenant.tenantId || selectedTenant.id);
+    }
+  }, [selectedTenant, tenantId]);
+
+  const handleBuild = async () => {
+    setRecords(null);
+    try {
+      setRecords(await buildDataset({ tenantId, fromDate, toDate }));
+    } catch (buildError) {
+      console.error('❌ Error building anomaly dataset from Xero:', buildError);
+    }
+  };
+
+  const handleClose = () => {
+    setRecords(null);
+    reset();
+    onClose();
+  };
+
+  const handleUse = () => {
+    if (!records) return;
+    onUseDataset(records);
+    handleClose();
+  };
+
+  const sourceCounts = (records || []).reduce<Partial<Record<AnomalySourceType, number>>>((counts, record) => {
+    counts[record.sourceType] = (counts[record.sourceType] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
+      <DialogTitle className="bg-gradient-to-r from-blue-500 to-blue-600 text-white">
+        Build Dataset from Xero
+      </DialogTitle>
+      <DialogContent className="pt-6">
+        {availableTenants.length === 0 ? (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            Connect to Xero to build a dataset from your invoices, bills and bank transactions.
+          </Alert>
+        ) : (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mt: 2, mb: 2 }}>
+            <FormControl size="small" sx={{ minWidth: 260 }}>
+              <InputLabel>Organization</InputLabel>
+              <Select value={tenantId} label="Organization" onChange={(e) => setTenantId(e.target.value)}>
+                {availableTenants.map((tenant) => (
+                  <MenuItem key={tenant.tenantId || tenant.id} value={tenant.tenantId || tenant.id}>
+                    {tenant.name || tenant.organizationName}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              size="small"
+              type="date"
+              label="From"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              size="small"
+              type="date"
+              label="To"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <Button
+              variant="contained"
+              startIcon={<BuildIcon />}
+              onClick={handleBuild}
+              disabled={!tenantId || !fromDate || !toDate || fromDate > toDate || isBuilding}
+            >
+              {isBuilding ? 'Loading...' : 'Build Dataset'}
+            </Button>
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {records && records.length === 0 && (
+          <Alert severity="warning">No invoices, bills or bank transactions were found in Xero for this period.</Alert>
+        )}
+
+        {records && records.length > 0 && (
+          <>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Typography variant="subtitle2">{records.length} transactions</Typography>
+              {(Object.keys(sourceCounts) as AnomalySourceType[]).map((sourceType) => (
+                <Chip key={sourceType} size="small" label={`${ANOMALY_SOURCE_LABELS[sourceType]}: ${sourceCounts[sourceType]}`} />
+              ))}
+            </Box>
+            <TableContainer component={Paper} sx={{ maxHeight: 420 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell>Reference</TableCell>
+                    <TableCell>Contact</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                    <TableCell>Day</TableCell>
+                    <TableCell align="right">Contact Frequency</TableCell>
+                    <TableCell>Account</TableCell>
+                    <TableCell>Tax Type</TableCell>
+                    <TableCell align="right">Days to Pay</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {records.slice(0, PREVIEW_ROWS).map((record) => (
+                    <TableRow key={`${record.sourceType}-${record.id}`}>
+                      <TableCell>{record.date}</TableCell>
+                      <TableCell>{ANOMALY_SOURCE_LABELS[record.sourceType]}</TableCell>
+                      <TableCell>{record.reference || '-'}</TableCell>
+                      <TableCell>{record.contactName || '-'}</TableCell>
+                      <TableCell align="right">${record.features.amount.toFixed(2)}</TableCell>
+                      <TableCell>{DAY_OF_WEEK_LABELS[record.features.dayOfWeek]}</TableCell>
+                      <TableCell align="right">{record.features.contactFrequency}</TableCell>
+                      <TableCell>{record.features.accountCode}</TableCell>
+                      <TableCell>{record.features.taxType}</TableCell>
+                      <TableCell align="right">{record.features.daysToPay}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            {records.length > PREVIEW_ROWS && (
+              <Typography variant="caption" color="text.secondary">
+                Showing the first {PREVIEW_ROWS} of {records.length} transactions
+              </Typography>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions className="p-4">
+        <Button onClick={handleClose} variant="outlined">
+          Cancel
+        </Button>
+        <Button onClick={handleUse} variant="contained" disabled={!records || records.length === 0}>
+          Use Dataset
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AnomalyXeroDatasetDialog;
@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { BASAdjustment, BASAdjustmentKind, BASAdjustmentLogEntry } from '../api/basRecordService';
+import { BASAdjustedLabel, getAdjustmentGst, OVERRIDABLE_LABELS } from '../utils/basAdjustments';
+
+export type BASAdjustmentDraft = Pick<BASAdjustment, 'kind' | 'label' | 'amount' | 'reason' | 'attachmentReference'>;
+
+interface BASAdjustmentsPanelProps {
+  adjustments: BASAdjustment[];
+  adjustmentLog: BASAdjustmentLogEntry[];
+  changes: BASAdjustedLabel[];
+  /** Overrides that could not be applied */
+  warnings: string[];
+  readOnly: boolean;
+  onAdd: (adjustment: BASAdjustmentDraft) => void;
+  onRemove: (id: string) => void;
+}
+
+const KIND_LABELS: Record<BASAdjustmentKind, string> = {
+  G7: 'Increasing adjustment (G7)',
+  G18: 'Decreasing adjustment (G18)',
+  Override: 'Override a label',
+};
+
+const EMPTY_DRAFT = { kind: 'G7' as BASAdjustmentKind, label: 'G1', amount: '', reason: '', attachmentReference: '' };
+
+const formatValue = (value: number | string | null) =>
+  typeof value === 'number' ? `$${value.toFixed(2)}` : value === null || value === '' ? '-' : value;
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('en-AU');
+
+const BASAdjustmentsPanel: React.FC<BASAdjustmentsPanelProps> = ({
+  adjustments,
+  adjustmentLog,
+  changes,
+  warnings,
+  readOnly,
+  onAdd,
+  onRemove,
+}) => {
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+
+  const amount = parseFloat(draft.amount);
+  const canAdd = Number.isFinite(amount) && (draft.kind === 'Override' || amount > 0) && draft.reason.trim() !== '';
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd({
+      kind: draft.kind,
+      label: draft.kind === 'Override' ? draft.label : draft.kind,
+      amount,
+      reason: draft.reason.trim(),
+      attachmentReference: draft.attachmentReference.trim() || undefined,
+    });
+    setDraft({ ...EMPTY_DRAFT, kind: draft.kind, label: draft.label });
+  };
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Adjustments
+      </Typography>
+
+      {readOnly && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Adjustments can only be changed while the BAS is a draft.
+        </Alert>
+      )}
+
+      {warnings.map((warning) => (
+        <Alert key={warning} severity="warning" sx={{ mb: 2 }}>
+          {warning}
+        </Alert>
+      ))}
+
+      {!readOnly && (
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', md: '2fr 1fr 1fr 2fr 1.5fr auto' },
+            gap: 1,
+            alignItems: 'start',
+            mb: 2,
+          }}
+        >
+          <FormControl size="small" fullWidth>
+            <InputLabel>Type</InputLabel>
+            <Select
+              value={draft.kind}
+              label="Type"
+              onChange={(e) => setDraft({ ...draft, kind: e.target.value as BASAdjustmentKind })}
+            >
+              {(Object.keys(KIND_LABELS) as BASAdjustmentKind[]).map((kind) => (
+                <MenuItem key={kind} value={kind}>{KIND_LABELS[kind]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" fullWidth disabled={draft.kind !== 'Override'}>
+            <InputLabel>Label</InputLabel>
+            <Select
+              value={draft.kind === 'Override' ? draft.label : draft.kind}
+              label="Label"
+              onChange={(e) => setDraft({ ...draft, label: String(e.target.value) })}
+            >
+              {(draft.kind === 'Override' ? OVERRIDABLE_LABELS : [draft.kind]).map((label) => (
+                <MenuItem key={label} value={label}>{label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            type="number"
+            label={draft.kind === 'Override' ? 'Value' : 'Amount (incl. GST)'}
+            value={draft.amount}
+            onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+            helperText={
+              draft.kind !== 'Override'
+                ? Number.isFinite(amount) ? `GST $${getAdjustmentGst(amount).toFixed(2)}` : ' '
+                : ['1A', '1B'].includes(draft.label) ? 'G7/G18 GST is added on top' : ' '
+            }
+            inputProps={{ step: '0.01', style: { textAlign: 'right' } }}
+          />
+          <TextField
+            size="small"
+            label="Reason"
+            value={draft.reason}
+            onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+            required
+          />
+          <TextField
+            size="small"
+            label="Attachment reference"
+            value={draft.attachmentReference}
+            onChange={(e) => setDraft({ ...draft, attachmentReference: e.target.value })}
+          />
+          <Button variant="outlined" startIcon={<AddIcon />} onClick={handleAdd} disabled={!canAdd}>
+            Add
+          </Button>
+        </Box>
+      )}
+
+      {adjustments.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No adjustments recorded. The figures above are reported as calculated from Xero.
+        </Typography>
+      ) : (
+        <TableContainer component={Paper} sx={{ mb: 2 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Label</TableCell>
+                <TableCell align="right">Amount</TableCell>
+                <TableCell>Reason</TableCell>
+                <TableCell>Attachment</TableCell>
+                <TableCell>Added</TableCell>
+                {!readOnly && <TableCell />}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {adjustments.map((adjustment) => (
+                <TableRow key={adjustment.id}>
+                  <TableCell>{adjustment.kind === 'Override' ? `${adjustment.label} (override)` : adjustment.label}</TableCell>
+                  <TableCell align="right">${adjustment.amount.toFixed(2)}</TableCell>
+                  <TableCell>{adjustment.reason}</TableCell>
+                  <TableCell>{adjustment.attachmentReference || '-'}</TableCell>
+                  <TableCell>{`${adjustment.createdBy} · ${formatDateTime(adjustment.createdAt)}`}</TableCell>
+                  {!readOnly && (
+                    <TableCell align="right">
+                      <Tooltip title="Remove adjustment">
+                        <IconButton size="small" onClick={() => onRemove(adjustment.id)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {changes.length > 0 && (
+        <TableContainer component={Paper} sx={{ mb: 2 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Adjusted Label</TableCell>
+                <TableCell align="right">Calculated</TableCell>
+                <TableCell align="right">Reported</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {changes.map((change) => (
+                <TableRow key={change.label}>
+                  <TableCell>{change.label}</TableCell>
+                  <TableCell align="right">{formatValue(change.calculated)}</TableCell>
+                  <TableCell align="right"><strong>{formatValue(change.adjusted)}</strong></TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {adjustmentLog.length > 0 && (
+        <>
+          <Typography variant="subtitle2">Audit Trail</Typography>
+          <List dense>
+            {adjustmentLog.map((entry, index) => (
+              <ListItem key={`${entry.adjustment.id}-${entry.action}-${index}`} disableGutters>
+                <ListItemText
+                  primary={`${entry.action} ${entry.adjustment.label} $${entry.adjustment.amount.toFixed(2)} — ${entry.adjustment.reason}`}
+                  secondary={`${entry.changedBy} · ${formatDateTime(entry.changedAt)}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default BASAdjustmentsPanel;
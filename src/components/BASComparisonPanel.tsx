@@ -0,0 +1,138 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Warning as WarningIcon } from '@mui/icons-material';
+import {
+  BASComparisonChange,
+  BASComparisonColumn,
+  BASComparisonRow,
+  DEFAULT_SWING_THRESHOLDS,
+} from '../utils/basComparison';
+
+interface BASComparisonPanelProps {
+  rows: BASComparisonRow[];
+  previousPeriod: BASComparisonColumn | null;
+  lastYear: BASComparisonColumn | null;
+  loading: boolean;
+}
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const formatPercent = (value: number | null) =>
+  value === null ? 'n/a' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const SOURCE_LABELS: Record<BASComparisonColumn['source'], string> = {
+  lodged: 'lodged BAS',
+  xero: 'Xero',
+};
+
+const ChangeCells: React.FC<{ change: BASComparisonChange | null }> = ({ change }) => {
+  if (!change) {
+    return (
+      <>
+        <TableCell align="right">-</TableCell>
+        <TableCell align="right">-</TableCell>
+        <TableCell align="right">-</TableCell>
+      </>
+    );
+  }
+
+  const highlight = change.unusual ? { backgroundColor: 'warning.light' } : undefined;
+  return (
+    <>
+      <TableCell align="right">{formatCurrency(change.value)}</TableCell>
+      <TableCell align="right" sx={highlight}>{formatCurrency(change.delta)}</TableCell>
+      <TableCell align="right" sx={highlight}>
+        <Box sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}>
+          {change.unusual && (
+            <Tooltip title="Unusual swing - check before lodging">
+              <WarningIcon fontSize="small" color="warning" />
+            </Tooltip>
+          )}
+          {formatPercent(change.percentChange)}
+        </Box>
+      </TableCell>
+    </>
+  );
+};
+
+const BASComparisonPanel: React.FC<BASComparisonPanelProps> = ({ rows, previousPeriod, lastYear, loading }) => {
+  const unusualCount = rows.filter((row) => row.previousPeriod?.unusual || row.lastYear?.unusual).length;
+  const columnHeading = (column: BASComparisonColumn | null, fallback: string) =>
+    column ? `${column.label} (${SOURCE_LABELS[column.source]})` : fallback;
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Period Comparison
+      </Typography>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 2 }}>
+          <CircularProgress size={20} />
+          <Typography variant="body2" color="text.secondary">Calculating comparison periods...</Typography>
+        </Box>
+      ) : (
+        <>
+          {[previousPeriod, lastYear].map((column) =>
+            column?.error ? (
+              <Alert key={column.label} severity="warning" sx={{ mb: 2 }}>
+                {column.label} could not be calculated: {column.error}
+              </Alert>
+            ) : null
+          )}
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell rowSpan={2}>Label</TableCell>
+                  <TableCell rowSpan={2} align="right">Current</TableCell>
+                  <TableCell colSpan={3} align="center">{columnHeading(previousPeriod, 'Previous period')}</TableCell>
+                  <TableCell colSpan={3} align="center">{columnHeading(lastYear, 'Same period last year')}</TableCell>
+                </TableRow>
+                <TableRow>
+                  {[0, 1].map((index) => (
+                    <React.Fragment key={index}>
+                      <TableCell align="right">Amount</TableCell>
+                      <TableCell align="right">Change</TableCell>
+                      <TableCell align="right">%</TableCell>
+                    </React.Fragment>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.label}>
+                    <TableCell>{row.description}</TableCell>
+                    <TableCell align="right">{formatCurrency(row.current)}</TableCell>
+                    <ChangeCells change={row.previousPeriod} />
+                    <ChangeCells change={row.lastYear} />
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            Swings of more than {DEFAULT_SWING_THRESHOLDS.percent}% and at least $
+            {DEFAULT_SWING_THRESHOLDS.amount.toLocaleString()}, and net GST moving between payable and refundable,
+            are flagged.{unusualCount > 0 ? ` ${unusualCount} label(s) flagged.` : ''}
+          </Typography>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default BASComparisonPanel;
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { OpenInNew as OpenInNewIcon } from '@mui/icons-material';
+import {
+  GST_CODING_RULE_LABELS,
+  GstCodingException,
+  GstCodingRule,
+  GstCodingSeverity,
+  getXeroTransactionUrl,
+} from '../utils/basGstCoding';
+
+interface BASGstCodingPanelProps {
+  exceptions: GstCodingException[];
+}
+
+const SOURCE_LABELS: Record<GstCodingException['source'], string> = {
+  invoice: 'Invoice',
+  bill: 'Bill',
+  bankTransaction: 'Bank transaction',
+};
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const BASGstCodingPanel: React.FC<BASGstCodingPanelProps> = ({ exceptions }) => {
+  const [ruleFilter, setRuleFilter] = useState<GstCodingRule | 'all'>('all');
+  const [severityFilter, setSeverityFilter] = useState<GstCodingSeverity | 'all'>('all');
+  const [search, setSearch] = useState('');
+
+  const ruleCounts = useMemo(() => {
+    const counts = new Map<GstCodingRule, number>();
+    exceptions.forEach((exception) => counts.set(exception.rule, (counts.get(exception.rule) || 0) + 1));
+    return counts;
+  }, [exceptions]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return exceptions.filter((exception) => {
+      if (ruleFilter !== 'all' && exception.rule !== ruleFilter) return false;
+      if (severityFilter !== 'all' && exception.severity !== severityFilter) return false;
+      if (!term) return true;
+      return [exception.contactName, exception.reference, exception.description, exception.accountCode, exception.accountName, exception.taxType]
+        .some((value) => String(value || '').toLowerCase().includes(term));
+    });
+  }, [exceptions, ruleFilter, severityFilter, search]);
+
+  const errorCount = exceptions.filter((exception) => exception.severity === 'error').length;
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        GST Coding Check
+      </Typography>
+
+      {exceptions.length === 0 ? (
+        <Alert severity="success">No likely GST miscoding was found on the transactions in this period.</Alert>
+      ) : (
+        <>
+          <Alert severity={errorCount > 0 ? 'error' : 'warning'} sx={{ mb: 2 }}>
+            {exceptions.length} line(s) may be miscoded
+            {errorCount > 0 ? `, ${errorCount} of which claim or charge GST that should not apply` : ''}. Correct the
+            coding in Xero and recalculate before preparing the BAS.
+          </Alert>
+
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: '1fr', md: '2fr 1fr 2fr' },
+              gap: 1,
+              mb: 2,
+            }}
+          >
+            <FormControl size="small" fullWidth>
+              <InputLabel>Check</InputLabel>
+              <Select
+                value={ruleFilter}
+                label="Check"
+                onChange={(e) => setRuleFilter(e.target.value as GstCodingRule | 'all')}
+              >
+                <MenuItem value="all">All checks ({exceptions.length})</MenuItem>
+                {(Object.keys(GST_CODING_RULE_LABELS) as GstCodingRule[]).map((rule) => (
+                  <MenuItem key={rule} value={rule} disabled={!ruleCounts.has(rule)}>
+                    {GST_CODING_RULE_LABELS[rule]} ({ruleCounts.get(rule) || 0})
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" fullWidth>
+              <InputLabel>Severity</InputLabel>
+              <Select
+                value={severityFilter}
+                label="Severity"
+                onChange={(e) => setSeverityFilter(e.target.value as GstCodingSeverity | 'all')}
+              >
+                <MenuItem value="all">All</MenuItem>
+                <MenuItem value="error">Errors</MenuItem>
+                <MenuItem value="warning">Warnings</MenuItem>
+              </Select>
+            </FormControl>
+            <TextField
+              size="small"
+              label="Search contact, reference or account"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </Box>
+
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Check</TableCell>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Transaction</TableCell>
+                  <TableCell>Contact</TableCell>
+                  <TableCell>Account</TableCell>
+                  <TableCell>Tax Type</TableCell>
+                  <TableCell>Detail</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                  <TableCell align="right">GST</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {filtered.map((exception, index) => (
+                  <TableRow key={`${exception.transactionId}-${exception.rule}-${index}`}>
+                    <TableCell>
+                      <Chip
+                        label={GST_CODING_RULE_LABELS[exception.rule]}
+                        color={exception.severity === 'error' ? 'error' : 'warning'}
+                        size="small"
+                        variant="outlined"
+                      />
+                    </TableCell>
+                    <TableCell>{exception.date ? String(exception.date).slice(0, 10) : '-'}</TableCell>
+                    <TableCell>
+                      {SOURCE_LABELS[exception.source]}
+                      {exception.reference ? ` ${exception.reference}` : ''}
+                    </TableCell>
+                    <TableCell>{exception.contactName || '-'}</TableCell>
+                    <TableCell>
+                      {exception.accountCode || '-'}
+                      {exception.accountName ? ` ${exception.accountName}` : ''}
+                    </TableCell>
+                    <TableCell>
+                      {exception.taxType}
+                      {exception.expectedTaxType && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          Expected {exception.expectedTaxType}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{exception.detail}</TableCell>
+                    <TableCell align="right">{formatCurrency(exception.amount)}</TableCell>
+                    <TableCell align="right">{formatCurrency(exception.gst)}</TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Open in Xero">
+                        <IconButton
+                          size="small"
+                          component="a"
+                          href={getXeroTransactionUrl(exception)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          <OpenInNewIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {filtered.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={10} align="center">
+                      <Typography variant="body2" color="text.secondary">
+                        No exceptions match the filters.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default BASGstCodingPanel;
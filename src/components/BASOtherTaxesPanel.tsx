@@ -0,0 +1,300 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon, Save as SaveIcon } from '@mui/icons-material';
+import { BASOtherTaxLabel, BASOtherTaxSettings } from '../api/companyService';
+import { XeroAccount } from '../integrations/xero/types';
+import {
+  BASOtherTaxes,
+  formatFuelTaxRatePeriod,
+  FUEL_TAX_ACTIVITY_LABELS,
+  FuelTaxActivity,
+  FuelTaxCreditLine,
+  FuelTaxRatePeriod,
+  getOtherTaxesNetPayable,
+  OTHER_TAX_LABELS,
+} from '../utils/basOtherTaxes';
+
+interface BASOtherTaxesPanelProps {
+  otherTaxes: BASOtherTaxes;
+  settings: BASOtherTaxSettings;
+  settingsChanged: boolean;
+  savingSettings: boolean;
+  accounts: XeroAccount[];
+  ratePeriods: FuelTaxRatePeriod[];
+  /** Shown when the BAS period falls outside the fuel tax credit rate table */
+  rateWarning: string | null;
+  fuelTaxCreditLines: FuelTaxCreditLine[];
+  readOnly: boolean;
+  onSettingsChange: (settings: BASOtherTaxSettings) => void;
+  onSaveSettings: () => void;
+  onFuelTaxCreditLinesChange: (lines: FuelTaxCreditLine[]) => void;
+}
+
+const SECTIONS: { key: 'fuelTaxCredits' | 'wineEqualisationTax' | 'luxuryCarTax'; title: string; labels: BASOtherTaxLabel[] }[] = [
+  { key: 'fuelTaxCredits', title: 'Fuel tax credits', labels: ['7D'] },
+  { key: 'wineEqualisationTax', title: 'Wine equalisation tax', labels: ['1C', '1D'] },
+  { key: 'luxuryCarTax', title: 'Luxury car tax', labels: ['1E', '1F'] },
+];
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const BASOtherTaxesPanel: React.FC<BASOtherTaxesPanelProps> = ({
+  otherTaxes,
+  settings,
+  settingsChanged,
+  savingSettings,
+  accounts,
+  ratePeriods,
+  rateWarning,
+  fuelTaxCreditLines,
+  readOnly,
+  onSettingsChange,
+  onSaveSettings,
+  onFuelTaxCreditLinesChange,
+}) => {
+  const enabledSections = SECTIONS.filter((section) => settings[section.key]);
+  const activeAccounts = accounts.filter((account) => account.Code && account.Status !== 'ARCHIVED');
+
+  const handleMappingChange = (label: BASOtherTaxLabel, codes: string[]) => {
+    onSettingsChange({ ...settings, accountMappings: { ...settings.accountMappings, [label]: codes } });
+  };
+
+  const handleLineChange = (id: string, changes: Partial<FuelTaxCreditLine>) => {
+    onFuelTaxCreditLinesChange(fuelTaxCreditLines.map((line) => (line.id === id ? { ...line, ...changes } : line)));
+  };
+
+  const handleAddLine = () => {
+    onFuelTaxCreditLinesChange([
+      ...fuelTaxCreditLines,
+      {
+        id: `${Date.now()}-${fuelTaxCreditLines.length}`,
+        activity: 'offRoad',
+        ratePeriodId: ratePeriods[ratePeriods.length - 1]?.id || '',
+        litres: 0,
+      },
+    ]);
+  };
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+        <Typography variant="h6">Fuel Tax Credits, WET and LCT</Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
+          {SECTIONS.map((section) => (
+            <FormControlLabel
+              key={section.key}
+              control={
+                <Switch
+                  size="small"
+                  checked={settings[section.key]}
+                  onChange={(e) => onSettingsChange({ ...settings, [section.key]: e.target.checked })}
+                />
+              }
+              label={section.title}
+            />
+          ))}
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<SaveIcon />}
+            onClick={onSaveSettings}
+            disabled={!settingsChanged || savingSettings}
+          >
+            {savingSettings ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </Box>
+      </Box>
+
+      {enabledSections.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Switch on the sections that apply to this company to report fuel tax credits (7D), wine equalisation
+          tax (1C/1D) or luxury car tax (1E/1F).
+        </Typography>
+      ) : (
+        <>
+          <TableContainer component={Paper} sx={{ mb: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Label</TableCell>
+                  <TableCell>Xero Accounts</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {enabledSections.flatMap((section) => section.labels).map((label) => {
+                  const fromCalculator = label === '7D' && otherTaxes.fuelTaxCreditSource === 'calculator';
+                  return (
+                    <TableRow key={label}>
+                      <TableCell>{OTHER_TAX_LABELS[label]} ({label})</TableCell>
+                      <TableCell sx={{ minWidth: 260 }}>
+                        <FormControl size="small" fullWidth>
+                          <InputLabel>Accounts</InputLabel>
+                          <Select
+                            multiple
+                            value={settings.accountMappings[label] || []}
+                            label="Accounts"
+                            onChange={(e) => {
+                              const value = e.target.value;
+                              handleMappingChange(label, typeof value === 'string' ? value.split(',') : value);
+                            }}
+                            renderValue={(selected) => (selected as string[]).join(', ')}
+                          >
+                            {activeAccounts.map((account) => (
+                              <MenuItem key={account.Code} value={account.Code}>
+                                {account.Code} {account.Name}
+                              </MenuItem>
+                            ))}
+                          </Select>
+                        </FormControl>
+                        {fromCalculator && (
+                          <Typography variant="caption" color="text.secondary">
+                            Calculated from the litres below; the mapped accounts are ignored.
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{formatCurrency(otherTaxes.values[label] ?? 0)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+                <TableRow sx={{ backgroundColor: 'grey.100' }}>
+                  <TableCell colSpan={2}>
+                    <strong>Net effect on amount payable</strong>
+                  </TableCell>
+                  <TableCell align="right">
+                    <strong>{formatCurrency(getOtherTaxesNetPayable(otherTaxes.values))}</strong>
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          {settings.fuelTaxCredits && (
+            <>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="subtitle2">Fuel Tax Credit Calculator</Typography>
+                {!readOnly && (
+                  <Button size="small" startIcon={<AddIcon />} onClick={handleAddLine}>
+                    Add Fuel
+                  </Button>
+                )}
+              </Box>
+              {rateWarning && (
+                <Alert severity="warning" sx={{ mb: 1 }}>
+                  {rateWarning}
+                </Alert>
+              )}
+              {fuelTaxCreditLines.length === 0 ? (
+                <Alert severity="info">
+                  Enter the litres acquired by activity to calculate 7D, or map the account the credits are recorded in.
+                </Alert>
+              ) : (
+                <TableContainer component={Paper}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Activity</TableCell>
+                        <TableCell>Rate Period</TableCell>
+                        <TableCell align="right">Litres</TableCell>
+                        <TableCell align="right">Rate (c/L)</TableCell>
+                        <TableCell align="right">Credit</TableCell>
+                        {!readOnly && <TableCell />}
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {otherTaxes.fuelTaxCredits.lines.map((line) => (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            <Select
+                              size="small"
+                              value={line.activity}
+                              disabled={readOnly}
+                              onChange={(e) => handleLineChange(line.id, { activity: e.target.value as FuelTaxActivity })}
+                            >
+                              {(Object.keys(FUEL_TAX_ACTIVITY_LABELS) as FuelTaxActivity[]).map((activity) => (
+                                <MenuItem key={activity} value={activity}>{FUEL_TAX_ACTIVITY_LABELS[activity]}</MenuItem>
+                              ))}
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              size="small"
+                              value={line.ratePeriodId}
+                              disabled={readOnly}
+                              onChange={(e) => handleLineChange(line.id, { ratePeriodId: String(e.target.value) })}
+                            >
+                              {ratePeriods.map((period) => (
+                                <MenuItem key={period.id} value={period.id}>{formatFuelTaxRatePeriod(period)}</MenuItem>
+                              ))}
+                            </Select>
+                          </TableCell>
+                          <TableCell align="right">
+                            <TextField
+                              size="small"
+                              type="number"
+                              value={line.litres}
+                              disabled={readOnly}
+                              onChange={(e) => handleLineChange(line.id, { litres: Math.max(0, parseFloat(e.target.value) || 0) })}
+                              inputProps={{ min: 0, step: '1', style: { textAlign: 'right' } }}
+                              sx={{ width: 120 }}
+                            />
+                          </TableCell>
+                          <TableCell align="right">{line.rate.toFixed(1)}</TableCell>
+                          <TableCell align="right">{formatCurrency(line.credit)}</TableCell>
+                          {!readOnly && (
+                            <TableCell align="right">
+                              <Tooltip title="Remove">
+                                <IconButton
+                                  size="small"
+                                  onClick={() => onFuelTaxCreditLinesChange(fuelTaxCreditLines.filter((item) => item.id !== line.id))}
+                                >
+                                  <DeleteIcon fontSize="small" />
+                                </IconButton>
+                              </Tooltip>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                      <TableRow sx={{ backgroundColor: 'grey.100' }}>
+                        <TableCell colSpan={4}>
+                          <strong>Total fuel tax credits (7D)</strong>
+                        </TableCell>
+                        <TableCell align="right">
+                          <strong>{formatCurrency(otherTaxes.fuelTaxCredits.total)}</strong>
+                        </TableCell>
+                        {!readOnly && <TableCell />}
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default BASOtherTaxesPanel;
@@ -0,0 +1,62 @@
+import React from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { BASPayRunLine } from '../utils/basPayrollWithholding';
+import { parseXeroDate } from '../utils/xeroRecords';
+
+interface BASPayRunBreakdownProps {
+  payRuns: BASPayRunLine[];
+}
+
+const formatPayRunDate = (value: string) => {
+  const date = parseXeroDate(value);
+  return date ? date.toLocaleDateString('en-AU') : value;
+};
+
+const BASPayRunBreakdown: React.FC<BASPayRunBreakdownProps> = ({ payRuns }) => {
+  if (payRuns.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ py: 1 }}>
+        No posted pay runs were paid in this period.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ py: 1 }}>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Payment Date</TableCell>
+            <TableCell>Pay Period</TableCell>
+            <TableCell align="right">Employees</TableCell>
+            <TableCell align="right">Gross Wages (W1)</TableCell>
+            <TableCell align="right">Tax Withheld (W2)</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {payRuns.map((payRun) => (
+            <TableRow key={payRun.payRunId}>
+              <TableCell>{formatPayRunDate(payRun.paymentDate)}</TableCell>
+              <TableCell>
+                {formatPayRunDate(payRun.periodStart)} – {formatPayRunDate(payRun.periodEnd)}
+              </TableCell>
+              <TableCell align="right">{payRun.employeeCount || '—'}</TableCell>
+              <TableCell align="right">${payRun.wages.toFixed(2)}</TableCell>
+              <TableCell align="right">${payRun.tax.toFixed(2)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+export default BASPayRunBreakdown;
@@ -0,0 +1,184 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { PaygInstalmentMethod } from '../api/companyService';
+import { BASPaygInstalment, PaygInstalmentInputs } from '../utils/basPaygInstalment';
+
+interface BASPaygInstalmentPanelProps {
+  instalment: BASPaygInstalment;
+  inputs: PaygInstalmentInputs;
+  onChange: (changes: Partial<PaygInstalmentInputs>) => void;
+}
+
+// Empty inputs clear an optional variation rather than recording a zero
+const parseOptionalNumber = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? Math.max(0, parsed) : null;
+};
+
+const amountInputProps = { min: 0, step: '0.01', style: { textAlign: 'right' as const } };
+
+const BASPaygInstalmentPanel: React.FC<BASPaygInstalmentPanelProps> = ({ instalment, inputs, onChange }) => {
+  const isVaried = inputs.method === 'Rate' ? inputs.variedRate !== null : inputs.variedAmount !== null;
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h6">PAYG Instalments</Typography>
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>Instalment Method</InputLabel>
+          <Select
+            value={inputs.method}
+            label="Instalment Method"
+            onChange={(e) => onChange({ method: e.target.value as PaygInstalmentMethod })}
+          >
+            <MenuItem value="None">Not registered</MenuItem>
+            <MenuItem value="Amount">Instalment amount (Option 1)</MenuItem>
+            <MenuItem value="Rate">Instalment rate (Option 2)</MenuItem>
+          </Select>
+        </FormControl>
+      </Box>
+
+      {inputs.method === 'None' ? (
+        <Alert severity="info">
+          This company is not set up for PAYG instalments. Set the instalment method in Compliance settings
+          if the ATO has issued an instalment notice.
+        </Alert>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableBody>
+              {inputs.method === 'Rate' ? (
+                <>
+                  <TableRow>
+                    <TableCell>PAYG Instalment Income (T1)</TableCell>
+                    <TableCell align="right">${instalment.T1.toFixed(2)}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Commissioner's Instalment Rate % (T2)</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={inputs.notifiedRate}
+                        onChange={(e) => onChange({ notifiedRate: parseOptionalNumber(e.target.value) ?? 0 })}
+                        inputProps={{ ...amountInputProps, step: '0.1' }}
+                        sx={{ width: 140 }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Varied Rate % (T3)</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={inputs.variedRate ?? ''}
+                        placeholder="Not varied"
+                        onChange={(e) => onChange({ variedRate: parseOptionalNumber(e.target.value) })}
+                        inputProps={{ ...amountInputProps, step: '0.1' }}
+                        sx={{ width: 140 }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>PAYG Instalment (T11)</TableCell>
+                    <TableCell align="right">${instalment.T11.toFixed(2)}</TableCell>
+                  </TableRow>
+                </>
+              ) : (
+                <>
+                  <TableRow>
+                    <TableCell>Instalment Amount (T7)</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={inputs.notifiedAmount}
+                        onChange={(e) => onChange({ notifiedAmount: parseOptionalNumber(e.target.value) ?? 0 })}
+                        inputProps={amountInputProps}
+                        sx={{ width: 140 }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Varied Amount (T9)</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={inputs.variedAmount ?? ''}
+                        placeholder="Not varied"
+                        onChange={(e) => onChange({ variedAmount: parseOptionalNumber(e.target.value) })}
+                        inputProps={amountInputProps}
+                        sx={{ width: 140 }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                </>
+              )}
+              {isVaried && (
+                <>
+                  <TableRow>
+                    <TableCell>Reason Code for Variation (T4)</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        size="small"
+                        value={inputs.variationReasonCode}
+                        onChange={(e) => onChange({ variationReasonCode: e.target.value })}
+                        inputProps={{ maxLength: 2, style: { textAlign: 'right' } }}
+                        sx={{ width: 140 }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Credit from PAYG Instalment Variation (5B)</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={inputs.variationCredit}
+                        onChange={(e) => onChange({ variationCredit: parseOptionalNumber(e.target.value) ?? 0 })}
+                        inputProps={amountInputProps}
+                        sx={{ width: 140 }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                </>
+              )}
+              <TableRow sx={{ backgroundColor: 'grey.100' }}>
+                <TableCell><strong>PAYG Income Tax Instalment (5A)</strong></TableCell>
+                <TableCell align="right">
+                  <strong>${instalment['5A'].toFixed(2)}</strong>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {isVaried && inputs.method !== 'None' && !inputs.variationReasonCode && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          A reason code (T4) is required when the instalment has been varied.
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+export default BASPaygInstalmentPanel;
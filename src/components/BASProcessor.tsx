@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import {
   Card,
   CardContent,
@@ -30,16 +30,70 @@ import {
   Download as DownloadIcon,
   Warning as WarningIcon,
   CheckCircle as CheckCircleIcon,
-  Error as ErrorIcon
+  Error as ErrorIcon,
+  KeyboardArrowDown as KeyboardArrowDownIcon,
+  KeyboardArrowUp as KeyboardArrowUpIcon
 } from '@mui/icons-material';
 import { withXeroData, XeroDataProps } from '../hocs/withXeroData';
 import { useAuth } from '../contexts/AuthContext';
+import { renderXeroDataPreview } from './XeroDataPreview';
+import { downloadBASReportPdf, getAllAccounts, getBASData, getInvoicesByIds } from '../api/xeroService';
+import { BASOtherTaxSettings, companyService, GstAccountingBasis } from '../api/companyService';
+import { BASAdjustment, BASAdjustmentLogEntry, BASFieldValues, BASRecordStatus } from '../api/basRecordService';
+import { XeroAccount, XeroBankTransaction, XeroInvoice, XeroPayment, XeroPayRun } from '../integrations/xero/types';
+import { getMissingPaymentInvoiceIds } from '../utils/basGstAttribution';
+import { calculateBASGst } from '../utils/basGstCalculation';
+import { PurchaseLabel } from '../utils/basPurchaseClassification';
 import {
-  isPlainObject,
-  getSectionData,
-  renderXeroDataPreview,
-} from './XeroDataPreview';
-import { downloadBASReportPdf } from '../api/xeroService';
+  calculatePaygInstalment,
+  PaygInstalmentInputs,
+  DEFAULT_PAYG_INSTALMENT_INPUTS
+} from '../utils/basPaygInstalment';
+import {
+  calculateOtherTaxes,
+  DEFAULT_OTHER_TAX_SETTINGS,
+  FuelTaxCreditLine,
+  getFuelTaxRatePeriods,
+  getFuelTaxRateWarning
+} from '../utils/basOtherTaxes';
+import {
+  buildBASFields,
+  buildBASReportPdfPayload,
+  calculateBASResult,
+  getBASTransactions,
+  BASCalculationResult
+} from '../utils/basCalculation';
+import {
+  compareBASFigures,
+  toComparisonFigures,
+  BASComparisonColumn
+} from '../utils/basComparison';
+import { extractXeroCollection, getSectionData, isPlainObject, roundCurrency } from '../utils/xeroRecords';
+import {
+  generateReportingPeriods,
+  getFinancialYearOptions,
+  getPeriodForDate,
+  normaliseFrequency,
+  shiftReportingPeriod,
+  ReportingPeriod
+} from '../utils/reportingPeriods';
+import { isBASRecordLocked } from '../utils/basWorkflow';
+import { buildBASXbrl, checkBASXbrl } from '../utils/basXbrl';
+import { applyBASAdjustments } from '../utils/basAdjustments';
+import { buildBASWorkbookSheets } from '../utils/basWorkbook';
+import { buildCsv, buildXlsxWorkbook, CSV_MIME_TYPE, XLSX_MIME_TYPE } from '../utils/spreadsheetExport';
+import { useCompanyCompliance } from '../hooks/useCompanyCompliance';
+import { useBASRecords } from '../hooks/useBASRecords';
+import ReportingPeriodSelector from './ReportingPeriodSelector';
+import BASPurchaseBreakdown from './BASPurchaseBreakdown';
+import BASPayRunBreakdown from './BASPayRunBreakdown';
+import BASPaygInstalmentPanel from './BASPaygInstalmentPanel';
+import BASReconciliationPanel from './BASReconciliationPanel';
+import BASGstCodingPanel from './BASGstCodingPanel';
+import BASOtherTaxesPanel from './BASOtherTaxesPanel';
+import BASWorkflowPanel from './BASWorkflowPanel';
+import BASComparisonPanel from './BASComparisonPanel';
+import BASAdjustmentsPanel, { BASAdjustmentDraft } from './BASAdjustmentsPanel';
 import toast from 'react-hot-toast';
 
 interface BASProcessorProps extends XeroDataProps {
@@ -48,19 +102,6 @@ interface BASProcessorProps extends XeroDataProps {
   onBASError?: (error: string) => void;
 }
 
-interface BASCalculationResult {
-  totalSales: number;
-  totalPurchases: number;
-  gstOnSales: number;
-  gstOnPurchases: number;
-  netGST: number;
-  period: {
-    fromDate: string;
-    toDate: string;
-  };
-  lastUpdated: string;
-}
-
 const BASProcessor: React.FC<BASProcessorProps> = ({
   // Xero data props
   isConnected,
@@ -90,12 +131,55 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
   const [isCalculating, setIsCalculating] = useState(false);
   const [calculationError, setCalculationError] = useState<string | null>(null);
   const [useCache, setUseCache] = useState(true);
-  const [selectedQuarter, setSelectedQuarter] = useState<string>('');
-  const [dateSelectionMode, setDateSelectionMode] = useState<'manual' | 'quarter'>('quarter');
+  const [selectedPeriod, setSelectedPeriod] = useState<ReportingPeriod | null>(null);
+  const [financialYear, setFinancialYear] = useState<number>(() => getFinancialYearOptions()[0]);
+  const [dateSelectionMode, setDateSelectionMode] = useState<'manual' | 'period'>('period');
   const requestSignatureRef = useRef<string | null>(null);
   const [isDownloadingPDF, setIsDownloadingPDF] = useState(false);
+  const [chartOfAccounts, setChartOfAccounts] = useState<XeroAccount[]>([]);
+  const [payRuns, setPayRuns] = useState<XeroPayRun[]>([]);
+  const [payrollUnavailable, setPayrollUnavailable] = useState(false);
+  const [payments, setPayments] = useState<XeroPayment[]>([]);
+  const [paymentsUnavailable, setPaymentsUnavailable] = useState(false);
+  const [paymentInvoices, setPaymentInvoices] = useState<XeroInvoice[]>([]);
+  const [otherAmountsWithheld, setOtherAmountsWithheld] = useState<number>(0);
+  const [noABNWithheld, setNoABNWithheld] = useState<number>(0);
+  const [paygInstalmentInputs, setPaygInstalmentInputs] = useState<PaygInstalmentInputs>(DEFAULT_PAYG_INSTALMENT_INPUTS);
+  const [expandedBreakdown, setExpandedBreakdown] = useState<PurchaseLabel | 'W1' | null>(null);
+  const [comparisonEnabled, setComparisonEnabled] = useState(false);
+  const [comparisonLoading, setComparisonLoading] = useState(false);
+  const [comparisonColumns, setComparisonColumns] = useState<{
+    previousPeriod: BASComparisonColumn | null;
+    lastYear: BASComparisonColumn | null;
+  }>({ previousPeriod: null, lastYear: null });
+  const [adjustments, setAdjustments] = useState<BASAdjustment[]>([]);
+  const [adjustmentLog, setAdjustmentLog] = useState<BASAdjustmentLogEntry[]>([]);
+  const [otherTaxSettings, setOtherTaxSettings] = useState<BASOtherTaxSettings>(DEFAULT_OTHER_TAX_SETTINGS);
+  const [savingOtherTaxSettings, setSavingOtherTaxSettings] = useState(false);
+  const [fuelTaxCreditLines, setFuelTaxCreditLines] = useState<FuelTaxCreditLine[]>([]);
 
   const { company } = useAuth();
+  const { compliance, isLoading: complianceLoading, refetch: refetchCompliance } = useCompanyCompliance();
+  const gstBasis: GstAccountingBasis = compliance?.gstAccountingBasis || 'Accrual';
+  const selectedTenantId: string | undefined = selectedTenant?.tenantId || selectedTenant?.id;
+  const {
+    records: basRecords,
+    saveRecord,
+    transitionRecord,
+    addComment,
+    isSaving: isSavingRecord
+  } = useBASRecords({ tenantId: selectedTenantId });
+  const currentRecord = basRecords.find((record) => record.fromDate === fromDate && record.toDate === toDate) || null;
+  const adjustmentsReadOnly = !!currentRecord && currentRecord.status !== 'Draft';
+  const preparedBy = company?.email || company?.companyName || 'Unknown user';
+
+  // Adjustments are retained with the saved BAS; restore them when the period or its record changes
+  useEffect(() => {
+    setAdjustments(currentRecord?.adjustments || []);
+    setAdjustmentLog(currentRecord?.adjustmentLog || []);
+    setFuelTaxCreditLines(currentRecord?.payload?.fuelTaxCreditLines || []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentRecord?.id, fromDate, toDate]);
   
   // Use refs to avoid infinite loops with callback dependencies
   const onBASErrorRef = useRef(onBASError);
@@ -110,52 +194,39 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
     onBASCompleteRef.current = onBASComplete;
   }, [onBASComplete]);
 
-  const formatDateForInput = (date: Date) => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  };
-
-  // Quarter calculation functions
-  const getQuarterDates = (quarter: string, year: number) => {
-    const quarters = {
-      'Q1': { start: new Date(year, 6, 1), end: new Date(year, 8, 30) }, // Jul-Sep
-      'Q2': { start: new Date(year, 9, 1), end: new Date(year, 11, 31) }, // Oct-Dec
-      'Q3': { start: new Date(year, 0, 1), end: new Date(year, 2, 31) }, // Jan-Mar
-      'Q4': { start: new Date(year, 3, 1), end: new Date(year, 5, 30) }  // Apr-Jun
-    };
-    return quarters[quarter as keyof typeof quarters];
-  };
+  // BAS periods follow the company's lodgement frequency and financial year
+  const periodOptions = useMemo(
+    () => ({ frequency: compliance?.basFrequency, financialYearEnd: compliance?.financialYearEnd }),
+    [compliance?.basFrequency, compliance?.financialYearEnd]
+  );
+  const basFrequency = normaliseFrequency(periodOptions.frequency);
+  const periods = useMemo(
+    () => generateReportingPeriods(financialYear, periodOptions),
+    [financialYear, periodOptions]
+  );
+  const financialYearOptions = useMemo(
+    () => getFinancialYearOptions(periodOptions.financialYearEnd),
+    [periodOptions.financialYearEnd]
+  );
 
-  const getCurrentBASQuarter = () => {
-    const now = new Date();
-    const month = now.getMonth() + 1; // 1-12
-    const year = now.getFullYear();
-    
-    if (month >= 7 && month <= 9) return { quarter: 'Q1', year };
-    if (month >= 10 && month <= 12) return { quarter: 'Q2', year };
-    if (month >= 1 && month <= 3) return { quarter: 'Q3', year };
-    if (month >= 4 && month <= 6) return { quarter: 'Q4', year };
-    
-    return { quarter: 'Q1', year }; // Default fallback
+  const handlePeriodChange = (period: ReportingPeriod) => {
+    setSelectedPeriod(period);
+    setFinancialYear(period.financialYear);
+    setFromDate(period.fromDate);
+    setToDate(period.toDate);
   };
 
-  const handleQuarterChange = (quarter: string, year: number) => {
-    const dates = getQuarterDates(quarter, year);
-    if (dates) {
-      setFromDate(formatDateForInput(dates.start));
-      setToDate(formatDateForInput(dates.end));
-      setSelectedQuarter(quarter);
-    }
+  const handleFinancialYearChange = (year: number) => {
+    const yearPeriods = generateReportingPeriods(year, periodOptions);
+    handlePeriodChange(yearPeriods.find((period) => period.index === selectedPeriod?.index) || yearPeriods[0]);
   };
 
-  // Initialize with current BAS quarter
+  // Initialize with the current BAS period once the compliance profile is known
   useEffect(() => {
-    const { quarter, year } = getCurrentBASQuarter();
-    setSelectedQuarter(quarter);
-    handleQuarterChange(quarter, year);
-  }, []);
+    if (complianceLoading) return;
+    handlePeriodChange(getPeriodForDate(new Date(), periodOptions));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [complianceLoading, periodOptions]);
 
   // Load BAS data when tenant or dates change
   const loadBASData = useCallback(
@@ -184,6 +255,62 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
           useCache
         });
         const normalized = response?.data?.data ?? response?.data ?? response;
+
+        // Chart of accounts drives the capital (G10) / non-capital (G11) split
+        let accounts = extractXeroCollection<XeroAccount>(getSectionData(normalized, 'accounts'), 'Accounts');
+        if (accounts.length === 0) {
+          try {
+            const accountsResponse = await getAllAccounts(tenantId);
+            accounts = extractXeroCollection<XeroAccount>(accountsResponse, 'Accounts');
+          } catch (accountsError) {
+            console.warn('⚠️ Failed to load chart of accounts; purchases will be reported as non-capital', accountsError);
+          }
+        }
+        setChartOfAccounts(accounts);
+
+        // Pay runs drive PAYG withholding (W1/W2); organisations without Xero Payroll report nil
+        let periodPayRuns = extractXeroCollection<XeroPayRun>(getSectionData(normalized, 'payRuns'), 'PayRuns');
+        let payrollLoadFailed = false;
+        if (periodPayRuns.length === 0) {
+          try {
+            const payRunsResponse = await loadXeroData('payrollPayRuns', { fromDate, toDate });
+            periodPayRuns = extractXeroCollection<XeroPayRun>(payRunsResponse, 'PayRuns');
+          } catch (payrollError) {
+            payrollLoadFailed = true;
+            console.warn('⚠️ Failed to load Xero Payroll pay runs; W1/W2 will be reported as nil', payrollError);
+          }
+        }
+        setPayRuns(periodPayRuns);
+        setPayrollUnavailable(payrollLoadFailed);
+
+        // Payments attribute GST on a cash basis. Invoices paid in the period may have been raised
+        // in an earlier period, so fetch any that the BAS data does not include.
+        let periodPayments = extractXeroCollection<XeroPayment>(getSectionData(normalized, 'payments'), 'Payments');
+        let earlierInvoices: XeroInvoice[] = [];
+        let paymentsLoadFailed = false;
+        try {
+          if (periodPayments.length === 0) {
+            const paymentsResponse = await loadXeroData('payments', { fromDate, toDate });
+            periodPayments = extractXeroCollection<XeroPayment>(paymentsResponse, 'Payments');
+          }
+          const missingInvoiceIds = getMissingPaymentInvoiceIds(
+            periodPayments,
+            extractXeroCollection<XeroInvoice>(getSectionData(normalized, 'invoices'), 'Invoices'),
+            fromDate,
+            toDate
+          );
+          if (missingInvoiceIds.length > 0) {
+            const invoicesResponse = await getInvoicesByIds(missingInvoiceIds, tenantId);
+            earlierInvoices = extractXeroCollection<XeroInvoice>(invoicesResponse, 'Invoices');
+          }
+        } catch (paymentsError) {
+          paymentsLoadFailed = true;
+          console.warn('⚠️ Failed to load payments; cash basis GST will only include bank transactions', paymentsError);
+        }
+        setPayments(periodPayments);
+        setPaymentsUnavailable(paymentsLoadFailed);
+        setPaymentInvoices(earlierInvoices);
+
         setBasData(isPlainObject(normalized) ? normalized : response);
         console.log('✅ BAS data loaded successfully');
       } catch (error: any) {
@@ -242,93 +369,21 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
       
       console.log('🧮 Calculating BAS from aggregated Xero data...');
 
-      const dataRoot = isPlainObject(basData.data) ? basData.data : basData;
-      const gstReport = getSectionData(basData, 'gstReport') || getSectionData(dataRoot, 'gstReport');
-      const profitLoss = getSectionData(basData, 'profitLoss') || getSectionData(dataRoot, 'profitLoss');
-      const invoicesWrapper = getSectionData(basData, 'invoices') || getSectionData(dataRoot, 'invoices');
-      const invoices = Array.isArray(invoicesWrapper?.Invoices)
-        ? invoicesWrapper.Invoices
-        : Array.isArray(invoicesWrapper)
-        ? invoicesWrapper
-        : [];
-
-      let totalSales = 0;
-      let totalPurchases = 0;
-      let gstOnSales = 0;
-      let gstOnPurchases = 0;
-
-      // 1. Extract GST information from Tax Summary report
-      if (gstReport?.Reports?.[0]?.Rows) {
-        const taxRows = gstReport.Reports[0].Rows;
-        
-        taxRows.forEach((row: any) => {
-          if (row.Cells && row.Cells.length > 0) {
-            const cells = row.Cells;
-            const description = cells[0]?.Value || '';
-            const value = parseFloat(cells[cells.length - 1]?.Value || '0');
-
-            // Map GST line items from Tax Summary
-            if (description.toLowerCase().includes('gst on sales') || 
-                description.toLowerCase().includes('output tax')) {
-              gstOnSales += Math.abs(value);
-            } else if (description.toLowerCase().includes('gst on purchases') || 
-                       description.toLowerCase().includes('input tax')) {
-              gstOnPurchases += Math.abs(value);
-            } else if (description.toLowerCase().includes('total sales')) {
-              totalSales += Math.abs(value);
-            } else if (description.toLowerCase().includes('total purchases')) {
-              totalPurchases += Math.abs(value);
-            }
-          }
-        });
-      }
-
-      // 2. If GST data not found in Tax Summary, calculate from invoices
-      if (gstOnSales === 0 && invoices?.Invoices) {
-        invoices.Invoices.forEach((invoice: any) => {
-          if (invoice.Type === 'ACCREC') { // Sales invoices
-            const subtotal = parseFloat(invoice.SubTotal || '0');
-            const taxAmount = parseFloat(invoice.TotalTax || '0');
-            totalSales += subtotal;
-            gstOnSales += taxAmount;
-          } else if (invoice.Type === 'ACCPAY') { // Purchase invoices
-            const subtotal = parseFloat(invoice.SubTotal || '0');
-            const taxAmount = parseFloat(invoice.TotalTax || '0');
-            totalPurchases += subtotal;
-            gstOnPurchases += taxAmount;
-          }
-        });
-      }
-
-      // 3. Extract total sales/revenue from Profit & Loss if needed
-      if (totalSales === 0 && profitLoss?.Reports?.[0]?.Rows) {
-        const plRows = profitLoss.Reports[0].Rows;
-        plRows.forEach((row: any) => {
-          if (row.RowType === 'Section' && row.Title?.toLowerCase().includes('revenue')) {
-            row.Rows?.forEach((subRow: any) => {
-              if (subRow.Cells && subRow.Cells.length > 0) {
-                const value = parseFloat(subRow.Cells[subRow.Cells.length - 1]?.Value || '0');
-                totalSales += Math.abs(value);
-              }
-            });
-          }
-        });
-      }
-
-      const netGST = gstOnSales - gstOnPurchases;
-
-      const result: BASCalculationResult = {
-        totalSales,
-        totalPurchases,
-        gstOnSales,
-        gstOnPurchases,
-        netGST,
-        period: {
-          fromDate,
-          toDate
-        },
-        lastUpdated: new Date().toISOString()
-      };
+      const result = calculateBASResult({
+        basData,
+        accounts: chartOfAccounts,
+        payRuns,
+        payments,
+        paymentInvoices,
+        basis: gstBasis,
+        fromDate,
+        toDate,
+        otherAmountsWithheld,
+        noABNWithheld,
+        paygInstalmentInputs,
+        otherTaxSettings,
+        fuelTaxCreditLines
+      });
 
       setCalculationResult(result);
       onBASCompleteRef.current?.(result);
@@ -342,7 +397,94 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
     } finally {
       setIsCalculating(false);
     }
-  }, [basData, fromDate, toDate]);
+  }, [
+    basData,
+    chartOfAccounts,
+    payRuns,
+    payments,
+    paymentInvoices,
+    gstBasis,
+    otherAmountsWithheld,
+    noABNWithheld,
+    paygInstalmentInputs,
+    otherTaxSettings,
+    fuelTaxCreditLines,
+    fromDate,
+    toDate
+  ]);
+
+  // W3/W4 are not tracked in Xero, so they are entered here and folded into W5
+  const handleOtherWithholdingChange = (field: 'W3' | 'W4', value: string) => {
+    const amount = Math.max(0, parseFloat(value) || 0);
+    if (field === 'W3') {
+      setOtherAmountsWithheld(amount);
+    } else {
+      setNoABNWithheld(amount);
+    }
+
+    setCalculationResult((prev) => {
+      if (!prev) return prev;
+      const withholding = { ...prev.payrollWithholding, [field]: roundCurrency(amount) };
+      withholding.W5 = roundCurrency(withholding.W2 + withholding.W3 + withholding.W4);
+      return { ...prev, payrollWithholding: withholding };
+    });
+  };
+
+  const handlePaygInstalmentChange = (changes: Partial<PaygInstalmentInputs>) => {
+    setPaygInstalmentInputs((prev) => ({ ...prev, ...changes }));
+  };
+
+  // Default the instalment option from the company's compliance settings
+  useEffect(() => {
+    if (!compliance) return;
+    setPaygInstalmentInputs((prev) => ({
+      ...prev,
+      method: compliance.paygInstalmentMethod || 'None',
+      notifiedRate: compliance.paygInstalmentRate ?? 0,
+      notifiedAmount: compliance.paygInstalmentAmount ?? 0
+    }));
+  }, [compliance]);
+
+  // Re-derive 5A/5B when the instalment inputs change; T1 comes from the last calculation
+  useEffect(() => {
+    setCalculationResult((prev) =>
+      prev ? { ...prev, paygInstalment: calculatePaygInstalment(prev.paygInstalment.T1, paygInstalmentInputs) } : prev
+    );
+  }, [paygInstalmentInputs]);
+
+  // Default the fuel tax credit, WET and LCT sections from the company's compliance settings
+  useEffect(() => {
+    setOtherTaxSettings(compliance?.basOtherTaxes || DEFAULT_OTHER_TAX_SETTINGS);
+  }, [compliance?.basOtherTaxes]);
+
+  // Re-derive 7D and 1C-1F when the settings or litres change; account totals come from the last calculation
+  useEffect(() => {
+    setCalculationResult((prev) =>
+      prev
+        ? { ...prev, otherTaxes: calculateOtherTaxes(prev.otherTaxes.accountAmounts, otherTaxSettings, fuelTaxCreditLines) }
+        : prev
+    );
+  }, [otherTaxSettings, fuelTaxCreditLines]);
+
+  const fuelTaxRatePeriods = useMemo(() => getFuelTaxRatePeriods(fromDate, toDate), [fromDate, toDate]);
+  const fuelTaxRateWarning = useMemo(() => getFuelTaxRateWarning(fromDate, toDate), [fromDate, toDate]);
+  const otherTaxSettingsChanged =
+    JSON.stringify(otherTaxSettings) !== JSON.stringify(compliance?.basOtherTaxes || DEFAULT_OTHER_TAX_SETTINGS);
+
+  const handleSaveOtherTaxSettings = async () => {
+    if (!compliance) return;
+    try {
+      setSavingOtherTaxSettings(true);
+      await companyService.updateComplianceSettings({ basOtherTaxes: otherTaxSettings });
+      await refetchCompliance();
+      toast.success('Fuel tax credit, WET and LCT settings saved');
+    } catch (error: any) {
+      console.error('❌ Error saving BAS other tax settings:', error);
+      toast.error(error?.response?.data?.message || 'Failed to save settings');
+    } finally {
+      setSavingOtherTaxSettings(false);
+    }
+  };
 
   // Auto-load data when dependencies change (with debounce)
   useEffect(() => {
@@ -363,6 +505,139 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
     }
   }, [basData, calculationResult, calculateBAS]);
 
+  // Recalculate when the company's GST basis loads or changes after a calculation
+  useEffect(() => {
+    if (calculationResult && calculationResult.gstBasis !== gstBasis) {
+      calculateBAS();
+    }
+  }, [gstBasis, calculationResult, calculateBAS]);
+
+  // Figures of another period for the comparison: the lodged BAS when there is one, otherwise calculated from Xero
+  const loadComparisonColumn = useCallback(
+    async (period: ReportingPeriod): Promise<BASComparisonColumn> => {
+      const lodged = basRecords.find(
+        (record) => record.status === 'Lodged' && record.fromDate === period.fromDate && record.toDate === period.toDate
+      );
+      if (lodged) {
+        return { label: period.label, figures: toComparisonFigures(lodged.figures), source: 'lodged' };
+      }
+
+      try {
+        const response = await getBASData({
+          fromDate: period.fromDate,
+          toDate: period.toDate,
+          useCache: true,
+          tenantId: selectedTenantId
+        });
+        const normalized = response?.data?.data ?? response?.data ?? response;
+        const periodInvoices = extractXeroCollection<XeroInvoice>(getSectionData(normalized, 'invoices'), 'Invoices');
+        let periodPayments = extractXeroCollection<XeroPayment>(getSectionData(normalized, 'payments'), 'Payments');
+        let earlierInvoices: XeroInvoice[] = [];
+        if (gstBasis === 'Cash') {
+          if (periodPayments.length === 0) {
+            const paymentsResponse = await loadXeroData('payments', { fromDate: period.fromDate, toDate: period.toDate });
+            periodPayments = extractXeroCollection<XeroPayment>(paymentsResponse, 'Payments');
+          }
+          const missingInvoiceIds = getMissingPaymentInvoiceIds(periodPayments, periodInvoices, period.fromDate, period.toDate);
+          if (missingInvoiceIds.length > 0) {
+            const invoicesResponse = await getInvoicesByIds(missingInvoiceIds, selectedTenantId);
+            earlierInvoices = extractXeroCollection<XeroInvoice>(invoicesResponse, 'Invoices');
+          }
+        }
+
+        const gst = calculateBASGst({
+          basis: gstBasis,
+          gstReport: getSectionData(normalized, 'gstReport'),
+          profitLoss: getSectionData(normalized, 'profitLoss'),
+          invoices: [...periodInvoices, ...earlierInvoices],
+          payments: periodPayments,
+          bankTransactions: extractXeroCollection<XeroBankTransaction>(
+            getSectionData(normalized, 'bankTransactions'),
+            'BankTransactions'
+          ),
+          fromDate: period.fromDate,
+          toDate: period.toDate
+        });
+        return {
+          label: period.label,
+          figures: { G1: gst.totalSales, '1A': gst.gstOnSales, '1B': gst.gstOnPurchases, netGST: roundCurrency(gst.netGST) },
+          source: 'xero'
+        };
+      } catch (error: any) {
+        console.warn(`⚠️ Failed to calculate comparison period ${period.shortLabel}:`, error);
+        return {
+          label: period.label,
+          figures: null,
+          source: 'xero',
+          error: error?.response?.data?.message || error.message || 'Failed to load BAS data'
+        };
+      }
+    },
+    [basRecords, gstBasis, selectedTenantId, loadXeroData]
+  );
+
+  // Calculate the previous period and the same period last year while comparison mode is on
+  useEffect(() => {
+    if (!comparisonEnabled || dateSelectionMode !== 'period' || !selectedPeriod || !selectedTenantId) {
+      setComparisonColumns({ previousPeriod: null, lastYear: null });
+      return;
+    }
+
+    let cancelled = false;
+    const previousPeriod = shiftReportingPeriod(selectedPeriod, -1, periodOptions);
+    const lastYearPeriod = shiftReportingPeriod(selectedPeriod, -periods.length, periodOptions);
+    setComparisonLoading(true);
+    Promise.all([loadComparisonColumn(previousPeriod), loadComparisonColumn(lastYearPeriod)])
+      .then(([previous, lastYear]) => {
+        if (!cancelled) setComparisonColumns({ previousPeriod: previous, lastYear });
+      })
+      .finally(() => {
+        if (!cancelled) setComparisonLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [comparisonEnabled, dateSelectionMode, selectedPeriod, selectedTenantId, periodOptions, periods.length, loadComparisonColumn]);
+
+  const comparisonRows = useMemo(
+    () =>
+      calculationResult
+        ? compareBASFigures(
+            toComparisonFigures(applyBASAdjustments(buildBASFields(calculationResult), adjustments).fields),
+            comparisonColumns.previousPeriod?.figures || null,
+            comparisonColumns.lastYear?.figures || null
+          )
+        : [],
+    [calculationResult, comparisonColumns, adjustments]
+  );
+
+  const adjustedFigures = useMemo(
+    () => (calculationResult ? applyBASAdjustments(buildBASFields(calculationResult), adjustments) : null),
+    [calculationResult, adjustments]
+  );
+
+  const handleAddAdjustment = (draft: BASAdjustmentDraft) => {
+    const adjustment: BASAdjustment = {
+      ...draft,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      createdBy: preparedBy,
+      createdAt: new Date().toISOString()
+    };
+    setAdjustments((prev) => [...prev, adjustment]);
+    setAdjustmentLog((prev) => [...prev, { action: 'Added', adjustment, changedBy: preparedBy, changedAt: adjustment.createdAt }]);
+  };
+
+  const handleRemoveAdjustment = (id: string) => {
+    const adjustment = adjustments.find((item) => item.id === id);
+    if (!adjustment) return;
+    setAdjustments((prev) => prev.filter((item) => item.id !== id));
+    setAdjustmentLog((prev) => [
+      ...prev,
+      { action: 'Removed', adjustment, changedBy: preparedBy, changedAt: new Date().toISOString() }
+    ]);
+  };
+
   // Handle tenant selection
   const handleTenantChange = (event: any) => {
     const tenantId = event.target.value;
@@ -385,6 +660,148 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
     setUseCache(!useCache);
   };
 
+  // Save the current calculation as the Draft BAS of the tenant and period
+  const handleSaveRecord = async () => {
+    if (!calculationResult || !selectedTenantId) return;
+    try {
+      await saveRecord({
+        tenantId: selectedTenantId,
+        tenantName: selectedTenant?.name || selectedTenant?.organizationName,
+        periodKey: selectedPeriod?.key || `${fromDate}_${toDate}`,
+        periodLabel: selectedPeriod?.label || `${fromDate} to ${toDate}`,
+        fromDate,
+        toDate,
+        gstBasis: calculationResult.gstBasis,
+        figures: applyBASAdjustments(buildBASFields(calculationResult), adjustments).fields,
+        payload: {
+          calculatedFigures: buildBASFields(calculationResult),
+          purchaseBreakdown: calculationResult.purchaseBreakdown,
+          payRunBreakdown: calculationResult.payrollWithholding.payRuns,
+          reconciliation: calculationResult.reconciliation,
+          fuelTaxCreditLines
+        },
+        adjustments,
+        adjustmentLog
+      });
+      toast.success('BAS saved as draft');
+    } catch (error: any) {
+      console.error('❌ Error saving BAS record:', error);
+      toast.error(error?.response?.data?.message || 'Failed to save BAS');
+    }
+  };
+
+  const handleRecordTransition = async (toStatus: BASRecordStatus, comment?: string) => {
+    if (!currentRecord) return;
+    try {
+      await transitionRecord({ id: currentRecord.id, toStatus, comment });
+      toast.success(toStatus === 'Lodged' ? 'BAS marked as lodged and locked' : `BAS moved to ${toStatus}`);
+    } catch (error: any) {
+      console.error('❌ Error updating BAS status:', error);
+      toast.error(error?.response?.data?.message || 'Failed to update BAS status');
+    }
+  };
+
+  const handleRecordComment = async (body: string) => {
+    if (!currentRecord) return;
+    try {
+      await addComment({ id: currentRecord.id, body });
+    } catch (error: any) {
+      console.error('❌ Error adding BAS comment:', error);
+      toast.error(error?.response?.data?.message || 'Failed to add comment');
+    }
+  };
+
+  // Figures sent to the PDF and XBRL exports; a lodged BAS always reports its locked figures
+  const getReportedFields = (result: BASCalculationResult): BASFieldValues =>
+    currentRecord && isBASRecordLocked(currentRecord)
+      ? currentRecord.figures
+      : applyBASAdjustments(buildBASFields(result), adjustments).fields;
+
+  // Handle XBRL export: the instance is checked for consistency before it is downloaded
+  const handleDownloadXbrl = () => {
+    if (!calculationResult || !selectedTenant) {
+      toast.error('Please calculate BAS data first before exporting XBRL.');
+      return;
+    }
+
+    const abn = (selectedTenant.organizationTaxNumber || '').replace(/\s/g, '');
+    if (!abn) {
+      setCalculationError('The selected Xero organisation has no ABN. Add the ABN in Xero before exporting XBRL.');
+      toast.error('The selected Xero organisation has no ABN.');
+      return;
+    }
+
+    const xml = buildBASXbrl({ fields: getReportedFields(calculationResult), abn, fromDate, toDate });
+    const problems = checkBASXbrl(xml);
+    if (problems.length > 0) {
+      console.error('❌ BAS XBRL failed its consistency checks:', problems);
+      setCalculationError(`XBRL export failed its consistency checks: ${problems.join(' ')}`);
+      toast.error('XBRL export failed its consistency checks');
+      return;
+    }
+
+    const downloadUrl = window.URL.createObjectURL(new Blob([xml], { type: 'application/xml' }));
+    const link = document.createElement('a');
+    link.href = downloadUrl;
+    const safePeriod = (selectedPeriod?.shortLabel || fromDate).replace(/[^a-z0-9]+/gi, '_');
+    link.download = `BAS_${selectedTenant.name?.replace(/[^a-z0-9]+/gi, '_') || 'Xero'}_${safePeriod}.xbrl`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(downloadUrl);
+
+    console.log('✅ BAS XBRL exported successfully');
+    toast.success('BAS XBRL exported for practice software. It cannot be lodged through SBR.');
+  };
+
+  // Working papers are built in the browser from the loaded Xero data
+  const handleDownloadWorkbook = (format: 'xlsx' | 'csv') => {
+    if (!calculationResult || !basData || !selectedTenant) {
+      toast.error('Please calculate BAS data first before exporting the workbook.');
+      return;
+    }
+
+    try {
+      const { invoices, bankTransactions } = getBASTransactions(basData, paymentInvoices);
+      const sheets = buildBASWorkbookSheets({
+        periodLabel: selectedPeriod?.label || `${fromDate} to ${toDate}`,
+        organisationName: selectedTenant.name || selectedTenant.organizationName || '',
+        basis: calculationResult.gstBasis,
+        calculatedFields: buildBASFields(calculationResult),
+        reportedFields: getReportedFields(calculationResult),
+        invoices,
+        payments,
+        bankTransactions,
+        accounts: chartOfAccounts,
+        fromDate,
+        toDate,
+        adjustments,
+        adjustmentLog,
+        fuelTaxCredits: calculationResult.otherTaxes.fuelTaxCredits
+      });
+      const blob = format === 'xlsx'
+        ? new Blob([buildXlsxWorkbook(sheets)], { type: XLSX_MIME_TYPE })
+        : new Blob([buildCsv(sheets)], { type: CSV_MIME_TYPE });
+
+      const downloadUrl = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = downloadUrl;
+      const safePeriod = (selectedPeriod?.shortLabel || fromDate).replace(/[^a-z0-9]+/gi, '_');
+      link.download = `BAS_Workpapers_${selectedTenant.name?.replace(/[^a-z0-9]+/gi, '_') || 'Xero'}_${safePeriod}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(downloadUrl);
+
+      console.log(`✅ BAS workbook exported as ${format.toUpperCase()}`);
+      toast.success(`BAS workbook exported as ${format.toUpperCase()}`);
+    } catch (error: any) {
+      console.error('❌ Error exporting BAS workbook:', error);
+      setCalculationError(error.message || 'Failed to export the BAS workbook');
+      toast.error('Failed to export the BAS workbook');
+    }
+  };
+
   // Handle PDF download
   const handleDownloadPDF = async () => {
     if (!selectedTenant || !fromDate || !toDate) {
@@ -409,56 +826,23 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
       setIsDownloadingPDF(true);
       setCalculationError(null);
 
-      // Prepare BAS data structure based on calculation results
-      const basDataForPDF = {
-        BAS_Period: selectedQuarter 
-          ? `${selectedQuarter} ${new Date().getFullYear()}`
-          : `${fromDate} to ${toDate}`,
-        BAS_Fields: {
-          G1: calculationResult.totalSales,
-          G2: calculationResult.totalPurchases,
-          G3: 0, // Not calculated in current implementation
-          G10: 0, // Not calculated in current implementation
-          G11: 0, // Not calculated in current implementation
-          '1A': calculationResult.gstOnSales,
-          '1B': calculationResult.gstOnPurchases,
-          W1: 0, // Wages not calculated in current implementation
-          W2: 0, // PAYG withholding not calculated in current implementation
-        }
-      };
-
-      const payload = {
-        basData: {
-          ...basDataForPDF,
-          rawXeroData: basData, // Include raw Xero data for reference
-        },
-        summary: {
-          totalSales: calculationResult.totalSales,
-          totalPurchases: calculationResult.totalPurchases,
-          totalGST: calculationResult.gstOnSales,
-          gstOnPurchases: calculationResult.gstOnPurchases,
-          netGST: calculationResult.netGST,
-          period: {
-            fromDate,
-            toDate,
-            quarter: selectedQuarter || null
-          }
+      const payload = buildBASReportPdfPayload({
+        result: calculationResult,
+        reportedFields: getReportedFields(calculationResult),
+        adjustments,
+        adjustmentLog,
+        rawXeroData: basData, // Include raw Xero data for reference
+        period: {
+          fromDate,
+          toDate,
+          label: selectedPeriod?.label,
+          shortLabel: selectedPeriod?.shortLabel,
+          frequency: selectedPeriod?.frequency
         },
-        metadata: {
-          companyName: company?.name || 'Unknown Company',
-          organizationName: selectedTenant.name || selectedTenant.organizationName || 'Unknown Organization',
-          tenantId: selectedTenant.tenantId || selectedTenant.id,
-          generatedAt: new Date().toISOString(),
-          period: {
-            fromDate,
-            toDate,
-            quarter: selectedQuarter || null
-          },
-          notes: `BAS PDF generated from Xero account data for ${selectedTenant.name || 'organization'}.`,
-          dataSource: 'Xero Accounting',
-          reportType: 'Business Activity Statement'
-        }
-      };
+        companyName: company?.name || 'Unknown Company',
+        organisationName: selectedTenant.name || selectedTenant.organizationName || 'Unknown Organization',
+        tenantId: selectedTenant.tenantId || selectedTenant.id
+      });
 
       console.log('📄 Generating BAS PDF with Xero account data...', payload);
 
@@ -466,7 +850,7 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
       const downloadUrl = window.URL.createObjectURL(pdfBlob);
       const link = document.createElement('a');
       link.href = downloadUrl;
-      const safePeriod = (selectedQuarter || fromDate).replace(/[^a-z0-9]+/gi, '_');
+      const safePeriod = (selectedPeriod?.shortLabel || fromDate).replace(/[^a-z0-9]+/gi, '_');
       link.download = `BAS_Report_${selectedTenant.name?.replace(/[^a-z0-9]+/gi, '_') || 'Xero'}_${safePeriod}_${new Date().toISOString().split('T')[0]}.pdf`;
       document.body.appendChild(link);
       link.click();
@@ -595,12 +979,12 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
         {/* Date Selection Mode Toggle */}
         <Box sx={{ mb: 2 }}>
           <Button
-            variant={dateSelectionMode === 'quarter' ? 'contained' : 'outlined'}
-            onClick={() => setDateSelectionMode('quarter')}
+            variant={dateSelectionMode === 'period' ? 'contained' : 'outlined'}
+            onClick={() => setDateSelectionMode('period')}
             sx={{ mr: 1 }}
             size="small"
           >
-            📅 Quarter Selection
+            📅 BAS Period
           </Button>
           <Button
             variant={dateSelectionMode === 'manual' ? 'contained' : 'outlined'}
@@ -611,47 +995,19 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
           </Button>
         </Box>
 
-        {/* Quarter Selection */}
-        {dateSelectionMode === 'quarter' && (
-          <Grid container spacing={2} sx={{ mb: 3 }}>
-            <Grid item xs={12} sm={6}>
-              <FormControl fullWidth>
-                <InputLabel>BAS Quarter</InputLabel>
-                <Select
-                  value={selectedQuarter}
-                  onChange={(e) => {
-                    const quarter = e.target.value;
-                    const currentYear = new Date().getFullYear();
-                    handleQuarterChange(quarter, currentYear);
-                  }}
-                  label="BAS Quarter"
-                >
-                  <MenuItem value="Q1">Q1 (Jul-Sep)</MenuItem>
-                  <MenuItem value="Q2">Q2 (Oct-Dec)</MenuItem>
-                  <MenuItem value="Q3">Q3 (Jan-Mar)</MenuItem>
-                  <MenuItem value="Q4">Q4 (Apr-Jun)</MenuItem>
-                </Select>
-              </FormControl>
-            </Grid>
-            <Grid item xs={12} sm={6}>
-              <TextField
-                fullWidth
-                label="Financial Year"
-                type="number"
-                value={new Date().getFullYear()}
-                disabled
-                helperText="BAS Year (April to March)"
-              />
-            </Grid>
-            <Grid item xs={12}>
-              <Box sx={{ p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
-                <Typography variant="body2" color="text.secondary">
-                  <strong>Selected Period:</strong> {fromDate} to {toDate}
-                  {selectedQuarter && ` (${selectedQuarter} ${new Date().getFullYear()})`}
-                </Typography>
-              </Box>
-            </Grid>
-          </Grid>
+        {/* BAS Period Selection */}
+        {dateSelectionMode === 'period' && (
+          <ReportingPeriodSelector
+            periods={periods}
+            selectedPeriod={selectedPeriod}
+            onPeriodChange={handlePeriodChange}
+            financialYear={financialYear}
+            financialYearOptions={financialYearOptions}
+            onFinancialYearChange={handleFinancialYearChange}
+            periodLabel="BAS Period"
+            yearLabel="Financial Year"
+            helperText={`${basFrequency} BAS, from the company's compliance settings`}
+          />
         )}
 
         {/* Manual Date Range Selection */}
@@ -663,7 +1019,10 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
                 label="From Date"
                 type="date"
                 value={fromDate}
-                onChange={(e) => setFromDate(e.target.value)}
+                onChange={(e) => {
+                  setSelectedPeriod(null);
+                  setFromDate(e.target.value);
+                }}
                 InputLabelProps={{ shrink: true }}
               />
             </Grid>
@@ -673,7 +1032,10 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
                 label="To Date"
                 type="date"
                 value={toDate}
-                onChange={(e) => setToDate(e.target.value)}
+                onChange={(e) => {
+                  setSelectedPeriod(null);
+                  setToDate(e.target.value);
+                }}
                 InputLabelProps={{ shrink: true }}
               />
             </Grid>
@@ -689,6 +1051,14 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
           >
             {useCache ? 'Using Cache' : 'Live Data'}
           </Button>
+          <Button
+            variant={comparisonEnabled ? 'contained' : 'outlined'}
+            size="small"
+            onClick={() => setComparisonEnabled(!comparisonEnabled)}
+            disabled={dateSelectionMode !== 'period'}
+          >
+            {comparisonEnabled ? 'Comparing Periods' : 'Compare Periods'}
+          </Button>
           <Button
             variant="outlined"
             onClick={() => loadBASData({ force: true })}
@@ -706,6 +1076,34 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
           >
             {isDownloadingPDF ? 'Generating PDF...' : '📄 Download PDF'}
           </Button>
+          <Button
+            variant="outlined"
+            color="success"
+            onClick={handleDownloadXbrl}
+            disabled={!calculationResult || dataLoading}
+            startIcon={<DownloadIcon />}
+            title="XBRL for import into practice software; it uses its own element names and cannot be lodged through SBR"
+          >
+            Export XBRL
+          </Button>
+          <Button
+            variant="outlined"
+            color="success"
+            onClick={() => handleDownloadWorkbook('xlsx')}
+            disabled={!basData || !calculationResult || dataLoading}
+            startIcon={<DownloadIcon />}
+          >
+            Export XLSX
+          </Button>
+          <Button
+            variant="outlined"
+            color="success"
+            onClick={() => handleDownloadWorkbook('csv')}
+            disabled={!basData || !calculationResult || dataLoading}
+            startIcon={<DownloadIcon />}
+          >
+            Export CSV
+          </Button>
         </Box>
 
         {/* Instructions Panel */}
@@ -798,6 +1196,36 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
                       ${calculationResult.totalPurchases.toFixed(2)}
                     </TableCell>
                   </TableRow>
+                  {([
+                    { label: 'G10' as PurchaseLabel, title: 'Capital Purchases (G10)', amount: calculationResult.capitalPurchases },
+                    { label: 'G11' as PurchaseLabel, title: 'Non-Capital Purchases (G11)', amount: calculationResult.nonCapitalPurchases },
+                  ]).map(({ label, title, amount }) => (
+                    <React.Fragment key={label}>
+                      <TableRow>
+                        <TableCell>
+                          <IconButton
+                            size="small"
+                            onClick={() => setExpandedBreakdown(expandedBreakdown === label ? null : label)}
+                            aria-label={`Show ${label} transactions`}
+                            sx={{ mr: 1 }}
+                          >
+                            {expandedBreakdown === label ? <KeyboardArrowUpIcon /> : <KeyboardArrowDownIcon />}
+                          </IconButton>
+                          {title}
+                        </TableCell>
+                        <TableCell align="right">
+                          ${amount.toFixed(2)}
+                        </TableCell>
+                      </TableRow>
+                      {expandedBreakdown === label && (
+                        <TableRow>
+                          <TableCell colSpan={2} sx={{ backgroundColor: 'grey.50' }}>
+                            <BASPurchaseBreakdown label={label} lines={calculationResult.purchaseBreakdown} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  ))}
                   <TableRow>
                     <TableCell>GST on Sales</TableCell>
                     <TableCell align="right">
@@ -819,14 +1247,168 @@ const BASProcessor: React.FC<BASProcessorProps> = ({
                       </strong>
                     </TableCell>
                   </TableRow>
+                  <TableRow>
+                    <TableCell>
+                      <IconButton
+                        size="small"
+                        onClick={() => setExpandedBreakdown(expandedBreakdown === 'W1' ? null : 'W1')}
+                        aria-label="Show W1 pay runs"
+                        sx={{ mr: 1 }}
+                      >
+                        {expandedBreakdown === 'W1' ? <KeyboardArrowUpIcon /> : <KeyboardArrowDownIcon />}
+                      </IconButton>
+                      Total Salary, Wages and Other Payments (W1)
+                    </TableCell>
+                    <TableCell align="right">
+                      ${calculationResult.payrollWithholding.W1.toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                  {expandedBreakdown === 'W1' && (
+                    <TableRow>
+                      <TableCell colSpan={2} sx={{ backgroundColor: 'grey.50' }}>
+                        <BASPayRunBreakdown payRuns={calculationResult.payrollWithholding.payRuns} />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  <TableRow>
+                    <TableCell>Amounts Withheld from Payments Shown at W1 (W2)</TableCell>
+                    <TableCell align="right">
+                      ${calculationResult.payrollWithholding.W2.toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Other Amounts Withheld (W3)</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={otherAmountsWithheld}
+                        onChange={(e) => handleOtherWithholdingChange('W3', e.target.value)}
+                        inputProps={{ min: 0, step: '0.01', style: { textAlign: 'right' } }}
+                        sx={{ width: 140 }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Amounts Withheld Where ABN Not Quoted (W4)</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={noABNWithheld}
+                        onChange={(e) => handleOtherWithholdingChange('W4', e.target.value)}
+                        inputProps={{ min: 0, step: '0.01', style: { textAlign: 'right' } }}
+                        sx={{ width: 140 }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                  <TableRow sx={{ backgroundColor: 'grey.100' }}>
+                    <TableCell><strong>Total Amounts Withheld (W5)</strong></TableCell>
+                    <TableCell align="right">
+                      <strong>${calculationResult.payrollWithholding.W5.toFixed(2)}</strong>
+                    </TableCell>
+                  </TableRow>
                 </TableBody>
               </Table>
             </TableContainer>
             
+            {calculationResult.unmappedAccountCodes.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                Account codes {calculationResult.unmappedAccountCodes.join(', ')} were not found in the chart of accounts
+                and have been reported as non-capital purchases (G11).
+              </Alert>
+            )}
+
+            <BASPaygInstalmentPanel
+              instalment={calculationResult.paygInstalment}
+              inputs={paygInstalmentInputs}
+              onChange={handlePaygInstalmentChange}
+            />
+
+            <BASOtherTaxesPanel
+              otherTaxes={calculationResult.otherTaxes}
+              settings={otherTaxSettings}
+              settingsChanged={otherTaxSettingsChanged}
+              savingSettings={savingOtherTaxSettings}
+              accounts={chartOfAccounts}
+              ratePeriods={fuelTaxRatePeriods}
+              rateWarning={fuelTaxRateWarning}
+              fuelTaxCreditLines={fuelTaxCreditLines}
+              readOnly={adjustmentsReadOnly}
+              onSettingsChange={setOtherTaxSettings}
+              onSaveSettings={handleSaveOtherTaxSettings}
+              onFuelTaxCreditLinesChange={setFuelTaxCreditLines}
+            />
+
+            <BASAdjustmentsPanel
+              adjustments={adjustments}
+              adjustmentLog={adjustmentLog}
+              changes={adjustedFigures?.changes || []}
+              warnings={adjustedFigures?.warnings || []}
+              readOnly={adjustmentsReadOnly}
+              onAdd={handleAddAdjustment}
+              onRemove={handleRemoveAdjustment}
+            />
+
+            <BASGstCodingPanel exceptions={calculationResult.gstCodingExceptions} />
+
+            <BASReconciliationPanel reconciliation={calculationResult.reconciliation} />
+
+            {comparisonEnabled && dateSelectionMode === 'period' && (
+              <BASComparisonPanel
+                rows={comparisonRows}
+                previousPeriod={comparisonColumns.previousPeriod}
+                lastYear={comparisonColumns.lastYear}
+                loading={comparisonLoading}
+              />
+            )}
+
+            <BASWorkflowPanel
+              record={currentRecord}
+              figures={adjustedFigures?.fields || null}
+              saving={isSavingRecord}
+              onSave={handleSaveRecord}
+              onTransition={handleRecordTransition}
+              onComment={handleRecordComment}
+            />
+
+            {calculationResult.gstBasis === 'Cash' && calculationResult.unmatchedPayments.count > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                {calculationResult.unmatchedPayments.count} payment(s) totalling $
+                {calculationResult.unmatchedPayments.amount.toFixed(2)} could not be matched to an invoice or bill
+                and have been left out of GST for this period.
+              </Alert>
+            )}
+
+            {calculationResult.gstBasis === 'Cash' && paymentsUnavailable && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                Xero payments could not be loaded, so cash basis G1, 1A and 1B only include bank transactions and
+                GST on paid invoices and bills is missing. Recalculate before saving or lodging this BAS.
+              </Alert>
+            )}
+
+            {payrollUnavailable && (
+              <Alert severity="info" sx={{ mt: 2 }}>
+                Xero Payroll pay runs could not be loaded for this organisation, so W1 and W2 are shown as nil.
+                Check the Payroll connection if this organisation pays wages through Xero.
+              </Alert>
+            )}
+
+            {calculationResult.payrollWithholding.draftPayRunCount > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                {calculationResult.payrollWithholding.draftPayRunCount} draft pay run(s) paid in this period were excluded.
+                Post them in Xero Payroll to include them in W1 and W2.
+              </Alert>
+            )}
+
             <Box sx={{ mt: 2, p: 2, backgroundColor: 'grey.50', borderRadius: 1 }}>
               <Typography variant="body2" color="text.secondary">
                 <strong>Period:</strong> {calculationResult.period.fromDate} to {calculationResult.period.toDate}
               </Typography>
+              <Typography variant="body2" color="text.secondary">
+                <strong>GST Basis:</strong> {calculationResult.gstBasis}
+                {calculationResult.gstBasis === 'Cash' ? ' (attributed by payment date)' : ' (attributed by invoice date)'}
+              </Typography>
               <Typography variant="body2" color="text.secondary">
                 <strong>Last Updated:</strong> {new Date(calculationResult.lastUpdated).toLocaleString()}
               </Typography>
@@ -0,0 +1,83 @@
+import React from 'react';
+import {
+  Box,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { BASPurchaseLine, PurchaseLabel } from '../utils/basPurchaseClassification';
+import { parseXeroDate } from '../utils/xeroRecords';
+
+interface BASPurchaseBreakdownProps {
+  label: PurchaseLabel;
+  lines: BASPurchaseLine[];
+}
+
+const formatLineDate = (value: string) => {
+  const date = parseXeroDate(value);
+  return date ? date.toLocaleDateString('en-AU') : value;
+};
+
+const BASPurchaseBreakdown: React.FC<BASPurchaseBreakdownProps> = ({ label, lines }) => {
+  const labelLines = lines.filter((line) => line.label === label);
+
+  if (labelLines.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ py: 1 }}>
+        No transactions were reported at {label} for this period.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ py: 1 }}>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Date</TableCell>
+            <TableCell>Source</TableCell>
+            <TableCell>Reference</TableCell>
+            <TableCell>Contact</TableCell>
+            <TableCell>Account</TableCell>
+            <TableCell>Tax Type</TableCell>
+            <TableCell align="right">GST</TableCell>
+            <TableCell align="right">Amount (inc. GST)</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {labelLines.map((line, index) => (
+            <TableRow key={`${line.transactionId}-${index}`}>
+              <TableCell>{formatLineDate(line.date)}</TableCell>
+              <TableCell>
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  label={line.source === 'bill' ? 'Bill' : 'Bank'}
+                />
+              </TableCell>
+              <TableCell>{line.reference || '—'}</TableCell>
+              <TableCell>{line.contactName || '—'}</TableCell>
+              <TableCell>
+                <Typography variant="body2">
+                  {line.accountCode ? `${line.accountCode} ${line.accountName}`.trim() : '—'}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {line.reason}
+                </Typography>
+              </TableCell>
+              <TableCell>{line.taxType || '—'}</TableCell>
+              <TableCell align="right">${line.gst.toFixed(2)}</TableCell>
+              <TableCell align="right">${line.amount.toFixed(2)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+export default BASPurchaseBreakdown;
@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  BASReconciliation,
+  BASReconciliationItem,
+  RECONCILIATION_ITEM_LABELS,
+  ReconciliationItemType,
+} from '../utils/basReconciliation';
+
+interface BASReconciliationPanelProps {
+  reconciliation: BASReconciliation;
+}
+
+const DEFAULT_TOLERANCE = 1;
+
+const ITEM_TYPE_ORDER: ReconciliationItemType[] = ['missingTaxType', 'voided', 'editedAfterPeriod', 'draft'];
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const BASReconciliationPanel: React.FC<BASReconciliationPanelProps> = ({ reconciliation }) => {
+  const [tolerance, setTolerance] = useState(DEFAULT_TOLERANCE);
+
+  const itemsByType = useMemo(() => {
+    const groups = new Map<ReconciliationItemType, BASReconciliationItem[]>();
+    reconciliation.items.forEach((item) => {
+      groups.set(item.type, [...(groups.get(item.type) || []), item]);
+    });
+    return groups;
+  }, [reconciliation.items]);
+
+  const varianceCount = reconciliation.lines.filter((line) => Math.abs(line.variance) > tolerance).length;
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h6">GST Reconciliation</Typography>
+        <TextField
+          size="small"
+          type="number"
+          label="Tolerance ($)"
+          value={tolerance}
+          onChange={(e) => setTolerance(Math.max(0, parseFloat(e.target.value) || 0))}
+          inputProps={{ min: 0, step: '0.01', style: { textAlign: 'right' } }}
+          sx={{ width: 140 }}
+        />
+      </Box>
+
+      {!reconciliation.hasGstReport ? (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          No GST report was returned by Xero for this period, so only the transaction checks are shown.
+        </Alert>
+      ) : (
+        <>
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Label</TableCell>
+                  <TableCell align="right">GST Report</TableCell>
+                  <TableCell align="right">Transactions</TableCell>
+                  <TableCell align="right">Variance</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {reconciliation.lines.map((line) => {
+                  const exceeds = Math.abs(line.variance) > tolerance;
+                  return (
+                    <TableRow key={line.label} sx={exceeds ? { backgroundColor: 'warning.light' } : undefined}>
+                      <TableCell>{line.description} ({line.label})</TableCell>
+                      <TableCell align="right">{formatCurrency(line.gstReport)}</TableCell>
+                      <TableCell align="right">{formatCurrency(line.transactions)}</TableCell>
+                      <TableCell align="right">
+                        {exceeds ? <strong>{formatCurrency(line.variance)}</strong> : formatCurrency(line.variance)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          <Alert severity={varianceCount > 0 ? 'warning' : 'success'} sx={{ mt: 2 }}>
+            {varianceCount > 0
+              ? `${varianceCount} label(s) differ by more than ${formatCurrency(tolerance)}. Review the transactions below.`
+              : `The GST report and transactions agree within ${formatCurrency(tolerance)}.`}
+          </Alert>
+        </>
+      )}
+
+      {ITEM_TYPE_ORDER.filter((type) => itemsByType.has(type)).map((type) => {
+        const items = itemsByType.get(type) || [];
+        return (
+          <Box key={type} sx={{ mt: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Typography variant="subtitle2">{RECONCILIATION_ITEM_LABELS[type]}</Typography>
+              <Chip label={items.length} size="small" />
+            </Box>
+            <TableContainer component={Paper}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Reference</TableCell>
+                    <TableCell>Contact</TableCell>
+                    <TableCell>Detail</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                    <TableCell align="right">GST</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={`${item.source}-${item.transactionId}-${item.type}`}>
+                      <TableCell>{item.date ? String(item.date).slice(0, 10) : '-'}</TableCell>
+                      <TableCell>{item.reference || '-'}</TableCell>
+                      <TableCell>{item.contactName || '-'}</TableCell>
+                      <TableCell>{item.detail}</TableCell>
+                      <TableCell align="right">{formatCurrency(item.amount)}</TableCell>
+                      <TableCell align="right">{formatCurrency(item.gst)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        );
+      })}
+
+      {reconciliation.items.length === 0 && (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          No voided, untaxed or late-edited transactions were found in this period.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default BASReconciliationPanel;
@@ -0,0 +1,87 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Lock } from '@mui/icons-material';
+import { BASRecord } from '../api/basRecordService';
+import { BAS_STATUS_COLORS, isBASRecordLocked } from '../utils/basWorkflow';
+
+interface BASRecordsListProps {
+  records: BASRecord[];
+  isLoading?: boolean;
+  error?: string | null;
+  title?: string;
+}
+
+const formatDateTime = (value?: string | null) => (value ? new Date(value).toLocaleString('en-AU') : '-');
+
+const BASRecordsList: React.FC<BASRecordsListProps> = ({ records, isLoading, error, title = 'BAS Records' }) => {
+  const sortedRecords = [...records].sort((a, b) => b.toDate.localeCompare(a.toDate));
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography variant="h6" sx={{ mb: 1 }}>{title}</Typography>
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : sortedRecords.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No BAS has been saved yet. Save a calculation from BAS Processing to start the review workflow.
+        </Typography>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Period</TableCell>
+                <TableCell>Organisation</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Net GST</TableCell>
+                <TableCell>Last Change</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {sortedRecords.map((record) => {
+                const lastTransition = record.history[record.history.length - 1];
+                const netGst = Number(record.figures['1A'] || 0) - Number(record.figures['1B'] || 0);
+                return (
+                  <TableRow key={record.id}>
+                    <TableCell>{record.periodLabel}</TableCell>
+                    <TableCell>{record.tenantName || record.tenantId}</TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                        <Chip label={record.status} color={BAS_STATUS_COLORS[record.status]} size="small" />
+                        {isBASRecordLocked(record) && <Lock fontSize="small" color="action" titleAccess="Figures locked" />}
+                      </Box>
+                    </TableCell>
+                    <TableCell align="right">${netGst.toFixed(2)}</TableCell>
+                    <TableCell>
+                      {lastTransition
+                        ? `${lastTransition.changedBy} · ${formatDateTime(lastTransition.changedAt)}`
+                        : formatDateTime(record.updatedAt)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
+
+export default BASRecordsList;
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Divider,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Step,
+  StepLabel,
+  Stepper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Lock, Save } from '@mui/icons-material';
+import { BASFieldValues, BASRecord, BASRecordStatus } from '../api/basRecordService';
+import { BAS_RECORD_STATUSES, getAllowedTransitions, isBASRecordLocked } from '../utils/basWorkflow';
+
+interface BASWorkflowPanelProps {
+  record: BASRecord | null;
+  // Figures of the current calculation, compared with the saved figures
+  figures: BASFieldValues | null;
+  saving: boolean;
+  onSave: () => void;
+  onTransition: (toStatus: BASRecordStatus, comment?: string) => void;
+  onComment: (body: string) => void;
+}
+
+const TRANSITION_LABELS: Record<BASRecordStatus, string> = {
+  Draft: 'Return to Draft',
+  Prepared: 'Mark as Prepared',
+  Reviewed: 'Mark as Reviewed',
+  'Client Approved': 'Record Client Approval',
+  Lodged: 'Mark as Lodged',
+};
+
+const formatDateTime = (value?: string | null) => (value ? new Date(value).toLocaleString('en-AU') : '-');
+
+// Labels whose saved value differs from the current calculation
+const getChangedLabels = (saved: BASFieldValues, current: BASFieldValues) =>
+  Array.from(new Set([...Object.keys(saved), ...Object.keys(current)])).filter(
+    (label) => String(saved[label] ?? '') !== String(current[label] ?? '')
+  );
+
+const BASWorkflowPanel: React.FC<BASWorkflowPanelProps> = ({
+  record,
+  figures,
+  saving,
+  onSave,
+  onTransition,
+  onComment,
+}) => {
+  const [comment, setComment] = useState('');
+
+  const locked = record ? isBASRecordLocked(record) : false;
+  const changedLabels = record && figures ? getChangedLabels(record.figures, figures) : [];
+
+  const handleTransition = (toStatus: BASRecordStatus) => {
+    onTransition(toStatus, comment.trim() || undefined);
+    setComment('');
+  };
+
+  const handleComment = () => {
+    if (!comment.trim()) return;
+    onComment(comment.trim());
+    setComment('');
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ mt: 3, p: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+        <Typography variant="h6">Review &amp; Lodgement</Typography>
+        <Button
+          variant="outlined"
+          startIcon={locked ? <Lock /> : <Save />}
+          onClick={onSave}
+          disabled={saving || locked || !figures || (record?.status !== undefined && record.status !== 'Draft')}
+        >
+          {record ? 'Update Draft Figures' : 'Save as Draft'}
+        </Button>
+      </Box>
+
+      <Stepper activeStep={record ? BAS_RECORD_STATUSES.indexOf(record.status) : -1} alternativeLabel sx={{ mb: 2 }}>
+        {BAS_RECORD_STATUSES.map((status) => (
+          <Step key={status} completed={!!record && BAS_RECORD_STATUSES.indexOf(record.status) >= BAS_RECORD_STATUSES.indexOf(status)}>
+            <StepLabel>{status}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+
+      {!record ? (
+        <Alert severity="info">
+          This BAS has not been saved. Save it as a draft to start the review and lodgement workflow.
+        </Alert>
+      ) : (
+        <>
+          {locked && (
+            <Alert severity="success" icon={<Lock />} sx={{ mb: 2 }}>
+              Lodged {formatDateTime(record.lockedAt)}{record.lockedBy ? ` by ${record.lockedBy}` : ''}. The saved
+              figures are locked and can no longer be changed.
+            </Alert>
+          )}
+          {!locked && record.status !== 'Draft' && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Figures can only be updated while the BAS is a draft. Return it to Draft to make changes.
+            </Alert>
+          )}
+          {changedLabels.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              The current calculation differs from the saved {record.status.toLowerCase()} figures for{' '}
+              {changedLabels.join(', ')}.
+            </Alert>
+          )}
+
+          {!locked && (
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'flex-start', mb: 2 }}>
+              <TextField
+                size="small"
+                label="Reviewer comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                multiline
+                maxRows={4}
+                sx={{ flex: 1, minWidth: 240 }}
+              />
+              <Button variant="text" onClick={handleComment} disabled={saving || !comment.trim()}>
+                Add Comment
+              </Button>
+              {getAllowedTransitions(record.status).map((status) => (
+                <Button
+                  key={status}
+                  variant={status === 'Draft' ? 'outlined' : 'contained'}
+                  color={status === 'Draft' ? 'inherit' : 'primary'}
+                  onClick={() => handleTransition(status)}
+                  disabled={saving}
+                >
+                  {TRANSITION_LABELS[status]}
+                </Button>
+              ))}
+            </Box>
+          )}
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2 }}>
+            <Box>
+              <Typography variant="subtitle2">History</Typography>
+              <List dense>
+                {record.history.map((transition, index) => (
+                  <ListItem key={`${transition.changedAt}-${index}`} disableGutters>
+                    <ListItemText
+                      primary={`${transition.fromStatus ? `${transition.fromStatus} → ` : ''}${transition.toStatus}`}
+                      secondary={`${transition.changedBy} · ${formatDateTime(transition.changedAt)}${
+                        transition.comment ? ` — ${transition.comment}` : ''
+                      }`}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </Box>
+            <Box>
+              <Typography variant="subtitle2">Comments</Typography>
+              {record.comments.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">No comments yet.</Typography>
+              ) : (
+                <List dense>
+                  {record.comments.map((item) => (
+                    <React.Fragment key={item.id}>
+                      <ListItem disableGutters>
+                        <ListItemText primary={item.body} secondary={`${item.author} · ${formatDateTime(item.createdAt)}`} />
+                      </ListItem>
+                      <Divider component="li" />
+                    </React.Fragment>
+                  ))}
+                </List>
+              )}
+            </Box>
+          </Box>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default BASWorkflowPanel;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { BenfordTestResult } from '../utils/forensicTests';
+
+interface BenfordChartProps {
+  result: BenfordTestResult;
+  selectedDigits: number | null;
+  onSelect: (digits: number) => void;
+}
+
+const CHART_HEIGHT = 160;
+const LABEL_HEIGHT = 16;
+
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+/**
+ * Actual share of each leading digit as bars against the Benford curve. Digits whose difference is
+ * significant are shown in red; clicking a bar selects its transactions.
+ */
+const BenfordChart: React.FC<BenfordChartProps> = ({ result, selectedDigits, onSelect }) => {
+  const barWidth = result.type === 'firstDigit' ? 40 : 8;
+  const width = result.digits.length * barWidth;
+  const max = Math.max(...result.digits.map((digit) => Math.max(digit.actual, digit.expected)), 0.01);
+  const toY = (share: number) => CHART_HEIGHT - (share / max) * (CHART_HEIGHT - 8);
+  const expectedLine = result.digits
+    .map((digit, index) => `${index * barWidth + barWidth / 2},${toY(digit.expected)}`)
+    .join(' ');
+
+  return (
+    <Box>
+      <svg
+        viewBox={`0 0 ${width} ${CHART_HEIGHT + LABEL_HEIGHT}`}
+        width="100%"
+        style={{ maxHeight: 260 }}
+        role="img"
+        aria-label="Leading digit distribution against Benford's law"
+      >
+        {result.digits.map((digit, index) => {
+          const y = toY(digit.actual);
+          const selected = selectedDigits === digit.digits;
+          return (
+            <g key={digit.digits} onClick={() => onSelect(digit.digits)} style={{ cursor: 'pointer' }}>
+              <title>
+                {`${digit.digits}: ${digit.count} transactions, ${formatShare(digit.actual)} actual vs ${formatShare(
+                  digit.expected
+                )} expected (z ${digit.zScore.toFixed(2)})`}
+              </title>
+              <rect x={index * barWidth} y={0} width={barWidth} height={CHART_HEIGHT} fill="transparent" />
+              <rect
+                x={index * barWidth + barWidth * 0.1}
+                y={y}
+                width={barWidth * 0.8}
+                height={CHART_HEIGHT - y}
+                fill={digit.significant ? '#ef4444' : '#8b5cf6'}
+                opacity={selectedDigits === null || selected ? 1 : 0.45}
+                stroke={selected ? '#1f2937' : 'none'}
+                strokeWidth={selected ? 1 : 0}
+              />
+              {(result.type === 'firstDigit' || digit.digits % 10 === 0) && (
+                <text
+                  x={index * barWidth + barWidth / 2}
+                  y={CHART_HEIGHT + LABEL_HEIGHT - 3}
+                  textAnchor={result.type === 'firstDigit' ? 'middle' : 'start'}
+                  fontSize={result.type === 'firstDigit' ? 11 : 10}
+                  fill="#6b7280"
+                >
+                  {digit.digits}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        <polyline points={expectedLine} fill="none" stroke="#f59e0b" strokeWidth={2} />
+      </svg>
+      <Box sx={{ display: 'flex', gap: 2, mt: 0.5 }}>
+        <Typography variant="caption" sx={{ color: '#8b5cf6' }}>■ Actual</Typography>
+        <Typography variant="caption" sx={{ color: '#ef4444' }}>■ Significant difference</Typography>
+        <Typography variant="caption" sx={{ color: '#f59e0b' }}>— Benford expected</Typography>
+      </Box>
+    </Box>
+  );
+};
+
+export default BenfordChart;
@@ -5,6 +5,8 @@ import 'react-datepicker/dist/react-datepicker.css';
 import { format, isAfter, isToday, parse } from 'date-fns';
 import { enAU } from 'date-fns/locale';
 import { Tab } from '@headlessui/react';
+import { GstAccountingBasis, PaygInstalmentMethod } from '../api/companyService';
+import { getAtoQuarterKey, getPeriodForDate } from '../utils/reportingPeriods';
 
 // Helper to format date as DD/MM/YYYY
 const formatDate = (date: Date | null) => (date ? format(date, 'dd/MM/yyyy') : '');
@@ -18,10 +20,19 @@ export type CompanyComplianceFormValues = {
   iasFrequency?: 'Monthly' | 'Quarterly' | 'Yearly';
   nextIasDue?: Date | null;
   financialEndDate: Date | null;
+  gstAccountingBasis: GstAccountingBasis;
+  paygInstalmentMethod: PaygInstalmentMethod;
+  paygInstalmentAmount?: number | null;
+  paygInstalmentRate?: number | null;
 };
 
 const basOptions = ['Monthly', 'Quarterly', 'Yearly'] as const;
 const iasOptions = ['Monthly', 'Quarterly'] as const;
+const paygInstalmentOptions: { value: PaygInstalmentMethod; label: string }[] = [
+  { value: 'None', label: 'Not registered' },
+  { value: 'Amount', label: 'Instalment amount (Option 1)' },
+  { value: 'Rate', label: 'Instalment rate (Option 2)' },
+];
 
 export default function CompanyComplianceForm({ onSubmit, defaultValues, deadlines, onAutoFill, loading = false }: {
   onSubmit: (data: CompanyComplianceFormValues) => void,
@@ -47,6 +58,10 @@ export default function CompanyComplianceForm({ onSubmit, defaultValues, deadlin
       iasFrequency: 'Quarterly',
       nextIasDue: null,
       financialEndDate: null,
+      gstAccountingBasis: 'Accrual',
+      paygInstalmentMethod: 'None',
+      paygInstalmentAmount: null,
+      paygInstalmentRate: null,
       ...defaultValues,
     },
   });
@@ -55,6 +70,13 @@ export default function CompanyComplianceForm({ onSubmit, defaultValues, deadlin
   const iasRequired = watch('iasRequired');
   const basFrequency = watch('basFrequency');
   const iasFrequency = watch('iasFrequency');
+  const paygInstalmentMethod = watch('paygInstalmentMethod');
+  const financialEndDate = watch('financialEndDate');
+
+  // ATO quarter (q1-q4) of the current quarterly period, used to look up quarterly due dates
+  const currentQuarterKey = getAtoQuarterKey(
+    getPeriodForDate(new Date(), { frequency: 'Quarterly', financialYearEnd: financialEndDate })
+  );
   const [fbtFrequency, setFbtFrequency] = React.useState<'Yearly' | 'Quarterly'>('Yearly');
 
   // Coerce radio values to boolean
@@ -73,6 +95,8 @@ export default function CompanyComplianceForm({ onSubmit, defaultValues, deadlin
         iasFrequency,
         nextIasDue: null,
         financialEndDate: null,
+        gstAccountingBasis: watch('gstAccountingBasis'),
+        paygInstalmentMethod,
       }, setValue);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -146,6 +170,10 @@ export default function CompanyComplianceForm({ onSubmit, defaultValues, deadlin
       // BAS tab - reset BAS related fields
       setValue('basFrequency', currentFormData.basFrequency || 'Quarterly');
       setValue('nextBasDue', currentFormData.nextBasDue || null);
+      setValue('gstAccountingBasis', currentFormData.gstAccountingBasis || 'Accrual');
+      setValue('paygInstalmentMethod', currentFormData.paygInstalmentMethod || 'None');
+      setValue('paygInstalmentAmount', currentFormData.paygInstalmentAmount ?? null);
+      setValue('paygInstalmentRate', currentFormData.paygInstalmentRate ?? null);
     } else if (tabIndex === 1) {
       // FBT tab - reset FBT related fields
       setValue('fbtApplicable', currentFormData.fbtApplicable || false);
@@ -234,14 +262,7 @@ export default function CompanyComplianceForm({ onSubmit, defaultValues, deadlin
                   </div>
                 );
               } else if (basFrequency === 'Quarterly' && deadlines?.bas?.quarterly) {
-                const now = new Date();
-                const month = now.getMonth() + 1;
-                let q = 'q1';
-                if (month >= 1 && month <= 3) q = 'q3';
-                else if (month >= 4 && month <= 6) q = 'q4';
-                else if (month >= 7 && month <= 9) q = 'q1';
-                else q = 'q2';
-                const label = deadlines.bas.quarterly[q];
+                const label = currentQuarterKey && deadlines.bas.quarterly[currentQuarterKey];
                 if (label) {
                   return (
                     <div>
@@ -278,6 +299,63 @@ export default function CompanyComplianceForm({ onSubmit, defaultValues, deadlin
                 </div>
               );
             })()}
+            {/* GST Accounting Basis */}
+            <div>
+              <label className="block font-medium mb-1">GST Accounting Basis <span className="text-red-500">*</span></label>
+              <select
+                {...register('gstAccountingBasis', { required: 'GST accounting basis is required' })}
+                className="w-full border rounded px-3 py-2"
+              >
+                <option value="Cash">Cash (report GST when paid)</option>
+                <option value="Accrual">Accrual (report GST when invoiced)</option>
+              </select>
+              {errors.gstAccountingBasis && <p className="text-red-500 text-sm">{errors.gstAccountingBasis.message}</p>}
+            </div>
+            {/* PAYG Instalments */}
+            <div>
+              <label className="block font-medium mb-1">PAYG Instalment Method</label>
+              <select
+                {...register('paygInstalmentMethod')}
+                className="w-full border rounded px-3 py-2"
+              >
+                {paygInstalmentOptions.map(opt => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+            </div>
+            {paygInstalmentMethod === 'Amount' && (
+              <div>
+                <label className="block font-medium mb-1">Instalment Amount per Period ($) <span className="text-red-500">*</span></label>
+                <input
+                  type="number"
+                  step="0.01"
+                  {...register('paygInstalmentAmount', {
+                    valueAsNumber: true,
+                    required: 'Instalment amount is required',
+                    min: { value: 0, message: 'Amount cannot be negative' },
+                  })}
+                  className="w-full border rounded px-3 py-2"
+                />
+                {errors.paygInstalmentAmount && <p className="text-red-500 text-sm">{errors.paygInstalmentAmount.message}</p>}
+              </div>
+            )}
+            {paygInstalmentMethod === 'Rate' && (
+              <div>
+                <label className="block font-medium mb-1">Instalment Rate (%) <span className="text-red-500">*</span></label>
+                <input
+                  type="number"
+                  step="0.1"
+                  {...register('paygInstalmentRate', {
+                    valueAsNumber: true,
+                    required: 'Instalment rate is required',
+                    min: { value: 0, message: 'Rate cannot be negative' },
+                    max: { value: 100, message: 'Rate cannot exceed 100%' },
+                  })}
+                  className="w-full border rounded px-3 py-2"
+                />
+                {errors.paygInstalmentRate && <p className="text-red-500 text-sm">{errors.paygInstalmentRate.message}</p>}
+              </div>
+            )}
           </>
         )}
         {tabIndex === 1 && (
@@ -349,14 +427,7 @@ export default function CompanyComplianceForm({ onSubmit, defaultValues, deadlin
                   </div>
                 );
               } else if (fbtFrequency === 'Quarterly' && deadlines?.bas?.quarterly) {
-                const now = new Date();
-                const month = now.getMonth() + 1;
-                let q = 'q1';
-                if (month >= 1 && month <= 3) q = 'q3';
-                else if (month >= 4 && month <= 6) q = 'q4';
-                else if (month >= 7 && month <= 9) q = 'q1';
-                else q = 'q2';
-                const label = deadlines.bas.quarterly[q];
+                const label = currentQuarterKey && deadlines.bas.quarterly[currentQuarterKey];
                 const formattedLabel = label ? formatDate(new Date(label)) : 'N/A';
                 return (
                   <div>
@@ -460,14 +531,7 @@ export default function CompanyComplianceForm({ onSubmit, defaultValues, deadlin
                       </div>
                     );
                   } else if (iasFrequency === 'Quarterly' && deadlines?.ias?.quarterly) {
-                    const now = new Date();
-                    const month = now.getMonth() + 1;
-                    let q = 'q1';
-                    if (month >= 1 && month <= 3) q = 'q3';
-                    else if (month >= 4 && month <= 6) q = 'q4';
-                    else if (month >= 7 && month <= 9) q = 'q1';
-                    else q = 'q2';
-                    const label = deadlines.ias.quarterly[q];
+                    const label = currentQuarterKey && deadlines.ias.quarterly[currentQuarterKey];
                     if (label) {
                       return (
                         <div>
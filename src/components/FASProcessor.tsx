@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import {
   Card,
   CardContent,
@@ -34,14 +34,47 @@ import {
 } from '@mui/icons-material';
 import { withXeroData, XeroDataProps } from '../hocs/withXeroData';
 import { useAuth } from '../contexts/AuthContext';
-import {
-  isPlainObject,
-  getSectionData,
-  renderXeroDataPreview,
-} from './XeroDataPreview';
+import { renderXeroDataPreview } from './XeroDataPreview';
 import { downloadFASReportPdf } from '../api/xeroService';
+import {
+  companyService,
+  FBTBenefitAllocation,
+  FBTCar,
+  FBTEntertainmentElection
+} from '../api/companyService';
+import { useCompanyCompliance } from '../hooks/useCompanyCompliance';
+import {
+  FBT_YEAR_END,
+  generateReportingPeriods,
+  getFinancialYearForDate,
+  getFinancialYearOptions,
+  getPeriodForDate,
+  ReportingPeriod,
+  ReportingPeriodOptions
+} from '../utils/reportingPeriods';
+import {
+  classifyFbtBenefits,
+  FBT_BENEFIT_CATEGORY_LABELS,
+  FBTBenefitCategory,
+  FBTBenefitSummary,
+  getBenefitTotal
+} from '../utils/fbtCalculation';
+import { createFbtCar, summariseCarRegister } from '../utils/fbtCars';
+import { calculateFbtPeriod, FBTPeriodFigures } from '../utils/fbtYear';
+import { getSectionData, isPlainObject } from '../utils/xeroRecords';
+import ReportingPeriodSelector from './ReportingPeriodSelector';
+import FBTCarRegisterPanel from './FBTCarRegisterPanel';
+import FBTEntertainmentPanel from './FBTEntertainmentPanel';
+import FBTYearPanel from './FBTYearPanel';
 import toast from 'react-hot-toast';
 
+const FBT_QUARTER_OPTIONS: ReportingPeriodOptions = {
+  frequency: 'Quarterly',
+  financialYearEnd: FBT_YEAR_END,
+  yearLabelPrefix: 'FBT',
+};
+const FBT_ANNUAL_OPTIONS: ReportingPeriodOptions = { ...FBT_QUARTER_OPTIONS, frequency: 'Annually' };
+
 interface FASProcessorProps extends XeroDataProps {
   // Additional props specific to FAS processing
   onFASComplete?: (data: any) => void;
@@ -49,13 +82,10 @@ interface FASProcessorProps extends XeroDataProps {
 }
 
 
-interface FASCalculationResult {
-  totalFBT: number;
-  fbtOnCars: number;
-  fbtOnEntertainment: number;
-  fbtOnOther: number;
-  grossTaxableValue: number;
-  fbtPayable: number;
+interface FASCalculationResult extends FBTPeriodFigures {
+  /** Benefits classified from the Xero data, before the car register and entertainment election are applied */
+  xeroBenefits: FBTBenefitSummary;
+  reportedGrossTaxableValue: number;
   period: {
     fromDate: string;
     toDate: string;
@@ -92,59 +122,174 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
   const [isCalculating, setIsCalculating] = useState(false);
   const [calculationError, setCalculationError] = useState<string | null>(null);
   const [useCache, setUseCache] = useState(true);
-  const [selectedQuarter, setSelectedQuarter] = useState<string>('');
-  const [dateSelectionMode, setDateSelectionMode] = useState<'manual' | 'quarter'>('quarter');
+  const [selectedPeriod, setSelectedPeriod] = useState<ReportingPeriod | null>(null);
+  const [fbtYear, setFbtYear] = useState<number>(() => getFinancialYearOptions(FBT_YEAR_END)[0]);
+  const [dateSelectionMode, setDateSelectionMode] = useState<'manual' | 'period'>('period');
   const requestSignatureRef = useRef<string | null>(null);
   const [isDownloadingPDF, setIsDownloadingPDF] = useState(false);
+  const [carRegister, setCarRegister] = useState<FBTCar[]>([]);
+  const [savingCarRegister, setSavingCarRegister] = useState(false);
+  const [entertainmentElections, setEntertainmentElections] = useState<FBTEntertainmentElection[]>([]);
+  const [savingEntertainment, setSavingEntertainment] = useState(false);
+  const [benefitAllocations, setBenefitAllocations] = useState<FBTBenefitAllocation[]>([]);
+  const [savingAllocations, setSavingAllocations] = useState(false);
 
   const { company } = useAuth();
+  const { compliance, refetch: refetchCompliance } = useCompanyCompliance();
+
+  // FAS periods are the quarters of the FBT year (1 April - 31 March) plus the full year
+  const fbtPeriods = useMemo(
+    () => [
+      ...generateReportingPeriods(fbtYear, FBT_QUARTER_OPTIONS),
+      ...generateReportingPeriods(fbtYear, FBT_ANNUAL_OPTIONS),
+    ],
+    [fbtYear]
+  );
+  const fbtYearOptions = useMemo(() => getFinancialYearOptions(FBT_YEAR_END), []);
+
+  // Manual date ranges are rated by the FBT year in which they start
+  const periodFbtYear = useMemo(
+    () =>
+      selectedPeriod?.financialYear ??
+      (fromDate ? getFinancialYearForDate(new Date(`${fromDate}T00:00:00`), FBT_YEAR_END) : fbtYear),
+    [selectedPeriod, fromDate, fbtYear]
+  );
 
-  const formatDateForInput = (date: Date) => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
+  const carRegisterSummary = useMemo(
+    () => summariseCarRegister({ cars: carRegister, fbtYear: periodFbtYear, fromDate, toDate }),
+    [carRegister, periodFbtYear, fromDate, toDate]
+  );
+  const yearCars = carRegister.filter((car) => car.fbtYear === periodFbtYear);
+  const previousYearCars = carRegister.filter((car) => car.fbtYear === periodFbtYear - 1);
+  const carRegisterChanged = JSON.stringify(carRegister) !== JSON.stringify(compliance?.fbtCars || []);
+  const yearEntertainmentElection = entertainmentElections.find((election) => election.fbtYear === periodFbtYear) || null;
+  const allocationsChanged =
+    carRegisterChanged || JSON.stringify(benefitAllocations) !== JSON.stringify(compliance?.fbtAllocations || []);
+  const entertainmentChanged =
+    JSON.stringify(entertainmentElections) !== JSON.stringify(compliance?.fbtEntertainment || []);
+
+  const handlePeriodChange = (period: ReportingPeriod) => {
+    setSelectedPeriod(period);
+    setFbtYear(period.financialYear);
+    setFromDate(period.fromDate);
+    setToDate(period.toDate);
   };
 
-  // Quarter calculation functions
-  const getQuarterDates = (quarter: string, year: number) => {
-    const quarters = {
-      'Q1': { start: new Date(year, 6, 1), end: new Date(year, 8, 30) }, // Jul-Sep
-      'Q2': { start: new Date(year, 9, 1), end: new Date(year, 11, 31) }, // Oct-Dec
-      'Q3': { start: new Date(year, 0, 1), end: new Date(year, 2, 31) }, // Jan-Mar
-      'Q4': { start: new Date(year, 3, 1), end: new Date(year, 5, 30) }  // Apr-Jun
-    };
-    return quarters[quarter as keyof typeof quarters];
+  const handleFbtYearChange = (year: number) => {
+    const options = selectedPeriod?.frequency === 'Annually' ? FBT_ANNUAL_OPTIONS : FBT_QUARTER_OPTIONS;
+    const yearPeriods = generateReportingPeriods(year, options);
+    handlePeriodChange(yearPeriods.find((period) => period.index === selectedPeriod?.index) || yearPeriods[0]);
   };
 
-  const getCurrentFBTQuarter = () => {
-    const now = new Date();
-    const month = now.getMonth() + 1; // 1-12
-    const year = now.getFullYear();
-    
-    if (month >= 7 && month <= 9) return { quarter: 'Q1', year };
-    if (month >= 10 && month <= 12) return { quarter: 'Q2', year };
-    if (month >= 1 && month <= 3) return { quarter: 'Q3', year };
-    if (month >= 4 && month <= 6) return { quarter: 'Q4', year };
-    
-    return { quarter: 'Q1', year }; // Default fallback
+  // Initialize with the current FBT quarter
+  useEffect(() => {
+    handlePeriodChange(getPeriodForDate(new Date(), FBT_QUARTER_OPTIONS));
+  }, []);
+
+  // Default the car register and entertainment elections from the company's compliance settings
+  useEffect(() => {
+    setCarRegister(compliance?.fbtCars || []);
+  }, [compliance?.fbtCars]);
+
+  useEffect(() => {
+    setEntertainmentElections(compliance?.fbtEntertainment || []);
+  }, [compliance?.fbtEntertainment]);
+
+  useEffect(() => {
+    setBenefitAllocations(compliance?.fbtAllocations || []);
+  }, [compliance?.fbtAllocations]);
+
+  // Re-derive the FBT figures when the car register, entertainment election or period changes; Xero benefits come from the last calculation
+  useEffect(() => {
+    setCalculationResult((prev) =>
+      prev
+        ? {
+            ...prev,
+            ...calculateFbtPeriod({
+              xeroBenefits: prev.xeroBenefits,
+              reportedGrossTaxableValue: prev.reportedGrossTaxableValue,
+              carRegister: carRegisterSummary,
+              entertainmentElections,
+              fbtYear: periodFbtYear,
+              fromDate,
+              toDate,
+            }),
+          }
+        : prev
+    );
+  }, [carRegisterSummary, entertainmentElections, periodFbtYear, fromDate, toDate]);
+
+  const handleYearCarsChange = (cars: FBTCar[]) => {
+    setCarRegister((prev) => [...prev.filter((car) => car.fbtYear !== periodFbtYear), ...cars]);
   };
 
-  const handleQuarterChange = (quarter: string, year: number) => {
-    const dates = getQuarterDates(quarter, year);
-    if (dates) {
-      setFromDate(formatDateForInput(dates.start));
-      setToDate(formatDateForInput(dates.end));
-      setSelectedQuarter(quarter);
+  const handleCopyPreviousYearCars = () => {
+    handleYearCarsChange(
+      previousYearCars.map((car) => ({ ...car, id: createFbtCar(periodFbtYear).id, fbtYear: periodFbtYear }))
+    );
+  };
+
+  const handleSaveCarRegister = async () => {
+    if (!compliance) {
+      toast.error('Set up the company compliance details before saving the car register');
+      return;
+    }
+    try {
+      setSavingCarRegister(true);
+      await companyService.updateComplianceSettings({ fbtCars: carRegister });
+      await refetchCompliance();
+      toast.success('Car register saved');
+    } catch (error: any) {
+      console.error('❌ Error saving FBT car register:', error);
+      toast.error(error?.response?.data?.message || 'Failed to save the car register');
+    } finally {
+      setSavingCarRegister(false);
     }
   };
 
-  // Initialize with current FBT quarter
-  useEffect(() => {
-    const { quarter, year } = getCurrentFBTQuarter();
-    setSelectedQuarter(quarter);
-    handleQuarterChange(quarter, year);
-  }, []);
+  const handleEntertainmentElectionChange = (election: FBTEntertainmentElection | null) => {
+    setEntertainmentElections((prev) => [
+      ...prev.filter((item) => item.fbtYear !== periodFbtYear),
+      ...(election ? [{ ...election, fbtYear: periodFbtYear }] : []),
+    ]);
+  };
+
+  const handleSaveEntertainmentElection = async () => {
+    if (!compliance) {
+      toast.error('Set up the company compliance details before saving the entertainment election');
+      return;
+    }
+    try {
+      setSavingEntertainment(true);
+      await companyService.updateComplianceSettings({ fbtEntertainment: entertainmentElections });
+      await refetchCompliance();
+      toast.success(`Meal entertainment election saved for FBT${periodFbtYear}`);
+    } catch (error: any) {
+      console.error('❌ Error saving FBT entertainment election:', error);
+      toast.error(error?.response?.data?.message || 'Failed to save the entertainment election');
+    } finally {
+      setSavingEntertainment(false);
+    }
+  };
+
+  // Cars are allocated to employees in the FBT year view, so the car register is saved with the allocations
+  const handleSaveAllocations = async () => {
+    if (!compliance) {
+      toast.error('Set up the company compliance details before saving the benefit allocations');
+      return;
+    }
+    try {
+      setSavingAllocations(true);
+      await companyService.updateComplianceSettings({ fbtCars: carRegister, fbtAllocations: benefitAllocations });
+      await refetchCompliance();
+      toast.success('Benefit allocations saved');
+    } catch (error: any) {
+      console.error('❌ Error saving FBT benefit allocations:', error);
+      toast.error(error?.response?.data?.message || 'Failed to save the benefit allocations');
+    } finally {
+      setSavingAllocations(false);
+    }
+  };
 
   // Load FAS data when tenant or dates change
   const loadFASData = useCallback(
@@ -199,83 +344,20 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
       
       console.log('🧮 Calculating FAS...');
 
-      const dataRoot = isPlainObject(fasData.data) ? fasData.data : fasData;
-      const fasReport =
-        getSectionData(fasData, 'fasReport') ||
-        getSectionData(dataRoot, 'fasReport') ||
-        getSectionData(dataRoot, 'reports');
-
-      const rows = Array.isArray(fasReport?.Rows)
-        ? fasReport.Rows
-        : Array.isArray(fasReport)
-        ? fasReport
-        : fasReport?.Reports?.[0]?.Rows || [];
-      let totalFBT = 0;
-      let fbtOnCars = 0;
-      let fbtOnEntertainment = 0;
-      let fbtOnOther = 0;
-      let grossTaxableValue = 0;
-
-      if (Array.isArray(rows) && rows.length > 0) {
-        rows.forEach((row: any) => {
-          if (row.Cells && row.Cells.length > 0) {
-            const cells = row.Cells;
-            const description = (cells[0]?.Value || '').toLowerCase();
-            const value = parseFloat(cells[cells.length - 1]?.Value || '0');
-
-            if (description.includes('car')) {
-              fbtOnCars += Math.abs(value);
-            } else if (description.includes('entertainment')) {
-              fbtOnEntertainment += Math.abs(value);
-            } else if (description.includes('gross taxable value')) {
-              grossTaxableValue += Math.abs(value);
-            } else if (description.includes('fbt')) {
-              fbtOnOther += Math.abs(value);
-            }
-          }
-        });
-      }
-
-      if (fbtOnCars === 0 && fbtOnEntertainment === 0 && fbtOnOther === 0) {
-        const transactions = getSectionData(fasData, 'transactions');
-        if (Array.isArray(transactions)) {
-          transactions.forEach((tx: any) => {
-            const category = (tx?.Category || tx?.Type || '').toLowerCase();
-            const value = Math.abs(parseFloat(tx?.Amount || tx?.Value || '0'));
-            if (category.includes('car')) {
-              fbtOnCars += value;
-            } else if (category.includes('entertainment')) {
-              fbtOnEntertainment += value;
-            } else if (category.includes('fbt')) {
-              fbtOnOther += value;
-            }
-          });
-        }
-      }
-
-      if (grossTaxableValue === 0) {
-        const balanceSheet = getSectionData(fasData, 'balanceSheet');
-        if (Array.isArray(balanceSheet)) {
-          balanceSheet.forEach((row: any) => {
-            const description = String(row?.Description || row?.LineDescription || '').toLowerCase();
-            const value = Math.abs(parseFloat(row?.Value || row?.Column2 || '0'));
-            if (description.includes('net assets') || description.includes('gross taxable')) {
-              grossTaxableValue += value;
-            }
-          });
-        }
-      }
-
-      totalFBT = fbtOnCars + fbtOnEntertainment + fbtOnOther;
-      const fbtPayable = totalFBT * 0.47; // FBT rate is 47%
+      const { benefits, reportedGrossTaxableValue } = classifyFbtBenefits(fasData);
 
       const result: FASCalculationResult = {
-        totalFBT,
-        fbtOnCars,
-        fbtOnEntertainment,
-        fbtOnOther,
-        grossTaxableValue,
-        fbtPayable,
+        ...calculateFbtPeriod({
+          xeroBenefits: benefits,
+          reportedGrossTaxableValue,
+          carRegister: carRegisterSummary,
+          entertainmentElections,
+          fbtYear: periodFbtYear,
+          fromDate,
+          toDate
+        }),
+        xeroBenefits: benefits,
+        reportedGrossTaxableValue,
         period: {
           fromDate,
           toDate
@@ -295,7 +377,7 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
     } finally {
       setIsCalculating(false);
     }
-  }, [fasData, fromDate, toDate, onFASComplete, onFASError]);
+  }, [fasData, fromDate, toDate, periodFbtYear, carRegisterSummary, entertainmentElections, onFASComplete, onFASError]);
 
   // Auto-load data when dependencies change
   useEffect(() => {
@@ -368,20 +450,20 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
       setCalculationError(null);
 
       // Prepare FAS data structure based on calculation results
+      const { fbt } = calculationResult;
       const fasDataForPDF = {
-        FAS_Period: selectedQuarter 
-          ? `${selectedQuarter} ${new Date().getFullYear()}`
-          : `${fromDate} to ${toDate}`,
+        FAS_Period: selectedPeriod ? selectedPeriod.label : `${fromDate} to ${toDate}`,
+        FAS_Year: fbt.fbtYear,
         FAS_Fields: {
-          A1: calculationResult.totalFBT || calculationResult.grossTaxableValue,
-          A2: 0, // Not calculated in current implementation
-          A3: calculationResult.grossTaxableValue,
-          A4: 0, // Not calculated in current implementation
-          A5: calculationResult.fbtPayable,
-          A6: 47, // FBT rate is 47%
-          A7: 0, // Not calculated in current implementation
-          A8: 2.0802, // Type 1 gross-up rate
-          A9: 1.8868, // Type 2 gross-up rate
+          A1: fbt.type1Aggregate, // Type 1 aggregate amount
+          A2: fbt.type2Aggregate, // Type 2 aggregate amount
+          A3: fbt.grossTaxableValue, // Fringe benefits taxable amount
+          A4: fbt.type1GrossedUp, // Type 1 grossed-up amount
+          A5: fbt.fbtPayable,
+          A6: fbt.rates.fbtRate,
+          A7: fbt.type2GrossedUp, // Type 2 grossed-up amount
+          A8: fbt.rates.type1GrossUpRate,
+          A9: fbt.rates.type2GrossUpRate,
         }
       };
 
@@ -391,17 +473,38 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
           rawXeroData: fasData, // Include raw Xero data for reference
         },
         summary: {
-          totalFringeBenefits: calculationResult.totalFBT || calculationResult.grossTaxableValue,
+          totalFringeBenefits: calculationResult.totalFBT,
           fbtOnCars: calculationResult.fbtOnCars,
           fbtOnEntertainment: calculationResult.fbtOnEntertainment,
           fbtOnOther: calculationResult.fbtOnOther,
           grossTaxableValue: calculationResult.grossTaxableValue,
           fbtPayable: calculationResult.fbtPayable,
-          fbtRate: 47,
+          fbtRate: fbt.rates.fbtRate,
+          fbtYear: fbt.fbtYear,
+          type1Aggregate: fbt.type1Aggregate,
+          type2Aggregate: fbt.type2Aggregate,
+          type1GrossUpRate: fbt.rates.type1GrossUpRate,
+          type2GrossUpRate: fbt.rates.type2GrossUpRate,
+          type1GrossedUp: fbt.type1GrossedUp,
+          type2GrossedUp: fbt.type2GrossedUp,
+          grossTaxableValueSource: fbt.source,
+          carBenefitsSource: calculationResult.carRegister ? 'carRegister' : 'xero',
+          entertainmentMethod: calculationResult.entertainment?.method || null,
+          entertainmentTaxablePercentage: calculationResult.entertainment?.taxablePercentage ?? null,
+          entertainmentMinorBenefitsExempt: calculationResult.entertainment?.minorBenefitsExempt || 0,
+          cars: (calculationResult.carRegister?.cars || []).map((calculation) => ({
+            vehicle: calculation.car.vehicle,
+            statutoryValue: calculation.statutoryValue,
+            operatingCostValue: calculation.operatingCostValue,
+            method: calculation.electricVehicle.eligible ? 'electricVehicleExempt' : calculation.recommendedMethod,
+            taxableValue: calculation.taxableValue,
+            benefitType: calculation.benefitType,
+          })),
           period: {
             fromDate,
             toDate,
-            quarter: selectedQuarter || null
+            quarter: selectedPeriod?.shortLabel || null,
+            frequency: selectedPeriod?.frequency || null
           }
         },
         metadata: {
@@ -412,7 +515,8 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
           period: {
             fromDate,
             toDate,
-            quarter: selectedQuarter || null
+            quarter: selectedPeriod?.shortLabel || null,
+            frequency: selectedPeriod?.frequency || null
           },
           notes: `FAS PDF generated from Xero account data for ${selectedTenant.name || 'organization'}.`,
           dataSource: 'Xero Accounting',
@@ -426,7 +530,7 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
       const downloadUrl = window.URL.createObjectURL(pdfBlob);
       const link = document.createElement('a');
       link.href = downloadUrl;
-      const safePeriod = (selectedQuarter || fromDate).replace(/[^a-z0-9]+/gi, '_');
+      const safePeriod = (selectedPeriod?.shortLabel || fromDate).replace(/[^a-z0-9]+/gi, '_');
       link.download = `FAS_Report_${selectedTenant.name?.replace(/[^a-z0-9]+/gi, '_') || 'Xero'}_${safePeriod}_${new Date().toISOString().split('T')[0]}.pdf`;
       document.body.appendChild(link);
       link.click();
@@ -555,12 +659,12 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
         {/* Date Selection Mode Toggle */}
         <Box sx={{ mb: 2 }}>
           <Button
-            variant={dateSelectionMode === 'quarter' ? 'contained' : 'outlined'}
-            onClick={() => setDateSelectionMode('quarter')}
+            variant={dateSelectionMode === 'period' ? 'contained' : 'outlined'}
+            onClick={() => setDateSelectionMode('period')}
             sx={{ mr: 1 }}
             size="small"
           >
-            📅 Quarter Selection
+            📅 FBT Period
           </Button>
           <Button
             variant={dateSelectionMode === 'manual' ? 'contained' : 'outlined'}
@@ -571,47 +675,19 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
           </Button>
         </Box>
 
-        {/* Quarter Selection */}
-        {dateSelectionMode === 'quarter' && (
-          <Grid container spacing={2} sx={{ mb: 3 }}>
-            <Grid item xs={12} sm={6}>
-              <FormControl fullWidth>
-                <InputLabel>FBT Quarter</InputLabel>
-                <Select
-                  value={selectedQuarter}
-                  onChange={(e) => {
-                    const quarter = e.target.value;
-                    const currentYear = new Date().getFullYear();
-                    handleQuarterChange(quarter, currentYear);
-                  }}
-                  label="FBT Quarter"
-                >
-                  <MenuItem value="Q1">Q1 (Jul-Sep)</MenuItem>
-                  <MenuItem value="Q2">Q2 (Oct-Dec)</MenuItem>
-                  <MenuItem value="Q3">Q3 (Jan-Mar)</MenuItem>
-                  <MenuItem value="Q4">Q4 (Apr-Jun)</MenuItem>
-                </Select>
-              </FormControl>
-            </Grid>
-            <Grid item xs={12} sm={6}>
-              <TextField
-                fullWidth
-                label="Financial Year"
-                type="number"
-                value={new Date().getFullYear()}
-                disabled
-                helperText="FBT Year (April to March)"
-              />
-            </Grid>
-            <Grid item xs={12}>
-              <Box sx={{ p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
-                <Typography variant="body2" color="text.secondary">
-                  <strong>Selected Period:</strong> {fromDate} to {toDate}
-                  {selectedQuarter && ` (${selectedQuarter} ${new Date().getFullYear()})`}
-                </Typography>
-              </Box>
-            </Grid>
-          </Grid>
+        {/* FBT Period Selection */}
+        {dateSelectionMode === 'period' && (
+          <ReportingPeriodSelector
+            periods={fbtPeriods}
+            selectedPeriod={selectedPeriod}
+            onPeriodChange={handlePeriodChange}
+            financialYear={fbtYear}
+            financialYearOptions={fbtYearOptions}
+            onFinancialYearChange={handleFbtYearChange}
+            periodLabel="FBT Period"
+            yearLabel="FBT Year"
+            helperText="The FBT year runs from 1 April to 31 March"
+          />
         )}
 
         {/* Manual Date Range Selection */}
@@ -623,7 +699,10 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
                 label="From Date"
                 type="date"
                 value={fromDate}
-                onChange={(e) => setFromDate(e.target.value)}
+                onChange={(e) => {
+                  setSelectedPeriod(null);
+                  setFromDate(e.target.value);
+                }}
                 InputLabelProps={{ shrink: true }}
               />
             </Grid>
@@ -633,7 +712,10 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
                 label="To Date"
                 type="date"
                 value={toDate}
-                onChange={(e) => setToDate(e.target.value)}
+                onChange={(e) => {
+                  setSelectedPeriod(null);
+                  setToDate(e.target.value);
+                }}
                 InputLabelProps={{ shrink: true }}
               />
             </Grid>
@@ -701,43 +783,49 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
               <Table>
                 <TableHead>
                   <TableRow>
-                    <TableCell><strong>Item</strong></TableCell>
-                    <TableCell align="right"><strong>Amount</strong></TableCell>
+                    <TableCell><strong>Benefits</strong></TableCell>
+                    <TableCell align="right"><strong>Type 1 (GST-creditable)</strong></TableCell>
+                    <TableCell align="right"><strong>Type 2 (non-creditable)</strong></TableCell>
+                    <TableCell align="right"><strong>Total</strong></TableCell>
                   </TableRow>
                 </TableHead>
                 <TableBody>
+                  {(Object.keys(FBT_BENEFIT_CATEGORY_LABELS) as FBTBenefitCategory[]).map((category) => (
+                    <TableRow key={category}>
+                      <TableCell>{FBT_BENEFIT_CATEGORY_LABELS[category]}</TableCell>
+                      <TableCell align="right">
+                        ${calculationResult.fbt.benefits[category].type1.toFixed(2)}
+                      </TableCell>
+                      <TableCell align="right">
+                        ${calculationResult.fbt.benefits[category].type2.toFixed(2)}
+                      </TableCell>
+                      <TableCell align="right">
+                        ${getBenefitTotal(calculationResult.fbt.benefits[category]).toFixed(2)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
                   <TableRow>
-                    <TableCell>FBT on Cars</TableCell>
-                    <TableCell align="right">
-                      ${calculationResult.fbtOnCars.toFixed(2)}
-                    </TableCell>
-                  </TableRow>
-                  <TableRow>
-                    <TableCell>FBT on Entertainment</TableCell>
-                    <TableCell align="right">
-                      ${calculationResult.fbtOnEntertainment.toFixed(2)}
-                    </TableCell>
-                  </TableRow>
-                  <TableRow>
-                    <TableCell>FBT on Other Benefits</TableCell>
-                    <TableCell align="right">
-                      ${calculationResult.fbtOnOther.toFixed(2)}
-                    </TableCell>
+                    <TableCell><strong>Aggregate amount</strong></TableCell>
+                    <TableCell align="right">${calculationResult.fbt.type1Aggregate.toFixed(2)}</TableCell>
+                    <TableCell align="right">${calculationResult.fbt.type2Aggregate.toFixed(2)}</TableCell>
+                    <TableCell align="right">${calculationResult.totalFBT.toFixed(2)}</TableCell>
                   </TableRow>
                   <TableRow>
-                    <TableCell>Total FBT</TableCell>
-                    <TableCell align="right">
-                      ${calculationResult.totalFBT.toFixed(2)}
-                    </TableCell>
+                    <TableCell>Gross-up rate (FBT{calculationResult.fbt.fbtYear})</TableCell>
+                    <TableCell align="right">{calculationResult.fbt.rates.type1GrossUpRate}</TableCell>
+                    <TableCell align="right">{calculationResult.fbt.rates.type2GrossUpRate}</TableCell>
+                    <TableCell />
                   </TableRow>
                   <TableRow>
-                    <TableCell>Gross Taxable Value</TableCell>
-                    <TableCell align="right">
-                      ${calculationResult.grossTaxableValue.toFixed(2)}
-                    </TableCell>
+                    <TableCell>Grossed-up taxable value</TableCell>
+                    <TableCell align="right">${calculationResult.fbt.type1GrossedUp.toFixed(2)}</TableCell>
+                    <TableCell align="right">${calculationResult.fbt.type2GrossedUp.toFixed(2)}</TableCell>
+                    <TableCell align="right">${calculationResult.grossTaxableValue.toFixed(2)}</TableCell>
                   </TableRow>
                   <TableRow sx={{ backgroundColor: 'primary.light', color: 'primary.contrastText' }}>
-                    <TableCell><strong>FBT Payable (47%)</strong></TableCell>
+                    <TableCell colSpan={3}>
+                      <strong>FBT Payable ({calculationResult.fbt.rates.fbtRate}%)</strong>
+                    </TableCell>
                     <TableCell align="right">
                       <strong>${calculationResult.fbtPayable.toFixed(2)}</strong>
                     </TableCell>
@@ -745,6 +833,11 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
                 </TableBody>
               </Table>
             </TableContainer>
+            {calculationResult.fbt.source === 'report' && (
+              <Alert severity="info" sx={{ mt: 2 }}>
+                No benefits could be classified, so the gross taxable value reported by Xero was used.
+              </Alert>
+            )}
             
             <Box sx={{ mt: 2, p: 2, backgroundColor: 'grey.50', borderRadius: 1 }}>
               <Typography variant="body2" color="text.secondary">
@@ -757,6 +850,43 @@ const FASProcessor: React.FC<FASProcessorProps> = ({
           </Box>
         )}
 
+        <FBTCarRegisterPanel
+          fbtYear={periodFbtYear}
+          cars={yearCars}
+          summary={carRegisterSummary}
+          changed={carRegisterChanged}
+          saving={savingCarRegister}
+          previousYearCount={previousYearCars.length}
+          onCarsChange={handleYearCarsChange}
+          onSave={handleSaveCarRegister}
+          onCopyPreviousYear={handleCopyPreviousYearCars}
+        />
+
+        <FBTEntertainmentPanel
+          fbtYear={periodFbtYear}
+          election={yearEntertainmentElection}
+          calculation={calculationResult?.entertainment || null}
+          defaultEventDate={fromDate}
+          changed={entertainmentChanged}
+          saving={savingEntertainment}
+          onElectionChange={handleEntertainmentElectionChange}
+          onSave={handleSaveEntertainmentElection}
+        />
+
+        <FBTYearPanel
+          tenantId={selectedTenant?.tenantId || selectedTenant?.id}
+          organisationName={selectedTenant?.name || selectedTenant?.organizationName || ''}
+          fbtYear={periodFbtYear}
+          cars={carRegister}
+          entertainmentElections={entertainmentElections}
+          allocations={benefitAllocations}
+          changed={allocationsChanged}
+          saving={savingAllocations}
+          onCarsChange={setCarRegister}
+          onAllocationsChange={setBenefitAllocations}
+          onSave={handleSaveAllocations}
+        />
+
         {/* Loading States */}
         {isCalculating && (
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 2 }}>
@@ -0,0 +1,282 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  ContentCopy as ContentCopyIcon,
+  Delete as DeleteIcon,
+  ElectricCar as ElectricCarIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import { FBTCar, FBTCarFuelType } from '../api/companyService';
+import {
+  createFbtCar,
+  FBT_CAR_FUEL_TYPE_LABELS,
+  FBT_CAR_METHOD_LABELS,
+  FBTCarRegisterSummary,
+} from '../utils/fbtCars';
+
+interface FBTCarRegisterPanelProps {
+  fbtYear: number;
+  /** Cars registered for the FBT year */
+  cars: FBTCar[];
+  summary: FBTCarRegisterSummary | null;
+  changed: boolean;
+  saving: boolean;
+  /** Number of cars registered for the previous FBT year */
+  previousYearCount: number;
+  onCarsChange: (cars: FBTCar[]) => void;
+  onSave: () => void;
+  onCopyPreviousYear: () => void;
+}
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const toNumber = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+const FBTCarRegisterPanel: React.FC<FBTCarRegisterPanelProps> = ({
+  fbtYear,
+  cars,
+  summary,
+  changed,
+  saving,
+  previousYearCount,
+  onCarsChange,
+  onSave,
+  onCopyPreviousYear,
+}) => {
+  const handleCarChange = (id: string, changes: Partial<FBTCar>) => {
+    onCarsChange(cars.map((car) => (car.id === id ? { ...car, ...changes } : car)));
+  };
+
+  const calculationById = new Map((summary?.cars || []).map((calculation) => [calculation.car.id, calculation]));
+
+  return (
+    <Box sx={{ mt: 3, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+        <Typography variant="h6">Car Register (FBT{fbtYear})</Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
+          {cars.length === 0 && previousYearCount > 0 && (
+            <Button size="small" startIcon={<ContentCopyIcon />} onClick={onCopyPreviousYear}>
+              Copy FBT{fbtYear - 1} Cars ({previousYearCount})
+            </Button>
+          )}
+          <Button size="small" startIcon={<AddIcon />} onClick={() => onCarsChange([...cars, createFbtCar(fbtYear)])}>
+            Add Car
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<SaveIcon />}
+            onClick={onSave}
+            disabled={!changed || saving}
+          >
+            {saving ? 'Saving...' : 'Save Register'}
+          </Button>
+        </Box>
+      </Box>
+
+      {cars.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Add the cars available for employees' private use to value car fringe benefits under the statutory formula
+          and operating cost methods. Without registered cars, car benefits are taken from the Xero data.
+        </Typography>
+      ) : (
+        <>
+          {cars.map((car) => {
+            const calculation = calculationById.get(car.id);
+            return (
+              <Paper key={car.id} variant="outlined" sx={{ p: 2, mb: 2 }}>
+                <Box
+                  sx={{
+                    display: 'grid',
+                    gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', md: 'repeat(4, 1fr)' },
+                    gap: 2,
+                  }}
+                >
+                  <TextField
+                    size="small"
+                    label="Vehicle"
+                    value={car.vehicle}
+                    onChange={(e) => handleCarChange(car.id, { vehicle: e.target.value })}
+                    placeholder="Make, model and registration"
+                  />
+                  <FormControl size="small">
+                    <InputLabel>Fuel</InputLabel>
+                    <Select
+                      value={car.fuelType}
+                      label="Fuel"
+                      onChange={(e) => handleCarChange(car.id, { fuelType: e.target.value as FBTCarFuelType })}
+                    >
+                      {(Object.keys(FBT_CAR_FUEL_TYPE_LABELS) as FBTCarFuelType[]).map((fuelType) => (
+                        <MenuItem key={fuelType} value={fuelType}>{FBT_CAR_FUEL_TYPE_LABELS[fuelType]}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <TextField
+                    size="small"
+                    type="date"
+                    label="First Held"
+                    value={car.acquisitionDate}
+                    onChange={(e) => handleCarChange(car.id, { acquisitionDate: e.target.value })}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Cost Base (incl. GST)"
+                    value={car.costBase}
+                    onChange={(e) => handleCarChange(car.id, { costBase: toNumber(e.target.value) })}
+                    inputProps={{ min: 0, step: '0.01' }}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Days Available for Private Use"
+                    value={car.daysAvailable}
+                    onChange={(e) => handleCarChange(car.id, { daysAvailable: Math.round(toNumber(e.target.value)) })}
+                    inputProps={{ min: 0, max: 366, step: '1' }}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Operating Costs"
+                    value={car.operatingCosts}
+                    onChange={(e) => handleCarChange(car.id, { operatingCosts: toNumber(e.target.value) })}
+                    inputProps={{ min: 0, step: '0.01' }}
+                    helperText="Including deemed depreciation and interest"
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Logbook Business Use (%)"
+                    value={car.logbookBusinessPercentage ?? ''}
+                    onChange={(e) =>
+                      handleCarChange(car.id, {
+                        logbookBusinessPercentage: e.target.value === '' ? null : Math.min(toNumber(e.target.value), 100),
+                      })
+                    }
+                    inputProps={{ min: 0, max: 100, step: '1' }}
+                    helperText="Leave blank without a valid logbook"
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Employee Contributions"
+                    value={car.employeeContributions}
+                    onChange={(e) => handleCarChange(car.id, { employeeContributions: toNumber(e.target.value) })}
+                    inputProps={{ min: 0, step: '0.01' }}
+                  />
+                </Box>
+
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        size="small"
+                        checked={car.gstCreditClaimed}
+                        onChange={(e) => handleCarChange(car.id, { gstCreditClaimed: e.target.checked })}
+                      />
+                    }
+                    label="GST credits claimed (Type 1)"
+                  />
+                  <Tooltip title="Remove">
+                    <IconButton size="small" onClick={() => onCarsChange(cars.filter((item) => item.id !== car.id))}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+
+                {calculation?.electricVehicle.eligible && (
+                  <Alert severity="success" icon={<ElectricCarIcon />} sx={{ mt: 1 }}>
+                    Eligible for the electric vehicle exemption; no FBT is payable, but the taxable value still
+                    counts towards the employee's reportable fringe benefits.
+                  </Alert>
+                )}
+                {calculation && calculation.electricVehicle.reasons.length > 0 && (
+                  <Alert severity="warning" icon={<ElectricCarIcon />} sx={{ mt: 1 }}>
+                    Not eligible for the electric vehicle exemption: {calculation.electricVehicle.reasons.join('. ')}
+                  </Alert>
+                )}
+              </Paper>
+            );
+          })}
+
+          {summary && (
+            <TableContainer component={Paper}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Vehicle</TableCell>
+                    <TableCell align="right">Statutory Formula</TableCell>
+                    <TableCell align="right">Operating Cost</TableCell>
+                    <TableCell>Recommended</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell align="right">Taxable Value</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {summary.cars.map((calculation) => (
+                    <TableRow key={calculation.car.id}>
+                      <TableCell>{calculation.car.vehicle || 'Unnamed car'}</TableCell>
+                      <TableCell align="right">{formatCurrency(calculation.statutoryValue)}</TableCell>
+                      <TableCell align="right">{formatCurrency(calculation.operatingCostValue)}</TableCell>
+                      <TableCell>
+                        {calculation.electricVehicle.eligible ? (
+                          <Chip size="small" color="success" icon={<ElectricCarIcon />} label="EV exempt" />
+                        ) : (
+                          FBT_CAR_METHOD_LABELS[calculation.recommendedMethod]
+                        )}
+                      </TableCell>
+                      <TableCell>{calculation.benefitType === 'type1' ? 'Type 1' : 'Type 2'}</TableCell>
+                      <TableCell align="right">{formatCurrency(calculation.taxableValue)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow sx={{ backgroundColor: 'grey.100' }}>
+                    <TableCell colSpan={5}>
+                      <strong>FBT year taxable value</strong>
+                    </TableCell>
+                    <TableCell align="right">
+                      <strong>{formatCurrency(summary.annual.type1 + summary.annual.type2)}</strong>
+                    </TableCell>
+                  </TableRow>
+                  {summary.periodShare < 1 && (
+                    <TableRow>
+                      <TableCell colSpan={5}>
+                        Apportioned to the period ({(summary.periodShare * 100).toFixed(1)}% of the FBT year)
+                      </TableCell>
+                      <TableCell align="right">{formatCurrency(summary.period.type1 + summary.period.type2)}</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default FBTCarRegisterPanel;
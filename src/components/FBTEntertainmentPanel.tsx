@@ -0,0 +1,317 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon, Save as SaveIcon } from '@mui/icons-material';
+import { FBTEntertainmentElection, FBTEntertainmentEvent, FBTEntertainmentMethod } from '../api/companyService';
+import {
+  createEntertainmentEvent,
+  FBT_ENTERTAINMENT_METHOD_LABELS,
+  FBTEntertainmentCalculation,
+  getRegisterEndDate,
+  MINOR_BENEFIT_THRESHOLD,
+} from '../utils/fbtEntertainment';
+
+interface FBTEntertainmentPanelProps {
+  fbtYear: number;
+  /** Election saved for the FBT year, or null when no method has been elected */
+  election: FBTEntertainmentElection | null;
+  calculation: FBTEntertainmentCalculation | null;
+  /** Default date for new events */
+  defaultEventDate: string;
+  changed: boolean;
+  saving: boolean;
+  onElectionChange: (election: FBTEntertainmentElection | null) => void;
+  onSave: () => void;
+}
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const formatDate = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const FBTEntertainmentPanel: React.FC<FBTEntertainmentPanelProps> = ({
+  fbtYear,
+  election,
+  calculation,
+  defaultEventDate,
+  changed,
+  saving,
+  onElectionChange,
+  onSave,
+}) => {
+  const events = election?.events || [];
+  const showEvents = election?.method === 'Actual' || election?.method === 'TwelveWeekRegister';
+  const evaluatedEvents = new Map(
+    [...(calculation?.events || []), ...(calculation?.register?.events || [])].map((item) => [item.event.id, item])
+  );
+
+  const handleMethodChange = (method: FBTEntertainmentMethod | '') => {
+    onElectionChange(method ? { fbtYear, events: [], ...election, method } : null);
+  };
+
+  const handleEventChange = (id: string, changes: Partial<FBTEntertainmentEvent>) => {
+    if (!election) return;
+    onElectionChange({ ...election, events: events.map((event) => (event.id === id ? { ...event, ...changes } : event)) });
+  };
+
+  const handleAddEvent = () => {
+    if (!election) return;
+    const date = election.method === 'TwelveWeekRegister' && election.registerStartDate ? election.registerStartDate : defaultEventDate;
+    onElectionChange({ ...election, events: [...events, createEntertainmentEvent(date)] });
+  };
+
+  return (
+    <Box sx={{ mt: 3, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+        <Typography variant="h6">Meal Entertainment (FBT{fbtYear})</Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel>Valuation Method</InputLabel>
+            <Select
+              value={election?.method || ''}
+              label="Valuation Method"
+              onChange={(e) => handleMethodChange(e.target.value as FBTEntertainmentMethod | '')}
+            >
+              <MenuItem value="">No election</MenuItem>
+              {(Object.keys(FBT_ENTERTAINMENT_METHOD_LABELS) as FBTEntertainmentMethod[]).map((method) => (
+                <MenuItem key={method} value={method}>{FBT_ENTERTAINMENT_METHOD_LABELS[method]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {election?.method === 'TwelveWeekRegister' && (
+            <TextField
+              size="small"
+              type="date"
+              label="Register Start"
+              value={election.registerStartDate || ''}
+              onChange={(e) => onElectionChange({ ...election, registerStartDate: e.target.value || undefined })}
+              InputLabelProps={{ shrink: true }}
+              helperText={election.registerStartDate ? `Ends ${formatDate(getRegisterEndDate(election.registerStartDate))}` : undefined}
+            />
+          )}
+          {showEvents && (
+            <Button size="small" startIcon={<AddIcon />} onClick={handleAddEvent}>
+              Add Event
+            </Button>
+          )}
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<SaveIcon />}
+            onClick={onSave}
+            disabled={!changed || saving}
+          >
+            {saving ? 'Saving...' : 'Save Election'}
+          </Button>
+        </Box>
+      </Box>
+
+      {!election ? (
+        <Typography variant="body2" color="text.secondary">
+          Without an election, meal entertainment found in Xero is reported in full. Elect the 50/50 split or
+          12-week register method, or record events to value them individually with the minor benefits exemption.
+        </Typography>
+      ) : (
+        <>
+          {election.method === 'FiftyFifty' && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Half of all meal entertainment expenditure is taxable, whoever attended. The minor benefits exemption
+              is not available under this method.
+            </Typography>
+          )}
+          {election.method === 'TwelveWeekRegister' && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Record every meal entertainment event over a representative 12 weeks. The share provided to employees
+              and associates is applied to the year's expenditure, and the register can be used for four more FBT
+              years. The minor benefits exemption is not available under this method.
+            </Typography>
+          )}
+          {election.method === 'Actual' && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Each event is valued on the employees' share of its cost. Events costing less than
+              ${MINOR_BENEFIT_THRESHOLD} a head are treated as exempt minor benefits, provided they are infrequent
+              and irregular.
+            </Typography>
+          )}
+          {calculation?.register && calculation.register.fbtYear !== fbtYear && (
+            <Alert severity="info" sx={{ mb: 1 }}>
+              Using the register kept in FBT{calculation.register.fbtYear} ({formatDate(calculation.register.fromDate)} –{' '}
+              {formatDate(calculation.register.toDate)}).
+            </Alert>
+          )}
+          {calculation?.warnings.map((warning) => (
+            <Alert key={warning} severity="warning" sx={{ mb: 1 }}>
+              {warning}
+            </Alert>
+          ))}
+
+          {showEvents && events.length > 0 && (
+            <TableContainer component={Paper} sx={{ mb: 2 }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Description</TableCell>
+                    <TableCell align="right">Cost</TableCell>
+                    <TableCell align="right">Employees</TableCell>
+                    <TableCell align="right">Others</TableCell>
+                    <TableCell>GST Credit</TableCell>
+                    <TableCell align="right">Per Head</TableCell>
+                    <TableCell align="right">Employee Share</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {events.map((event) => {
+                    const evaluated = evaluatedEvents.get(event.id);
+                    return (
+                      <TableRow key={event.id}>
+                        <TableCell>
+                          <TextField
+                            size="small"
+                            type="date"
+                            value={event.date}
+                            onChange={(e) => handleEventChange(event.id, { date: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <TextField
+                            size="small"
+                            value={event.description}
+                            onChange={(e) => handleEventChange(event.id, { description: e.target.value })}
+                            sx={{ minWidth: 180 }}
+                          />
+                        </TableCell>
+                        <TableCell align="right">
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={event.cost}
+                            onChange={(e) => handleEventChange(event.id, { cost: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            inputProps={{ min: 0, step: '0.01', style: { textAlign: 'right' } }}
+                            sx={{ width: 120 }}
+                          />
+                        </TableCell>
+                        <TableCell align="right">
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={event.employeeAttendees}
+                            onChange={(e) =>
+                              handleEventChange(event.id, { employeeAttendees: Math.max(0, parseInt(e.target.value, 10) || 0) })
+                            }
+                            inputProps={{ min: 0, step: '1', style: { textAlign: 'right' } }}
+                            sx={{ width: 80 }}
+                          />
+                        </TableCell>
+                        <TableCell align="right">
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={event.otherAttendees}
+                            onChange={(e) =>
+                              handleEventChange(event.id, { otherAttendees: Math.max(0, parseInt(e.target.value, 10) || 0) })
+                            }
+                            inputProps={{ min: 0, step: '1', style: { textAlign: 'right' } }}
+                            sx={{ width: 80 }}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            size="small"
+                            checked={event.gstCreditClaimed}
+                            onChange={(e) => handleEventChange(event.id, { gstCreditClaimed: e.target.checked })}
+                          />
+                        </TableCell>
+                        <TableCell align="right">{evaluated ? formatCurrency(evaluated.perHeadCost) : '-'}</TableCell>
+                        <TableCell align="right">
+                          {!evaluated ? (
+                            <Tooltip title="Outside the period or the 12 weeks of the register">
+                              <span>-</span>
+                            </Tooltip>
+                          ) : evaluated.minorBenefit ? (
+                            <Chip size="small" color="success" label="Minor benefit" />
+                          ) : (
+                            formatCurrency(evaluated.taxableValue)
+                          )}
+                        </TableCell>
+                        <TableCell align="right">
+                          <Tooltip title="Remove">
+                            <IconButton
+                              size="small"
+                              onClick={() => onElectionChange({ ...election, events: events.filter((item) => item.id !== event.id) })}
+                            >
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          {calculation && (
+            <Box
+              sx={{
+                display: 'grid',
+                gridTemplateColumns: { xs: '1fr 1fr', md: 'repeat(4, 1fr)' },
+                gap: 2,
+                p: 2,
+                backgroundColor: 'grey.50',
+                borderRadius: 1,
+              }}
+            >
+              <Box>
+                <Typography variant="caption" color="text.secondary">Expenditure in Xero</Typography>
+                <Typography>{formatCurrency(calculation.expenditure.type1 + calculation.expenditure.type2)}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="caption" color="text.secondary">Taxable Percentage</Typography>
+                <Typography>
+                  {calculation.taxablePercentage !== null ? `${(calculation.taxablePercentage * 100).toFixed(2)}%` : 'Per event'}
+                </Typography>
+              </Box>
+              <Box>
+                <Typography variant="caption" color="text.secondary">Minor Benefits Exempt</Typography>
+                <Typography>
+                  {calculation.method === 'Actual' ? formatCurrency(calculation.minorBenefitsExempt) : 'Not available'}
+                </Typography>
+              </Box>
+              <Box>
+                <Typography variant="caption" color="text.secondary">Taxable Value</Typography>
+                <Typography>
+                  <strong>{formatCurrency(calculation.taxableValue.type1 + calculation.taxableValue.type2)}</strong>
+                </Typography>
+              </Box>
+            </Box>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default FBTEntertainmentPanel;
@@ -0,0 +1,410 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  IconButton,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Download as DownloadIcon,
+  Refresh as RefreshIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { FBTBenefitAllocation, FBTCar, FBTEntertainmentElection } from '../api/companyService';
+import { useFBTYear } from '../hooks/useFBTYear';
+import { classifyFbtBenefits } from '../utils/fbtCalculation';
+import { summariseCarRegister } from '../utils/fbtCars';
+import {
+  buildStpFinalisationSheet,
+  calculateFbtPeriod,
+  calculateReportableFringeBenefits,
+  RFBA_THRESHOLD,
+  summariseFbtYear,
+} from '../utils/fbtYear';
+import { buildCsv, buildXlsxWorkbook, CSV_MIME_TYPE, XLSX_MIME_TYPE } from '../utils/spreadsheetExport';
+
+interface FBTYearPanelProps {
+  tenantId?: string;
+  organisationName: string;
+  fbtYear: number;
+  /** Car register of the company, across all FBT years */
+  cars: FBTCar[];
+  entertainmentElections: FBTEntertainmentElection[];
+  /** Benefits allocated to employees, across all FBT years */
+  allocations: FBTBenefitAllocation[];
+  changed: boolean;
+  saving: boolean;
+  onCarsChange: (cars: FBTCar[]) => void;
+  onAllocationsChange: (allocations: FBTBenefitAllocation[]) => void;
+  onSave: () => void;
+}
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const FBTYearPanel: React.FC<FBTYearPanelProps> = ({
+  tenantId,
+  organisationName,
+  fbtYear,
+  cars,
+  entertainmentElections,
+  allocations,
+  changed,
+  saving,
+  onCarsChange,
+  onAllocationsChange,
+  onSave,
+}) => {
+  const [loadRequested, setLoadRequested] = useState(false);
+  const { quarters, isLoading, employees, employeesLoading, employeesError, refetch } = useFBTYear({
+    tenantId,
+    fbtYear,
+    enabled: loadRequested,
+  });
+
+  const yearCars = cars.filter((car) => car.fbtYear === fbtYear);
+  const yearAllocations = allocations.filter((allocation) => allocation.fbtYear === fbtYear);
+
+  const yearSummary = useMemo(() => {
+    if (!quarters) return null;
+    return summariseFbtYear(
+      quarters.map(({ period, data, error }) => {
+        if (!data) return { period, figures: null, error };
+        const { benefits, reportedGrossTaxableValue } = classifyFbtBenefits(data);
+        return {
+          period,
+          error,
+          figures: calculateFbtPeriod({
+            xeroBenefits: benefits,
+            reportedGrossTaxableValue,
+            carRegister: summariseCarRegister({ cars, fbtYear, fromDate: period.fromDate, toDate: period.toDate }),
+            entertainmentElections,
+            fbtYear,
+            fromDate: period.fromDate,
+            toDate: period.toDate,
+          }),
+        };
+      })
+    );
+  }, [quarters, cars, entertainmentElections, fbtYear]);
+
+  const reportableBenefits = useMemo(
+    () => calculateReportableFringeBenefits({ employees, cars, allocations, fbtYear }),
+    [employees, cars, allocations, fbtYear]
+  );
+
+  const employeeOptions = employees.map((employee) => (
+    <MenuItem key={employee.EmployeeID} value={employee.EmployeeID}>
+      {employee.FirstName} {employee.LastName}
+    </MenuItem>
+  ));
+
+  const handleCarEmployeeChange = (id: string, employeeId: string) => {
+    onCarsChange(cars.map((car) => (car.id === id ? { ...car, employeeId: employeeId || undefined } : car)));
+  };
+
+  const handleAllocationChange = (id: string, changes: Partial<FBTBenefitAllocation>) => {
+    onAllocationsChange(allocations.map((allocation) => (allocation.id === id ? { ...allocation, ...changes } : allocation)));
+  };
+
+  const handleAddAllocation = () => {
+    onAllocationsChange([
+      ...allocations,
+      {
+        id: `${Date.now()}-${allocations.length}`,
+        fbtYear,
+        employeeId: employees[0]?.EmployeeID || '',
+        description: '',
+        taxableValue: 0,
+      },
+    ]);
+  };
+
+  const handleExport = (format: 'xlsx' | 'csv') => {
+    const sheet = buildStpFinalisationSheet(reportableBenefits, fbtYear);
+    if (sheet.rows.length <= 1) {
+      toast.error(`No employee has reportable fringe benefits over $${RFBA_THRESHOLD} for FBT${fbtYear}`);
+      return;
+    }
+
+    const blob = format === 'xlsx'
+      ? new Blob([buildXlsxWorkbook([sheet])], { type: XLSX_MIME_TYPE })
+      : new Blob([buildCsv([sheet], { titles: false })], { type: CSV_MIME_TYPE });
+    const downloadUrl = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = downloadUrl;
+    link.download = `RFBA_${organisationName.replace(/[^a-z0-9]+/gi, '_') || 'Xero'}_FBT${fbtYear}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(downloadUrl);
+    console.log(`✅ Reportable fringe benefits exported as ${format.toUpperCase()}`);
+  };
+
+  return (
+    <Box sx={{ mt: 3, mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+        <Typography variant="h6">FBT Year (FBT{fbtYear})</Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={isLoading ? <CircularProgress size={16} /> : <RefreshIcon />}
+            onClick={() => (loadRequested ? refetch() : setLoadRequested(true))}
+            disabled={!tenantId || isLoading}
+          >
+            {isLoading ? 'Loading...' : loadRequested ? 'Reload FBT Year' : 'Load FBT Year'}
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<SaveIcon />}
+            onClick={onSave}
+            disabled={!changed || saving}
+          >
+            {saving ? 'Saving...' : 'Save Allocations'}
+          </Button>
+        </Box>
+      </Box>
+
+      {!loadRequested ? (
+        <Typography variant="body2" color="text.secondary">
+          Load the FBT year to see the instalment figures of each quarter and allocate benefits to the
+          organisation's Xero Payroll employees for reportable fringe benefits.
+        </Typography>
+      ) : (
+        <>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>Quarterly Instalments</Typography>
+          {isLoading && !yearSummary ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : yearSummary && (
+            <TableContainer component={Paper} sx={{ mb: 3 }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Quarter</TableCell>
+                    <TableCell align="right">Gross Taxable Value</TableCell>
+                    <TableCell align="right">FBT Payable</TableCell>
+                    <TableCell align="right">Year to Date</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {yearSummary.quarters.map((quarter) => (
+                    <TableRow key={quarter.period.key}>
+                      <TableCell>{quarter.period.label}</TableCell>
+                      {quarter.figures ? (
+                        <>
+                          <TableCell align="right">{formatCurrency(quarter.figures.grossTaxableValue)}</TableCell>
+                          <TableCell align="right">{formatCurrency(quarter.figures.fbtPayable)}</TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={2}>
+                          <Typography variant="body2" color="error">{quarter.error}</Typography>
+                        </TableCell>
+                      )}
+                      <TableCell align="right">{formatCurrency(quarter.cumulativeFbtPayable)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow sx={{ backgroundColor: 'grey.100' }}>
+                    <TableCell>
+                      <strong>FBT year</strong>
+                      {yearSummary.loadedCount < yearSummary.quarters.length && (
+                        <Chip
+                          size="small"
+                          color="warning"
+                          label={`${yearSummary.quarters.length - yearSummary.loadedCount} quarter(s) missing`}
+                          sx={{ ml: 1 }}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell align="right"><strong>{formatCurrency(yearSummary.grossTaxableValue)}</strong></TableCell>
+                    <TableCell align="right"><strong>{formatCurrency(yearSummary.fbtPayable)}</strong></TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>Benefits Provided to Employees</Typography>
+          {employeesError && (
+            <Alert severity="warning" sx={{ mb: 1 }}>
+              Xero Payroll employees could not be loaded: {employeesError}
+            </Alert>
+          )}
+          {employeesLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            <TableContainer component={Paper} sx={{ mb: 3 }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Benefit</TableCell>
+                    <TableCell>Employee</TableCell>
+                    <TableCell align="right">Taxable Value</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {yearCars.map((car) => (
+                    <TableRow key={car.id}>
+                      <TableCell>Car: {car.vehicle || 'Unnamed car'}</TableCell>
+                      <TableCell>
+                        <FormControl size="small" sx={{ minWidth: 200 }}>
+                          <Select
+                            value={car.employeeId || ''}
+                            displayEmpty
+                            onChange={(e) => handleCarEmployeeChange(car.id, String(e.target.value))}
+                          >
+                            <MenuItem value="">Not allocated</MenuItem>
+                            {employeeOptions}
+                          </Select>
+                        </FormControl>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Typography variant="body2" color="text.secondary">From the car register</Typography>
+                      </TableCell>
+                      <TableCell />
+                    </TableRow>
+                  ))}
+                  {yearAllocations.map((allocation) => (
+                    <TableRow key={allocation.id}>
+                      <TableCell>
+                        <TextField
+                          size="small"
+                          value={allocation.description}
+                          placeholder="e.g. School fees, loan, expense payment"
+                          onChange={(e) => handleAllocationChange(allocation.id, { description: e.target.value })}
+                          sx={{ minWidth: 220 }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <FormControl size="small" sx={{ minWidth: 200 }}>
+                          <Select
+                            value={allocation.employeeId}
+                            displayEmpty
+                            onChange={(e) => handleAllocationChange(allocation.id, { employeeId: String(e.target.value) })}
+                          >
+                            <MenuItem value="">Not allocated</MenuItem>
+                            {employeeOptions}
+                          </Select>
+                        </FormControl>
+                      </TableCell>
+                      <TableCell align="right">
+                        <TextField
+                          size="small"
+                          type="number"
+                          value={allocation.taxableValue}
+                          onChange={(e) =>
+                            handleAllocationChange(allocation.id, { taxableValue: Math.max(0, parseFloat(e.target.value) || 0) })
+                          }
+                          inputProps={{ min: 0, step: '0.01', style: { textAlign: 'right' } }}
+                          sx={{ width: 140 }}
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Remove">
+                          <IconButton
+                            size="small"
+                            onClick={() => onAllocationsChange(allocations.filter((item) => item.id !== allocation.id))}
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={4}>
+                      <Button size="small" startIcon={<AddIcon />} onClick={handleAddAllocation}>
+                        Add Benefit
+                      </Button>
+                      <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                        Meal entertainment is excluded from reportable fringe benefits and is not allocated.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+            <Typography variant="subtitle2">Reportable Fringe Benefits</Typography>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button size="small" startIcon={<DownloadIcon />} onClick={() => handleExport('xlsx')}>
+                Export XLSX
+              </Button>
+              <Button size="small" startIcon={<DownloadIcon />} onClick={() => handleExport('csv')}>
+                Export CSV
+              </Button>
+            </Box>
+          </Box>
+          {reportableBenefits.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No benefits have been allocated to employees for FBT{fbtYear}.
+            </Typography>
+          ) : (
+            <TableContainer component={Paper}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Employee</TableCell>
+                    <TableCell align="right">Cars</TableCell>
+                    <TableCell align="right">Other Benefits</TableCell>
+                    <TableCell align="right">Taxable Value</TableCell>
+                    <TableCell align="right">Reportable Amount</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {reportableBenefits.map((row) => (
+                    <TableRow key={row.employeeId}>
+                      <TableCell>{row.firstName} {row.lastName}</TableCell>
+                      <TableCell align="right">{formatCurrency(row.carTaxableValue)}</TableCell>
+                      <TableCell align="right">{formatCurrency(row.otherTaxableValue)}</TableCell>
+                      <TableCell align="right">{formatCurrency(row.taxableValue)}</TableCell>
+                      <TableCell align="right">
+                        {row.reportable ? (
+                          <strong>{formatCurrency(row.reportableAmount)}</strong>
+                        ) : (
+                          <Chip size="small" variant="outlined" label={`Under $${RFBA_THRESHOLD}`} />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            Reportable amounts are the taxable value grossed up at the Type 2 rate, reported through STP
+            finalisation for the income year ending 30 June {fbtYear}.
+          </Typography>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default FBTYearPanel;
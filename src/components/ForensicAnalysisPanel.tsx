@@ -0,0 +1,467 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  LinearProgress,
+  Link,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { OpenInNew as OpenIcon, Rule as TestIcon } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import BenfordChart from './BenfordChart';
+import { useXero } from '../contexts/XeroContext';
+import { useXeroAnomalyDataset } from '../hooks/useXeroAnomalyDataset';
+import { ANOMALY_SOURCE_LABELS, AnomalyDatasetRecord, AnomalySourceType } from '../utils/anomalyDataset';
+import { getXeroTransactionUrl } from '../utils/basGstCoding';
+import {
+  BENFORD_CONFORMITY_LABELS,
+  BENFORD_TEST_LABELS,
+  BenfordConformity,
+  BenfordTestType,
+  DEFAULT_APPROVAL_THRESHOLDS,
+  DEFAULT_THRESHOLD_WINDOW,
+  findDuplicateAmounts,
+  MIN_BENFORD_AMOUNT,
+  parseThresholds,
+  ROUND_AMOUNT_LABELS,
+  runBenfordTest,
+  runRoundAmountTest,
+  runThresholdTest,
+} from '../utils/forensicTests';
+import { toISODate } from '../utils/xeroRecords';
+
+// Most repeated amounts listed
+const DUPLICATE_ROWS = 20;
+
+// Transactions listed when drilling down; the rest are counted
+const DRILL_DOWN_ROWS = 200;
+
+const CONFORMITY_COLORS: Record<BenfordConformity, 'success' | 'info' | 'warning' | 'error'> = {
+  close: 'success',
+  acceptable: 'info',
+  marginal: 'warning',
+  nonconformity: 'error',
+};
+
+interface DrillDown {
+  key: string;
+  title: string;
+  recordIndexes: number[];
+}
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-AU', { style: 'currency', currency: 'AUD' });
+
+const getDefaultFromDate = () => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - 1);
+  return toISODate(date);
+};
+
+/**
+ * Forensic tests on a tenant's invoices, bills and bank transactions: Benford's law, duplicate amounts,
+ * round amounts and amounts just below approval thresholds, with the transactions behind each result
+ */
+const ForensicAnalysisPanel: React.FC = () => {
+  const { availableTenants, selectedTenant } = useXero();
+  const { buildDataset, isBuilding, error } = useXeroAnomalyDataset();
+  const [tenantId, setTenantId] = useState('');
+  const [fromDate, setFromDate] = useState(getDefaultFromDate);
+  const [toDate, setToDate] = useState(() => toISODate(new Date()));
+  const [records, setRecords] = useState<AnomalyDatasetRecord[] | null>(null);
+  const [sourceTypes, setSourceTypes] = useState<AnomalySourceType[]>(['invoice', 'bill', 'bankTransaction']);
+  const [thresholdInput, setThresholdInput] = useState(DEFAULT_APPROVAL_THRESHOLDS.join(', '));
+  const [thresholdWindow, setThresholdWindow] = useState(DEFAULT_THRESHOLD_WINDOW * 100);
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  useEffect(() => {
+    if (!tenantId && selectedTenant) {
+      setTenantId(selectedTenant.tenantId || selectedTenant.id);
+    }
+  }, [selectedTenant, tenantId]);
+
+  // Result indexes point into the filtered records, so a drill-down is cleared when the filter changes
+  const tested = useMemo(
+    () => (records || []).filter((record) => sourceTypes.includes(record.sourceType)),
+    [records, sourceTypes]
+  );
+  useEffect(() => setDrillDown(null), [tested]);
+
+  const benford = useMemo(
+    () => (['firstDigit', 'firstTwoDigits'] as BenfordTestType[]).map((type) => runBenfordTest(tested, type)),
+    [tested]
+  );
+  const duplicates = useMemo(() => findDuplicateAmounts(tested), [tested]);
+  const roundAmounts = useMemo(() => runRoundAmountTest(tested), [tested]);
+  const thresholds = useMemo(
+    () => runThresholdTest(tested, parseThresholds(thresholdInput), thresholdWindow / 100),
+    [tested, thresholdInput, thresholdWindow]
+  );
+
+  const drillDownRecords = useMemo(
+    () =>
+      drillDown
+        ? drillDown.recordIndexes.map((index) => tested[index]).sort((a, b) => a.date.localeCompare(b.date))
+        : [],
+    [drillDown, tested]
+  );
+
+  const handleRun = async () => {
+    try {
+      const loaded = await buildDataset({ tenantId, fromDate, toDate });
+      setRecords(loaded);
+      if (loaded.length === 0) toast.error('No transactions found for this period');
+    } catch (err) {
+      // The error is shown from the hook
+    }
+  };
+
+  const toggleSourceType = (sourceType: AnomalySourceType) =>
+    setSourceTypes((prev) =>
+      prev.includes(sourceType) ? prev.filter((type) => type !== sourceType) : [...prev, sourceType]
+    );
+
+  const selectDrillDown = (key: string, title: string, recordIndexes: number[]) =>
+    setDrillDown(drillDown?.key === key ? null : { key, title, recordIndexes });
+
+  return (
+    <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 mb-6">
+      <Typography variant="h6" className="mb-2 text-gray-800">
+        Forensic Tests
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Benford's law, duplicate amount, round amount and approval threshold tests on invoices, bills and bank
+        transactions. Draft, voided and deleted transactions are left out.
+      </Typography>
+
+      {availableTenants.length === 0 ? (
+        <Alert severity="info">Connect to Xero to run forensic tests on your transactions.</Alert>
+      ) : (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 260 }}>
+            <InputLabel>Organization</InputLabel>
+            <Select value={tenantId} label="Organization" onChange={(e) => setTenantId(e.target.value)}>
+              {availableTenants.map((tenant) => (
+                <MenuItem key={tenant.tenantId || tenant.id} value={tenant.tenantId || tenant.id}>
+                  {tenant.name || tenant.organizationName}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            type="date"
+            label="From"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            size="small"
+            type="date"
+            label="To"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button
+            variant="contained"
+            startIcon={<TestIcon />}
+            onClick={handleRun}
+            disabled={!tenantId || !fromDate || !toDate || fromDate > toDate || isBuilding}
+          >
+            {isBuilding ? 'Loading...' : 'Run Tests'}
+          </Button>
+        </Box>
+      )}
+
+      {isBuilding && <LinearProgress sx={{ mb: 2 }} />}
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {records && (
+        <>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 3 }}>
+            {(Object.keys(ANOMALY_SOURCE_LABELS) as AnomalySourceType[]).map((sourceType) => (
+              <Chip
+                key={sourceType}
+                label={`${ANOMALY_SOURCE_LABELS[sourceType]} (${
+                  records.filter((record) => record.sourceType === sourceType).length
+                })`}
+                color={sourceTypes.includes(sourceType) ? 'primary' : 'default'}
+                variant={sourceTypes.includes(sourceType) ? 'filled' : 'outlined'}
+                onClick={() => toggleSourceType(sourceType)}
+              />
+            ))}
+            <Typography variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+              {tested.length} transactions tested
+            </Typography>
+          </Box>
+
+          {/* Benford's law */}
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', lg: '1fr 2fr' }, gap: 2, mb: 3 }}>
+            {benford.map((result) => (
+              <Paper key={result.type} sx={{ p: 2 }} className="shadow-sm">
+                <Typography variant="subtitle1" gutterBottom>
+                  Benford {BENFORD_TEST_LABELS[result.type]} Test
+                </Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+                  <Chip
+                    size="small"
+                    label={BENFORD_CONFORMITY_LABELS[result.conformity]}
+                    color={CONFORMITY_COLORS[result.conformity]}
+                  />
+                  <Chip size="small" variant="outlined" label={`MAD ${result.mad.toFixed(4)}`} />
+                  <Chip
+                    size="small"
+                    variant="outlined"
+                    color={result.chiSquare > result.criticalValue ? 'error' : 'default'}
+                    label={`χ² ${result.chiSquare.toFixed(1)} (critical ${result.criticalValue} at ${result.degreesOfFreedom} df)`}
+                  />
+                  <Chip size="small" variant="outlined" label={`n = ${result.sampleSize}`} />
+                </Box>
+                {result.sampleSize === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No amounts of {formatAmount(MIN_BENFORD_AMOUNT)} or more to test.
+                  </Typography>
+                ) : (
+                  <BenfordChart
+                    result={result}
+                    selectedDigits={
+                      drillDown?.key.startsWith(`${result.type}:`) ? Number(drillDown.key.split(':')[1]) : null
+                    }
+                    onSelect={(digits) =>
+                      selectDrillDown(
+                        `${result.type}:${digits}`,
+                        `Amounts starting with ${digits}`,
+                        result.digits.find((digit) => digit.digits === digits)?.recordIndexes || []
+                      )
+                    }
+                  />
+                )}
+              </Paper>
+            ))}
+          </Box>
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: -2, mb: 3 }}>
+            Amounts under {formatAmount(MIN_BENFORD_AMOUNT)} are left out of the Benford tests. Conformity follows
+            Nigrini's MAD limits; small samples seldom conform, so read the results with the sample size in mind.
+          </Typography>
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', lg: 'repeat(3, 1fr)' }, gap: 2, mb: 3 }}>
+            {/* Duplicate amounts */}
+            <Paper sx={{ p: 2 }} className="shadow-sm">
+              <Typography variant="subtitle1" gutterBottom>
+                Duplicate Amounts
+              </Typography>
+              {duplicates.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No amount is used more than once.
+                </Typography>
+              ) : (
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Amount</TableCell>
+                      <TableCell align="right">Times</TableCell>
+                      <TableCell align="right">Contacts</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {duplicates.slice(0, DUPLICATE_ROWS).map((group) => (
+                      <TableRow
+                        key={group.amount}
+                        hover
+                        selected={drillDown?.key === `duplicate:${group.amount}`}
+                        onClick={() =>
+                          selectDrillDown(
+                            `duplicate:${group.amount}`,
+                            `Transactions of ${formatAmount(group.amount)}`,
+                            group.recordIndexes
+                          )
+                        }
+                        sx={{ cursor: 'pointer' }}
+                      >
+                        <TableCell>{formatAmount(group.amount)}</TableCell>
+                        <TableCell align="right">{group.count}</TableCell>
+                        <TableCell align="right">{group.contactCount}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </Paper>
+
+            {/* Round amounts */}
+            <Paper sx={{ p: 2 }} className="shadow-sm">
+              <Typography variant="subtitle1" gutterBottom>
+                Round Amounts
+              </Typography>
+              <Table size="small">
+                <TableBody>
+                  {roundAmounts.map((result) => (
+                    <TableRow
+                      key={result.bucket}
+                      hover
+                      selected={drillDown?.key === `round:${result.bucket}`}
+                      onClick={() =>
+                        selectDrillDown(`round:${result.bucket}`, ROUND_AMOUNT_LABELS[result.bucket], result.recordIndexes)
+                      }
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell>{ROUND_AMOUNT_LABELS[result.bucket]}</TableCell>
+                      <TableCell align="right">{result.count}</TableCell>
+                      <TableCell sx={{ minWidth: 120 }}>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <LinearProgress
+                            variant="determinate"
+                            value={result.share * 100}
+                            sx={{ flexGrow: 1, height: 6, borderRadius: 3 }}
+                          />
+                          <Typography variant="caption">{(result.share * 100).toFixed(1)}%</Typography>
+                        </Box>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+
+            {/* Approval thresholds */}
+            <Paper sx={{ p: 2 }} className="shadow-sm">
+              <Typography variant="subtitle1" gutterBottom>
+                Just Below Approval Thresholds
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+                <TextField
+                  size="small"
+                  label="Thresholds"
+                  value={thresholdInput}
+                  onChange={(e) => setThresholdInput(e.target.value)}
+                  placeholder="e.g. 1000, 5000"
+                  fullWidth
+                />
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Window %"
+                  value={thresholdWindow}
+                  onChange={(e) => setThresholdWindow(Math.min(50, Math.max(1, Number(e.target.value) || 1)))}
+                  inputProps={{ min: 1, max: 50 }}
+                  sx={{ width: 110 }}
+                />
+              </Box>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Threshold</TableCell>
+                    <TableCell align="right">Just Below</TableCell>
+                    <TableCell align="right">Just Above</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {thresholds.map((result) => (
+                    <TableRow
+                      key={result.threshold}
+                      hover
+                      selected={drillDown?.key === `threshold:${result.threshold}`}
+                      onClick={() =>
+                        selectDrillDown(
+                          `threshold:${result.threshold}`,
+                          `Amounts up to ${thresholdWindow}% below ${formatAmount(result.threshold)}`,
+                          result.below
+                        )
+                      }
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell>{formatAmount(result.threshold)}</TableCell>
+                      <TableCell align="right">{result.below.length}</TableCell>
+                      <TableCell align="right">{result.above.length}</TableCell>
+                      <TableCell>{result.suspicious && <Chip size="small" color="warning" label="Cluster" />}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          </Box>
+
+          {/* Drill-down */}
+          {drillDown ? (
+            <Paper sx={{ p: 2 }} className="shadow-sm">
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                <Typography variant="subtitle1">
+                  {drillDown.title} ({drillDownRecords.length})
+                </Typography>
+                <Button size="small" onClick={() => setDrillDown(null)}>
+                  Clear
+                </Button>
+              </Box>
+              <TableContainer sx={{ maxHeight: 420 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Date</TableCell>
+                      <TableCell>Type</TableCell>
+                      <TableCell>Reference</TableCell>
+                      <TableCell>Contact</TableCell>
+                      <TableCell align="right">Amount</TableCell>
+                      <TableCell>Xero</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {drillDownRecords.slice(0, DRILL_DOWN_ROWS).map((record) => (
+                      <TableRow key={`${record.sourceType}-${record.id}`} hover>
+                        <TableCell>{record.date}</TableCell>
+                        <TableCell>{ANOMALY_SOURCE_LABELS[record.sourceType]}</TableCell>
+                        <TableCell>{record.reference || '-'}</TableCell>
+                        <TableCell>{record.contactName || '-'}</TableCell>
+                        <TableCell align="right">{formatAmount(record.features.amount)}</TableCell>
+                        <TableCell>
+                          <Link
+                            href={getXeroTransactionUrl({ source: record.sourceType, transactionId: record.id })}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}
+                          >
+                            Open <OpenIcon fontSize="inherit" />
+                          </Link>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              {drillDownRecords.length > DRILL_DOWN_ROWS && (
+                <Typography variant="caption" color="text.secondary">
+                  Showing the first {DRILL_DOWN_ROWS} of {drillDownRecords.length} transactions.
+                </Typography>
+              )}
+            </Paper>
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              Click a bar or a row to list the transactions behind it.
+            </Typography>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ForensicAnalysisPanel;
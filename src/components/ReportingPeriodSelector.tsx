@@ -0,0 +1,78 @@
+import React from 'react';
+import {
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Typography,
+} from '@mui/material';
+import { ReportingPeriod } from '../utils/reportingPeriods';
+
+interface ReportingPeriodSelectorProps {
+  periods: ReportingPeriod[];
+  selectedPeriod: ReportingPeriod | null;
+  onPeriodChange: (period: ReportingPeriod) => void;
+  financialYear: number;
+  financialYearOptions: number[];
+  onFinancialYearChange: (financialYear: number) => void;
+  periodLabel: string;
+  yearLabel: string;
+  /** Explains where the period list comes from, e.g. 'Quarterly BAS, financial year ending June' */
+  helperText?: string;
+}
+
+const ReportingPeriodSelector: React.FC<ReportingPeriodSelectorProps> = ({
+  periods,
+  selectedPeriod,
+  onPeriodChange,
+  financialYear,
+  financialYearOptions,
+  onFinancialYearChange,
+  periodLabel,
+  yearLabel,
+  helperText,
+}) => (
+  <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 3 }}>
+    <FormControl fullWidth>
+      <InputLabel>{periodLabel}</InputLabel>
+      <Select
+        value={selectedPeriod && periods.some((period) => period.key === selectedPeriod.key) ? selectedPeriod.key : ''}
+        onChange={(e) => {
+          const period = periods.find((item) => item.key === e.target.value);
+          if (period) onPeriodChange(period);
+        }}
+        label={periodLabel}
+      >
+        {periods.map((period) => (
+          <MenuItem key={period.key} value={period.key}>{period.label}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+    <FormControl fullWidth>
+      <InputLabel>{yearLabel}</InputLabel>
+      <Select
+        value={financialYear}
+        onChange={(e) => onFinancialYearChange(Number(e.target.value))}
+        label={yearLabel}
+      >
+        {financialYearOptions.map((year) => (
+          <MenuItem key={year} value={year}>{year}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+    <Box sx={{ gridColumn: '1 / -1', p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
+      <Typography variant="body2" color="text.secondary">
+        <strong>Selected Period:</strong>{' '}
+        {selectedPeriod ? `${selectedPeriod.fromDate} to ${selectedPeriod.toDate} (${selectedPeriod.shortLabel})` : 'None'}
+      </Typography>
+      {helperText && (
+        <Typography variant="caption" color="text.secondary">
+          {helperText}
+        </Typography>
+      )}
+    </Box>
+  </Box>
+);
+
+export default ReportingPeriodSelector;
@@ -11,9 +11,7 @@ import {
   TableCell,
   TableBody,
 } from '@mui/material';
-
-export const isPlainObject = (value: any): value is Record<string, any> =>
-  value !== null && typeof value === 'object' && !Array.isArray(value);
+import { isPlainObject } from '../utils/xeroRecords';
 
 const isPrimitive = (value: any) =>
   value === null || ['string', 'number', 'boolean'].includes(typeof value);
@@ -56,27 +54,6 @@ const normalizeRow = (row: any): Record<string, any> => {
   return flattenObject(row);
 };
 
-export const getSectionData = (source: any, key: string) => {
-  if (!source) return null;
-  const variants = [key, key.toLowerCase(), key.toUpperCase()];
-
-  for (const variant of variants) {
-    if (source[variant] !== undefined) {
-      return source[variant];
-    }
-  }
-
-  if (isPlainObject(source.data)) {
-    for (const variant of variants) {
-      if (source.data[variant] !== undefined) {
-        return source.data[variant];
-      }
-    }
-  }
-
-  return null;
-};
-
 const flattenReportRows = (rows: any[]): Record<string, any>[] => {
   const items: Record<string, any>[] = [];
 
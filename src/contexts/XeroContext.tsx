@@ -306,6 +306,7 @@ const RESOURCE_ENDPOINT_MAP: Record<
   quotes: { path: '/xero-plug-play/quotes' },
   payments: { path: '/xero-plug-play/payments' },
   journals: { path: '/xero-plug-play/journals' },
+  'payroll-pay-runs': { path: '/xero-plug-play/payroll/pay-runs' },
 };
 
 const STORE_KEY_MAP: Record<string, keyof XeroData> = {
@@ -7,8 +7,10 @@ import AnomalyDetectionService, {
   
   TrainingParameters,
   Model,
-  ScoringResponse
+  ScoringResponse,
+  AnomalyReview
 } from '../api/anomalyDetectionService';
+import { getReviewMetrics } from '../utils/anomalyReviews';
 
 const anomalyDetectionService = new AnomalyDetectionService();
 
@@ -51,6 +53,22 @@ export const useAnomalyDetection = () => {
     staleTime: 30 * 1000, // 30 seconds
   });
 
+  // Query for getting analyst reviews of results
+  const {
+    data: reviews,
+    isLoading: reviewsLoading
+  } = useQuery({
+    queryKey: ['anomaly-detection-reviews'],
+    queryFn: async () => {
+      const response = await anomalyDetectionService.getReviews();
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      return response.data;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
   // Mutation for training a model
   const trainModelMutation = useMutation({
     mutationFn: async (request: TrainingRequest) => {
@@ -120,6 +138,36 @@ export const useAnomalyDetection = () => {
     }
   });
 
+  // Mutation for saving a review; the reviewed model's precision is updated from all of its reviews
+  const saveReviewMutation = useMutation({
+    mutationFn: async (review: AnomalyReview) => {
+      const response = await anomalyDetectionService.saveReview(review);
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      // The review is saved by now, so a failed metrics update must not fail the mutation and invite a second save
+      if (review.modelId) {
+        try {
+          const modelReviews = await anomalyDetectionService.getReviews({ modelId: review.modelId });
+          if (modelReviews.success) {
+            await anomalyDetectionService.updateModelMetrics(review.modelId, getReviewMetrics(modelReviews.data));
+          }
+        } catch (metricsError) {
+          console.error('❌ Error updating model metrics after saving a review:', metricsError);
+        }
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['anomaly-detection-reviews'] });
+      queryClient.invalidateQueries({ queryKey: ['anomaly-detection-models'] });
+      setError(null);
+    },
+    onError: (error: Error) => {
+      setError(error.message);
+    }
+  });
+
   // Function to check training status
   const checkTrainingStatus = useCallback(async (jobId: string) => {
     try {
@@ -186,14 +234,17 @@ export const useAnomalyDetection = () => {
     // Data
     models: models || [],
     trainingJobs: trainingJobs || [],
+    reviews: reviews || [],
     
     // Loading states
     modelsLoading,
     jobsLoading,
+    reviewsLoading,
     isTraining: trainModelMutation.isPending,
     isScoring: scoreDataMutation.isPending,
     isActivating: activateModelMutation.isPending,
     isDeleting: deleteModelMutation.isPending,
+    isSavingReview: saveReviewMutation.isPending,
     
     // Error handling
     error,
@@ -205,6 +256,7 @@ export const useAnomalyDetection = () => {
     scoreData: scoreDataMutation.mutateAsync,
     activateModel: activateModelMutation.mutateAsync,
     deleteModel: deleteModelMutation.mutateAsync,
+    saveReview: saveReviewMutation.mutateAsync,
     checkTrainingStatus,
     exportResults,
     
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  AnomalyScanSchedule,
+  getAnomalyScanRun,
+  getAnomalyScanRuns,
+  getAnomalyScanSchedule,
+  runAnomalyScan,
+  updateAnomalyScanSchedule,
+} from '../api/anomalyScanService';
+
+/**
+ * The company's scheduled anomaly scan and its scan history
+ * @param page - Page of the scan history
+ */
+export const useAnomalyScans = (page = 1) => {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: schedule, isLoading: scheduleLoading } = useQuery({
+    queryKey: ['anomaly-scan-schedule'],
+    queryFn: getAnomalyScanSchedule,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const {
+    data: runsResponse,
+    isLoading: runsLoading,
+    refetch: refetchRuns,
+  } = useQuery({
+    queryKey: ['anomaly-scan-runs', page],
+    queryFn: () => getAnomalyScanRuns(page),
+    staleTime: 30 * 1000, // 30 seconds
+  });
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: (update: Partial<AnomalyScanSchedule>) => updateAnomalyScanSchedule(update),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['anomaly-scan-schedule'], saved);
+      setError(null);
+    },
+    onError: (err: Error) => {
+      setError(err.message);
+    },
+  });
+
+  const runScanMutation = useMutation({
+    mutationFn: runAnomalyScan,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['anomaly-scan-runs'] });
+      queryClient.invalidateQueries({ queryKey: ['anomaly-scan-schedule'] });
+      setError(null);
+    },
+    onError: (err: Error) => {
+      setError(err.message);
+    },
+  });
+
+  return {
+    schedule: schedule || null,
+    runs: runsResponse?.runs || [],
+    pagination: runsResponse?.pagination || null,
+    scheduleLoading,
+    runsLoading,
+    isSavingSchedule: saveScheduleMutation.isPending,
+    isRunningScan: runScanMutation.isPending,
+    error,
+    clearError: () => setError(null),
+    saveSchedule: saveScheduleMutation.mutateAsync,
+    runScan: runScanMutation.mutateAsync,
+    refetchRuns,
+  };
+};
+
+/**
+ * A single scan, e.g. the one an alert links to
+ * @param runId - Scan to load; nothing is loaded while null
+ */
+export const useAnomalyScanRun = (runId: string | null) =>
+  useQuery({
+    queryKey: ['anomaly-scan-run', runId],
+    queryFn: () => getAnomalyScanRun(runId!),
+    enabled: Boolean(runId),
+  });
@@ -0,0 +1,223 @@
+import { useCallback, useRef, useState } from 'react';
+import { basRecordService, BASFieldValues, BASRecord } from '../api/basRecordService';
+import { companyService, ComplianceData } from '../api/companyService';
+import {
+  getAllAccounts,
+  getBASData,
+  getInvoicesByIds,
+  getPayments,
+  getPayrollPayRuns
+} from '../api/xeroService';
+import { XeroAccount, XeroInvoice, XeroPayment, XeroPayRun } from '../integrations/xero/types';
+import { applyBASAdjustments } from '../utils/basAdjustments';
+import { BASBatchCandidate, BASBatchStatus, getBASBatchWarnings, runThrottledQueue } from '../utils/basBatch';
+import { buildBASFields, calculateBASResult, BASCalculationResult } from '../utils/basCalculation';
+import { getMissingPaymentInvoiceIds } from '../utils/basGstAttribution';
+import { DEFAULT_OTHER_TAX_SETTINGS } from '../utils/basOtherTaxes';
+import { DEFAULT_PAYG_INSTALMENT_INPUTS } from '../utils/basPaygInstalment';
+import { isBASRecordLocked } from '../utils/basWorkflow';
+import { extractXeroCollection, getSectionData, isPlainObject, roundCurrency, toAmount } from '../utils/xeroRecords';
+
+export interface BASBatchRow extends BASBatchCandidate {
+  status: BASBatchStatus;
+  result: BASCalculationResult | null;
+  /** Figures after the saved BAS adjustments, or the locked figures of a lodged BAS */
+  reportedFields: BASFieldValues | null;
+  /** 1A minus 1B of the reported figures */
+  netGST: number | null;
+  warnings: string[];
+  /** Saved BAS of the period, when there is one */
+  record: BASRecord | null;
+  error: string | null;
+}
+
+// Xero allows 60 calls a minute per organisation and each company takes several calls
+const BATCH_CONCURRENCY = 2;
+const BATCH_INTERVAL_MS = 1500;
+
+const getErrorMessage = (error: any): string =>
+  error?.response?.data?.message || error?.message || 'Failed to calculate BAS';
+
+/**
+ * Loads a company's Xero data for the period and calculates its BAS the same way BAS Processing does,
+ * using the company's compliance settings and the adjustments saved on its BAS for the period
+ */
+const prepareCompanyBAS = async (candidate: BASBatchCandidate) => {
+  const { companyId, tenantId, period } = candidate;
+  const { fromDate, toDate } = period;
+
+  const [companyResponse, records] = await Promise.all([
+    companyService.getCompanyById(companyId),
+    basRecordService.getRecords({ companyId, tenantId }).catch((recordsError) => {
+      console.warn(`⚠️ Failed to load saved BAS records of company ${companyId}`, recordsError);
+      return [] as BASRecord[];
+    }),
+  ]);
+  const compliance: Partial<ComplianceData> =
+    companyResponse?.data?.data?.compliance || companyResponse?.data?.compliance || {};
+  const record = records.find((item) => item.fromDate === fromDate && item.toDate === toDate) || null;
+  const basis = compliance.gstAccountingBasis || 'Accrual';
+
+  const response = await getBASData({ fromDate, toDate, useCache: true, tenantId, companyId });
+  const normalized = response?.data?.data ?? response?.data ?? response;
+  const basData = isPlainObject(normalized) ? normalized : response;
+
+  // Without the chart of accounts every purchase would be reported as non-capital, so the row fails instead
+  let accounts = extractXeroCollection<XeroAccount>(getSectionData(normalized, 'accounts'), 'Accounts');
+  if (accounts.length === 0) {
+    try {
+      accounts = extractXeroCollection<XeroAccount>(await getAllAccounts(tenantId, companyId), 'Accounts');
+    } catch (accountsError) {
+      throw new Error(`Failed to load the chart of accounts, so G10/G11 cannot be split: ${getErrorMessage(accountsError)}`);
+    }
+  }
+
+  let payRuns = extractXeroCollection<XeroPayRun>(getSectionData(normalized, 'payRuns'), 'PayRuns');
+  let payrollUnavailable = false;
+  if (payRuns.length === 0) {
+    try {
+      payRuns = extractXeroCollection<XeroPayRun>(await getPayrollPayRuns({ fromDate, toDate, tenantId, companyId }), 'PayRuns');
+    } catch (payrollError) {
+      payrollUnavailable = true;
+      console.warn('⚠️ Failed to load Xero Payroll pay runs; W1/W2 will be reported as nil', payrollError);
+    }
+  }
+
+  // Cash basis GST is attributed from payments, including payments of invoices raised before the period
+  let payments = extractXeroCollection<XeroPayment>(getSectionData(normalized, 'payments'), 'Payments');
+  let paymentInvoices: XeroInvoice[] = [];
+  if (basis === 'Cash') {
+    try {
+      if (payments.length === 0) {
+        payments = extractXeroCollection<XeroPayment>(await getPayments({ fromDate, toDate, tenantId, companyId }), 'Payments');
+      }
+    } catch (paymentsError) {
+      throw new Error(`Failed to load the payments for cash basis GST: ${getErrorMessage(paymentsError)}`);
+    }
+    const missingInvoiceIds = getMissingPaymentInvoiceIds(
+      payments,
+      extractXeroCollection<XeroInvoice>(getSectionData(normalized, 'invoices'), 'Invoices'),
+      fromDate,
+      toDate
+    );
+    if (missingInvoiceIds.length > 0) {
+      try {
+        paymentInvoices = extractXeroCollection<XeroInvoice>(
+          await getInvoicesByIds(missingInvoiceIds, tenantId, companyId),
+          'Invoices'
+        );
+      } catch (invoicesError) {
+        throw new Error(
+          `Failed to load the earlier invoices paid in the period for cash basis GST: ${getErrorMessage(invoicesError)}`
+        );
+      }
+    }
+  }
+
+  const result = calculateBASResult({
+    basData,
+    accounts,
+    payRuns,
+    payments,
+    paymentInvoices,
+    basis,
+    fromDate,
+    toDate,
+    // W3/W4 are entered by hand, so they come from the saved BAS
+    otherAmountsWithheld: toAmount(record?.figures?.W3),
+    noABNWithheld: toAmount(record?.figures?.W4),
+    paygInstalmentInputs: {
+      ...DEFAULT_PAYG_INSTALMENT_INPUTS,
+      method: compliance.paygInstalmentMethod || 'None',
+      notifiedRate: compliance.paygInstalmentRate ?? 0,
+      notifiedAmount: compliance.paygInstalmentAmount ?? 0
+    },
+    otherTaxSettings: compliance.basOtherTaxes || DEFAULT_OTHER_TAX_SETTINGS,
+    fuelTaxCreditLines: record?.payload?.fuelTaxCreditLines || []
+  });
+
+  const locked = !!record && isBASRecordLocked(record);
+  const adjusted = locked ? null : applyBASAdjustments(buildBASFields(result), record?.adjustments || []);
+  const reportedFields = adjusted ? adjusted.fields : record!.figures;
+  const warnings = [...getBASBatchWarnings(result, payrollUnavailable), ...(adjusted?.warnings || [])];
+  if (locked) {
+    warnings.unshift('Already lodged; the locked figures are reported');
+  }
+
+  return {
+    result,
+    reportedFields,
+    netGST: roundCurrency(toAmount(reportedFields['1A']) - toAmount(reportedFields['1B'])),
+    warnings,
+    record,
+  };
+};
+
+/**
+ * Runs the BAS calculation for a list of companies in a throttled queue. Each company is
+ * calculated independently, so one failure is recorded on its row and the batch carries on.
+ */
+export const useBASBatch = () => {
+  const [rows, setRows] = useState<BASBatchRow[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelledRef = useRef(false);
+
+  const updateRow = (companyId: number, changes: Partial<BASBatchRow>) => {
+    setRows((prev) => prev.map((row) => (row.companyId === companyId ? { ...row, ...changes } : row)));
+  };
+
+  const run = useCallback(async (candidates: BASBatchCandidate[]) => {
+    cancelledRef.current = false;
+    setIsRunning(true);
+    setRows(candidates.map((candidate) => ({
+      ...candidate,
+      status: 'queued',
+      result: null,
+      reportedFields: null,
+      netGST: null,
+      warnings: [],
+      record: null,
+      error: null
+    })));
+
+    console.log(`🧮 Running batch BAS for ${candidates.length} company(ies)`);
+    await runThrottledQueue(
+      candidates,
+      async (candidate) => {
+        updateRow(candidate.companyId, { status: 'running' });
+        const prepared = await prepareCompanyBAS(candidate);
+        updateRow(candidate.companyId, { status: 'completed', ...prepared });
+      },
+      {
+        concurrency: BATCH_CONCURRENCY,
+        intervalMs: BATCH_INTERVAL_MS,
+        shouldStop: () => cancelledRef.current,
+        onError: (candidate, error) => {
+          console.error(`❌ Batch BAS failed for ${candidate.companyName}:`, error);
+          updateRow(candidate.companyId, { status: 'failed', error: getErrorMessage(error) });
+        }
+      }
+    );
+
+    setRows((prev) => prev.map((row) => (row.status === 'queued' ? { ...row, status: 'cancelled' } : row)));
+    setIsRunning(false);
+    console.log('✅ Batch BAS finished');
+  }, []);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  const reset = useCallback(() => {
+    setRows([]);
+  }, []);
+
+  return {
+    rows,
+    isRunning,
+    completedCount: rows.filter((row) => row.status === 'completed' || row.status === 'failed').length,
+    run,
+    cancel,
+    reset
+  };
+};
@@ -0,0 +1,98 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  basRecordService,
+  BASRecord,
+  BASRecordFilters,
+  BASRecordInput,
+  BASRecordStatus
+} from '../api/basRecordService';
+import { companyService } from '../api/companyService';
+import { useAuth } from '../contexts/AuthContext';
+import { useCompanyCompliance } from './useCompanyCompliance';
+import { getNextBasDue } from '../utils/basWorkflow';
+
+// Stable empty list so consumers can depend on the records between renders
+const NO_RECORDS: BASRecord[] = [];
+
+/**
+ * Loads the saved BAS records of the signed-in company and exposes the workflow actions.
+ * Lodging a BAS rolls the company's next BAS due date forward to the following period.
+ */
+export const useBASRecords = (filters: Omit<BASRecordFilters, 'companyId'> = {}) => {
+  const { company } = useAuth();
+  const { compliance } = useCompanyCompliance();
+  const queryClient = useQueryClient();
+
+  const {
+    data: records,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['bas-records', company?.id, filters.tenantId, filters.status],
+    queryFn: () => basRecordService.getRecords({ ...filters, companyId: company!.id }),
+    enabled: !!company?.id,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+
+  const rollForwardNextBasDue = async () => {
+    if (!company?.id || !compliance) return;
+
+    const [allRecords, deadlines] = await Promise.all([
+      basRecordService.getRecords({ companyId: company.id }),
+      companyService.getComplianceDeadlines().catch(() => null),
+    ]);
+    const next = getNextBasDue(
+      allRecords,
+      { frequency: compliance.basFrequency, financialYearEnd: compliance.financialYearEnd },
+      deadlines
+    );
+    if (!next) return;
+
+    const nextBasDue = next.dueDate.toISOString();
+    if (compliance.nextBasDue && new Date(compliance.nextBasDue) >= next.dueDate) return;
+
+    console.log(`📅 Rolling next BAS due forward to ${nextBasDue} (${next.period.shortLabel})`);
+    await companyService.updateComplianceSettings({ nextBasDue });
+    queryClient.invalidateQueries({ queryKey: ['company-compliance'] });
+  };
+
+  const invalidateRecords = () => queryClient.invalidateQueries({ queryKey: ['bas-records'] });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: BASRecordInput) => basRecordService.saveRecord(data),
+    onSuccess: invalidateRecords,
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ id, toStatus, comment }: { id: number; toStatus: BASRecordStatus; comment?: string }) => {
+      const record = await basRecordService.transitionRecord(id, toStatus, comment);
+      if (toStatus === 'Lodged') {
+        try {
+          await rollForwardNextBasDue();
+        } catch (rollForwardError) {
+          // The lodgement itself succeeded; the due date can still be corrected on the Compliance page
+          console.error('❌ Failed to roll forward next BAS due date:', rollForwardError);
+        }
+      }
+      return record;
+    },
+    onSuccess: invalidateRecords,
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: ({ id, body }: { id: number; body: string }) => basRecordService.addComment(id, body),
+    onSuccess: invalidateRecords,
+  });
+
+  return {
+    records: records ?? NO_RECORDS,
+    isLoading,
+    error: error ? (error as Error).message : null,
+    refetch,
+    saveRecord: saveMutation.mutateAsync,
+    transitionRecord: transitionMutation.mutateAsync,
+    addComment: commentMutation.mutateAsync,
+    isSaving: saveMutation.isPending || transitionMutation.isPending || commentMutation.isPending,
+  };
+};
@@ -0,0 +1,34 @@
+import { useQuery } from '@tanstack/react-query';
+import { companyService, ComplianceData } from '../api/companyService';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Loads the compliance settings (BAS frequency, financial year end, PAYG instalments, ...)
+ * for the signed-in company
+ */
+export const useCompanyCompliance = () => {
+  const { company } = useAuth();
+
+  const {
+    data: compliance,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['company-compliance', company?.id],
+    queryFn: async (): Promise<Partial<ComplianceData> | null> => {
+      const response = await companyService.getCompanyById(company!.id);
+      // The API nests the company payload under data
+      return response?.data?.data?.compliance || response?.data?.compliance || null;
+    },
+    enabled: !!company?.id,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return {
+    compliance: compliance ?? null,
+    isLoading,
+    error: error ? (error as Error).message : null,
+    refetch
+  };
+};
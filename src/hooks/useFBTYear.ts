@@ -0,0 +1,75 @@
+import { useQuery } from '@tanstack/react-query';
+import { getFASData, getPayrollEmployees } from '../api/xeroService';
+import { XeroEmployee } from '../integrations/xero/types';
+import { FBT_YEAR_END, generateReportingPeriods, ReportingPeriod } from '../utils/reportingPeriods';
+import { extractXeroCollection, isPlainObject } from '../utils/xeroRecords';
+
+export interface FBTYearQuarterData {
+  period: ReportingPeriod;
+  /** FAS data of the quarter, or null when it could not be loaded */
+  data: any;
+  error: string | null;
+}
+
+// Stable empty list so consumers can depend on the employees between renders
+const NO_EMPLOYEES: XeroEmployee[] = [];
+
+/**
+ * Loads the FAS data of each quarter of an FBT year and the Xero Payroll employees of the organisation.
+ * Quarters are loaded one at a time to stay inside the Xero rate limit, and a failed quarter does not
+ * stop the others.
+ */
+export const useFBTYear = ({
+  tenantId,
+  fbtYear,
+  enabled,
+}: {
+  tenantId?: string;
+  fbtYear: number;
+  enabled: boolean;
+}) => {
+  const quartersQuery = useQuery({
+    queryKey: ['fbt-year-quarters', tenantId, fbtYear],
+    queryFn: async (): Promise<FBTYearQuarterData[]> => {
+      const periods = generateReportingPeriods(fbtYear, {
+        frequency: 'Quarterly',
+        financialYearEnd: FBT_YEAR_END,
+        yearLabelPrefix: 'FBT',
+      });
+      const quarters: FBTYearQuarterData[] = [];
+
+      console.log(`📅 Loading FAS data for the quarters of FBT${fbtYear}`);
+      for (const period of periods) {
+        try {
+          const response = await getFASData({ fromDate: period.fromDate, toDate: period.toDate, useCache: true, tenantId });
+          const normalized = response?.data?.data ?? response?.data ?? response;
+          quarters.push({ period, data: isPlainObject(normalized) ? normalized : response, error: null });
+        } catch (error: any) {
+          console.error(`❌ Error loading FAS data for ${period.shortLabel}:`, error);
+          quarters.push({ period, data: null, error: error?.response?.data?.message || error?.message || 'Failed to load FAS data' });
+        }
+      }
+      return quarters;
+    },
+    enabled: enabled && !!tenantId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const employeesQuery = useQuery({
+    queryKey: ['payroll-employees', tenantId],
+    queryFn: async () => extractXeroCollection<XeroEmployee>(await getPayrollEmployees({ tenantId }), 'Employees'),
+    enabled: enabled && !!tenantId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return {
+    quarters: quartersQuery.data ?? null,
+    isLoading: quartersQuery.isFetching,
+    employees: employeesQuery.data ?? NO_EMPLOYEES,
+    employeesLoading: employeesQuery.isFetching,
+    employeesError: employeesQuery.error
+      ? (employeesQuery.error as any)?.response?.data?.message || (employeesQuery.error as Error).message
+      : null,
+    refetch: () => Promise.all([quartersQuery.refetch(), employeesQuery.refetch()]),
+  };
+};
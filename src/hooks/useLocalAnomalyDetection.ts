@@ -0,0 +1,58 @@
+import { useCallback, useState } from 'react';
+import { ScoringResponse, TrainingParameters } from '../api/anomalyDetectionService';
+import {
+  LocalAnomalyEngine,
+  LocalAnomalyModel,
+  scoreWithLocalModel,
+  trainLocalAnomalyModel,
+} from '../utils/anomalyEngine';
+
+/**
+ * Trains and scores with the in-browser anomaly engines. The trained model is kept for the session only.
+ */
+export const useLocalAnomalyDetection = () => {
+  const [localModel, setLocalModel] = useState<LocalAnomalyModel | null>(null);
+
+  const trainLocalModel = useCallback(
+    (
+      engine: LocalAnomalyEngine,
+      dataset: any[],
+      name: string,
+      parameters: TrainingParameters,
+      categoricalFields?: string[]
+    ) => {
+      console.log(`🌲 Training ${engine} model in the browser on ${dataset.length} rows`);
+      const model = trainLocalAnomalyModel({ engine, dataset, name, parameters, categoricalFields });
+      setLocalModel(model);
+      return model;
+    },
+    []
+  );
+
+  /**
+   * Scores rows with the browser model of an engine. Without one, a model is first trained on the rows themselves.
+   */
+  const scoreLocally = useCallback(
+    (
+      engine: LocalAnomalyEngine,
+      data: any[],
+      parameters: TrainingParameters,
+      categoricalFields?: string[]
+    ): ScoringResponse['data'] => {
+      const model =
+        localModel && localModel.engine === engine
+          ? localModel
+          : trainLocalModel(engine, data, 'Trained on the scored data', parameters, categoricalFields);
+      const response = scoreWithLocalModel(model, data);
+      return response.data;
+    },
+    [localModel, trainLocalModel]
+  );
+
+  return {
+    localModel,
+    trainLocalModel,
+    scoreLocally,
+    clearLocalModel: () => setLocalModel(null),
+  };
+};
@@ -0,0 +1,56 @@
+import { useMutation } from '@tanstack/react-query';
+import { getBASData, getPayments } from '../api/xeroService';
+import { XeroBankTransaction, XeroInvoice, XeroPayment } from '../integrations/xero/types';
+import { AnomalyDatasetRecord, buildAnomalyDataset } from '../utils/anomalyDataset';
+import { extractXeroCollection, getSectionData, toISODate } from '../utils/xeroRecords';
+
+export interface XeroAnomalyDatasetRequest {
+  tenantId: string;
+  fromDate: string;
+  toDate: string;
+}
+
+/**
+ * Loads a tenant's invoices, bills and bank transactions for a date range and derives the anomaly
+ * detection features from them
+ */
+const loadXeroAnomalyDataset = async ({ tenantId, fromDate, toDate }: XeroAnomalyDatasetRequest): Promise<AnomalyDatasetRecord[]> => {
+  console.log(`🔍 Building anomaly dataset from Xero for ${fromDate} to ${toDate}`);
+  const response = await getBASData({ fromDate, toDate, useCache: true, tenantId });
+  const normalized = response?.data?.data ?? response?.data ?? response;
+
+  const invoices = extractXeroCollection<XeroInvoice>(getSectionData(normalized, 'invoices'), 'Invoices');
+  const bankTransactions = extractXeroCollection<XeroBankTransaction>(
+    getSectionData(normalized, 'bankTransactions'),
+    'BankTransactions'
+  );
+
+  // Invoices of the period can be paid after it ends, so payments are loaded up to today
+  let payments: XeroPayment[] = [];
+  try {
+    const today = toISODate(new Date());
+    payments = extractXeroCollection<XeroPayment>(
+      await getPayments({ fromDate, toDate: today > toDate ? today : toDate, tenantId }),
+      'Payments'
+    );
+  } catch (paymentsError) {
+    console.warn('⚠️ Failed to load payments; days to pay will only use the paid dates returned with invoices', paymentsError);
+  }
+
+  return buildAnomalyDataset({ invoices, bankTransactions, payments, toDate });
+};
+
+export const useXeroAnomalyDataset = () => {
+  const mutation = useMutation({
+    mutationFn: loadXeroAnomalyDataset,
+  });
+
+  return {
+    buildDataset: mutation.mutateAsync,
+    isBuilding: mutation.isPending,
+    error: mutation.error
+      ? (mutation.error as any)?.response?.data?.message || (mutation.error as Error).message
+      : null,
+    reset: mutation.reset,
+  };
+};
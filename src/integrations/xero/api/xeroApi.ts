@@ -380,6 +380,10 @@ export class XeroApiClient {
     return this.loadData({ resourceType: 'organization', tenantId });
   }
 
+  async getPayRuns(tenantId?: string, dateFrom?: string, dateTo?: string): Promise<XeroDataResponse<any>> {
+    return this.loadData({ resourceType: 'payroll-pay-runs', tenantId, dateFrom, dateTo });
+  }
+
   // Utility Methods
   private generateState(): string {
     return Math.random().toString(36).substring(2, 15) + 
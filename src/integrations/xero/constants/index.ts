@@ -18,6 +18,7 @@ export const XERO_RESOURCE_TYPES = [
   'overpayments',
   'quotes',
   'reports',
+  'payroll-pay-runs',
   'financial-summary',
   'dashboard-data',
 ] as const;
@@ -63,6 +63,8 @@ export interface XeroApiResponse<T = any> {
 export interface XeroInvoice {
   InvoiceID: string;
   InvoiceNumber: string;
+  Type?: 'ACCREC' | 'ACCPAY' | string;
+  Reference?: string;
   Contact: {
     ContactID: string;
     Name: string;
@@ -78,6 +80,8 @@ export interface XeroInvoice {
   Total: number;
   AmountPaid?: number;
   AmountDue?: number;
+  FullyPaidOnDate?: string;
+  UpdatedDateUTC?: string;
 }
 
 export interface XeroLineItem {
@@ -87,6 +91,7 @@ export interface XeroLineItem {
   LineAmount: number;
   AccountCode?: string;
   TaxType?: string;
+  TaxAmount?: number;
 }
 
 export interface XeroContact {
@@ -134,6 +139,10 @@ export interface XeroBankTransaction {
     Code: string;
     Name: string;
   };
+  Contact?: {
+    ContactID: string;
+    Name: string;
+  };
   Date: string;
   Reference?: string;
   CurrencyCode: string;
@@ -146,6 +155,65 @@ export interface XeroBankTransaction {
   BankTransactionType: string;
   LineItems: XeroLineItem[];
   IsReconciled?: boolean;
+  UpdatedDateUTC?: string;
+}
+
+export interface XeroPayment {
+  PaymentID: string;
+  Date: string;
+  Amount: number;
+  Reference?: string;
+  Status: string;
+  PaymentType?: string;
+  Invoice?: {
+    InvoiceID: string;
+    InvoiceNumber?: string;
+    Type?: 'ACCREC' | 'ACCPAY' | string;
+    Contact?: {
+      ContactID: string;
+      Name: string;
+    };
+  };
+}
+
+// Xero Payroll (AU) pay run, as returned by the PayRuns endpoint
+export interface XeroPayslipSummary {
+  EmployeeID: string;
+  PayslipID: string;
+  FirstName?: string;
+  LastName?: string;
+  Wages: number;
+  Deductions?: number;
+  Tax: number;
+  Super?: number;
+  Reimbursements?: number;
+  NetPay?: number;
+}
+
+export interface XeroPayRun {
+  PayRunID: string;
+  PayrollCalendarID?: string;
+  PayRunPeriodStartDate: string;
+  PayRunPeriodEndDate: string;
+  PaymentDate: string;
+  PayRunStatus: 'DRAFT' | 'POSTED' | string;
+  Wages: number;
+  Deductions?: number;
+  Tax: number;
+  Super?: number;
+  Reimbursement?: number;
+  NetPay?: number;
+  Payslips?: XeroPayslipSummary[];
+}
+
+// Xero Payroll (AU) employee, as returned by the Employees endpoint
+export interface XeroEmployee {
+  EmployeeID: string;
+  FirstName: string;
+  LastName: string;
+  Status?: 'ACTIVE' | 'TERMINATED' | string;
+  StartDate?: string;
+  TerminationDate?: string;
 }
 
 export interface XeroOrganization {
@@ -235,6 +303,7 @@ export type XeroResourceType =
   | 'overpayments'
   | 'quotes'
   | 'reports'
+  | 'payroll-pay-runs'
   | 'financial-summary'
   | 'dashboard-data';
 
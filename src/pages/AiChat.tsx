@@ -9,7 +9,7 @@ import { AI_CONFIG } from '../config/aiConfig';
 import FinancialAnalysisDisplay from '../components/FinancialAnalysisDisplay';
 import TemplateSelector from '../components/TemplateSelector';
 import { NotificationTemplate } from '../api/templateService';
-import { isPlainObject, getSectionData } from '../components/XeroDataPreview';
+import { isPlainObject, getSectionData } from '../utils/xeroRecords';
 
 interface Message {
   id: string;
@@ -93,6 +93,13 @@ type BasPromptPayload = {
     fiveA_payg_instalment?: number;
     variation_reason_code?: string;
   };
+  other_taxes?: {
+    oneC_wet_payable?: number;
+    oneD_wet_refundable?: number;
+    oneE_lct_payable?: number;
+    oneF_lct_refundable?: number;
+    sevenD_fuel_tax_credits?: number;
+  };
 };
 
 const BAS_PROMPT_INSTRUCTIONS = `ROLE: You are an AI BAS preparation assistant for Australian entities. You receive a final, validated BAS JSON and must output a pre-filled BAS in plain text that matches ATO lodgement requirements. Your job is accuracy, not vibes.
@@ -102,6 +109,7 @@ AUTHORITATIVE RULES
 - GST: G1, G2, G3, G10, G11, G21, G22, G23, G24, 1A, 1B
 - PAYG Withholding: W1, W2, W3, W4, W5 (and label 4 if supplied)
 - PAYG Instalments: T1, T2, T3, T11, 5A (plus variation reason if supplied)
+- Other taxes: 1C, 1D (wine equalisation tax), 1E, 1F (luxury car tax), 7D (fuel tax credits) — only when supplied
 
 2) Rounding & formatting
 - Round DOWN to whole dollars for all money values. No cents. Show a leading "$".
@@ -136,6 +144,7 @@ Map to totals: 1A = G21 + G22; 1B = G23 + G24.
 - GST-free purchases are counted in G10/G11 but contribute $0 to 1B.
 - Private use or non-creditable components are assumed pre-netted in the JSON; do not infer credits.
 - Adjustments: increasing adjustments for sales/purchases populate G22/G24 and flow into 1A/1B.
+- 1C, 1E are amounts payable; 1D, 1F and 7D are amounts refundable or credits. Never derive them from GST figures.
 
 INPUT EXPECTATIONS (single object; ignore keys not listed)
 {
@@ -177,6 +186,13 @@ INPUT EXPECTATIONS (single object; ignore keys not listed)
 "t11_calculated_instalment": number,
 "fiveA_payg_instalment": number,
 "variation_reason_code": "string"
+},
+"other_taxes": {
+"oneC_wet_payable": number,
+"oneD_wet_refundable": number,
+"oneE_lct_payable": number,
+"oneF_lct_refundable": number,
+"sevenD_fuel_tax_credits": number
 }
 }
 
@@ -221,6 +237,13 @@ T3: [varied rate %]
 T11: $[whole dollars]
 5A: $[whole dollars]
 
+Other Taxes
+1C: $[whole dollars]
+1D: $[whole dollars]
+1E: $[whole dollars]
+1F: $[whole dollars]
+7D: $[whole dollars]
+
 NOW DO THIS:
 1) Validate and reconcile the input per the rules above.
 2) Compute any missing derivable amounts.
@@ -324,9 +347,23 @@ const LABEL_DETAILS: Record<string, string> = {
   T2: 'Standard PAYG instalment rate applied',
   T3: 'Varied PAYG instalment rate (if applicable)',
   T11: 'Calculated PAYG instalment for the period',
-  '5A': 'PAYG instalment payable this period'
+  '5A': 'PAYG instalment payable this period',
+  '1C': 'Wine equalisation tax payable',
+  '1D': 'Wine equalisation tax refundable',
+  '1E': 'Luxury car tax payable',
+  '1F': 'Luxury car tax refundable',
+  '7D': 'Fuel tax credit claimed'
 };
 
+// Optional BAS labels reported outside GST and PAYG, with their prompt keys
+const OTHER_TAX_PROMPT_KEYS: { label: string; key: keyof NonNullable<BasPromptPayload['other_taxes']> }[] = [
+  { label: '1C', key: 'oneC_wet_payable' },
+  { label: '1D', key: 'oneD_wet_refundable' },
+  { label: '1E', key: 'oneE_lct_payable' },
+  { label: '1F', key: 'oneF_lct_refundable' },
+  { label: '7D', key: 'sevenD_fuel_tax_credits' }
+];
+
 const describeLabel = (code: string): string =>
   LABEL_DETAILS[code] ? `${code} — ${LABEL_DETAILS[code]}` : code;
 
@@ -417,7 +454,10 @@ const buildBasStructureFromFields = (input: Record<string, unknown>): Record<str
       w3_other_withholding: getValue(basFields, 'W3'),
       w4_amounts_withheld_where_no_abn: getValue(basFields, 'W4'),
       w5_total_amounts_withheld: getValue(basFields, 'W5')
-    }
+    },
+    other_taxes: Object.fromEntries(
+      OTHER_TAX_PROMPT_KEYS.map(({ label, key }) => [key, getValue(basFields, label)])
+    )
   };
 };
 
@@ -453,6 +493,8 @@ const formatBasPlainText = (input: Record<string, unknown>): string | null => {
     'paygInstalments'
   ) as Record<string, unknown> | undefined;
 
+  let otherTaxesBlock = getValue(input, 'other_taxes', 'otherTaxes') as Record<string, unknown> | undefined;
+
   const basFields = getValue(input, 'BAS_Fields', 'bas_fields');
   if ((!gstBlock || typeof gstBlock !== 'object') && basFields && typeof basFields === 'object') {
     const derived = buildBasStructureFromFields(input);
@@ -460,6 +502,9 @@ const formatBasPlainText = (input: Record<string, unknown>): string | null => {
     if (!paygWithholdingBlock || typeof paygWithholdingBlock !== 'object') {
       paygWithholdingBlock = derived.payg_withholding as Record<string, unknown>;
     }
+    if (!otherTaxesBlock || typeof otherTaxesBlock !== 'object') {
+      otherTaxesBlock = derived.other_taxes as Record<string, unknown>;
+    }
     if (!period && typeof derived.period === 'string') {
       period = derived.period;
     }
@@ -626,6 +671,13 @@ const formatBasPlainText = (input: Record<string, unknown>): string | null => {
     }
   }
 
+  const otherTaxLines: string[] = [];
+  if (otherTaxesBlock && typeof otherTaxesBlock === 'object') {
+    OTHER_TAX_PROMPT_KEYS.forEach(({ label, key }) => {
+      pushMoneyLine(otherTaxLines, label, parseNumeric(getValue(otherTaxesBlock, key, label)));
+    });
+  }
+
   const sections: { title: string; lines: string[]; noDataMessage: string }[] = [
     {
       title: 'GST',
@@ -641,7 +693,11 @@ const formatBasPlainText = (input: Record<string, unknown>): string | null => {
       title: 'PAYG Instalments',
       lines: paygInstalmentLines,
       noDataMessage: 'No PAYG instalment obligations reported.'
-    }
+    },
+    // Fuel tax credits, WET and LCT only apply to some entities, so the section is left out when empty
+    ...(otherTaxLines.length > 0
+      ? [{ title: 'Other Taxes', lines: otherTaxLines, noDataMessage: '' }]
+      : [])
   ];
 
   sections.forEach((section, index) => {
@@ -761,6 +817,8 @@ const normalizeBasDataForPrompt = (input: Record<string, unknown>): BasPromptPay
     'paygInstalments'
   );
 
+  let otherTaxesBlock = getValue(input, 'other_taxes', 'otherTaxes');
+
   const basFields = getValue(input, 'BAS_Fields', 'bas_fields');
   if ((!gstBlock || typeof gstBlock !== 'object') && basFields && typeof basFields === 'object') {
     const derived = buildBasStructureFromFields(input);
@@ -768,6 +826,9 @@ const normalizeBasDataForPrompt = (input: Record<string, unknown>): BasPromptPay
     if (!paygWithholdingBlock) {
       paygWithholdingBlock = derived.payg_withholding;
     }
+    if (!otherTaxesBlock) {
+      otherTaxesBlock = derived.other_taxes;
+    }
   }
 
   if (gstBlock && typeof gstBlock === 'object') {
@@ -957,6 +1018,19 @@ const normalizeBasDataForPrompt = (input: Record<string, unknown>): BasPromptPay
     }
   }
 
+  if (otherTaxesBlock && typeof otherTaxesBlock === 'object') {
+    const otherTaxesPayload: NonNullable<BasPromptPayload['other_taxes']> = {};
+    OTHER_TAX_PROMPT_KEYS.forEach(({ label, key }) => {
+      const value = sanitizeBasMoneyValue(getValue(otherTaxesBlock, key, label));
+      if (value !== undefined) {
+        otherTaxesPayload[key] = value;
+      }
+    });
+    if (Object.keys(otherTaxesPayload).length > 0) {
+      payload.other_taxes = otherTaxesPayload;
+    }
+  }
+
   const cleaned = pruneEmptyBasValue(payload) as BasPromptPayload | undefined;
   if (!cleaned || !isPlainObject(cleaned) || Object.keys(cleaned as Record<string, unknown>).length === 0) {
     return null;
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   Box,
   Card,
@@ -31,7 +32,10 @@ import {
   IconButton,
   Tooltip,
   Divider,
-  LinearProgress
+  LinearProgress,
+  Collapse,
+  Tabs,
+  Tab
 } from '@mui/material';
 import {
   Upload as UploadIcon,
@@ -44,10 +48,57 @@ import {
   Info as InfoIcon,
   Analytics as AnalyticsIcon,
   ModelTraining as ModelIcon,
-  Assessment as AssessmentIcon
+  Assessment as AssessmentIcon,
+  CloudDownload as XeroIcon,
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon
 } from '@mui/icons-material';
 import { useAnomalyDetection } from '../hooks/useAnomalyDetection';
+import { useLocalAnomalyDetection } from '../hooks/useLocalAnomalyDetection';
 import SidebarLayout from '../components/SidebarLayout';
+import AnomalyXeroDatasetDialog from '../components/AnomalyXeroDatasetDialog';
+import AnomalyColumnMappingDialog from '../components/AnomalyColumnMappingDialog';
+import AnomalyExplanationDetails from '../components/AnomalyExplanationDetails';
+import AnomalyReviewDialog from '../components/AnomalyReviewDialog';
+import AnomalyScanPanel from '../components/AnomalyScanPanel';
+import AnomalyScanRunDialog from '../components/AnomalyScanRunDialog';
+import ForensicAnalysisPanel from '../components/ForensicAnalysisPanel';
+import {
+  AnomalyColumnMapping,
+  AnomalyFalsePositiveHandling,
+  AnomalyReview,
+  AnomalyReviewStatus,
+  TrainingParameters,
+} from '../api/anomalyDetectionService';
+import {
+  ANOMALY_CATEGORICAL_FEATURES,
+  AnomalyDatasetRecord,
+  getAnomalyDatasetPeerGroups,
+  getAnomalyRecordDetails,
+  toAnomalyTrainingDataset,
+} from '../utils/anomalyDataset';
+import {
+  AnomalyImportedTable,
+  applyColumnMapping,
+  getImportedRow,
+  getMissingMappedColumns,
+  guessColumnMapping,
+  toImportedTable,
+} from '../utils/anomalyColumnMapping';
+import { readSpreadsheetFile } from '../utils/spreadsheetImport';
+import { buildCsv, CSV_MIME_TYPE } from '../utils/spreadsheetExport';
+import { ANOMALY_ENGINE_LABELS, AnomalyEngine, DEFAULT_LOCAL_PARAMETERS } from '../utils/anomalyEngine';
+import { AnomalyScoredDataset, explainAnomalies, getFieldPeerGroups } from '../utils/anomalyExplanation';
+import {
+  ANOMALY_FALSE_POSITIVE_HANDLING_LABELS,
+  ANOMALY_REVIEW_STATUS_COLORS,
+  ANOMALY_REVIEW_STATUS_LABELS,
+  applyReviewFeedback,
+  DEFAULT_FALSE_POSITIVE_WEIGHT,
+  getAnomalyRowKeys,
+  getLatestReviews,
+} from '../utils/anomalyReviews';
+import { ANOMALY_SCAN_QUERY_PARAM } from '../utils/anomalyScans';
 import toast from 'react-hot-toast';
 
 interface DatasetSample {
@@ -61,26 +112,53 @@ const AnomalyDetection: React.FC = () => {
   const {
     models,
     trainingJobs,
+    reviews,
     modelsLoading,
     jobsLoading,
     isTraining,
     isScoring,
     isActivating,
     isDeleting,
+    isSavingReview,
     error,
     clearError,
     trainModelWithDefaults,
     scoreData,
     activateModel,
     deleteModel,
+    saveReview,
     checkTrainingStatus,
     exportResults,
     refetchModels,
     refetchJobs
   } = useAnomalyDetection();
+  const { localModel, trainLocalModel, scoreLocally } = useLocalAnomalyDetection();
 
+  const [tab, setTab] = useState<'models' | 'forensic'>('models');
+  const [engine, setEngine] = useState<AnomalyEngine>('service');
   const [dataset, setDataset] = useState<DatasetSample[]>([]);
+  // Name reviews of the dataset's rows are saved with
+  const [datasetName, setDatasetName] = useState('');
+  // Xero transactions behind the dataset rows, when the dataset was built from Xero
+  const [datasetRecords, setDatasetRecords] = useState<AnomalyDatasetRecord[] | null>(null);
+  // Imported CSV/XLSX file and the column mapping its dataset was built with
+  const [importedTable, setImportedTable] = useState<AnomalyImportedTable | null>(null);
+  const [columnMapping, setColumnMapping] = useState<AnomalyColumnMapping | null>(null);
+  const [datasetIdentifiers, setDatasetIdentifiers] = useState<(string | null)[] | null>(null);
+  const [pendingTable, setPendingTable] = useState<AnomalyImportedTable | null>(null);
+  // What the results were scored on, to explain them
+  const [scoredDataset, setScoredDataset] = useState<AnomalyScoredDataset | null>(null);
   const [results, setResults] = useState<any>(null);
+  const [expandedResult, setExpandedResult] = useState<number | null>(null);
+  // Where reviews of the results are saved: the scored dataset, the model that scored it and the key of each row
+  const [reviewContext, setReviewContext] = useState<{
+    datasetName: string;
+    modelId: string | null;
+    rowKeys: string[];
+  } | null>(null);
+  const [reviewingResult, setReviewingResult] = useState<{ index: number; score: number } | null>(null);
+  const [falsePositiveHandling, setFalsePositiveHandling] = useState<AnomalyFalsePositiveHandling | ''>('');
+  const [falsePositiveWeight, setFalsePositiveWeight] = useState<number>(DEFAULT_FALSE_POSITIVE_WEIGHT);
   const [selectedModel, setSelectedModel] = useState<string>('');
   const [threshold, setThreshold] = useState<number>(0.5);
   const [modelName, setModelName] = useState('');
@@ -89,6 +167,17 @@ const AnomalyDetection: React.FC = () => {
   const [nEstimators, setNEstimators] = useState<number>(100);
   const [showTrainingDialog, setShowTrainingDialog] = useState(false);
   const [showResultsDialog, setShowResultsDialog] = useState(false);
+  const [showXeroDatasetDialog, setShowXeroDatasetDialog] = useState(false);
+  // Scan opened from the history or from the link in an alert
+  const [searchParams, setSearchParams] = useSearchParams();
+  const openScanId = searchParams.get(ANOMALY_SCAN_QUERY_PARAM);
+
+  const setOpenScan = (runId: number | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (runId === null) params.delete(ANOMALY_SCAN_QUERY_PARAM);
+    else params.set(ANOMALY_SCAN_QUERY_PARAM, String(runId));
+    setSearchParams(params);
+  };
 
   // Auto-refresh training jobs
   useEffect(() => {
@@ -99,16 +188,76 @@ const AnomalyDetection: React.FC = () => {
     return () => clearInterval(interval);
   }, [refetchJobs]);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Model used for scoring: the selected model, or the active model when none is selected
+  const scoringModel = useMemo(
+    () => models.find((model) => (selectedModel ? model.id === selectedModel : model.status === 'active')) || null,
+    [models, selectedModel]
+  );
+
+  // Why each flagged result was flagged, by result index
+  const explanations = useMemo(
+    () => (scoredDataset && results?.results ? explainAnomalies(scoredDataset, results.results) : []),
+    [scoredDataset, results]
+  );
+  const explanationsByIndex = useMemo(
+    () => new Map(explanations.map((explanation) => [explanation.index, explanation])),
+    [explanations]
+  );
+
+  // Latest review of each scored row, for the model that scored it
+  const resultReviews = useMemo(
+    () => (reviewContext ? getLatestReviews(reviews, reviewContext.modelId) : new Map<string, AnomalyReview>()),
+    [reviews, reviewContext]
+  );
+  const getResultReview = (index: number) =>
+    reviewContext ? resultReviews.get(reviewContext.rowKeys[index]) || null : null;
+
+  // Xero rows are keyed by transaction, so reviews follow a transaction into later datasets
+  const datasetRowKeys = useMemo(
+    () => getAnomalyRowKeys(dataset, datasetRecords ? datasetRecords.map((record) => record.id) : datasetIdentifiers),
+    [dataset, datasetRecords, datasetIdentifiers]
+  );
+  const datasetFalsePositives = useMemo(
+    () => applyReviewFeedback({ dataset, rowKeys: datasetRowKeys, reviews, handling: 'exclude' }).falsePositiveRows,
+    [dataset, datasetRowKeys, reviews]
+  );
+
+  const clearImportedDataset = () => {
+    setDatasetRecords(null);
+    setImportedTable(null);
+    setColumnMapping(null);
+    setDatasetIdentifiers(null);
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Allow the same file to be chosen again, e.g. to change its mapping
+    event.target.value = '';
     if (!file) return;
 
+    if (/\.(csv|xlsx)$/i.test(file.name)) {
+      try {
+        const table = toImportedTable(await readSpreadsheetFile(file), file.name);
+        if (table.columns.length === 0 || table.rows.length === 0) {
+          toast.error('The file has no data rows');
+          return;
+        }
+        setPendingTable(table);
+      } catch (err: any) {
+        console.error('❌ Error reading dataset file:', err);
+        toast.error(err?.message || 'Failed to read the file');
+      }
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const data = JSON.parse(e.target?.result as string);
         if (Array.isArray(data)) {
           setDataset(data);
+          clearImportedDataset();
+          setDatasetName(file.name);
           toast.success(`Dataset loaded: ${data.length} samples`);
         } else {
           toast.error('Invalid file format. Please upload a JSON array.');
@@ -120,6 +269,42 @@ const AnomalyDetection: React.FC = () => {
     reader.readAsText(file);
   };
 
+  // A file is mapped with the scoring model's saved mapping when it has all of its columns
+  const pendingMappingFromModel = useMemo(() => {
+    const modelMapping = scoringModel?.parameters?.columnMapping;
+    return pendingTable && modelMapping && getMissingMappedColumns(pendingTable, modelMapping).length === 0
+      ? modelMapping
+      : null;
+  }, [pendingTable, scoringModel]);
+
+  const pendingInitialMapping = useMemo(
+    () => pendingMappingFromModel || (pendingTable ? guessColumnMapping(pendingTable) : null),
+    [pendingMappingFromModel, pendingTable]
+  );
+
+  const handleApplyMapping = (mapping: AnomalyColumnMapping) => {
+    if (!pendingTable) return;
+    const mapped = applyColumnMapping(pendingTable, mapping);
+    setDataset(mapped.dataset);
+    setDatasetRecords(null);
+    setImportedTable(pendingTable);
+    setColumnMapping(mapped.mapping);
+    setDatasetIdentifiers(mapping.identifierColumn ? mapped.identifiers : null);
+    setDatasetName(pendingTable.fileName);
+    setPendingTable(null);
+    toast.success(
+      `Dataset loaded: ${mapped.dataset.length} samples${mapped.droppedRows ? ` (${mapped.droppedRows} rows with blanks dropped)` : ''}`
+    );
+  };
+
+  const handleUseXeroDataset = (records: AnomalyDatasetRecord[]) => {
+    setDataset(toAnomalyTrainingDataset(records));
+    clearImportedDataset();
+    setDatasetRecords(records);
+    setDatasetName('Xero transactions');
+    toast.success(`Dataset built from Xero: ${records.length} transactions`);
+  };
+
   const handleTrain = async () => {
     if (!dataset.length) {
       toast.error('Please upload a dataset first');
@@ -131,12 +316,52 @@ const AnomalyDetection: React.FC = () => {
       return;
     }
 
+    // The mapping is saved with the model so files scored with it are mapped the same way
+    const parameters: TrainingParameters = { contamination, nEstimators, ...(columnMapping ? { columnMapping } : {}) };
+
+    // Rows analysts reviewed as false positives are left out or weighted as normal
+    let trainingData: DatasetSample[] = dataset;
+    if (falsePositiveHandling && datasetFalsePositives > 0) {
+      const feedback = applyReviewFeedback({
+        dataset,
+        rowKeys: datasetRowKeys,
+        reviews,
+        handling: falsePositiveHandling,
+        weight: falsePositiveWeight,
+      });
+      trainingData = feedback.dataset;
+      parameters.reviewFeedback = {
+        falsePositives: falsePositiveHandling,
+        ...(falsePositiveHandling === 'weight' ? { weight: falsePositiveWeight } : {}),
+        falsePositiveRows: feedback.falsePositiveRows,
+      };
+    }
+
+    if (engine !== 'service') {
+      try {
+        trainLocalModel(
+          engine,
+          trainingData,
+          modelName,
+          { ...DEFAULT_LOCAL_PARAMETERS, ...parameters },
+          datasetRecords ? ANOMALY_CATEGORICAL_FEATURES : columnMapping?.categoricalColumns
+        );
+        toast.success('Model trained in the browser!');
+        setShowTrainingDialog(false);
+        setModelName('');
+        setModelDescription('');
+      } catch (err: any) {
+        toast.error(err?.message || 'Failed to train model');
+      }
+      return;
+    }
+
     try {
       const result = await trainModelWithDefaults(
-        dataset,
+        trainingData,
         modelName,
         modelDescription || 'Anomaly detection model',
-        { contamination, nEstimators }
+        parameters
       );
       
       toast.success('Training started successfully!');
@@ -154,14 +379,87 @@ const AnomalyDetection: React.FC = () => {
       return;
     }
 
+    // Imported files are mapped the way the model's training data was
+    let scored: AnomalyScoredDataset = {
+      data: dataset,
+      originals: dataset,
+      identifiers: datasetIdentifiers,
+      peerGroups: getFieldPeerGroups(dataset),
+    };
+    const modelMapping =
+      engine === 'service'
+        ? scoringModel?.parameters?.columnMapping
+        : localModel?.engine === engine
+        ? localModel.parameters.columnMapping
+        : undefined;
+    if (importedTable && modelMapping) {
+      const missingColumns = getMissingMappedColumns(importedTable, modelMapping);
+      if (missingColumns.length > 0) {
+        toast.error(`The file is missing columns the model was trained on: ${missingColumns.join(', ')}`);
+        return;
+      }
+    }
+    let rowKeyIdentifiers = scored.identifiers;
+    const mapping = modelMapping || columnMapping;
+    if (importedTable && mapping) {
+      const mapped = applyColumnMapping(importedTable, mapping);
+      scored = {
+        data: mapped.dataset,
+        originals: mapped.rowIndexes.map((rowIndex) => getImportedRow(importedTable, rowIndex)),
+        identifiers: mapping.identifierColumn ? mapped.identifiers : null,
+        peerGroups: getFieldPeerGroups(mapped.dataset, mapping.categoricalColumns),
+        categoricalFields: mapping.categoricalColumns,
+      };
+      rowKeyIdentifiers = scored.identifiers;
+    } else if (datasetRecords) {
+      scored = {
+        data: dataset,
+        originals: datasetRecords.map(getAnomalyRecordDetails),
+        identifiers: datasetRecords.map((record) => record.reference || record.id),
+        peerGroups: getAnomalyDatasetPeerGroups(datasetRecords),
+        categoricalFields: ANOMALY_CATEGORICAL_FEATURES,
+      };
+      rowKeyIdentifiers = datasetRecords.map((record) => record.id);
+    }
+    const data = scored.data;
+    const scoredReviewContext = {
+      datasetName: datasetName || 'Dataset',
+      modelId: engine === 'service' ? scoringModel?.id || null : null,
+      rowKeys: getAnomalyRowKeys(data, rowKeyIdentifiers),
+    };
+
+    if (engine !== 'service') {
+      try {
+        setResults(
+          scoreLocally(
+            engine,
+            data,
+            { ...DEFAULT_LOCAL_PARAMETERS, contamination, nEstimators },
+            scored.categoricalFields
+          )
+        );
+        setScoredDataset(scored);
+        setReviewContext(scoredReviewContext);
+        setExpandedResult(null);
+        setShowResultsDialog(true);
+        toast.success('Data scored in the browser!');
+      } catch (err: any) {
+        toast.error(err?.message || 'Failed to score data');
+      }
+      return;
+    }
+
     try {
       const result = await scoreData({
-        data: dataset, // Score all samples
+        data, // Score all samples
         threshold,
         modelId: selectedModel || undefined
       });
       
       setResults(result);
+      setScoredDataset(scored);
+      setReviewContext(scoredReviewContext);
+      setExpandedResult(null);
       setShowResultsDialog(true);
       toast.success('Data scored successfully!');
     } catch (err) {
@@ -169,6 +467,26 @@ const AnomalyDetection: React.FC = () => {
     }
   };
 
+  const handleSaveReview = async (status: AnomalyReviewStatus, note: string) => {
+    if (!reviewingResult || !reviewContext || !scoredDataset) return;
+    try {
+      await saveReview({
+        rowKey: reviewContext.rowKeys[reviewingResult.index],
+        datasetName: reviewContext.datasetName,
+        row: scoredDataset.data[reviewingResult.index],
+        modelId: reviewContext.modelId,
+        score: reviewingResult.score,
+        status,
+        note,
+        reviewedAt: new Date().toISOString(),
+      });
+      toast.success('Review saved');
+      setReviewingResult(null);
+    } catch (err) {
+      toast.error('Failed to save review');
+    }
+  };
+
   const handleActivateModel = async (modelId: string) => {
     try {
       await activateModel(modelId);
@@ -195,6 +513,45 @@ const AnomalyDetection: React.FC = () => {
       return;
     }
 
+    // Results scored in the browser are exported without the service
+    if (engine !== 'service') {
+      const identifiers = scoredDataset?.identifiers;
+      const rows = (results.results || []).map((result: any) => {
+        const review = getResultReview(result.index);
+        return [
+          result.index,
+          ...(identifiers ? [identifiers[result.index] || ''] : []),
+          result.score,
+          result.isAnomaly ? 'Yes' : 'No',
+          explanationsByIndex.get(result.index)?.reason || '',
+          review ? ANOMALY_REVIEW_STATUS_LABELS[review.status] : '',
+          review?.note || '',
+        ];
+      });
+      const csv = buildCsv(
+        [
+          {
+            name: 'Anomaly Results',
+            rows: [
+              ['Index', ...(identifiers ? ['Identifier'] : []), 'Score', 'Anomaly', 'Reason', 'Review', 'Review Note'],
+              ...rows,
+            ],
+          },
+        ],
+        { titles: false }
+      );
+      const downloadUrl = window.URL.createObjectURL(new Blob([csv], { type: CSV_MIME_TYPE }));
+      const link = document.createElement('a');
+      link.href = downloadUrl;
+      link.download = 'anomaly_results.csv';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(downloadUrl);
+      toast.success('Results exported successfully!');
+      return;
+    }
+
     try {
       await exportResults(results.results || [], 'anomaly_results.csv');
       toast.success('Results exported successfully!');
@@ -235,305 +592,371 @@ const AnomalyDetection: React.FC = () => {
           </Alert>
         )}
 
-        {/* Main Workflow Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-          {/* Dataset Upload Card */}
-          <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 hover:shadow-xl hover:-translate-y-1 transition-all duration-200">
-            <div className="flex items-center gap-3 mb-3">
-              <div className="w-8 h-8 rounded-full bg-blue-500 flex items-center justify-center text-white">
-                <UploadIcon />
+        <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 3 }}>
+          <Tab value="models" label="Machine Learning" />
+          <Tab value="forensic" label="Forensic Tests" />
+        </Tabs>
+
+        {tab === 'forensic' && <ForensicAnalysisPanel />}
+
+        {tab === 'models' && (
+          <>
+            {/* Main Workflow Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+              {/* Dataset Upload Card */}
+              <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 hover:shadow-xl hover:-translate-y-1 transition-all duration-200">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="w-8 h-8 rounded-full bg-blue-500 flex items-center justify-center text-white">
+                    <UploadIcon />
+                  </div>
+                  <span className="text-lg font-semibold text-gray-800">1. Upload Dataset</span>
+                </div>
+                <p className="text-gray-500 text-sm mb-4">Upload a JSON, CSV or XLSX dataset or build one from Xero to get started</p>
+                <input
+                  accept=".json,.csv,.xlsx"
+                  style={{ display: 'none' }}
+                  id="dataset-upload"
+                  type="file"
+                  onChange={handleFileUpload}
+                />
+                <label htmlFor="dataset-upload">
+                  <Button
+                    variant="outlined"
+                    component="span"
+                    startIcon={<UploadIcon />}
+                    fullWidth
+                    className="bg-gradient-to-r from-blue-500 to-blue-600 text-white border-0 hover:from-blue-600 hover:to-blue-700"
+                  >
+                    Upload Dataset
+                  </Button>
+                </label>
+                <Button
+                  variant="outlined"
+                  startIcon={<XeroIcon />}
+                  onClick={() => setShowXeroDatasetDialog(true)}
+                  fullWidth
+                  sx={{ mt: 1 }}
+                >
+                  Build from Xero
+                </Button>
+                {dataset.length > 0 && (
+                  <Alert severity="success" sx={{ mt: 2 }}>
+                    Dataset loaded: {dataset.length} {datasetRecords ? 'Xero transactions' : 'samples'}
+                    {importedTable && ` from ${importedTable.fileName}`}
+                  </Alert>
+                )}
               </div>
-              <span className="text-lg font-semibold text-gray-800">1. Upload Dataset</span>
-            </div>
-            <p className="text-gray-500 text-sm mb-4">Upload your JSON dataset to get started</p>
-            <input
-              accept=".json"
-              style={{ display: 'none' }}
-              id="dataset-upload"
-              type="file"
-              onChange={handleFileUpload}
-            />
-            <label htmlFor="dataset-upload">
-              <Button
-                variant="outlined"
-                component="span"
-                startIcon={<UploadIcon />}
-                fullWidth
-                className="bg-gradient-to-r from-blue-500 to-blue-600 text-white border-0 hover:from-blue-600 hover:to-blue-700"
-              >
-                Upload JSON Dataset
-              </Button>
-            </label>
-            {dataset.length > 0 && (
-              <Alert severity="success" sx={{ mt: 2 }}>
-                Dataset loaded: {dataset.length} samples
-              </Alert>
-            )}
-          </div>
 
-          {/* Model Training Card */}
-          <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 hover:shadow-xl hover:-translate-y-1 transition-all duration-200">
-            <div className="flex items-center gap-3 mb-3">
-              <div className="w-8 h-8 rounded-full bg-green-500 flex items-center justify-center text-white">
-                <ModelIcon />
+              {/* Model Training Card */}
+              <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 hover:shadow-xl hover:-translate-y-1 transition-all duration-200">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="w-8 h-8 rounded-full bg-green-500 flex items-center justify-center text-white">
+                    <ModelIcon />
+                  </div>
+                  <span className="text-lg font-semibold text-gray-800">2. Train Model</span>
+                </div>
+                <p className="text-gray-500 text-sm mb-4">Train a new anomaly detection model</p>
+                <Button
+                  variant="contained"
+                  startIcon={<TrainIcon />}
+                  onClick={() => setShowTrainingDialog(true)}
+                  disabled={!dataset.length || (engine === 'service' && isTraining)}
+                  fullWidth
+                  className="bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700"
+                >
+                  {isTraining ? 'Training...' : 'Train New Model'}
+                </Button>
               </div>
-              <span className="text-lg font-semibold text-gray-800">2. Train Model</span>
-            </div>
-            <p className="text-gray-500 text-sm mb-4">Train a new anomaly detection model</p>
-            <Button
-              variant="contained"
-              startIcon={<TrainIcon />}
-              onClick={() => setShowTrainingDialog(true)}
-              disabled={!dataset.length || isTraining}
-              fullWidth
-              className="bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700"
-            >
-              {isTraining ? 'Training...' : 'Train New Model'}
-            </Button>
-          </div>
 
-          {/* Data Scoring Card */}
-          <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 hover:shadow-xl hover:-translate-y-1 transition-all duration-200">
-            <div className="flex items-center gap-3 mb-3">
-              <div className="w-8 h-8 rounded-full bg-purple-500 flex items-center justify-center text-white">
-                <AssessmentIcon />
+              {/* Data Scoring Card */}
+              <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 hover:shadow-xl hover:-translate-y-1 transition-all duration-200">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="w-8 h-8 rounded-full bg-purple-500 flex items-center justify-center text-white">
+                    <AssessmentIcon />
+                  </div>
+                  <span className="text-lg font-semibold text-gray-800">3. Score Data</span>
+                </div>
+                <p className="text-gray-500 text-sm mb-4">Score new data for anomalies</p>
+                <Button
+                  variant="contained"
+                  startIcon={<ScoreIcon />}
+                  onClick={handleScore}
+                  disabled={!dataset.length || (engine === 'service' && isScoring)}
+                  fullWidth
+                  className="bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700"
+                >
+                  {isScoring ? 'Scoring...' : 'Score Data'}
+                </Button>
               </div>
-              <span className="text-lg font-semibold text-gray-800">3. Score Data</span>
-            </div>
-            <p className="text-gray-500 text-sm mb-4">Score new data for anomalies</p>
-            <Button
-              variant="contained"
-              startIcon={<ScoreIcon />}
-              onClick={handleScore}
-              disabled={!dataset.length || isScoring}
-              fullWidth
-              className="bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700"
-            >
-              {isScoring ? 'Scoring...' : 'Score Data'}
-            </Button>
-          </div>
 
-          {/* Export Results Card */}
-          <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 hover:shadow-xl hover:-translate-y-1 transition-all duration-200">
-            <div className="flex items-center gap-3 mb-3">
-              <div className="w-8 h-8 rounded-full bg-orange-500 flex items-center justify-center text-white">
-                <ExportIcon />
+              {/* Export Results Card */}
+              <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 hover:shadow-xl hover:-translate-y-1 transition-all duration-200">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="w-8 h-8 rounded-full bg-orange-500 flex items-center justify-center text-white">
+                    <ExportIcon />
+                  </div>
+                  <span className="text-lg font-semibold text-gray-800">4. Export Results</span>
+                </div>
+                <p className="text-gray-500 text-sm mb-4">Export your results as CSV</p>
+                <Button
+                  variant="outlined"
+                  startIcon={<ExportIcon />}
+                  onClick={handleExport}
+                  disabled={!results}
+                  fullWidth
+                  className="bg-gradient-to-r from-orange-500 to-orange-600 text-white border-0 hover:from-orange-600 hover:to-orange-700"
+                >
+                  Export as CSV
+                </Button>
               </div>
-              <span className="text-lg font-semibold text-gray-800">4. Export Results</span>
             </div>
-            <p className="text-gray-500 text-sm mb-4">Export your results as CSV</p>
-            <Button
-              variant="outlined"
-              startIcon={<ExportIcon />}
-              onClick={handleExport}
-              disabled={!results}
-              fullWidth
-              className="bg-gradient-to-r from-orange-500 to-orange-600 text-white border-0 hover:from-orange-600 hover:to-orange-700"
-            >
-              Export as CSV
-            </Button>
-          </div>
-        </div>
 
-        {/* Configuration Section */}
-        <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 mb-6">
-          <Typography variant="h6" className="mb-4 text-gray-800">
-            Configuration
-          </Typography>
-                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-             <div>
-               <FormControl fullWidth>
-                 <InputLabel>Select Model (Optional)</InputLabel>
-                 <Select
-                   value={selectedModel}
-                   onChange={(e) => setSelectedModel(e.target.value)}
-                   label="Select Model (Optional)"
-                 >
-                   <MenuItem value="">Use Default Model</MenuItem>
-                   {models.map((model) => (
-                     <MenuItem key={model.id} value={model.id}>
-                       {model.name} ({model.status})
-                     </MenuItem>
-                   ))}
-                 </Select>
-               </FormControl>
-             </div>
-             <div>
-               <Typography gutterBottom>
-                 Threshold: {threshold}
-               </Typography>
-               <Slider
-                 value={threshold}
-                 onChange={(_, value) => setThreshold(value as number)}
-                 min={0}
-                 max={1}
-                 step={0.01}
-                 marks={[
-                   { value: 0, label: '0' },
-                   { value: 0.5, label: '0.5' },
-                   { value: 1, label: '1' }
-                 ]}
-                 className="mb-2"
-               />
-             </div>
-           </div>
-        </div>
+            {/* Configuration Section */}
+            <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 mb-6">
+              <Typography variant="h6" className="mb-4 text-gray-800">
+                Configuration
+              </Typography>
+              <FormControl fullWidth sx={{ mb: 2 }}>
+                <InputLabel>Engine</InputLabel>
+                <Select
+                  value={engine}
+                  onChange={(e) => setEngine(e.target.value as AnomalyEngine)}
+                  label="Engine"
+                >
+                  {(Object.keys(ANOMALY_ENGINE_LABELS) as AnomalyEngine[]).map((option) => (
+                    <MenuItem key={option} value={option}>
+                      {ANOMALY_ENGINE_LABELS[option]}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                 <div>
+                   {engine !== 'service' ? (
+                     <Alert severity="info">
+                       {localModel?.engine === engine
+                         ? `Browser model "${localModel.name}" trained on ${localModel.sampleCount} rows at ${new Date(localModel.trainedAt).toLocaleTimeString()}.`
+                         : 'No browser model trained yet; scoring trains one on the scored data.'}{' '}
+                       Browser models are kept until the page is closed.
+                     </Alert>
+                   ) : (
+                   <FormControl fullWidth>
+                     <InputLabel>Select Model (Optional)</InputLabel>
+                     <Select
+                       value={selectedModel}
+                       onChange={(e) => setSelectedModel(e.target.value)}
+                       label="Select Model (Optional)"
+                     >
+                       <MenuItem value="">Use Default Model</MenuItem>
+                       {models.map((model) => (
+                         <MenuItem key={model.id} value={model.id}>
+                           {model.name} ({model.status})
+                         </MenuItem>
+                       ))}
+                     </Select>
+                   </FormControl>
+                   )}
+                 </div>
+                 <div>
+                   <Typography gutterBottom>
+                     Threshold: {threshold}
+                   </Typography>
+                   <Slider
+                     disabled={engine !== 'service'}
+                     value={threshold}
+                     onChange={(_, value) => setThreshold(value as number)}
+                     min={0}
+                     max={1}
+                     step={0.01}
+                     marks={[
+                       { value: 0, label: '0' },
+                       { value: 0.5, label: '0.5' },
+                       { value: 1, label: '1' }
+                     ]}
+                     className="mb-2"
+                   />
+                   {engine !== 'service' && (
+                     <Typography variant="caption" color="text.secondary">
+                       Browser engines flag the share of rows set by the contamination the model was trained with.
+                     </Typography>
+                   )}
+                 </div>
+               </div>
+            </div>
 
-        {/* Models List */}
-        <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 mb-6">
-          <div className="flex justify-between items-center mb-4">
-            <Typography variant="h6" className="text-gray-800">
-              Trained Models
-            </Typography>
-            <Button
-              startIcon={<RefreshIcon />}
-              onClick={() => refetchModels()}
-              disabled={modelsLoading}
-              variant="outlined"
-              size="small"
-            >
-              Refresh
-            </Button>
-          </div>
+            {/* Models List */}
+            <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5 mb-6">
+              <div className="flex justify-between items-center mb-4">
+                <Typography variant="h6" className="text-gray-800">
+                  Trained Models
+                </Typography>
+                <Button
+                  startIcon={<RefreshIcon />}
+                  onClick={() => refetchModels()}
+                  disabled={modelsLoading}
+                  variant="outlined"
+                  size="small"
+                >
+                  Refresh
+                </Button>
+              </div>
           
-          {modelsLoading ? (
-            <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
-              <CircularProgress />
-            </Box>
-          ) : models.length === 0 ? (
-            <Alert severity="info">
-              No models trained yet. Upload a dataset and train your first model!
-            </Alert>
-          ) : (
-            <TableContainer component={Paper} className="shadow-sm">
-              <Table>
-                <TableHead>
-                  <TableRow className="bg-gray-50">
-                    <TableCell className="font-semibold">Name</TableCell>
-                    <TableCell className="font-semibold">Description</TableCell>
-                    <TableCell className="font-semibold">Status</TableCell>
-                    <TableCell className="font-semibold">Created</TableCell>
-                    <TableCell className="font-semibold">Actions</TableCell>
-                  </TableRow>
-                </TableHead>
-                <TableBody>
-                  {models.map((model) => (
-                    <TableRow key={model.id} className="hover:bg-gray-50">
-                      <TableCell className="font-medium">{model.name}</TableCell>
-                      <TableCell>{model.description}</TableCell>
-                      <TableCell>
-                        <Chip
-                          label={model.status}
-                          color={getStatusColor(model.status) as any}
-                          size="small"
-                          className="font-medium"
-                        />
-                      </TableCell>
-                      <TableCell>
-                        {new Date(model.createdAt).toLocaleDateString()}
-                      </TableCell>
-                      <TableCell>
-                        <Tooltip title="Activate Model">
-                          <IconButton
-                            onClick={() => handleActivateModel(model.id)}
-                            disabled={isActivating || model.status === 'active'}
-                            color="success"
-                            size="small"
-                          >
-                            <ActivateIcon />
-                          </IconButton>
-                        </Tooltip>
-                        <Tooltip title="Delete Model">
-                          <IconButton
-                            onClick={() => handleDeleteModel(model.id)}
-                            disabled={isDeleting}
-                            color="error"
-                            size="small"
-                          >
-                            <DeleteIcon />
-                          </IconButton>
-                        </Tooltip>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </TableContainer>
-          )}
-        </div>
+              {modelsLoading ? (
+                <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+                  <CircularProgress />
+                </Box>
+              ) : models.length === 0 ? (
+                <Alert severity="info">
+                  No models trained yet. Upload a dataset and train your first model!
+                </Alert>
+              ) : (
+                <TableContainer component={Paper} className="shadow-sm">
+                  <Table>
+                    <TableHead>
+                      <TableRow className="bg-gray-50">
+                        <TableCell className="font-semibold">Name</TableCell>
+                        <TableCell className="font-semibold">Description</TableCell>
+                        <TableCell className="font-semibold">Status</TableCell>
+                        <TableCell className="font-semibold">Created</TableCell>
+                        <TableCell className="font-semibold">Precision</TableCell>
+                        <TableCell className="font-semibold">Actions</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {models.map((model) => (
+                        <TableRow key={model.id} className="hover:bg-gray-50">
+                          <TableCell className="font-medium">{model.name}</TableCell>
+                          <TableCell>{model.description}</TableCell>
+                          <TableCell>
+                            <Chip
+                              label={model.status}
+                              color={getStatusColor(model.status) as any}
+                              size="small"
+                              className="font-medium"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            {new Date(model.createdAt).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell>
+                            {model.metrics?.precision !== undefined ? (
+                              <Tooltip title={`From ${model.metrics.reviewedCount || 0} reviewed flags`}>
+                                <span>{(model.metrics.precision * 100).toFixed(0)}%</span>
+                              </Tooltip>
+                            ) : (
+                              'Not reviewed'
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Tooltip title="Activate Model">
+                              <IconButton
+                                onClick={() => handleActivateModel(model.id)}
+                                disabled={isActivating || model.status === 'active'}
+                                color="success"
+                                size="small"
+                              >
+                                <ActivateIcon />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Delete Model">
+                              <IconButton
+                                onClick={() => handleDeleteModel(model.id)}
+                                disabled={isDeleting}
+                                color="error"
+                                size="small"
+                              >
+                                <DeleteIcon />
+                              </IconButton>
+                            </Tooltip>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </div>
 
-        {/* Training Jobs */}
-        <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5">
-          <div className="flex justify-between items-center mb-4">
-            <Typography variant="h6" className="text-gray-800">
-              Training Jobs
-            </Typography>
-            <Button
-              startIcon={<RefreshIcon />}
-              onClick={() => refetchJobs()}
-              disabled={jobsLoading}
-              variant="outlined"
-              size="small"
-            >
-              Refresh
-            </Button>
-          </div>
+            {/* Training Jobs */}
+            <div className="bg-white/90 rounded-xl shadow-md border border-white/60 p-5">
+              <div className="flex justify-between items-center mb-4">
+                <Typography variant="h6" className="text-gray-800">
+                  Training Jobs
+                </Typography>
+                <Button
+                  startIcon={<RefreshIcon />}
+                  onClick={() => refetchJobs()}
+                  disabled={jobsLoading}
+                  variant="outlined"
+                  size="small"
+                >
+                  Refresh
+                </Button>
+              </div>
           
-          {jobsLoading ? (
-            <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
-              <CircularProgress />
-            </Box>
-          ) : trainingJobs.length === 0 ? (
-            <Alert severity="info">
-              No training jobs found.
-            </Alert>
-          ) : (
-            <TableContainer component={Paper} className="shadow-sm">
-              <Table>
-                <TableHead>
-                  <TableRow className="bg-gray-50">
-                    <TableCell className="font-semibold">Job ID</TableCell>
-                    <TableCell className="font-semibold">Status</TableCell>
-                    <TableCell className="font-semibold">Progress</TableCell>
-                    <TableCell className="font-semibold">Model ID</TableCell>
-                  </TableRow>
-                </TableHead>
-                <TableBody>
-                  {trainingJobs.map((job: any) => (
-                    <TableRow key={job.jobId} className="hover:bg-gray-50">
-                      <TableCell className="font-mono text-sm">{job.jobId}</TableCell>
-                      <TableCell>
-                        <Chip
-                          label={job.status}
-                          color={getStatusColor(job.status) as any}
-                          size="small"
-                          className="font-medium"
-                        />
-                      </TableCell>
-                      <TableCell>
-                        {job.progress ? (
-                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                            <LinearProgress 
-                              variant="determinate" 
-                              value={job.progress} 
-                              sx={{ flexGrow: 1, height: 8, borderRadius: 4 }}
+              {jobsLoading ? (
+                <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+                  <CircularProgress />
+                </Box>
+              ) : trainingJobs.length === 0 ? (
+                <Alert severity="info">
+                  No training jobs found.
+                </Alert>
+              ) : (
+                <TableContainer component={Paper} className="shadow-sm">
+                  <Table>
+                    <TableHead>
+                      <TableRow className="bg-gray-50">
+                        <TableCell className="font-semibold">Job ID</TableCell>
+                        <TableCell className="font-semibold">Status</TableCell>
+                        <TableCell className="font-semibold">Progress</TableCell>
+                        <TableCell className="font-semibold">Model ID</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {trainingJobs.map((job: any) => (
+                        <TableRow key={job.jobId} className="hover:bg-gray-50">
+                          <TableCell className="font-mono text-sm">{job.jobId}</TableCell>
+                          <TableCell>
+                            <Chip
+                              label={job.status}
+                              color={getStatusColor(job.status) as any}
+                              size="small"
+                              className="font-medium"
                             />
-                            <Typography variant="body2" color="textSecondary">
-                              {job.progress}%
-                            </Typography>
-                          </Box>
-                        ) : (
-                          'N/A'
-                        )}
-                      </TableCell>
-                      <TableCell className="font-mono text-sm">{job.modelId || 'N/A'}</TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </TableContainer>
-          )}
-        </div>
+                          </TableCell>
+                          <TableCell>
+                            {job.progress ? (
+                              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                <LinearProgress 
+                                  variant="determinate" 
+                                  value={job.progress} 
+                                  sx={{ flexGrow: 1, height: 8, borderRadius: 4 }}
+                                />
+                                <Typography variant="body2" color="textSecondary">
+                                  {job.progress}%
+                                </Typography>
+                              </Box>
+                            ) : (
+                              'N/A'
+                            )}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{job.modelId || 'N/A'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </div>
+
+            {/* Scheduled Scans */}
+            <AnomalyScanPanel
+              activeModelName={models.find((model) => model.status === 'active')?.name || null}
+              onOpenRun={setOpenScan}
+            />
+          </>
+        )}
       </div>
 
       {/* Training Dialog */}
@@ -592,6 +1015,43 @@ const AnomalyDetection: React.FC = () => {
               { value: 200, label: '200' }
             ]}
           />
+          <FormControl fullWidth sx={{ mt: 3 }}>
+            <InputLabel>Reviewed False Positives</InputLabel>
+            <Select
+              value={falsePositiveHandling}
+              onChange={(e) => setFalsePositiveHandling(e.target.value as AnomalyFalsePositiveHandling | '')}
+              label="Reviewed False Positives"
+            >
+              <MenuItem value="">Train on the dataset as is</MenuItem>
+              {(Object.keys(ANOMALY_FALSE_POSITIVE_HANDLING_LABELS) as AnomalyFalsePositiveHandling[]).map((option) => (
+                <MenuItem key={option} value={option}>
+                  {ANOMALY_FALSE_POSITIVE_HANDLING_LABELS[option]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Typography variant="caption" color="text.secondary">
+            {datasetFalsePositives} {datasetFalsePositives === 1 ? 'row' : 'rows'} of this dataset reviewed as false
+            positives.
+          </Typography>
+          {falsePositiveHandling === 'weight' && (
+            <>
+              <Typography gutterBottom sx={{ mt: 2 }}>
+                False Positive Weight: {falsePositiveWeight}x
+              </Typography>
+              <Slider
+                value={falsePositiveWeight}
+                onChange={(_, value) => setFalsePositiveWeight(value as number)}
+                min={2}
+                max={10}
+                step={1}
+                marks={[
+                  { value: 2, label: '2x' },
+                  { value: 10, label: '10x' }
+                ]}
+              />
+            </>
+          )}
         </DialogContent>
         <DialogActions className="p-4">
           <Button onClick={() => setShowTrainingDialog(false)} variant="outlined">
@@ -608,6 +1068,37 @@ const AnomalyDetection: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      <AnomalyColumnMappingDialog
+        table={pendingTable}
+        initialMapping={pendingInitialMapping}
+        mappingSource={pendingMappingFromModel ? scoringModel?.name : null}
+        onApply={handleApplyMapping}
+        onClose={() => setPendingTable(null)}
+      />
+
+      <AnomalyXeroDatasetDialog
+        open={showXeroDatasetDialog}
+        onClose={() => setShowXeroDatasetDialog(false)}
+        onUseDataset={handleUseXeroDataset}
+      />
+
+      <AnomalyReviewDialog
+        open={Boolean(reviewingResult)}
+        label={
+          reviewingResult
+            ? scoredDataset?.identifiers?.[reviewingResult.index] || `result ${reviewingResult.index}`
+            : ''
+        }
+        score={reviewingResult?.score || 0}
+        reason={reviewingResult ? explanationsByIndex.get(reviewingResult.index)?.reason : undefined}
+        review={reviewingResult ? getResultReview(reviewingResult.index) : null}
+        saving={isSavingReview}
+        onSave={handleSaveReview}
+        onClose={() => setReviewingResult(null)}
+      />
+
+      <AnomalyScanRunDialog runId={openScanId} onClose={() => setOpenScan(null)} />
+
       {/* Results Dialog */}
       <Dialog open={showResultsDialog} onClose={() => setShowResultsDialog(false)} maxWidth="lg" fullWidth>
         <DialogTitle className="bg-gradient-to-r from-purple-500 to-purple-600 text-white">
@@ -645,26 +1136,94 @@ const AnomalyDetection: React.FC = () => {
                 <Table>
                   <TableHead>
                     <TableRow className="bg-gray-50">
+                      <TableCell padding="checkbox" />
                       <TableCell className="font-semibold">Index</TableCell>
+                      {scoredDataset?.identifiers && <TableCell className="font-semibold">Identifier</TableCell>}
                       <TableCell className="font-semibold">Score</TableCell>
                       <TableCell className="font-semibold">Anomaly</TableCell>
+                      <TableCell className="font-semibold">Reason</TableCell>
+                      <TableCell className="font-semibold">Review</TableCell>
                     </TableRow>
                   </TableHead>
                   <TableBody>
-                    {(results.results || []).map((result: any, index: number) => (
-                      <TableRow key={index} className="hover:bg-gray-50">
-                        <TableCell className="font-medium">{result.index || index}</TableCell>
-                        <TableCell className="font-mono">{result.score ? result.score.toFixed(4) : '0.0000'}</TableCell>
-                        <TableCell>
-                          <Chip
-                            label={result.isAnomaly ? 'Yes' : 'No'}
-                            color={result.isAnomaly ? 'error' : 'success'}
-                            size="small"
-                            className="font-medium"
-                          />
-                        </TableCell>
-                      </TableRow>
-                    ))}
+                    {(results.results || []).map((result: any, index: number) => {
+                      const resultIndex = result.index ?? index;
+                      const explanation = explanationsByIndex.get(resultIndex);
+                      const expanded = expandedResult === resultIndex;
+                      const review = getResultReview(resultIndex);
+                      return (
+                        <React.Fragment key={index}>
+                          <TableRow className="hover:bg-gray-50">
+                            <TableCell padding="checkbox">
+                              {explanation && (
+                                <Tooltip title={expanded ? 'Hide explanation' : 'Explain'}>
+                                  <IconButton
+                                    size="small"
+                                    onClick={() => setExpandedResult(expanded ? null : resultIndex)}
+                                  >
+                                    {expanded ? <CollapseIcon /> : <ExpandIcon />}
+                                  </IconButton>
+                                </Tooltip>
+                              )}
+                            </TableCell>
+                            <TableCell className="font-medium">{result.index || index}</TableCell>
+                            {scoredDataset?.identifiers && (
+                              <TableCell>{scoredDataset.identifiers[resultIndex] || '-'}</TableCell>
+                            )}
+                            <TableCell className="font-mono">{result.score ? result.score.toFixed(4) : '0.0000'}</TableCell>
+                            <TableCell>
+                              <Chip
+                                label={result.isAnomaly ? 'Yes' : 'No'}
+                                color={result.isAnomaly ? 'error' : 'success'}
+                                size="small"
+                                className="font-medium"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Typography variant="body2" color="text.secondary">
+                                {explanation?.reason || '-'}
+                              </Typography>
+                            </TableCell>
+                            <TableCell>
+                              {result.isAnomaly && (
+                                <Tooltip title={review?.note || 'Record whether this is a real issue'}>
+                                  {review ? (
+                                    <Chip
+                                      label={ANOMALY_REVIEW_STATUS_LABELS[review.status]}
+                                      color={ANOMALY_REVIEW_STATUS_COLORS[review.status]}
+                                      variant="outlined"
+                                      size="small"
+                                      onClick={() => setReviewingResult({ index: resultIndex, score: result.score || 0 })}
+                                    />
+                                  ) : (
+                                    <Button
+                                      size="small"
+                                      onClick={() => setReviewingResult({ index: resultIndex, score: result.score || 0 })}
+                                    >
+                                      Review
+                                    </Button>
+                                  )}
+                                </Tooltip>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                          {explanation && (
+                            <TableRow>
+                              <TableCell
+                                colSpan={scoredDataset?.identifiers ? 7 : 6}
+                                sx={{ py: 0, borderBottom: expanded ? undefined : 'none' }}
+                              >
+                                <Collapse in={expanded} timeout="auto" unmountOnExit>
+                                  <Box sx={{ py: 2 }}>
+                                    <AnomalyExplanationDetails explanation={explanation} />
+                                  </Box>
+                                </Collapse>
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </React.Fragment>
+                      );
+                    })}
                   </TableBody>
                 </Table>
               </TableContainer>
@@ -0,0 +1,345 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  LinearProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  PlayArrow as PlayArrowIcon,
+  Stop as StopIcon,
+  Warning as WarningIcon,
+} from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import SidebarLayout from '../components/SidebarLayout';
+import { companyService } from '../api/companyService';
+import { downloadBASReportPdf, getCompaniesXeroStatus } from '../api/xeroService';
+import { BASBatchRow, useBASBatch } from '../hooks/useBASBatch';
+import { BASBatchStatus, getBASBatchCandidates, runThrottledQueue } from '../utils/basBatch';
+import { buildBASReportPdfPayload } from '../utils/basCalculation';
+import { buildZip, ZIP_MIME_TYPE } from '../utils/spreadsheetExport';
+
+const STATUS_COLORS: Record<BASBatchStatus, 'default' | 'info' | 'success' | 'error'> = {
+  queued: 'default',
+  running: 'info',
+  completed: 'success',
+  failed: 'error',
+  cancelled: 'default',
+};
+
+const STATUS_LABELS: Record<BASBatchStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const formatDate = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const getCurrentMonth = () => {
+  const today = new Date();
+  return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const toFileName = (value: string) => value.replace(/[^a-z0-9]+/gi, '_');
+
+const BASBatchProcessing: React.FC = () => {
+  const [dueMonth, setDueMonth] = useState(getCurrentMonth);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const { rows, isRunning, completedCount, run, cancel, reset } = useBASBatch();
+
+  const { data: practice, isLoading, error } = useQuery({
+    queryKey: ['bas-batch-companies'],
+    queryFn: async () => {
+      const [companiesResponse, xeroStatus, deadlines] = await Promise.all([
+        companyService.getAllCompanies(),
+        getCompaniesXeroStatus(),
+        companyService.getComplianceDeadlines().catch(() => null),
+      ]);
+      return { companies: companiesResponse.data || [], statuses: xeroStatus?.companies || [], deadlines };
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const candidates = useMemo(
+    () =>
+      practice
+        ? getBASBatchCandidates({
+            companies: practice.companies,
+            statuses: practice.statuses,
+            month: dueMonth,
+            deadlines: practice.deadlines,
+          })
+        : [],
+    [practice, dueMonth]
+  );
+
+  const completedRows = rows.filter((row) => row.status === 'completed');
+  const failedCount = rows.filter((row) => row.status === 'failed').length;
+
+  const handleDueMonthChange = (value: string) => {
+    setDueMonth(value);
+    reset();
+  };
+
+  const handleRun = async () => {
+    if (candidates.length === 0) return;
+    await run(candidates);
+    toast.success('Batch BAS preparation finished');
+  };
+
+  // PDFs are generated one at a time and bundled into a single ZIP; a failed PDF does not stop the others
+  const handleDownloadZip = async () => {
+    if (completedRows.length === 0 || isDownloading) return;
+
+    try {
+      setIsDownloading(true);
+      const files: { path: string; content: Uint8Array }[] = [];
+      const failures: string[] = [];
+
+      await runThrottledQueue(
+        completedRows,
+        async (row: BASBatchRow) => {
+          const payload = buildBASReportPdfPayload({
+            result: row.result!,
+            reportedFields: row.reportedFields!,
+            adjustments: row.record?.adjustments || [],
+            adjustmentLog: row.record?.adjustmentLog || [],
+            rawXeroData: null,
+            period: row.period,
+            companyName: row.companyName,
+            organisationName: row.companyName,
+            tenantId: row.tenantId,
+          });
+          const pdfBlob = await downloadBASReportPdf(payload);
+          files.push({
+            path: `BAS_Report_${toFileName(row.companyName)}_${toFileName(row.period.shortLabel)}.pdf`,
+            content: new Uint8Array(await pdfBlob.arrayBuffer()),
+          });
+        },
+        {
+          concurrency: 1,
+          intervalMs: 500,
+          onError: (row, downloadError) => {
+            console.error(`❌ Failed to generate BAS PDF for ${row.companyName}:`, downloadError);
+            failures.push(row.companyName);
+          },
+        }
+      );
+
+      if (files.length === 0) {
+        toast.error('Failed to generate the BAS PDFs');
+        return;
+      }
+
+      const downloadUrl = window.URL.createObjectURL(new Blob([buildZip(files)], { type: ZIP_MIME_TYPE }));
+      const link = document.createElement('a');
+      link.href = downloadUrl;
+      link.download = `BAS_Reports_${dueMonth}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(downloadUrl);
+
+      if (failures.length > 0) {
+        toast.error(`PDFs could not be generated for: ${failures.join(', ')}`);
+      } else {
+        toast.success(`${files.length} BAS PDF(s) downloaded`);
+      }
+    } catch (downloadError: any) {
+      console.error('❌ Error downloading BAS PDFs:', downloadError);
+      toast.error(downloadError?.response?.data?.message || 'Failed to download BAS PDFs');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const tableRows: (Omit<BASBatchRow, 'status'> & { status: BASBatchStatus | null })[] =
+    rows.length > 0
+      ? rows
+      : candidates.map((candidate) => ({
+          ...candidate,
+          status: null,
+          result: null,
+          reportedFields: null,
+          netGST: null,
+          warnings: [],
+          record: null,
+          error: null,
+        }));
+
+  return (
+    <SidebarLayout>
+      <Box sx={{ p: 3 }}>
+        <Typography variant="h4" gutterBottom>
+          Batch BAS Preparation
+        </Typography>
+        <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+          Calculates the BAS of every company with a connected Xero organisation whose BAS is due in the
+          chosen month. Each company is calculated from its own compliance settings and saved adjustments.
+        </Typography>
+
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', md: '200px auto auto 1fr' },
+            alignItems: 'center',
+            gap: 2,
+            mb: 2,
+          }}
+        >
+          <TextField
+            size="small"
+            type="month"
+            label="BAS due in"
+            value={dueMonth}
+            onChange={(e) => handleDueMonthChange(e.target.value)}
+            disabled={isRunning}
+            InputLabelProps={{ shrink: true }}
+          />
+          {isRunning ? (
+            <Button variant="outlined" color="warning" startIcon={<StopIcon />} onClick={cancel}>
+              Stop
+            </Button>
+          ) : (
+            <Button
+              variant="contained"
+              startIcon={<PlayArrowIcon />}
+              onClick={handleRun}
+              disabled={candidates.length === 0}
+            >
+              Run Batch ({candidates.length})
+            </Button>
+          )}
+          <Button
+            variant="outlined"
+            startIcon={isDownloading ? <CircularProgress size={16} /> : <DownloadIcon />}
+            onClick={handleDownloadZip}
+            disabled={isRunning || isDownloading || completedRows.length === 0}
+          >
+            {isDownloading ? 'Preparing PDFs...' : 'Download PDFs (ZIP)'}
+          </Button>
+          {rows.length > 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ justifySelf: { md: 'end' } }}>
+              {completedCount} of {rows.length} processed
+              {failedCount > 0 ? `, ${failedCount} failed` : ''}
+            </Typography>
+          )}
+        </Box>
+
+        {isRunning && (
+          <LinearProgress
+            variant="determinate"
+            value={rows.length > 0 ? (completedCount / rows.length) * 100 : 0}
+            sx={{ mb: 2 }}
+          />
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            Failed to load the companies: {(error as Error).message}
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : tableRows.length === 0 ? (
+          <Alert severity="info">
+            No company with a connected Xero organisation has a BAS due in the chosen month.
+          </Alert>
+        ) : (
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Company</TableCell>
+                  <TableCell>Period</TableCell>
+                  <TableCell>Due</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">G1</TableCell>
+                  <TableCell align="right">1A</TableCell>
+                  <TableCell align="right">1B</TableCell>
+                  <TableCell align="right">Net GST</TableCell>
+                  <TableCell>Warnings</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {tableRows.map((row) => (
+                  <TableRow key={row.companyId}>
+                    <TableCell>{row.companyName}</TableCell>
+                    <TableCell>{row.period.label}</TableCell>
+                    <TableCell>{formatDate(row.dueDate)}</TableCell>
+                    <TableCell>
+                      {row.status ? (
+                        <Chip label={STATUS_LABELS[row.status]} color={STATUS_COLORS[row.status]} size="small" />
+                      ) : (
+                        <Chip label="Not run" size="small" variant="outlined" />
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      {row.reportedFields ? formatCurrency(Number(row.reportedFields.G1) || 0) : '-'}
+                    </TableCell>
+                    <TableCell align="right">
+                      {row.reportedFields ? formatCurrency(Number(row.reportedFields['1A']) || 0) : '-'}
+                    </TableCell>
+                    <TableCell align="right">
+                      {row.reportedFields ? formatCurrency(Number(row.reportedFields['1B']) || 0) : '-'}
+                    </TableCell>
+                    <TableCell align="right">
+                      {row.netGST !== null ? <strong>{formatCurrency(row.netGST)}</strong> : '-'}
+                    </TableCell>
+                    <TableCell sx={{ maxWidth: 360 }}>
+                      {row.error && (
+                        <Typography variant="body2" color="error">
+                          {row.error}
+                        </Typography>
+                      )}
+                      {row.warnings.length > 0 && (
+                        <Tooltip title={row.warnings.join('. ')}>
+                          <Chip
+                            icon={<WarningIcon />}
+                            label={`${row.warnings.length} warning(s)`}
+                            color="warning"
+                            size="small"
+                            variant="outlined"
+                          />
+                        </Tooltip>
+                      )}
+                      {row.status === 'completed' && row.warnings.length === 0 && (
+                        <Typography variant="body2" color="text.secondary">
+                          None
+                        </Typography>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Box>
+    </SidebarLayout>
+  );
+};
+
+export default BASBatchProcessing;
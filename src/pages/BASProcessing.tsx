@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import SidebarLayout from '../components/SidebarLayout';
 import BASProcessor from '../components/BASProcessor';
+import BASRecordsList from '../components/BASRecordsList';
+import { useBASRecords } from '../hooks/useBASRecords';
 import { useAuth } from '../contexts/AuthContext';
 import { useUserRole, requireAIToolsAccess } from '../utils/roleUtils';
 import { Navigate } from 'react-router-dom';
@@ -32,6 +34,7 @@ const BASProcessing: React.FC = () => {
   const [processedBASData, setProcessedBASData] = useState<BASData | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [isDownloadingReport, setIsDownloadingReport] = useState(false);
+  const { records: basRecords, isLoading: basRecordsLoading, error: basRecordsError } = useBASRecords();
 
   const handleBASGenerated = (basData: BASData) => {
     setProcessedBASData(basData);
@@ -146,11 +149,12 @@ const BASProcessing: React.FC = () => {
                 <h3 className="text-lg font-semibold text-gray-900">Processing History</h3>
               </div>
               <div className="p-6">
-                <div className="text-center text-gray-500 py-8">
-                  <div className="text-4xl mb-2">📊</div>
-                  <p>Processing history will be displayed here</p>
-                  <p className="text-sm">Track your BAS processing activities over time</p>
-                </div>
+                <BASRecordsList
+                  records={basRecords}
+                  isLoading={basRecordsLoading}
+                  error={basRecordsError}
+                  title="Saved BAS"
+                />
               </div>
             </div>
           )}
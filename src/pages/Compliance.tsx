@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { useFormik } from 'formik';
 import * as Yup from 'yup';
 import dayjs from 'dayjs';
@@ -9,6 +10,9 @@ import toast from 'react-hot-toast';
 import SidebarLayout from '../components/SidebarLayout';
 import { Grid, Card, CardContent, Container, Box, Typography, Button, TextField, MenuItem } from '@mui/material';
 import CompanyComplianceForm, { CompanyComplianceFormValues } from '../components/CompanyComplianceForm';
+import BASRecordsList from '../components/BASRecordsList';
+import { useBASRecords } from '../hooks/useBASRecords';
+import { getAtoQuarterKey, getPeriodForDate } from '../utils/reportingPeriods';
 
 const validationSchema = Yup.object({
   basFrequency: Yup.string()
@@ -32,10 +36,12 @@ const validationSchema = Yup.object({
 const Compliance: React.FC = () => {
   const navigate = useNavigate();
   const { company, updateCompany } = useAuth();
+  const queryClient = useQueryClient();
   const [error, setError] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [formDefaults, setFormDefaults] = useState<CompanyComplianceFormValues | undefined>(undefined);
   const [deadlines, setDeadlines] = useState<ComplianceDeadlines | null>(null);
+  const { records: basRecords, isLoading: basRecordsLoading, error: basRecordsError } = useBASRecords();
 
   // Function to fetch compliance data
   const fetchCompliance = async () => {
@@ -62,6 +68,10 @@ const Compliance: React.FC = () => {
           iasFrequency: compliance.iasFrequency || 'Quarterly',
           nextIasDue: compliance.nextIasDue ? new Date(compliance.nextIasDue) : null,
           financialEndDate: compliance.financialYearEnd ? new Date(compliance.financialYearEnd) : null,
+          gstAccountingBasis: compliance.gstAccountingBasis || 'Accrual',
+          paygInstalmentMethod: compliance.paygInstalmentMethod || 'None',
+          paygInstalmentAmount: compliance.paygInstalmentAmount ?? null,
+          paygInstalmentRate: compliance.paygInstalmentRate ?? null,
         });
       } else {
         console.log('No compliance data found in response:', companyRes); // Debug log
@@ -78,13 +88,9 @@ const Compliance: React.FC = () => {
     fetchCompliance();
   }, [company?.id]);
 
-  // Helper to get the current quarter
-  function getCurrentQuarter(date: Date) {
-    const month = date.getMonth() + 1;
-    if (month >= 1 && month <= 3) return 'q3'; // Q3: Jan-Mar
-    if (month >= 4 && month <= 6) return 'q4'; // Q4: Apr-Jun
-    if (month >= 7 && month <= 9) return 'q1'; // Q1: Jul-Sep
-    return 'q2'; // Q2: Oct-Dec
+  // Helper to get the ATO quarter key (q1-q4) of the current quarterly period
+  function getCurrentQuarter(date: Date, financialYearEnd: Date | null) {
+    return getAtoQuarterKey(getPeriodForDate(date, { frequency: 'Quarterly', financialYearEnd }));
   }
 
   // Handler to auto-fill due dates based on frequency and deadlines
@@ -99,8 +105,8 @@ const Compliance: React.FC = () => {
         setValue('nextBasDue', due.toDate());
       }
     } else if (values.basFrequency === 'Quarterly') {
-      const q = getCurrentQuarter(now);
-      const dateStr = deadlines.bas.quarterly[q];
+      const q = getCurrentQuarter(now, values.financialEndDate);
+      const dateStr = q && deadlines.bas.quarterly[q];
       if (dateStr) {
         setValue('nextBasDue', dayjs(dateStr, 'DD MMM YYYY').toDate());
       }
@@ -112,8 +118,8 @@ const Compliance: React.FC = () => {
         setValue('nextIasDue', due.toDate());
       }
     } else if (values.iasRequired && values.iasFrequency === 'Quarterly') {
-      const q = getCurrentQuarter(now);
-      const dateStr = deadlines.ias.quarterly[q];
+      const q = getCurrentQuarter(now, values.financialEndDate);
+      const dateStr = q && deadlines.ias.quarterly[q];
       if (dateStr) {
         setValue('nextIasDue', dayjs(dateStr, 'DD MMM YYYY').toDate());
       }
@@ -149,6 +155,10 @@ const Compliance: React.FC = () => {
         financialYearEnd: data.financialEndDate ? 
           (typeof data.financialEndDate === 'string' ? new Date().toISOString() : data.financialEndDate.toISOString()) : 
           new Date(new Date().getFullYear(), 5, 30).toISOString(), // Default to June 30th of current year
+        gstAccountingBasis: data.gstAccountingBasis || 'Accrual',
+        paygInstalmentMethod: data.paygInstalmentMethod || 'None',
+        paygInstalmentAmount: data.paygInstalmentMethod === 'Amount' ? data.paygInstalmentAmount ?? undefined : undefined,
+        paygInstalmentRate: data.paygInstalmentMethod === 'Rate' ? data.paygInstalmentRate ?? undefined : undefined,
       };
 
       const response = await companyService.updateCompliance(complianceData);
@@ -164,6 +174,7 @@ const Compliance: React.FC = () => {
         }
         // Reload compliance data to ensure form shows updated values
         await fetchCompliance();
+        queryClient.invalidateQueries({ queryKey: ['company-compliance'] });
       } else {
         toast.error(response.message || 'Failed to save compliance data');
       }
@@ -192,6 +203,7 @@ const Compliance: React.FC = () => {
           />
         )}
         {error && <div className="text-red-500 mt-4">{error}</div>}
+        <BASRecordsList records={basRecords} isLoading={basRecordsLoading} error={basRecordsError} />
                 </div>
     </SidebarLayout>
   );
@@ -43,7 +43,7 @@ const FASProcessing: React.FC = () => {
       const payload = {
         fasData: processedFASData,
         summary: {
-          totalFringeBenefits: processedFASData.FAS_Fields.A1,
+          totalFringeBenefits: processedFASData.FAS_Fields.A1 + processedFASData.FAS_Fields.A2,
           fbtPayable: processedFASData.FAS_Fields.A5,
           fbtRate: processedFASData.FAS_Fields.A6,
           reportableBenefits: processedFASData.FAS_Fields.A3
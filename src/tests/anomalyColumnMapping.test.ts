@@ -0,0 +1,128 @@
+import {
+  applyColumnMapping,
+  CATEGORICAL_BLANK,
+  getColumnRole,
+  getImportedRow,
+  getMissingMappedColumns,
+  guessColumnMapping,
+  parseNumericCell,
+  setColumnRole,
+  toImportedTable,
+} from '../utils/anomalyColumnMapping';
+import { parseCsv } from '../utils/spreadsheetImport';
+
+const csv = [
+  ';;;',
+  'Invoice No;Amount;Region;Memo;',
+  'INV-1;"$1,200.00";North;a',
+  'INV-2;(50);South;b',
+  'INV-3;;North;c',
+  'INV-4;300;;d',
+].join('\r\n');
+
+const table = toImportedTable({ name: 'Sales', rows: parseCsv(csv) }, 'sales.csv');
+const mapping = guessColumnMapping(table);
+
+describe('parseNumericCell', () => {
+  it('reads currency, thousands separators and bracketed negatives', () => {
+    expect(parseNumericCell('$1,234.50')).toBe(1234.5);
+    expect(parseNumericCell('(1,234.50)')).toBe(-1234.5);
+    expect(parseNumericCell('1e3')).toBe(1000);
+    expect(parseNumericCell(42)).toBe(42);
+  });
+
+  it('returns null for blanks and text', () => {
+    expect(parseNumericCell('  ')).toBeNull();
+    expect(parseNumericCell('12 apples')).toBeNull();
+    expect(parseNumericCell(Infinity)).toBeNull();
+  });
+});
+
+describe('toImportedTable', () => {
+  it('takes the first non-blank row as headers and names blank ones', () => {
+    expect(table.columns).toEqual(['Invoice No', 'Amount', 'Region', 'Memo', 'Column 5']);
+    expect(table.rows).toHaveLength(4);
+    expect(table.rows[0]).toEqual(['INV-1', '$1,200.00', 'North', 'a', null]);
+  });
+
+  it('renames repeated headers', () => {
+    expect(toImportedTable({ name: 'Sheet1', rows: [['Amount', 'Amount', 'Amount']] }, 'a.xlsx').columns).toEqual([
+      'Amount',
+      'Amount (2)',
+      'Amount (3)',
+    ]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('suggests the identifier, numeric and categorical columns and ignores free text', () => {
+    expect(mapping).toEqual({
+      numericColumns: ['Amount'],
+      categoricalColumns: ['Region'],
+      identifierColumn: 'Invoice No',
+      blankHandling: 'fillMedian',
+    });
+    expect(getColumnRole(mapping, 'Memo')).toBe('ignore');
+  });
+});
+
+describe('setColumnRole', () => {
+  it('moves a column to its new role', () => {
+    const updated = setColumnRole({ ...mapping, fillValues: { Amount: 1 } }, 'Invoice No', 'categorical');
+
+    expect(updated.identifierColumn).toBeNull();
+    expect(updated.categoricalColumns).toEqual(['Region', 'Invoice No']);
+    expect(updated.fillValues).toBeUndefined();
+  });
+});
+
+describe('getMissingMappedColumns', () => {
+  it('lists mapped columns the table does not have', () => {
+    expect(getMissingMappedColumns(table, { ...mapping, numericColumns: ['Amount', 'Quantity'] })).toEqual(['Quantity']);
+  });
+});
+
+describe('applyColumnMapping', () => {
+  it('fills numeric blanks with the median and keeps the fill values', () => {
+    const result = applyColumnMapping(table, mapping);
+
+    expect(result.dataset).toEqual([
+      { Amount: 1200, Region: 'North' },
+      { Amount: -50, Region: 'South' },
+      { Amount: 300, Region: 'North' },
+      { Amount: 300, Region: CATEGORICAL_BLANK },
+    ]);
+    expect(result.identifiers).toEqual(['INV-1', 'INV-2', 'INV-3', 'INV-4']);
+    expect(result.mapping.fillValues).toEqual({ Amount: 300 });
+  });
+
+  it('reuses the fill values saved with a model', () => {
+    expect(applyColumnMapping(table, { ...mapping, fillValues: { Amount: 1000 } }).dataset[2].Amount).toBe(1000);
+  });
+
+  it('fills numeric blanks with zero', () => {
+    const result = applyColumnMapping(table, { ...mapping, blankHandling: 'fillZero' });
+
+    expect(result.dataset[2].Amount).toBe(0);
+    expect(result.mapping.fillValues).toBeUndefined();
+  });
+
+  it('drops rows with blanks', () => {
+    const result = applyColumnMapping(table, { ...mapping, blankHandling: 'dropRow' });
+
+    expect(result.droppedRows).toBe(2);
+    expect(result.rowIndexes).toEqual([0, 1]);
+  });
+});
+
+describe('getImportedRow', () => {
+  it('keys a row by column name', () => {
+    expect(getImportedRow(table, 1)).toEqual({
+      'Invoice No': 'INV-2',
+      Amount: '(50)',
+      Region: 'South',
+      Memo: 'b',
+      'Column 5': null,
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  buildAnomalyDataset,
+  getAnomalyDatasetPeerGroups,
+  getAnomalyRecordDetails,
+  toAnomalyTrainingDataset,
+} from '../utils/anomalyDataset';
+
+const acme = { ContactID: 'c1', Name: 'Acme' };
+
+const invoices: any[] = [
+  {
+    InvoiceID: 'inv-1',
+    InvoiceNumber: 'INV-001',
+    Type: 'ACCREC',
+    Status: 'AUTHORISED',
+    Date: '2025-08-04T00:00:00',
+    Total: 1100,
+    Contact: acme,
+    LineItems: [
+      { AccountCode: '260', TaxType: 'EXEMPTOUTPUT', LineAmount: -50 },
+      { AccountCode: '200', TaxType: 'OUTPUT', LineAmount: 1000 },
+    ],
+  },
+  {
+    InvoiceID: 'bill-1',
+    Reference: 'Stationery',
+    Type: 'ACCPAY',
+    Status: 'PAID',
+    Date: '2025-08-01T00:00:00',
+    Total: 220,
+    Contact: { ContactID: 'c2', Name: 'Officeworks' },
+    LineItems: [{ AccountCode: '429', TaxType: 'INPUT', LineAmount: 200 }],
+  },
+  {
+    InvoiceID: 'inv-2',
+    Type: 'ACCREC',
+    Status: 'PAID',
+    Date: '2025-08-07T00:00:00',
+    FullyPaidOnDate: '2025-08-14T00:00:00',
+    Total: 550,
+    Contact: acme,
+    LineItems: [{ AccountCode: '200', TaxType: 'OUTPUT', LineAmount: 500 }],
+  },
+  { InvoiceID: 'draft-1', Type: 'ACCREC', Status: 'DRAFT', Date: '2025-08-05T00:00:00', Total: 99 },
+];
+
+const bankTransactions: any[] = [
+  { BankTransactionID: 'bank-1', Status: 'AUTHORISED', Date: '2025-08-02T00:00:00', Total: -50, LineItems: [] },
+];
+
+const payments: any[] = [
+  { Invoice: { InvoiceID: 'bill-1' }, Date: '2025-08-11T00:00:00', Status: 'AUTHORISED' },
+  { Invoice: { InvoiceID: 'bill-1' }, Date: '2025-08-05T00:00:00', Status: 'AUTHORISED' },
+  { Invoice: { InvoiceID: 'bill-1' }, Date: '2025-08-20T00:00:00', Status: 'DELETED' },
+];
+
+const records = buildAnomalyDataset({ invoices, bankTransactions, payments, toDate: '2025-09-30' });
+
+describe('buildAnomalyDataset', () => {
+  it('leaves out drafts and sorts the records by date', () => {
+    expect(records.map((record) => [record.id, record.sourceType])).toEqual([
+      ['bill-1', 'bill'],
+      ['bank-1', 'bankTransaction'],
+      ['inv-1', 'invoice'],
+      ['inv-2', 'invoice'],
+    ]);
+  });
+
+  it('takes the account code and tax type of the largest line', () => {
+    expect(records[2].features).toMatchObject({ amount: 1100, dayOfWeek: 1, accountCode: '200', taxType: 'OUTPUT' });
+    expect(records[1].features).toMatchObject({ amount: 50, accountCode: 'NONE', taxType: 'NONE' });
+  });
+
+  it('measures days to pay to the payment date, or to the period end when unpaid', () => {
+    expect(records.map((record) => record.features.daysToPay)).toEqual([10, 0, 57, 7]);
+  });
+
+  it('counts the transactions with each contact', () => {
+    expect(records.map((record) => record.features.contactFrequency)).toEqual([1, 1, 2, 2]);
+  });
+});
+
+describe('toAnomalyTrainingDataset', () => {
+  it('sends the feature columns with the day of the week as a name', () => {
+    expect(toAnomalyTrainingDataset(records)[0]).toEqual({
+      amount: 220,
+      dayOfWeek: 'Fri',
+      contactFrequency: 1,
+      accountCode: '429',
+      taxType: 'INPUT',
+      daysToPay: 10,
+    });
+  });
+});
+
+describe('getAnomalyRecordDetails', () => {
+  it('describes the transaction behind a row', () => {
+    expect(getAnomalyRecordDetails(records[1])).toMatchObject({ Type: 'Bank Transaction', Reference: '-', Contact: '-', Day: 'Sat' });
+  });
+});
+
+describe('getAnomalyDatasetPeerGroups', () => {
+  it('groups by contact and by account, leaving out transactions without one', () => {
+    expect(getAnomalyDatasetPeerGroups(records)).toEqual([
+      { name: 'contact', keys: ['Officeworks', null, 'Acme', 'Acme'] },
+      { name: 'account', keys: ['429', null, '200', '200'] },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { scoreWithLocalModel, trainLocalAnomalyModel } from '../utils/anomalyEngine';
+
+const dataset = [
+  ...Array.from({ length: 40 }, (_, index) => ({ amount: 100 + (index % 10), region: index % 2 ? 'North' : 'South' })),
+  { amount: 5000, region: 'Remote' },
+];
+
+const train = (engine: 'isolationForest' | 'robustZScore', randomState = 7) =>
+  trainLocalAnomalyModel({ engine, dataset, name: 'Test', parameters: { contamination: 0.05, nEstimators: 25, randomState } });
+
+const getScores = (model: ReturnType<typeof train>) => scoreWithLocalModel(model, dataset).data!.results.map((result) => result.score);
+
+describe('trainLocalAnomalyModel', () => {
+  it('grows the same isolation forest for the same randomState', () => {
+    const first = train('isolationForest');
+    const second = train('isolationForest');
+
+    expect(second.trees).toEqual(first.trees);
+    expect(second.cutoff).toBe(first.cutoff);
+    expect(getScores(second)).toEqual(getScores(first));
+  });
+
+  it('grows a different isolation forest for another randomState', () => {
+    expect(train('isolationForest', 8).trees).not.toEqual(train('isolationForest').trees);
+  });
+
+  it('detects numeric and categorical fields', () => {
+    expect(train('robustZScore').features.map((feature) => [feature.name, feature.kind])).toEqual([
+      ['amount', 'numeric'],
+      ['region', 'categorical'],
+    ]);
+  });
+
+  it('encodes numeric codes as categories when they are listed as categorical', () => {
+    const codes = [...Array(20).fill({ amount: 100, accountCode: '200' }), { amount: 100, accountCode: '201' }];
+    const columnMapping = {
+      numericColumns: ['amount'],
+      categoricalColumns: ['accountCode'],
+      identifierColumn: null,
+      blankHandling: 'dropRow' as const,
+    };
+    const model = trainLocalAnomalyModel({ engine: 'robustZScore', dataset: codes, name: 'Codes', parameters: { columnMapping } });
+
+    expect(model.features[1]).toMatchObject({ name: 'accountCode', kind: 'categorical' });
+    expect(model.features[1].frequencies['200']).toBeCloseTo(20 / 21);
+    expect(
+      trainLocalAnomalyModel({ engine: 'robustZScore', dataset: codes, name: 'Codes', parameters: {}, categoricalFields: [] })
+        .features[1].kind
+    ).toBe('numeric');
+  });
+
+  it('rejects a dataset without rows or fields', () => {
+    expect(() => trainLocalAnomalyModel({ engine: 'robustZScore', dataset: [], name: 'Empty', parameters: {} })).toThrow(
+      'The dataset is empty'
+    );
+    expect(() => trainLocalAnomalyModel({ engine: 'robustZScore', dataset: [{}], name: 'Empty', parameters: {} })).toThrow(
+      'The dataset has no fields to train on'
+    );
+  });
+});
+
+describe('scoreWithLocalModel', () => {
+  it('gives the outlier the highest isolation forest score and flags it', () => {
+    const response = scoreWithLocalModel(train('isolationForest'), dataset);
+    const results = response.data!.results;
+    const highest = results.reduce((top, result) => (result.score > top.score ? result : top));
+
+    expect(highest.index).toBe(40);
+    expect(highest.isAnomaly).toBe(true);
+    expect(results.every((result) => result.score > 0 && result.score < 1)).toBe(true);
+  });
+
+  it('only flags rows beyond the robust z-score cut-off', () => {
+    const model = train('robustZScore');
+    const response = scoreWithLocalModel(model, dataset);
+
+    expect(model.cutoff).toBe(3.5);
+    expect(response.data!.anomaliesDetected).toBe(1);
+    expect(response.data!.results[40].isAnomaly).toBe(true);
+  });
+
+  it('scores unseen categories as rare and missing numbers at the training median', () => {
+    const response = scoreWithLocalModel(train('robustZScore'), [
+      { amount: 104, region: 'Overseas' },
+      { amount: null, region: 'North' },
+    ]);
+
+    expect(response.data!.results.map((result) => result.isAnomaly)).toEqual([true, false]);
+    expect(response.data!.summary.anomalyRate).toBe(0.5);
+  });
+});
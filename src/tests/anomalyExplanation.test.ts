@@ -0,0 +1,94 @@
+import { explainAnomalies, getFieldPeerGroups, toFieldLabel } from '../utils/anomalyExplanation';
+
+describe('toFieldLabel', () => {
+  it('turns field names into words', () => {
+    expect(toFieldLabel('dayOfWeek')).toBe('day of week');
+    expect(toFieldLabel('account_code')).toBe('account code');
+  });
+});
+
+describe('getFieldPeerGroups', () => {
+  it('groups by text fields whose values repeat', () => {
+    const data = [
+      { costCentre: 'North', memo: 'a', amount: 1 },
+      { costCentre: 'North', memo: 'b', amount: 1 },
+      { costCentre: 'South', memo: 'c', amount: 2 },
+      { costCentre: '', memo: 'd', amount: 3 },
+    ];
+
+    expect(getFieldPeerGroups(data)).toEqual([{ name: 'cost centre', keys: ['North', 'North', 'South', null] }]);
+  });
+
+  it('groups by the given fields even when their values are numbers', () => {
+    const data = [{ accountCode: 200 }, { accountCode: 200 }, { accountCode: 400 }];
+
+    expect(getFieldPeerGroups(data)).toEqual([]);
+    expect(getFieldPeerGroups(data, ['accountCode'])).toEqual([{ name: 'account code', keys: ['200', '200', '400'] }]);
+  });
+});
+
+describe('explainAnomalies', () => {
+  const data = [
+    ...Array.from({ length: 10 }, (_, index) => ({ amount: 100 + index, account: 'Sales' })),
+    ...Array.from({ length: 10 }, (_, index) => ({ amount: 1000 + index, account: 'Sales' })),
+    { amount: 1005, account: 'Suspense' },
+  ];
+  const contacts = [...Array(10).fill('Acme'), ...Array(10).fill('Beta'), 'Acme'];
+  const dataset = {
+    data,
+    originals: data.map((row, index) => ({ ...row, InvoiceID: `inv-${index}` })),
+    identifiers: data.map((_, index) => `INV-${index}`),
+    peerGroups: [{ name: 'contact', keys: contacts }],
+  };
+
+  const explanations = explainAnomalies(dataset, [
+    { index: 10, score: 0.6, isAnomaly: true },
+    { index: 20, score: 0.9, isAnomaly: true },
+    { index: 0, score: 0.1, isAnomaly: false },
+  ]);
+
+  it('explains the anomalies only, highest score first', () => {
+    expect(explanations.map((explanation) => [explanation.index, explanation.identifier])).toEqual([
+      [20, 'INV-20'],
+      [10, 'INV-10'],
+    ]);
+    expect(explanations[0].record.InvoiceID).toBe('inv-20');
+  });
+
+  it('compares a value with its peer group when it is typical overall', () => {
+    const [amount] = explanations[0].contributions;
+
+    expect(amount.field).toBe('amount');
+    expect(Math.abs(amount.deviation)).toBeLessThan(2);
+    expect(amount.peer).toMatchObject({ group: 'contact', key: 'Acme', size: 10, typical: 104.5 });
+    expect(amount.peer!.deviation).toBeGreaterThan(100);
+  });
+
+  it('scores rare categories on the robust z-score scale', () => {
+    const account = explanations[0].contributions.find((contribution) => contribution.field === 'account')!;
+
+    expect(account.frequency).toBeCloseTo(1 / 21);
+    expect(account.deviation).toBeGreaterThan(3.5);
+  });
+
+  it('describes the most unusual fields', () => {
+    expect(explanations[0].reason).toBe(
+      'Flagged because amount 1,005 is far above the typical 104.5 for contact "Acme"; account "Suspense" appears in only 4.8% of rows.'
+    );
+  });
+
+  it('says when no single field stands out', () => {
+    expect(explanations[1].reason).toBe('No single field stands out; it is the combination of values that is unusual.');
+  });
+
+  it('treats numeric codes of the categorical fields as categories', () => {
+    const codes = [...Array(20).fill({ amount: 100, accountCode: 200 }), { amount: 100, accountCode: 999 }];
+    const [explanation] = explainAnomalies(
+      { data: codes, originals: codes, identifiers: null, peerGroups: [], categoricalFields: ['accountCode'] },
+      [{ index: 20, score: 0.9, isAnomaly: true }]
+    );
+
+    expect(explanation.contributions[0]).toMatchObject({ field: 'accountCode', kind: 'categorical', value: '999' });
+    expect(explanation.reason).toBe('Flagged because account code "999" appears in only 4.8% of rows.');
+  });
+});
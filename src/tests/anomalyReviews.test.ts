@@ -0,0 +1,94 @@
+import { AnomalyReview } from '../api/anomalyDetectionService';
+import {
+  applyReviewFeedback,
+  getAnomalyRowFingerprint,
+  getAnomalyRowKeys,
+  getLatestReviews,
+  getReviewMetrics,
+} from '../utils/anomalyReviews';
+
+const review = (overrides: Partial<AnomalyReview>): AnomalyReview => ({
+  rowKey: 'id:a',
+  datasetName: 'Sales',
+  row: {},
+  modelId: 'model-1',
+  score: 0.8,
+  status: 'confirmed',
+  note: '',
+  reviewedAt: '2025-10-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('getAnomalyRowFingerprint', () => {
+  it('ignores the order of the fields', () => {
+    expect(getAnomalyRowFingerprint({ amount: 10, region: 'North' })).toBe(getAnomalyRowFingerprint({ region: 'North', amount: 10 }));
+    expect(getAnomalyRowFingerprint({ amount: 10 })).not.toBe(getAnomalyRowFingerprint({ amount: 11 }));
+  });
+});
+
+describe('getAnomalyRowKeys', () => {
+  const data = [{ amount: 1 }, { amount: 2 }];
+
+  it('uses the identifiers when every row has a different one', () => {
+    expect(getAnomalyRowKeys(data, ['INV-1', 'INV-2'])).toEqual(['id:INV-1', 'id:INV-2']);
+  });
+
+  it('falls back to fingerprints for missing or repeated identifiers', () => {
+    const fingerprints = data.map(getAnomalyRowFingerprint);
+
+    expect(getAnomalyRowKeys(data, ['INV-1', 'INV-1'])).toEqual(fingerprints);
+    expect(getAnomalyRowKeys(data, ['INV-1', null])).toEqual(fingerprints);
+    expect(getAnomalyRowKeys(data)).toEqual(fingerprints);
+  });
+});
+
+describe('getLatestReviews', () => {
+  const reviews = [
+    review({ status: 'followUp', reviewedAt: '2025-10-02T00:00:00Z' }),
+    review({ status: 'confirmed' }),
+    review({ rowKey: 'id:b', modelId: 'model-2', status: 'falsePositive' }),
+  ];
+
+  it('keeps the latest review of each row', () => {
+    expect(getLatestReviews(reviews).get('id:a')?.status).toBe('followUp');
+  });
+
+  it('filters by model', () => {
+    expect(Array.from(getLatestReviews(reviews, 'model-2').keys())).toEqual(['id:b']);
+  });
+});
+
+describe('getReviewMetrics', () => {
+  it('works out precision from confirmed issues and false positives, leaving out follow-ups', () => {
+    expect(
+      getReviewMetrics([
+        review({ rowKey: 'id:a', status: 'confirmed' }),
+        review({ rowKey: 'id:b', status: 'confirmed' }),
+        review({ rowKey: 'id:c', status: 'confirmed' }),
+        review({ rowKey: 'id:d', status: 'falsePositive' }),
+        review({ rowKey: 'id:e', status: 'followUp' }),
+      ])
+    ).toEqual({ precision: 0.75, reviewedCount: 4 });
+  });
+
+  it('leaves precision out until a flag is reviewed', () => {
+    expect(getReviewMetrics([review({ status: 'followUp' })])).toEqual({ reviewedCount: 0 });
+  });
+});
+
+describe('applyReviewFeedback', () => {
+  const dataset = ['a', 'b', 'c'];
+  const rowKeys = ['id:a', 'id:b', 'id:c'];
+  const reviews = [review({ rowKey: 'id:b', status: 'falsePositive' }), review({ rowKey: 'id:c', status: 'confirmed' })];
+
+  it('leaves false positives out', () => {
+    expect(applyReviewFeedback({ dataset, rowKeys, reviews, handling: 'exclude' })).toEqual({
+      dataset: ['a', 'c'],
+      falsePositiveRows: 1,
+    });
+  });
+
+  it('repeats false positives so they are learnt as normal', () => {
+    expect(applyReviewFeedback({ dataset, rowKeys, reviews, handling: 'weight', weight: 2 }).dataset).toEqual(['a', 'b', 'b', 'c']);
+  });
+});
@@ -0,0 +1,42 @@
+import {
+  DEFAULT_ANOMALY_SCAN_SCHEDULE,
+  describeAnomalyScanAlert,
+  describeAnomalyScanSchedule,
+  getAnomalyScanRunPath,
+  getBrowserTimeZone,
+} from '../utils/anomalyScans';
+
+describe('getBrowserTimeZone', () => {
+  it('gives new schedules the time zone of the browser', () => {
+    expect(getBrowserTimeZone()).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    expect(DEFAULT_ANOMALY_SCAN_SCHEDULE.timeZone).toBe(getBrowserTimeZone());
+  });
+});
+
+describe('getAnomalyScanRunPath', () => {
+  it('links to the scan on the Anomaly Detection page', () => {
+    expect(getAnomalyScanRunPath(42)).toBe('/anomaly-detection?scan=42');
+  });
+});
+
+describe('describeAnomalyScanSchedule', () => {
+  const schedule = { frequency: 'weekly' as const, dayOfWeek: 1, runAt: '06:00', timeZone: 'Australia/Perth' };
+
+  it('describes weekly and daily schedules with their time zone', () => {
+    expect(describeAnomalyScanSchedule(schedule)).toBe('Weekly on Mon at 06:00 (Australia/Perth)');
+    expect(describeAnomalyScanSchedule({ ...schedule, frequency: 'daily' })).toBe('Daily at 06:00 (Australia/Perth)');
+  });
+
+  it('falls back to Monday for an unknown day', () => {
+    expect(describeAnomalyScanSchedule({ ...schedule, dayOfWeek: 9 })).toBe('Weekly on Mon at 06:00 (Australia/Perth)');
+  });
+});
+
+describe('describeAnomalyScanAlert', () => {
+  it('describes the alert thresholds', () => {
+    expect(describeAnomalyScanAlert({ alertMinAnomalies: 1, alertMinScore: null })).toBe('at least 1 flagged transaction');
+    expect(describeAnomalyScanAlert({ alertMinAnomalies: 3, alertMinScore: 0.8 })).toBe(
+      'at least 3 flagged transactions or a score of 0.8 or more'
+    );
+  });
+});
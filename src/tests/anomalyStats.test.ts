@@ -0,0 +1,25 @@
+import { getMedian, getRobustStats, isMissing, MAD_TO_SD, MEAN_AD_TO_SD } from '../utils/anomalyStats';
+
+describe('isMissing', () => {
+  it('treats null, undefined and whitespace as missing', () => {
+    expect([null, undefined, '', '  ', 0, 'x'].map(isMissing)).toEqual([true, true, true, true, false, false]);
+  });
+});
+
+describe('getMedian', () => {
+  it('returns the middle value, or the mean of the two middle values', () => {
+    expect(getMedian([5, 1, 3])).toBe(3);
+    expect(getMedian([4, 1, 3, 2])).toBe(2.5);
+    expect(getMedian([])).toBe(0);
+  });
+});
+
+describe('getRobustStats', () => {
+  it('scales the MAD to a standard deviation', () => {
+    expect(getRobustStats([1, 2, 3, 4, 100])).toEqual({ median: 3, scale: 1 * MAD_TO_SD });
+  });
+
+  it('falls back to the mean absolute deviation when most values equal the median', () => {
+    expect(getRobustStats([10, 10, 10, 10, 20])).toEqual({ median: 10, scale: 2 * MEAN_AD_TO_SD });
+  });
+});
@@ -0,0 +1,118 @@
+import { BASAdjustment } from '../api/basRecordService';
+import { applyBASAdjustments, getAdjustmentGst } from '../utils/basAdjustments';
+import { buildBASReportPdfPayload } from '../utils/basCalculation';
+
+const adjustment = (overrides: Partial<BASAdjustment>): BASAdjustment => ({
+  id: '1',
+  kind: 'Override',
+  label: '',
+  amount: 0,
+  reason: 'Test',
+  createdBy: 'preparer@example.com',
+  createdAt: '2025-10-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('getAdjustmentGst', () => {
+  it('takes one eleventh of a GST-inclusive amount', () => {
+    expect(getAdjustmentGst(1100)).toBe(100);
+  });
+});
+
+describe('applyBASAdjustments', () => {
+  const fields = { G1: 11000, '1A': 1000, '1B': 300, W2: 900, W3: 0, W4: 0, W5: 900 };
+
+  it('adds the GST of G7 and G18 adjustments to 1A and 1B', () => {
+    const result = applyBASAdjustments(fields, [
+      adjustment({ kind: 'G7', amount: 550 }),
+      adjustment({ kind: 'G7', amount: 550 }),
+      adjustment({ kind: 'G18', amount: 220 }),
+    ]);
+
+    expect(result.fields.G7).toBe(1100);
+    expect(result.fields['1A']).toBe(1100);
+    expect(result.fields.G18).toBe(220);
+    expect(result.fields['1B']).toBe(320);
+  });
+
+  it('keeps the G7 GST on top of an overridden 1A', () => {
+    const result = applyBASAdjustments(fields, [
+      adjustment({ label: '1A', amount: 90 }),
+      adjustment({ kind: 'G7', amount: 110 }),
+    ]);
+
+    expect(result.fields['1A']).toBe(100);
+  });
+
+  it('applies the latest override of a label', () => {
+    const result = applyBASAdjustments(fields, [
+      adjustment({ label: 'G1', amount: 12000, createdAt: '2025-10-02T00:00:00Z' }),
+      adjustment({ label: 'G1', amount: 11500, createdAt: '2025-10-01T00:00:00Z' }),
+    ]);
+
+    expect(result.fields.G1).toBe(12000);
+    expect(result.changes).toEqual([{ label: 'G1', calculated: 11000, adjusted: 12000 }]);
+  });
+
+  it('recalculates W5 after W2, W3 or W4 are overridden', () => {
+    const result = applyBASAdjustments(fields, [
+      adjustment({ label: 'W2', amount: 300 }),
+      adjustment({ label: 'W4', amount: 47 }),
+    ]);
+
+    expect(result.fields.W5).toBe(347);
+  });
+
+  it('recalculates T11 and 5A after T1 is overridden', () => {
+    const result = applyBASAdjustments({ T1: 10000, T2: 5, T11: 500, '5A': 500 }, [
+      adjustment({ label: 'T1', amount: 20000 }),
+    ]);
+
+    expect(result.fields.T11).toBe(1000);
+    expect(result.fields['5A']).toBe(1000);
+  });
+
+  it('recalculates 5A from a varied instalment amount', () => {
+    const result = applyBASAdjustments({ T7: 1800, '5A': 1800 }, [adjustment({ label: 'T9', amount: 1200 })]);
+
+    expect(result.fields['5A']).toBe(1200);
+  });
+
+  it('does not apply an override of a derived label and warns about it', () => {
+    const result = applyBASAdjustments(fields, [adjustment({ label: 'W5', amount: 5000 })]);
+
+    expect(result.fields.W5).toBe(900);
+    expect(result.changes).toEqual([]);
+    expect(result.warnings).toHaveLength(1);
+  });
+});
+
+describe('buildBASReportPdfPayload', () => {
+  it('takes the summary totals from the adjusted figures', () => {
+    const result: any = {
+      gstBasis: 'Accrual',
+      totalSales: 11000,
+      gstOnSales: 1000,
+      gstOnPurchases: 300,
+      netGST: 700,
+      payrollWithholding: { W1: 0, W5: 0, payRuns: [] },
+      paygInstalment: { method: 'None', '5A': 0, '5B': 0 },
+      otherTaxes: { values: {}, fuelTaxCredits: { lines: [] } },
+    };
+    const reportedFields = { G1: 12100, G10: 0, G11: 3300, '1A': 1100, '1B': 300, W1: 0, W5: 0, '5A': 0, '5B': 0 };
+
+    const payload = buildBASReportPdfPayload({
+      result,
+      reportedFields,
+      adjustments: [],
+      adjustmentLog: [],
+      rawXeroData: null,
+      period: { fromDate: '2025-07-01', toDate: '2025-09-30' },
+      companyName: 'Acme Pty Ltd',
+      organisationName: 'Acme',
+    });
+
+    expect(payload.basData.BAS_Fields).toBe(reportedFields);
+    expect(payload.summary).toMatchObject({ totalSales: 12100, totalPurchases: 3300, totalGST: 1100, netGST: 800 });
+  });
+});
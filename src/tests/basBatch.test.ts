@@ -0,0 +1,103 @@
+import { findBasPeriodDueIn, getBASBatchCandidates, getBASBatchWarnings, runThrottledQueue } from '../utils/basBatch';
+
+describe('findBasPeriodDueIn', () => {
+  it('finds the quarter due in a month', () => {
+    expect(findBasPeriodDueIn('2025-10', { frequency: 'Quarterly' })?.period.key).toBe('2025-07-01_2025-09-30');
+    expect(findBasPeriodDueIn('2026-02', { frequency: 'Quarterly' })?.period.key).toBe('2025-10-01_2025-12-31');
+  });
+
+  it('finds the June quarter of the previous financial year', () => {
+    expect(findBasPeriodDueIn('2025-07', { frequency: 'Quarterly' })?.period.key).toBe('2025-04-01_2025-06-30');
+  });
+
+  it('returns null for a month without a quarterly BAS due', () => {
+    expect(findBasPeriodDueIn('2025-09', { frequency: 'Quarterly' })).toBeNull();
+  });
+});
+
+describe('getBASBatchCandidates', () => {
+  const connected = (id: number, tenantId = `tenant-${id}`) => ({ id, xeroSettings: { isConnected: true, tenantId } });
+
+  it('lists active companies with a connected Xero organisation and a BAS due, by name', () => {
+    const candidates = getBASBatchCandidates({
+      companies: [
+        { id: 1, companyName: 'Zeta Pty Ltd', basFrequency: 'Quarterly' },
+        { id: 2, companyName: 'Alpha Pty Ltd', basFrequency: 'Quarterly' },
+        { id: 3, companyName: 'Monthly Pty Ltd', basFrequency: 'Monthly' },
+        { id: 4, companyName: 'Inactive Pty Ltd', basFrequency: 'Quarterly', isActive: false },
+        { id: 5, companyName: 'Disconnected Pty Ltd', basFrequency: 'Quarterly' },
+      ] as any[],
+      statuses: [connected(1), connected(2), connected(3), connected(4)] as any[],
+      month: '2025-10',
+    });
+
+    expect(candidates.map((candidate) => [candidate.companyName, candidate.period.key, candidate.dueDate])).toEqual([
+      ['Alpha Pty Ltd', '2025-07-01_2025-09-30', '2025-10-28'],
+      ['Monthly Pty Ltd', '2025-09-01_2025-09-30', '2025-10-21'],
+      ['Zeta Pty Ltd', '2025-07-01_2025-09-30', '2025-10-28'],
+    ]);
+  });
+});
+
+describe('getBASBatchWarnings', () => {
+  it('lists what the reviewer should check', () => {
+    const warnings = getBASBatchWarnings(
+      {
+        gstCodingExceptions: [{ severity: 'error' }, { severity: 'warning' }],
+        reconciliation: { hasGstReport: true, lines: [{ label: 'G1', variance: 0.5 }, { label: '1A', variance: 12 }] },
+        unmatchedPayments: { count: 0, amount: 0 },
+        unmappedAccountCodes: ['999'],
+        payrollWithholding: { draftPayRunCount: 1 },
+      } as any,
+      true
+    );
+
+    expect(warnings).toEqual([
+      '2 line(s) may be miscoded (1 error(s))',
+      'GST report differs from transactions on 1A',
+      'Account code(s) missing from the chart of accounts: 999',
+      '1 draft pay run(s) left out of W1/W2',
+      'Pay runs could not be loaded; W1/W2 reported as nil',
+    ]);
+  });
+});
+
+describe('runThrottledQueue', () => {
+  it('runs every item with at most the given number in flight and keeps going after a failure', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const done: number[] = [];
+    const failed: number[] = [];
+
+    await runThrottledQueue(
+      [1, 2, 3, 4, 5],
+      async (item) => {
+        running += 1;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running -= 1;
+        if (item === 3) throw new Error('Xero rate limit');
+        done.push(item);
+      },
+      { concurrency: 2, intervalMs: 0, onError: (item) => failed.push(item) }
+    );
+
+    expect(maxRunning).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 4, 5]);
+    expect(failed).toEqual([3]);
+  });
+
+  it('skips the queued items once stopped', async () => {
+    const started: number[] = [];
+
+    await runThrottledQueue(
+      [1, 2, 3],
+      async (item) => {
+        started.push(item);
+      },
+      { concurrency: 1, intervalMs: 0, shouldStop: () => started.length >= 2 }
+    );
+
+    expect(started).toEqual([1, 2]);
+  });
+});
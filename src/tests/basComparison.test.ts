@@ -0,0 +1,133 @@
+import { compareBASFigures, getComparisonChange, toComparisonFigures } from '../utils/basComparison';
+import { calculateBASGst } from '../utils/basGstCalculation';
+
+describe('toComparisonFigures', () => {
+  it('reads G1, 1A and 1B and works out net GST', () => {
+    expect(toComparisonFigures({ G1: 11000, '1A': 1000, '1B': 400.5 })).toEqual({
+      G1: 11000,
+      '1A': 1000,
+      '1B': 400.5,
+      netGST: 599.5,
+    });
+  });
+});
+
+describe('getComparisonChange', () => {
+  it('flags a swing above both the percentage and the amount threshold', () => {
+    const change = getComparisonChange('G1', 20000, 10000);
+
+    expect(change.delta).toBe(10000);
+    expect(change.percentChange).toBe(100);
+    expect(change.unusual).toBe(true);
+  });
+
+  it('does not flag a large percentage on a small amount', () => {
+    expect(getComparisonChange('1B', 200, 100).unusual).toBe(false);
+  });
+
+  it('flags net GST turning into a refund', () => {
+    const change = getComparisonChange('netGST', -600, 500, { percent: 1000, amount: 1000 });
+
+    expect(change.unusual).toBe(true);
+  });
+
+  it('has no percentage change against zero', () => {
+    expect(getComparisonChange('G1', 5000, 0).percentChange).toBeNull();
+  });
+});
+
+describe('compareBASFigures', () => {
+  it('builds a row per label and leaves out missing comparisons', () => {
+    const current = { G1: 11000, '1A': 1000, '1B': 500, netGST: 500 };
+    const rows = compareBASFigures(current, { ...current, G1: 10000 }, null);
+
+    expect(rows.map((row) => row.label)).toEqual(['G1', '1A', '1B', 'netGST']);
+    expect(rows[0].previousPeriod?.delta).toBe(1000);
+    expect(rows[0].lastYear).toBeNull();
+  });
+});
+
+describe('calculateBASGst', () => {
+  const gstReport = {
+    Reports: [
+      {
+        Rows: [
+          { Cells: [{ Value: 'Total Sales' }, { Value: '22000.00' }] },
+          { Cells: [{ Value: 'GST on Sales' }, { Value: '2000.00' }] },
+          { Cells: [{ Value: 'Total Purchases' }, { Value: '3300.00' }] },
+          { Cells: [{ Value: 'GST on Purchases' }, { Value: '300.00' }] },
+        ],
+      },
+    ],
+  };
+  const invoices: any[] = [
+    {
+      InvoiceID: 'inv-1',
+      Type: 'ACCREC',
+      Status: 'AUTHORISED',
+      Date: '2025-08-01',
+      LineAmountTypes: 'Exclusive',
+      Total: 1600,
+      TotalTax: 100,
+      LineItems: [
+        { TaxType: 'OUTPUT', LineAmount: 1000, TaxAmount: 100 },
+        { TaxType: 'EXPORT', LineAmount: 500, TaxAmount: 0 },
+      ],
+    },
+  ];
+  const period = { fromDate: '2025-07-01', toDate: '2025-09-30' };
+
+  it('uses the GST report on accrual basis and G2 from the export lines', () => {
+    const result = calculateBASGst({
+      basis: 'Accrual',
+      gstReport,
+      profitLoss: null,
+      invoices,
+      payments: [],
+      bankTransactions: [],
+      ...period,
+    });
+
+    expect(result.totalSales).toBe(22000);
+    expect(result.exportSales).toBe(500);
+    expect(result.gstOnSales).toBe(2000);
+    expect(result.gstOnPurchases).toBe(300);
+    expect(result.netGST).toBe(1700);
+  });
+
+  it('attributes from payments on cash basis even with a GST report', () => {
+    const result = calculateBASGst({
+      basis: 'Cash',
+      gstReport,
+      profitLoss: null,
+      invoices,
+      payments: [{ Date: '2025-08-10', Amount: 1600, Invoice: { InvoiceID: 'inv-1' } }] as any[],
+      bankTransactions: [],
+      ...period,
+    });
+
+    expect(result.totalSales).toBe(1600);
+    expect(result.gstOnSales).toBe(100);
+  });
+
+  it('falls back to the P&L revenue when no sales are found', () => {
+    const profitLoss = {
+      Reports: [
+        {
+          Rows: [{ RowType: 'Section', Title: 'Revenue', Rows: [{ Cells: [{ Value: 'Sales' }, { Value: '7500' }] }] }],
+        },
+      ],
+    };
+    const result = calculateBASGst({
+      basis: 'Accrual',
+      gstReport: null,
+      profitLoss,
+      invoices: [],
+      payments: [],
+      bankTransactions: [],
+      ...period,
+    });
+
+    expect(result.totalSales).toBe(7500);
+  });
+});
@@ -0,0 +1,123 @@
+import { attributeGst, getMissingPaymentInvoiceIds, getPaymentFractions } from '../utils/basGstAttribution';
+
+const invoice = (overrides: any = {}): any => ({
+  InvoiceID: 'inv-1',
+  Type: 'ACCREC',
+  Status: 'AUTHORISED',
+  Date: '2025-08-01',
+  LineAmountTypes: 'Exclusive',
+  Total: 1100,
+  TotalTax: 100,
+  LineItems: [{ TaxType: 'OUTPUT', LineAmount: 1000, TaxAmount: 100 }],
+  ...overrides,
+});
+
+const exportInvoice = invoice({
+  InvoiceID: 'inv-export',
+  Total: 500,
+  TotalTax: 0,
+  LineItems: [{ TaxType: 'EXPORT', LineAmount: 500, TaxAmount: 0 }],
+});
+
+const bill = invoice({ InvoiceID: 'bill-1', Type: 'ACCPAY', Total: 330, TotalTax: 30 });
+
+const period = { fromDate: '2025-07-01', toDate: '2025-09-30' };
+
+describe('attributeGst', () => {
+  it('reports G1, G2, 1A and 1B from invoices dated in the period on accrual basis', () => {
+    const totals = attributeGst({
+      basis: 'Accrual',
+      invoices: [invoice(), exportInvoice, bill, invoice({ InvoiceID: 'inv-old', Date: '2025-06-30' })],
+      payments: [],
+      bankTransactions: [],
+      ...period,
+    });
+
+    expect(totals.totalSales).toBe(1600);
+    expect(totals.exportSales).toBe(500);
+    expect(totals.gstOnSales).toBe(100);
+    expect(totals.totalPurchases).toBe(330);
+    expect(totals.gstOnPurchases).toBe(30);
+  });
+
+  it('leaves out draft invoices', () => {
+    const totals = attributeGst({
+      basis: 'Accrual',
+      invoices: [invoice({ Status: 'DRAFT' })],
+      payments: [],
+      bankTransactions: [],
+      ...period,
+    });
+
+    expect(totals.totalSales).toBe(0);
+  });
+
+  it('attributes invoices by the share paid in the period on cash basis', () => {
+    const totals = attributeGst({
+      basis: 'Cash',
+      invoices: [invoice({ Date: '2025-06-15' }), exportInvoice, bill],
+      payments: [
+        { PaymentID: 'p1', Date: '2025-07-10', Amount: 550, Invoice: { InvoiceID: 'inv-1' } },
+        { PaymentID: 'p2', Date: '2025-08-10', Amount: 500, Invoice: { InvoiceID: 'inv-export' } },
+        { PaymentID: 'p3', Date: '2025-10-02', Amount: 330, Invoice: { InvoiceID: 'bill-1' } },
+      ] as any[],
+      bankTransactions: [],
+      ...period,
+    });
+
+    expect(totals.totalSales).toBe(1050);
+    expect(totals.exportSales).toBe(500);
+    expect(totals.gstOnSales).toBe(50);
+    expect(totals.totalPurchases).toBe(0);
+    expect(totals.paymentFractions.get('inv-1')).toBe(0.5);
+  });
+
+  it('counts spend and receive money by date on both bases', () => {
+    const bankTransactions: any[] = [
+      { BankTransactionType: 'RECEIVE', Status: 'AUTHORISED', Date: '2025-07-20', Total: 220, TotalTax: 20 },
+      { BankTransactionType: 'SPEND', Status: 'AUTHORISED', Date: '2025-07-21', Total: 110, TotalTax: 10 },
+      { BankTransactionType: 'SPEND', Status: 'VOIDED', Date: '2025-07-22', Total: 999, TotalTax: 90 },
+    ];
+
+    (['Accrual', 'Cash'] as const).forEach((basis) => {
+      const totals = attributeGst({ basis, invoices: [], payments: [], bankTransactions, ...period });
+      expect(totals.gstOnSales).toBe(20);
+      expect(totals.gstOnPurchases).toBe(10);
+    });
+  });
+});
+
+describe('getPaymentFractions', () => {
+  it('adds partial payments together, caps them at the invoice total and lists unmatched payments', () => {
+    const { fractions, unmatched } = getPaymentFractions(
+      [
+        { PaymentID: 'p1', Date: '2025-07-10', Amount: 600, Invoice: { InvoiceID: 'inv-1' } },
+        { PaymentID: 'p2', Date: '2025-07-20', Amount: 600, Invoice: { InvoiceID: 'inv-1' } },
+        { PaymentID: 'p3', Date: '2025-07-20', Amount: 50, Invoice: { InvoiceID: 'unknown' } },
+      ] as any[],
+      [invoice()],
+      period.fromDate,
+      period.toDate
+    );
+
+    expect(fractions.get('inv-1')).toBe(1);
+    expect(unmatched.map((payment) => payment.PaymentID)).toEqual(['p3']);
+  });
+});
+
+describe('getMissingPaymentInvoiceIds', () => {
+  it('lists the invoices paid in the period that were not loaded', () => {
+    const ids = getMissingPaymentInvoiceIds(
+      [
+        { Date: '2025-07-10', Invoice: { InvoiceID: 'inv-1' } },
+        { Date: '2025-07-11', Invoice: { InvoiceID: 'inv-earlier' } },
+        { Date: '2025-10-01', Invoice: { InvoiceID: 'inv-later' } },
+      ] as any[],
+      [invoice()],
+      period.fromDate,
+      period.toDate
+    );
+
+    expect(ids).toEqual(['inv-earlier']);
+  });
+});
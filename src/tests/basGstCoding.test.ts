@@ -0,0 +1,92 @@
+import { getXeroTransactionUrl, isNonTaxableExpenseAccount, validateGstCoding } from '../utils/basGstCoding';
+
+const accounts: any[] = [
+  { Code: '200', Name: 'Sales', Type: 'REVENUE', TaxType: 'OUTPUT' },
+  { Code: '404', Name: 'Bank Fees', Type: 'EXPENSE', TaxType: 'INPUTTAXED' },
+  { Code: '477', Name: 'Wages and Salaries', Type: 'WAGESEXPENSE', TaxType: 'BASEXCLUDED' },
+  { Code: '429', Name: 'General Expenses', Type: 'EXPENSE', TaxType: 'INPUT' },
+];
+
+const bill = (id: string, lines: any[], overrides: any = {}): any => ({
+  InvoiceID: id,
+  Type: 'ACCPAY',
+  Status: 'AUTHORISED',
+  Date: '2025-08-01',
+  LineAmountTypes: 'Exclusive',
+  Contact: { ContactID: 'supplier-1', Name: 'Supplier' },
+  LineItems: lines,
+  ...overrides,
+});
+
+const validate = (invoices: any[]) => validateGstCoding({ invoices, bankTransactions: [], accounts });
+
+describe('isNonTaxableExpenseAccount', () => {
+  it('recognises wages and bank fees accounts', () => {
+    expect(isNonTaxableExpenseAccount(accounts[1])).toBe(true);
+    expect(isNonTaxableExpenseAccount(accounts[2])).toBe(true);
+    expect(isNonTaxableExpenseAccount(accounts[3])).toBe(false);
+  });
+});
+
+describe('validateGstCoding', () => {
+  it('reports GST on wages as an error', () => {
+    const [exception] = validate([bill('b1', [{ AccountCode: '477', TaxType: 'INPUT', LineAmount: 100, TaxAmount: 10 }])]);
+
+    expect(exception.rule).toBe('gstOnNonTaxableExpense');
+    expect(exception.severity).toBe('error');
+    expect(exception.expectedTaxType).toBe('BASEXCLUDED');
+  });
+
+  it('reports GST on bank fees as a warning', () => {
+    const [exception] = validate([bill('b1', [{ AccountCode: '404', TaxType: 'INPUT', LineAmount: 100, TaxAmount: 10 }])]);
+
+    expect(exception.rule).toBe('gstOnNonTaxableExpense');
+    expect(exception.severity).toBe('warning');
+  });
+
+  it('reports GST-free sales on a taxable account', () => {
+    const [exception] = validate([
+      bill('i1', [{ AccountCode: '200', TaxType: 'EXEMPTOUTPUT', LineAmount: 100, TaxAmount: 0 }], { Type: 'ACCREC' }),
+    ]);
+
+    expect(exception.rule).toBe('gstFreeOnTaxableAccount');
+    expect(exception.expectedTaxType).toBe('OUTPUT');
+  });
+
+  it('reports the odd one out of the purchases from a supplier', () => {
+    const line = (taxType: string) => [{ AccountCode: '429', TaxType: taxType, LineAmount: 100, TaxAmount: 0 }];
+    const exceptions = validate([bill('b1', line('INPUT')), bill('b2', line('INPUT')), bill('b3', line('EXEMPTEXPENSES'))]);
+    const supplierExceptions = exceptions.filter((exception) => exception.rule === 'inconsistentSupplierTaxType');
+
+    expect(supplierExceptions.map((exception) => exception.transactionId)).toEqual(['b3']);
+    expect(supplierExceptions[0].expectedTaxType).toBe('INPUT');
+  });
+
+  it('does not report a single bill mixing tax types', () => {
+    const exceptions = validate([
+      bill('b1', [
+        { AccountCode: '429', TaxType: 'INPUT', LineAmount: 100, TaxAmount: 10 },
+        { AccountCode: '429', TaxType: 'EXEMPTEXPENSES', LineAmount: 50, TaxAmount: 0 },
+      ]),
+    ]);
+
+    expect(exceptions.filter((exception) => exception.rule === 'inconsistentSupplierTaxType')).toEqual([]);
+  });
+
+  it('lists errors before warnings', () => {
+    const exceptions = validate([
+      bill('b1', [{ AccountCode: '404', TaxType: 'INPUT', LineAmount: 100, TaxAmount: 10 }], { Date: '2025-07-01' }),
+      bill('b2', [{ AccountCode: '477', TaxType: 'INPUT', LineAmount: 100, TaxAmount: 10 }], { Date: '2025-09-01' }),
+    ]);
+
+    expect(exceptions.map((exception) => exception.severity)).toEqual(['error', 'warning']);
+  });
+});
+
+describe('getXeroTransactionUrl', () => {
+  it('links bills to the payables screen', () => {
+    expect(getXeroTransactionUrl({ source: 'bill', transactionId: 'abc' })).toBe(
+      'https://go.xero.com/AccountsPayable/View.aspx?InvoiceID=abc'
+    );
+  });
+});
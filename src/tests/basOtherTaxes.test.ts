@@ -0,0 +1,93 @@
+import {
+  calculateFuelTaxCredits,
+  calculateOtherTaxes,
+  DEFAULT_OTHER_TAX_SETTINGS,
+  getFuelTaxRatePeriods,
+  getFuelTaxRateWarning,
+  getOtherTaxesNetPayable,
+  summariseAccountAmounts,
+} from '../utils/basOtherTaxes';
+
+describe('getFuelTaxRatePeriods', () => {
+  it('lists the rate periods overlapping a BAS period', () => {
+    expect(getFuelTaxRatePeriods('2025-07-01', '2025-09-30').map((period) => period.id)).toEqual([
+      '2025-07-01',
+      '2025-08-04',
+    ]);
+  });
+});
+
+describe('getFuelTaxRateWarning', () => {
+  it('warns about periods the rate table does not cover', () => {
+    expect(getFuelTaxRateWarning('2024-04-01', '2024-06-30')).toMatch(/starts on/);
+    expect(getFuelTaxRateWarning('2026-01-01', '2026-03-31')).toMatch(/out of date/);
+    expect(getFuelTaxRateWarning('2025-07-01', '2025-09-30')).toBeNull();
+  });
+});
+
+describe('calculateFuelTaxCredits', () => {
+  it('applies the rate of the activity and rate period of each line', () => {
+    const result = calculateFuelTaxCredits([
+      { id: 'a', activity: 'heavyVehicleOnRoad', ratePeriodId: '2025-07-01', litres: 1000 },
+      { id: 'b', activity: 'offRoad', ratePeriodId: '2025-08-04', litres: 500 },
+      { id: 'c', activity: 'offRoad', ratePeriodId: 'unknown', litres: 500 },
+    ]);
+
+    expect(result.lines.map((line) => line.credit)).toEqual([192, 263, 0]);
+    expect(result.total).toBe(455);
+  });
+});
+
+describe('summariseAccountAmounts', () => {
+  it('totals GST-exclusive amounts by account for the period', () => {
+    const totals = summariseAccountAmounts({
+      invoices: [
+        {
+          Status: 'AUTHORISED',
+          Date: '2025-08-01',
+          LineAmountTypes: 'Inclusive',
+          LineItems: [{ AccountCode: '260', LineAmount: 1100, TaxAmount: 100 }],
+        },
+        { Status: 'DRAFT', Date: '2025-08-01', LineItems: [{ AccountCode: '260', LineAmount: 999 }] },
+      ] as any[],
+      bankTransactions: [
+        { Status: 'AUTHORISED', Date: '2025-08-02', LineAmountTypes: 'Exclusive', LineItems: [{ AccountCode: '260', LineAmount: 50 }] },
+      ] as any[],
+      fromDate: '2025-07-01',
+      toDate: '2025-09-30',
+    });
+
+    expect(totals).toEqual({ '260': 1050 });
+  });
+});
+
+describe('calculateOtherTaxes', () => {
+  const settings = {
+    ...DEFAULT_OTHER_TAX_SETTINGS,
+    fuelTaxCredits: true,
+    wineEqualisationTax: true,
+    accountMappings: { '1C': ['260'], '7D': ['480'] },
+  };
+
+  it('reports mapped account totals and leaves labels that do not apply null', () => {
+    const result = calculateOtherTaxes({ '260': -2900, '480': 300 }, settings, []);
+
+    expect(result.values).toEqual({ '7D': 300, '1C': 2900, '1D': 0, '1E': null, '1F': null });
+    expect(result.fuelTaxCreditSource).toBe('accounts');
+  });
+
+  it('takes 7D from the calculator when litres were entered', () => {
+    const result = calculateOtherTaxes({ '480': 300 }, settings, [
+      { id: 'a', activity: 'heavyVehicleOnRoad', ratePeriodId: '2025-07-01', litres: 1000 },
+    ]);
+
+    expect(result.values['7D']).toBe(192);
+    expect(result.fuelTaxCreditSource).toBe('calculator');
+  });
+});
+
+describe('getOtherTaxesNetPayable', () => {
+  it('adds 1C and 1E and takes off 1D, 1F and 7D', () => {
+    expect(getOtherTaxesNetPayable({ '7D': 192, '1C': 2900, '1D': 100, '1E': 500, '1F': null })).toBe(3108);
+  });
+});
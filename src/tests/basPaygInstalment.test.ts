@@ -0,0 +1,99 @@
+import {
+  calculatePaygInstalment,
+  DEFAULT_PAYG_INSTALMENT_INPUTS,
+  getInstalmentIncomeFromProfitLoss,
+} from '../utils/basPaygInstalment';
+
+describe('getInstalmentIncomeFromProfitLoss', () => {
+  it('sums the account rows of the income sections for the selected period', () => {
+    const profitLoss = {
+      Reports: [
+        {
+          Rows: [
+            { RowType: 'Header', Cells: [{ Value: '' }, { Value: 'Sep 2025' }] },
+            {
+              RowType: 'Section',
+              Title: 'Trading Income',
+              Rows: [
+                { RowType: 'Row', Cells: [{ Value: 'Sales' }, { Value: '20000.00' }, { Value: '15000.00' }] },
+                { RowType: 'SummaryRow', Cells: [{ Value: 'Total Trading Income' }, { Value: '20000.00' }] },
+              ],
+            },
+            {
+              RowType: 'Section',
+              Title: 'Other Income',
+              Rows: [{ RowType: 'Row', Cells: [{ Value: 'Interest Income' }, { Value: '150.50' }] }],
+            },
+            {
+              RowType: 'Section',
+              Title: 'Operating Expenses',
+              Rows: [{ RowType: 'Row', Cells: [{ Value: 'Rent' }, { Value: '4000.00' }] }],
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(getInstalmentIncomeFromProfitLoss(profitLoss)).toBe(20150.5);
+  });
+
+  it('returns 0 without a report', () => {
+    expect(getInstalmentIncomeFromProfitLoss(null)).toBe(0);
+  });
+});
+
+describe('calculatePaygInstalment', () => {
+  it('reports nothing when the company does not pay instalments', () => {
+    const result = calculatePaygInstalment(20000, DEFAULT_PAYG_INSTALMENT_INPUTS);
+
+    expect(result.T11).toBe(0);
+    expect(result['5A']).toBe(0);
+  });
+
+  it('applies the notified rate to T1 under the rate method', () => {
+    const result = calculatePaygInstalment(20000, { ...DEFAULT_PAYG_INSTALMENT_INPUTS, method: 'Rate', notifiedRate: 5 });
+
+    expect(result.T11).toBe(1000);
+    expect(result['5A']).toBe(1000);
+    expect(result['5B']).toBe(0);
+  });
+
+  it('uses the varied rate and allows a 5B credit once varied', () => {
+    const result = calculatePaygInstalment(20000, {
+      ...DEFAULT_PAYG_INSTALMENT_INPUTS,
+      method: 'Rate',
+      notifiedRate: 5,
+      variedRate: 3,
+      variationReasonCode: '22',
+      variationCredit: 250,
+    });
+
+    expect(result.T11).toBe(600);
+    expect(result['5A']).toBe(600);
+    expect(result['5B']).toBe(250);
+  });
+
+  it('ignores a 5B credit when the instalment was not varied', () => {
+    const result = calculatePaygInstalment(0, {
+      ...DEFAULT_PAYG_INSTALMENT_INPUTS,
+      method: 'Amount',
+      notifiedAmount: 1800,
+      variationCredit: 250,
+    });
+
+    expect(result['5A']).toBe(1800);
+    expect(result['5B']).toBe(0);
+  });
+
+  it('reports the varied amount at 5A under the amount method', () => {
+    const result = calculatePaygInstalment(0, {
+      ...DEFAULT_PAYG_INSTALMENT_INPUTS,
+      method: 'Amount',
+      notifiedAmount: 1800,
+      variedAmount: 1200,
+    });
+
+    expect(result.T9).toBe(1200);
+    expect(result['5A']).toBe(1200);
+  });
+});
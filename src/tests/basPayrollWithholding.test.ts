@@ -0,0 +1,60 @@
+import { summarisePayrollWithholding } from '../utils/basPayrollWithholding';
+
+const payRun = (overrides: any = {}): any => ({
+  PayRunID: 'run-1',
+  PayRunStatus: 'POSTED',
+  PayRunPeriodStartDate: '2025-07-01',
+  PayRunPeriodEndDate: '2025-07-14',
+  PaymentDate: '2025-07-16',
+  Payslips: [
+    { EmployeeID: 'emp-1', Wages: 3000, Tax: 600 },
+    { EmployeeID: 'emp-2', Wages: 2000.5, Tax: 350.25 },
+  ],
+  ...overrides,
+});
+
+describe('summarisePayrollWithholding', () => {
+  it('sums W1 and W2 from the payslips and adds W3 and W4 into W5', () => {
+    const result = summarisePayrollWithholding({
+      payRuns: [payRun()],
+      otherAmountsWithheld: 100,
+      noABNWithheld: 49.75,
+    });
+
+    expect(result.W1).toBe(5000.5);
+    expect(result.W2).toBe(950.25);
+    expect(result.W3).toBe(100);
+    expect(result.W4).toBe(49.75);
+    expect(result.W5).toBe(1100);
+    expect(result.payRuns[0].employeeCount).toBe(2);
+  });
+
+  it('prefers the pay run totals over the payslips', () => {
+    const result = summarisePayrollWithholding({ payRuns: [payRun({ Wages: 6000, Tax: 1200 })] });
+
+    expect(result.W1).toBe(6000);
+    expect(result.W2).toBe(1200);
+    expect(result.W5).toBe(1200);
+  });
+
+  it('reports pay runs by payment date rather than pay period', () => {
+    const result = summarisePayrollWithholding({
+      payRuns: [
+        payRun({ PayRunID: 'june', PayRunPeriodEndDate: '2025-06-30', PaymentDate: '2025-07-02' }),
+        payRun({ PayRunID: 'september', PaymentDate: '2025-10-01' }),
+      ],
+      fromDate: '2025-07-01',
+      toDate: '2025-09-30',
+    });
+
+    expect(result.payRuns.map((line) => line.payRunId)).toEqual(['june']);
+  });
+
+  it('counts draft pay runs without adding them to the totals', () => {
+    const result = summarisePayrollWithholding({ payRuns: [payRun({ PayRunStatus: 'DRAFT' })] });
+
+    expect(result.W1).toBe(0);
+    expect(result.W5).toBe(0);
+    expect(result.draftPayRunCount).toBe(1);
+  });
+});
@@ -0,0 +1,109 @@
+import { classifyPurchases, classifyPurchaseLine, isCapitalAccount } from '../utils/basPurchaseClassification';
+
+const accounts: any[] = [
+  { Code: '400', Name: 'Advertising', Type: 'EXPENSE', Class: 'EXPENSE' },
+  { Code: '710', Name: 'Office Equipment', Type: 'FIXED', Class: 'ASSET' },
+];
+
+const bill = (overrides: any = {}): any => ({
+  InvoiceID: 'bill-1',
+  Type: 'ACCPAY',
+  Status: 'AUTHORISED',
+  Date: '2025-08-15',
+  LineAmountTypes: 'Exclusive',
+  Contact: { Name: 'Officeworks' },
+  LineItems: [
+    { AccountCode: '710', TaxType: 'INPUT', LineAmount: 1000, TaxAmount: 100 },
+    { AccountCode: '400', TaxType: 'INPUT', LineAmount: 200, TaxAmount: 20 },
+  ],
+  ...overrides,
+});
+
+describe('isCapitalAccount', () => {
+  it('treats fixed and non-current asset accounts as capital', () => {
+    expect(isCapitalAccount(accounts[1])).toBe(true);
+    expect(isCapitalAccount({ Code: '720', Type: 'NONCURRENT', Class: 'ASSET' } as any)).toBe(true);
+    expect(isCapitalAccount(accounts[0])).toBe(false);
+    expect(isCapitalAccount(undefined)).toBe(false);
+  });
+});
+
+describe('classifyPurchaseLine', () => {
+  it('reports lines coded with a capital tax rate at G10 even on an expense account', () => {
+    expect(classifyPurchaseLine({ TaxType: 'CAPEXINPUT' } as any, accounts[0]).label).toBe('G10');
+  });
+
+  it('reports lines on unknown accounts at G11', () => {
+    expect(classifyPurchaseLine({ TaxType: 'INPUT' } as any, undefined).label).toBe('G11');
+  });
+});
+
+describe('classifyPurchases', () => {
+  it('splits bills into GST-inclusive capital and non-capital purchases', () => {
+    const result = classifyPurchases({ invoices: [bill()], bankTransactions: [], accounts });
+
+    expect(result.capitalPurchases).toBe(1100);
+    expect(result.nonCapitalPurchases).toBe(220);
+    expect(result.lines).toHaveLength(2);
+  });
+
+  it('includes spend bank transactions and leaves out BAS excluded lines and draft bills', () => {
+    const result = classifyPurchases({
+      invoices: [bill({ Status: 'DRAFT' })],
+      bankTransactions: [
+        {
+          BankTransactionID: 'bt-1',
+          BankTransactionType: 'SPEND',
+          Status: 'AUTHORISED',
+          Date: '2025-08-20',
+          LineAmountTypes: 'Inclusive',
+          LineItems: [
+            { AccountCode: '400', TaxType: 'INPUT', LineAmount: 55, TaxAmount: 5 },
+            { AccountCode: '400', TaxType: 'BASEXCLUDED', LineAmount: 30, TaxAmount: 0 },
+          ],
+        } as any,
+      ],
+      accounts,
+    });
+
+    expect(result.capitalPurchases).toBe(0);
+    expect(result.nonCapitalPurchases).toBe(55);
+  });
+
+  it('leaves out bills dated outside the period', () => {
+    const result = classifyPurchases({
+      invoices: [bill({ Date: '2025-06-30' })],
+      bankTransactions: [],
+      accounts,
+      fromDate: '2025-07-01',
+      toDate: '2025-09-30',
+    });
+
+    expect(result.lines).toHaveLength(0);
+  });
+
+  it('attributes bills by the share paid in the period on cash basis', () => {
+    const result = classifyPurchases({
+      invoices: [bill({ Date: '2025-06-30' })],
+      bankTransactions: [],
+      accounts,
+      fromDate: '2025-07-01',
+      toDate: '2025-09-30',
+      billPaymentFractions: new Map([['bill-1', 0.5]]),
+    });
+
+    expect(result.capitalPurchases).toBe(550);
+    expect(result.nonCapitalPurchases).toBe(110);
+  });
+
+  it('lists account codes missing from the chart of accounts', () => {
+    const result = classifyPurchases({
+      invoices: [bill({ LineItems: [{ AccountCode: '999', TaxType: 'INPUT', LineAmount: 10, TaxAmount: 1 }] })],
+      bankTransactions: [],
+      accounts,
+    });
+
+    expect(result.unmappedAccountCodes).toEqual(['999']);
+    expect(result.nonCapitalPurchases).toBe(11);
+  });
+});
@@ -0,0 +1,93 @@
+import { findReconciliationItems, parseGstReportTotals, reconcileBAS } from '../utils/basReconciliation';
+
+const gstReport = {
+  Reports: [
+    {
+      Rows: [
+        { Cells: [{ Value: 'Total Sales' }, { Value: '11000.00' }] },
+        { Cells: [{ Value: 'GST on Sales' }, { Value: '1000.00' }] },
+        { Cells: [{ Value: 'Total Purchases' }, { Value: '5500.00' }] },
+        { Cells: [{ Value: 'GST on Purchases' }, { Value: '-500.00' }] },
+      ],
+    },
+  ],
+};
+
+const period = { fromDate: '2025-07-01', toDate: '2025-09-30' };
+
+describe('parseGstReportTotals', () => {
+  it('reads G1, 1A and 1B as positive amounts', () => {
+    expect(parseGstReportTotals(gstReport)).toEqual({
+      totalSales: 11000,
+      totalPurchases: 5500,
+      gstOnSales: 1000,
+      gstOnPurchases: 500,
+    });
+  });
+
+  it('returns null without report rows', () => {
+    expect(parseGstReportTotals({})).toBeNull();
+  });
+});
+
+describe('findReconciliationItems', () => {
+  it('lists voided, draft, untaxed and later-edited transactions dated in the period', () => {
+    const items = findReconciliationItems({
+      invoices: [
+        { InvoiceID: 'voided', Status: 'VOIDED', Date: '2025-07-10', Total: 110, TotalTax: 10 },
+        { InvoiceID: 'draft', Status: 'DRAFT', Date: '2025-07-11', Total: 220, TotalTax: 20 },
+        {
+          InvoiceID: 'untaxed',
+          Status: 'AUTHORISED',
+          Date: '2025-07-12',
+          Total: 50,
+          TotalTax: 0,
+          LineItems: [{ LineAmount: 50 }],
+        },
+        { InvoiceID: 'edited', Status: 'PAID', Date: '2025-07-13', UpdatedDateUTC: '2025-10-20T01:00:00', Total: 330 },
+        { InvoiceID: 'outside', Status: 'VOIDED', Date: '2025-10-01', Total: 110 },
+      ] as any[],
+      bankTransactions: [],
+      ...period,
+    });
+
+    expect(items.map((item) => [item.transactionId, item.type])).toEqual([
+      ['voided', 'voided'],
+      ['draft', 'draft'],
+      ['untaxed', 'missingTaxType'],
+      ['edited', 'editedAfterPeriod'],
+    ]);
+  });
+});
+
+describe('reconcileBAS', () => {
+  it('shows the GST report minus the transaction totals for each label', () => {
+    const reconciliation = reconcileBAS({
+      gstReport: parseGstReportTotals(gstReport),
+      transactionTotals: { totalSales: 10890, gstOnSales: 990, gstOnPurchases: 500 },
+      invoices: [],
+      bankTransactions: [],
+      ...period,
+    });
+
+    expect(reconciliation.hasGstReport).toBe(true);
+    expect(reconciliation.lines.map((line) => [line.label, line.variance])).toEqual([
+      ['G1', 110],
+      ['1A', 10],
+      ['1B', 0],
+    ]);
+  });
+
+  it('has no lines without a GST report', () => {
+    const reconciliation = reconcileBAS({
+      gstReport: null,
+      transactionTotals: { totalSales: 100, gstOnSales: 10, gstOnPurchases: 0 },
+      invoices: [],
+      bankTransactions: [],
+      ...period,
+    });
+
+    expect(reconciliation.hasGstReport).toBe(false);
+    expect(reconciliation.lines).toEqual([]);
+  });
+});
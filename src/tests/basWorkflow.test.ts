@@ -0,0 +1,54 @@
+import { getAllowedTransitions, getBasDueDate, getNextBasDue, isBASRecordLocked } from '../utils/basWorkflow';
+
+const day = (date: Date) => [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+
+describe('BAS workflow transitions', () => {
+  it('moves one step forward and back to Draft until lodged', () => {
+    expect(getAllowedTransitions('Draft')).toEqual(['Prepared']);
+    expect(getAllowedTransitions('Reviewed')).toEqual(['Client Approved', 'Draft']);
+    expect(getAllowedTransitions('Lodged')).toEqual([]);
+  });
+
+  it('locks lodged records', () => {
+    expect(isBASRecordLocked({ status: 'Lodged' } as any)).toBe(true);
+    expect(isBASRecordLocked({ status: 'Reviewed', lockedAt: '2025-10-01T00:00:00Z' } as any)).toBe(true);
+    expect(isBASRecordLocked({ status: 'Prepared' } as any)).toBe(false);
+  });
+});
+
+describe('getBasDueDate', () => {
+  it('uses the standard ATO quarterly due dates', () => {
+    expect(day(getBasDueDate({ frequency: 'Quarterly', toDate: '2025-09-30' }))).toEqual([2025, 10, 28]);
+    expect(day(getBasDueDate({ frequency: 'Quarterly', toDate: '2025-12-31' }))).toEqual([2026, 2, 28]);
+  });
+
+  it('is due on the 21st of the next month for monthly lodgers', () => {
+    expect(day(getBasDueDate({ frequency: 'Monthly', toDate: '2025-12-31' }))).toEqual([2026, 1, 21]);
+  });
+
+  it('prefers the configured deadlines', () => {
+    const deadlines: any = { bas: { monthly: '', quarterly: { q1: '2025-11-25', q2: '', q3: '', q4: '' } } };
+
+    expect(day(getBasDueDate({ frequency: 'Quarterly', toDate: '2025-09-30' }, deadlines))).toEqual([2025, 11, 25]);
+  });
+});
+
+describe('getNextBasDue', () => {
+  it('returns the period after the latest lodged BAS', () => {
+    const next = getNextBasDue(
+      [
+        { status: 'Lodged', toDate: '2025-06-30' },
+        { status: 'Lodged', toDate: '2025-09-30' },
+        { status: 'Prepared', toDate: '2025-12-31' },
+      ],
+      { frequency: 'Quarterly' }
+    );
+
+    expect(next?.period.key).toBe('2025-10-01_2025-12-31');
+    expect(day(next!.dueDate)).toEqual([2026, 2, 28]);
+  });
+
+  it('returns null when nothing is lodged', () => {
+    expect(getNextBasDue([{ status: 'Draft', toDate: '2025-09-30' }], { frequency: 'Quarterly' })).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { buildBASXbrl, checkBASXbrl, isValidABN } from '../utils/basXbrl';
+
+const ABN = '51 824 753 556';
+
+const build = (fields: Record<string, number | string>, abn = ABN) =>
+  buildBASXbrl({ fields, abn, fromDate: '2025-07-01', toDate: '2025-09-30' });
+
+describe('isValidABN', () => {
+  it('checks the ABN check digits', () => {
+    expect(isValidABN(ABN)).toBe(true);
+    expect(isValidABN('51 824 753 557')).toBe(false);
+    expect(isValidABN('1234')).toBe(false);
+  });
+});
+
+describe('buildBASXbrl', () => {
+  it('reports whole dollars, G2 and the T2 rate under their elements', () => {
+    const xml = build({ G1: 11000.99, G2: 500, '1A': 1000, '1B': 300, T2: 5 });
+
+    expect(xml).toContain('<xbrli:identifier scheme="urn:compliance-manager:abn">51824753556</xbrli:identifier>');
+    expect(xml).toContain('>11000</bas:GoodsAndServicesTax.Supplies.Total.Amount>');
+    expect(xml).toContain('>500</bas:GoodsAndServicesTax.Supplies.Export.Amount>');
+    expect(xml).toContain('unitRef="PURE" decimals="2">5.00</bas:IncomeTax.PayAsYouGoInstalment.CommissionerRate.Percent>');
+  });
+
+  it('leaves out blank labels', () => {
+    expect(build({ G1: 100, G2: '', '1A': 10, '1B': 0 })).not.toContain('Supplies.Export');
+  });
+});
+
+describe('checkBASXbrl', () => {
+  it('passes a consistent BAS', () => {
+    expect(checkBASXbrl(build({ G1: 11000, '1A': 1000, '1B': 300, W2: 900, W3: 50, W4: 50, W5: 1000 }))).toEqual([]);
+  });
+
+  it('reports W5 that does not equal W2 + W3 + W4', () => {
+    expect(checkBASXbrl(build({ G1: 0, '1A': 0, '1B': 0, W2: 900, W5: 1000 }))).toContain('W5 must equal W2 + W3 + W4.');
+  });
+
+  it('reports missing required labels, negative amounts and an invalid ABN', () => {
+    const errors = checkBASXbrl(build({ G1: -5, '1A': 0 }, '12 345 678 901'));
+
+    expect(errors).toEqual(
+      expect.arrayContaining(['1B is required.', 'G1 cannot be negative.', '"12345678901" is not a valid ABN.'])
+    );
+  });
+
+  it('rejects a document that is not XML', () => {
+    expect(checkBASXbrl('<xbrli:xbrl')).toEqual(['The document is not well-formed XML.']);
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  calculateFbt,
+  classifyFbtBenefits,
+  createEmptyBenefitSummary,
+  getBenefitTotal,
+  getFbtRates,
+} from '../utils/fbtCalculation';
+
+describe('getFbtRates', () => {
+  it('returns the rates in force for the FBT year', () => {
+    expect(getFbtRates(2017).fbtRate).toBe(49);
+    expect(getFbtRates(2026).fbtRate).toBe(47);
+  });
+
+  it('uses the earliest rates for years before the table', () => {
+    expect(getFbtRates(2010).fromYear).toBe(2014);
+  });
+});
+
+describe('classifyFbtBenefits', () => {
+  it('classifies report rows by category and type and keeps the reported gross taxable value', () => {
+    const { benefits, reportedGrossTaxableValue } = classifyFbtBenefits({
+      fasReport: {
+        Rows: [
+          { Cells: [{ Value: 'Car fringe benefits' }, { Value: '1,200.00' }] },
+          { Cells: [{ Value: 'Entertainment - GST-free' }, { Value: '300' }] },
+          { Cells: [{ Value: 'Other FBT benefits' }, { Value: '-50' }] },
+          { Cells: [{ Value: 'Gross taxable value' }, { Value: '3000' }] },
+          { Cells: [{ Value: 'Office supplies' }, { Value: '999' }] },
+        ],
+      },
+    });
+
+    expect(benefits).toEqual({
+      car: { type1: 1200, type2: 0 },
+      entertainment: { type1: 0, type2: 300 },
+      other: { type1: 50, type2: 0 },
+    });
+    expect(reportedGrossTaxableValue).toBe(3000);
+  });
+
+  it('falls back to transactions and types them by tax type or GST charged', () => {
+    const { benefits } = classifyFbtBenefits({
+      transactions: [
+        { Category: 'Car', Total: 1100, TaxType: 'INPUT' },
+        { Category: 'Entertainment', Total: 200, TaxType: 'EXEMPTEXPENSES' },
+        { Category: 'Entertainment', Total: 330, TaxAmount: 30 },
+        { Category: 'Stationery', Total: 80 },
+      ],
+    });
+
+    expect(benefits.car).toEqual({ type1: 1100, type2: 0 });
+    expect(benefits.entertainment).toEqual({ type1: 330, type2: 200 });
+  });
+});
+
+describe('calculateFbt', () => {
+  it('grosses up Type 1 and Type 2 benefits and applies the FBT rate', () => {
+    const benefits = createEmptyBenefitSummary();
+    benefits.car.type1 = 1000;
+    benefits.entertainment.type2 = 500;
+
+    const result = calculateFbt({ benefits, fbtYear: 2025 });
+
+    expect(result.type1GrossedUp).toBe(2080.2);
+    expect(result.type2GrossedUp).toBe(943.4);
+    expect(result.grossTaxableValue).toBe(3023.6);
+    expect(result.fbtPayable).toBe(1421.09);
+    expect(result.source).toBe('benefits');
+  });
+
+  it('uses the reported gross taxable value when no benefits were classified', () => {
+    const result = calculateFbt({ benefits: createEmptyBenefitSummary(), fbtYear: 2025, reportedGrossTaxableValue: 2000 });
+
+    expect(result.grossTaxableValue).toBe(2000);
+    expect(result.fbtPayable).toBe(940);
+    expect(result.source).toBe('report');
+  });
+});
+
+describe('getBenefitTotal', () => {
+  it('adds both types', () => {
+    expect(getBenefitTotal({ type1: 10.1, type2: 20.2 })).toBe(30.3);
+  });
+});
@@ -0,0 +1,106 @@
+import { FBTCar } from '../api/companyService';
+import { calculateCarFringeBenefit, createFbtCar, getDaysInFbtYear, summariseCarRegister } from '../utils/fbtCars';
+
+const car = (overrides: Partial<FBTCar> = {}): FBTCar => ({
+  ...createFbtCar(2025),
+  vehicle: 'Toyota Camry',
+  acquisitionDate: '2023-01-01',
+  costBase: 50000,
+  ...overrides,
+});
+
+describe('getDaysInFbtYear', () => {
+  it('counts the days from 1 April to 31 March', () => {
+    expect(getDaysInFbtYear(2025)).toBe(365);
+    expect(getDaysInFbtYear(2024)).toBe(366);
+  });
+});
+
+describe('calculateCarFringeBenefit', () => {
+  it('applies 20% of the base value less employee contributions under the statutory formula', () => {
+    const result = calculateCarFringeBenefit(car({ employeeContributions: 1000 }));
+
+    expect(result.statutoryValue).toBe(9000);
+    expect(result.recommendedMethod).toBe('statutory');
+    expect(result.taxableValue).toBe(9000);
+    expect(result.benefitType).toBe('type1');
+  });
+
+  it('apportions the statutory value to the days the car was available', () => {
+    expect(calculateCarFringeBenefit(car({ daysAvailable: 182 })).statutoryValue).toBe(4986.3);
+  });
+
+  it('reduces the base value by a third once the car has been held for four years', () => {
+    expect(calculateCarFringeBenefit(car({ acquisitionDate: '2020-03-01', costBase: 60000 })).statutoryValue).toBe(8000);
+    expect(calculateCarFringeBenefit(car({ acquisitionDate: '2020-05-01', costBase: 60000 })).statutoryValue).toBe(12000);
+  });
+
+  it('recommends the operating cost method when the logbook gives a lower value', () => {
+    const result = calculateCarFringeBenefit(car({ operatingCosts: 12000, logbookBusinessPercentage: 75 }));
+
+    expect(result.operatingCostValue).toBe(3000);
+    expect(result.recommendedMethod).toBe('operatingCost');
+    expect(result.taxableValue).toBe(3000);
+  });
+
+  it('treats a car without a logbook as wholly private under the operating cost method', () => {
+    expect(calculateCarFringeBenefit(car({ operatingCosts: 12000 })).operatingCostValue).toBe(12000);
+  });
+
+  it('exempts an electric car first held after 1 July 2022 below the luxury car tax threshold', () => {
+    const result = calculateCarFringeBenefit(car({ fuelType: 'Electric', acquisitionDate: '2023-08-01', costBase: 60000 }));
+
+    expect(result.electricVehicle).toEqual({ eligible: true, reasons: [] });
+    expect(result.taxableValue).toBe(0);
+    expect(result.statutoryValue).toBe(12000);
+  });
+
+  it('explains why an electric car does not qualify', () => {
+    const expensive = calculateCarFringeBenefit(car({ fuelType: 'Electric', acquisitionDate: '2023-08-01', costBase: 95000 }));
+    const early = calculateCarFringeBenefit(car({ fuelType: 'Electric', acquisitionDate: '2022-01-01' }));
+    const plugIn = calculateCarFringeBenefit(
+      car({ fuelType: 'PlugInHybrid', fbtYear: 2026, acquisitionDate: '2023-08-01', daysAvailable: 365 })
+    );
+
+    expect(expensive.electricVehicle.reasons).toEqual([
+      'Cost of $95000.00 is above the luxury car tax threshold of $89332.00',
+    ]);
+    expect(expensive.taxableValue).toBe(19000);
+    expect(early.electricVehicle.reasons).toEqual(['First held before 1 July 2022']);
+    expect(plugIn.electricVehicle.eligible).toBe(false);
+  });
+
+  it('applies the luxury car tax threshold of the financial year the car was first held', () => {
+    const electric = (acquisitionDate: string, fbtYear: number) =>
+      calculateCarFringeBenefit(car({ fuelType: 'Electric', acquisitionDate, fbtYear, costBase: 90000 })).electricVehicle;
+
+    expect(electric('2025-06-30', 2026).reasons).toEqual([
+      'Cost of $90000.00 is above the luxury car tax threshold of $89332.00',
+    ]);
+    expect(electric('2025-07-01', 2026).eligible).toBe(true);
+  });
+});
+
+describe('summariseCarRegister', () => {
+  it('totals the cars of the FBT year by type and apportions them to the period', () => {
+    const summary = summariseCarRegister({
+      cars: [
+        car(),
+        car({ costBase: 25000, gstCreditClaimed: false }),
+        car({ fbtYear: 2024, costBase: 99999 }),
+      ],
+      fbtYear: 2025,
+      fromDate: '2024-07-01',
+      toDate: '2024-09-30',
+    });
+
+    expect(summary?.cars).toHaveLength(2);
+    expect(summary?.annual).toEqual({ type1: 10000, type2: 5000 });
+    expect(summary?.periodShare).toBeCloseTo(92 / 365);
+    expect(summary?.period).toEqual({ type1: 2520.55, type2: 1260.27 });
+  });
+
+  it('returns null when no cars are registered for the FBT year', () => {
+    expect(summariseCarRegister({ cars: [car()], fbtYear: 2026, fromDate: '', toDate: '' })).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { FBTEntertainmentElection, FBTEntertainmentEvent } from '../api/companyService';
+import {
+  calculateEntertainmentBenefit,
+  createEntertainmentEvent,
+  findEntertainmentRegister,
+  getEntertainmentRegister,
+  getRegisterEndDate,
+} from '../utils/fbtEntertainment';
+
+const event = (date: string, overrides: Partial<FBTEntertainmentEvent> = {}): FBTEntertainmentEvent => ({
+  ...createEntertainmentEvent(date),
+  description: 'Team lunch',
+  ...overrides,
+});
+
+const registerElection = (fbtYear: number, registerStartDate?: string): FBTEntertainmentElection => ({
+  fbtYear,
+  method: 'TwelveWeekRegister',
+  registerStartDate,
+  events: [
+    event('2024-05-10', { cost: 1000, employeeAttendees: 4, otherAttendees: 1 }),
+    event('2024-06-01', { cost: 500, employeeAttendees: 0, otherAttendees: 5 }),
+    event('2024-09-01', { cost: 200 }),
+  ],
+});
+
+const expenditure = { type1: 3000, type2: 600 };
+
+describe('getRegisterEndDate', () => {
+  it('returns the last day of the 12 weeks', () => {
+    expect(getRegisterEndDate('2024-05-01')).toBe('2024-07-23');
+  });
+});
+
+describe('getEntertainmentRegister', () => {
+  it('works out the employee share of the expenditure in the 12 weeks', () => {
+    const register = getEntertainmentRegister(registerElection(2025, '2024-05-01'));
+
+    expect(register?.events).toHaveLength(2);
+    expect(register?.expenditure).toBe(1500);
+    expect(register?.employeeExpenditure).toBe(800);
+    expect(register?.percentage).toBeCloseTo(800 / 1500);
+  });
+
+  it('returns null without a register start date', () => {
+    expect(getEntertainmentRegister(registerElection(2025))).toBeNull();
+  });
+});
+
+describe('findEntertainmentRegister', () => {
+  it('uses a register kept in one of the previous four FBT years', () => {
+    const elections: FBTEntertainmentElection[] = [
+      registerElection(2025, '2024-05-01'),
+      { fbtYear: 2029, method: 'TwelveWeekRegister', events: [] },
+    ];
+
+    expect(findEntertainmentRegister(elections, 2029)?.fbtYear).toBe(2025);
+    expect(findEntertainmentRegister(elections, 2030)).toBeNull();
+  });
+});
+
+describe('calculateEntertainmentBenefit', () => {
+  const calculate = (elections: FBTEntertainmentElection[]) =>
+    calculateEntertainmentBenefit({ elections, fbtYear: 2025, expenditure, fromDate: '2024-07-01', toDate: '2024-09-30' });
+
+  it('returns null when no method was elected for the FBT year', () => {
+    expect(calculate([])).toBeNull();
+  });
+
+  it('halves the expenditure under the 50/50 split method', () => {
+    expect(calculate([{ fbtYear: 2025, method: 'FiftyFifty', events: [] }])?.taxableValue).toEqual({ type1: 1500, type2: 300 });
+  });
+
+  it('applies the register percentage and warns about events outside the 12 weeks', () => {
+    const result = calculate([registerElection(2025, '2024-05-01')]);
+
+    expect(result?.taxableValue).toEqual({ type1: 1600, type2: 320 });
+    expect(result?.warnings).toEqual(['1 event(s) fall outside the 12 weeks of the register and are ignored']);
+  });
+
+  it('reports the expenditure in full when there is no register', () => {
+    const result = calculate([registerElection(2025)]);
+
+    expect(result?.taxableValue).toEqual(expenditure);
+    expect(result?.warnings).toHaveLength(1);
+  });
+
+  it('values the events of the period under the actual method and exempts minor benefits', () => {
+    const result = calculate([
+      {
+        fbtYear: 2025,
+        method: 'Actual',
+        events: [
+          event('2024-08-01', { cost: 500, employeeAttendees: 2 }),
+          event('2024-08-02', { cost: 1200, employeeAttendees: 2, otherAttendees: 2, gstCreditClaimed: false }),
+          event('2024-10-01', { cost: 5000 }),
+        ],
+      },
+    ]);
+
+    expect(result?.events.map((item) => item.perHeadCost)).toEqual([250, 300]);
+    expect(result?.minorBenefitsExempt).toBe(500);
+    expect(result?.taxableValue).toEqual({ type1: 0, type2: 600 });
+  });
+
+  it('warns when Xero has meal entertainment but no events are recorded under the actual method', () => {
+    expect(calculate([{ fbtYear: 2025, method: 'Actual', events: [] }])?.warnings).toHaveLength(1);
+  });
+});
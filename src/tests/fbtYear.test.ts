@@ -0,0 +1,129 @@
+import { FBTCar } from '../api/companyService';
+import { createEmptyBenefitSummary } from '../utils/fbtCalculation';
+import { createFbtCar } from '../utils/fbtCars';
+import {
+  buildStpFinalisationSheet,
+  calculateFbtPeriod,
+  calculateReportableFringeBenefits,
+  FBTPeriodFigures,
+  FBTQuarter,
+  RFBA_THRESHOLD,
+  summariseFbtYear,
+} from '../utils/fbtYear';
+
+const employees: any[] = [
+  { EmployeeID: 'e1', FirstName: 'Alex', LastName: 'Brown' },
+  { EmployeeID: 'e2', FirstName: 'Sam', LastName: 'Adams' },
+  { EmployeeID: 'e3', FirstName: 'Jo', LastName: 'Chen' },
+];
+
+const allocation = (employeeId: string, taxableValue: number, fbtYear = 2025) => ({
+  id: `${employeeId}-${taxableValue}`,
+  fbtYear,
+  employeeId,
+  description: 'School fees',
+  taxableValue,
+});
+
+const electricCar = (): FBTCar => ({
+  ...createFbtCar(2025),
+  fuelType: 'Electric',
+  acquisitionDate: '2023-08-01',
+  costBase: 50000,
+  employeeId: 'e3',
+});
+
+describe('calculateFbtPeriod', () => {
+  it('takes cars from the register and entertainment from the elected method', () => {
+    const xeroBenefits = createEmptyBenefitSummary();
+    xeroBenefits.car.type1 = 999;
+    xeroBenefits.entertainment.type1 = 1000;
+    xeroBenefits.other.type2 = 100;
+
+    const figures = calculateFbtPeriod({
+      xeroBenefits,
+      reportedGrossTaxableValue: 0,
+      carRegister: { cars: [], annual: { type1: 8000, type2: 0 }, periodShare: 0.25, period: { type1: 2000, type2: 0 } },
+      entertainmentElections: [{ fbtYear: 2025, method: 'FiftyFifty', events: [] }],
+      fbtYear: 2025,
+      fromDate: '2024-04-01',
+      toDate: '2024-06-30',
+    });
+
+    expect(figures.fbtOnCars).toBe(2000);
+    expect(figures.fbtOnEntertainment).toBe(500);
+    expect(figures.totalFBT).toBe(2600);
+    expect(figures.grossTaxableValue).toBe(5389.18);
+    expect(figures.fbtPayable).toBe(2532.91);
+  });
+
+  it('uses the Xero figures when there is no register or election', () => {
+    const xeroBenefits = createEmptyBenefitSummary();
+    xeroBenefits.car.type1 = 999;
+    xeroBenefits.entertainment.type2 = 100;
+
+    const figures = calculateFbtPeriod({
+      xeroBenefits,
+      reportedGrossTaxableValue: 0,
+      carRegister: null,
+      entertainmentElections: [],
+      fbtYear: 2025,
+      fromDate: '2024-04-01',
+      toDate: '2024-06-30',
+    });
+
+    expect(figures.fbtOnCars).toBe(999);
+    expect(figures.fbtOnEntertainment).toBe(100);
+    expect(figures.entertainment).toBeNull();
+  });
+});
+
+describe('summariseFbtYear', () => {
+  it('accumulates the FBT payable of the quarters that loaded', () => {
+    const quarter = (figures: Partial<FBTPeriodFigures> | null): FBTQuarter => ({
+      period: {} as any,
+      figures: figures as FBTPeriodFigures | null,
+      error: figures ? null : 'Xero request failed',
+    });
+
+    const summary = summariseFbtYear([
+      quarter({ grossTaxableValue: 1000, fbtPayable: 470 }),
+      quarter(null),
+      quarter({ grossTaxableValue: 500.5, fbtPayable: 235.24 }),
+    ]);
+
+    expect(summary.quarters.map((item) => item.cumulativeFbtPayable)).toEqual([470, 470, 705.24]);
+    expect(summary.grossTaxableValue).toBe(1500.5);
+    expect(summary.fbtPayable).toBe(705.24);
+    expect(summary.loadedCount).toBe(2);
+  });
+});
+
+describe('calculateReportableFringeBenefits', () => {
+  const rows = calculateReportableFringeBenefits({
+    employees,
+    cars: [electricCar()],
+    allocations: [allocation('e1', RFBA_THRESHOLD), allocation('e2', 1500), allocation('e2', 500.01), allocation('e2', 9000, 2024)],
+    fbtYear: 2025,
+  });
+
+  it('only reports employees whose taxable value is over the threshold, grossed up at the Type 2 rate', () => {
+    expect(rows.map((row) => [row.lastName, row.taxableValue, row.reportable, row.reportableAmount])).toEqual([
+      ['Adams', 2000.01, true, 3773.62],
+      ['Brown', 2000, false, 0],
+      ['Chen', 10000, true, 18868],
+    ]);
+  });
+
+  it('counts exempt electric cars at their taxable value', () => {
+    expect(rows[2].carTaxableValue).toBe(10000);
+  });
+
+  it('lists the reportable employees on the STP finalisation sheet', () => {
+    const sheet = buildStpFinalisationSheet(rows, 2025);
+
+    expect(sheet.name).toBe('RFBA FBT2025');
+    expect(sheet.rows.slice(1).map((row) => row[0])).toEqual(['e2', 'e3']);
+    expect(sheet.rows[1].slice(3)).toEqual(['2025-03-31', '2025-06-30', 2000.01, 3773.62]);
+  });
+});
@@ -0,0 +1,131 @@
+import { AnomalyDatasetRecord } from '../utils/anomalyDataset';
+import {
+  findDuplicateAmounts,
+  getBenfordExpected,
+  parseThresholds,
+  runBenfordTest,
+  runRoundAmountTest,
+  runThresholdTest,
+} from '../utils/forensicTests';
+
+const record = (amount: number, contactId = 'c1'): AnomalyDatasetRecord => ({
+  id: `${amount}-${contactId}`,
+  sourceType: 'bill',
+  date: '2025-08-01',
+  reference: '',
+  contactId,
+  contactName: contactId,
+  features: { amount, dayOfWeek: 5, contactFrequency: 1, accountCode: '429', taxType: 'INPUT', daysToPay: 0 },
+});
+
+const records = (amounts: number[]) => amounts.map((amount) => record(amount));
+
+describe('runBenfordTest', () => {
+  it('works out the chi-square and MAD of the first digits', () => {
+    const result = runBenfordTest(records([1, 5, 10, 11, 150, 1999, 19, 23, 2500, 299, 90, 987]), 'firstDigit');
+
+    expect(result.sampleSize).toBe(10);
+    expect(result.digits[0]).toMatchObject({ digits: 1, count: 5, recordIndexes: [2, 3, 4, 5, 6] });
+    expect(result.chiSquare).toBeCloseTo(12.1575, 4);
+    expect(result.mad).toBeCloseTo(0.106027, 6);
+    expect(result.degreesOfFreedom).toBe(8);
+    expect(result.criticalValue).toBe(15.507);
+    expect(result.conformity).toBe('nonconformity');
+  });
+
+  it('finds amounts that follow the law in close conformity', () => {
+    const amounts: number[] = [];
+    for (let digit = 1; digit <= 9; digit += 1) {
+      const count = Math.round(1000 * getBenfordExpected(digit));
+      for (let i = 0; i < count; i += 1) amounts.push(digit * 100 + i / 100);
+    }
+    const result = runBenfordTest(records(amounts), 'firstDigit');
+
+    expect(result.chiSquare).toBeLessThan(result.criticalValue);
+    expect(result.mad).toBeLessThan(0.006);
+    expect(result.conformity).toBe('close');
+    expect(result.digits.some((digit) => digit.significant)).toBe(false);
+  });
+
+  it('flags digits that occur far more or less often than expected', () => {
+    const amounts: number[] = [];
+    for (let digit = 1; digit <= 9; digit += 1) {
+      for (let i = 0; i < 100; i += 1) amounts.push(digit * 1000 + i);
+    }
+    const result = runBenfordTest(records(amounts), 'firstDigit');
+
+    expect(result.chiSquare).toBeGreaterThan(result.criticalValue);
+    expect(result.digits[0].significant).toBe(true);
+    expect(result.digits[8].significant).toBe(true);
+  });
+
+  it('reads the first two digits from the amount in cents', () => {
+    const result = runBenfordTest(records([12.34, 1.2e3, 99.99, 10]), 'firstTwoDigits');
+
+    expect(result.digits).toHaveLength(90);
+    expect(result.criticalValue).toBe(112.022);
+    expect(result.digits.filter((digit) => digit.count).map((digit) => [digit.digits, digit.count])).toEqual([
+      [10, 1],
+      [12, 2],
+      [99, 1],
+    ]);
+  });
+});
+
+describe('findDuplicateAmounts', () => {
+  it('groups repeated amounts, most repeated first, and counts their contacts', () => {
+    const groups = findDuplicateAmounts([
+      record(500, 'c1'),
+      record(-500, 'c2'),
+      record(120.5, 'c1'),
+      record(120.5, 'c1'),
+      record(500, 'c1'),
+      record(0, 'c1'),
+      record(0, 'c1'),
+      record(75),
+    ]);
+
+    expect(groups).toEqual([
+      { amount: 500, count: 3, contactCount: 2, recordIndexes: [0, 1, 4] },
+      { amount: 120.5, count: 2, contactCount: 1, recordIndexes: [2, 3] },
+    ]);
+  });
+});
+
+describe('runRoundAmountTest', () => {
+  it('counts each amount in the roundest bucket it fits', () => {
+    const results = runRoundAmountTest(records([2000, 300, 50, 7, 7.5, 0]));
+
+    expect(results.map((result) => [result.bucket, result.count])).toEqual([
+      ['thousands', 1],
+      ['hundreds', 1],
+      ['tens', 1],
+      ['wholeDollars', 1],
+    ]);
+    expect(results[0].share).toBe(0.2);
+  });
+});
+
+describe('runThresholdTest', () => {
+  it('splits amounts into the windows just below and above a threshold', () => {
+    const [result] = runThresholdTest(records([960, 980, 999.99, 1000, 1049, 1050, 900]), [1000]);
+
+    expect(result.below).toEqual([0, 1, 2]);
+    expect(result.above).toEqual([3, 4]);
+    expect(result.suspicious).toBe(false);
+  });
+
+  it('reports a cluster with at least three amounts and more than twice as many below as above', () => {
+    const [low, high] = runThresholdTest(records([4800, 4900, 4990, 5000, 990]), [5000, 1000]);
+
+    expect(low.threshold).toBe(1000);
+    expect(low.suspicious).toBe(false);
+    expect(high.suspicious).toBe(true);
+  });
+});
+
+describe('parseThresholds', () => {
+  it('reads positive amounts and ignores the rest', () => {
+    expect(parseThresholds('$1000, 5000, abc, -10, 5000, $ 10000')).toEqual([1000, 5000, 10000]);
+  });
+});
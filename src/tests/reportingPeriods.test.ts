@@ -0,0 +1,93 @@
+import {
+  generateReportingPeriods,
+  getAtoQuarterKey,
+  getFinancialYearForDate,
+  getPeriodForDate,
+  normaliseFrequency,
+  shiftReportingPeriod,
+} from '../utils/reportingPeriods';
+
+const ranges = (periods: { fromDate: string; toDate: string }[]) =>
+  periods.map((period) => `${period.fromDate}_${period.toDate}`);
+
+describe('normaliseFrequency', () => {
+  it('reads the compliance form spellings and defaults to quarterly', () => {
+    expect(normaliseFrequency('Yearly')).toBe('Annually');
+    expect(normaliseFrequency('monthly')).toBe('Monthly');
+    expect(normaliseFrequency(null)).toBe('Quarterly');
+  });
+});
+
+describe('getFinancialYearForDate', () => {
+  it('names the financial year by the calendar year it ends in', () => {
+    expect(getFinancialYearForDate(new Date(2025, 6, 1))).toBe(2026);
+    expect(getFinancialYearForDate(new Date(2025, 5, 30))).toBe(2025);
+    expect(getFinancialYearForDate(new Date(2025, 6, 1), '2025-12-31')).toBe(2025);
+  });
+});
+
+describe('generateReportingPeriods', () => {
+  it('generates the quarters of a June financial year', () => {
+    const periods = generateReportingPeriods(2026, { frequency: 'Quarterly' });
+
+    expect(ranges(periods)).toEqual([
+      '2025-07-01_2025-09-30',
+      '2025-10-01_2025-12-31',
+      '2026-01-01_2026-03-31',
+      '2026-04-01_2026-06-30',
+    ]);
+    expect(periods[0].label).toBe('Q1 FY2026 (Jul – Sep 2025)');
+  });
+
+  it('keeps quarters on calendar quarters when the financial year ends mid-quarter', () => {
+    const periods = generateReportingPeriods(2026, { frequency: 'Quarterly', financialYearEnd: '2026-08-31' });
+
+    expect(ranges(periods)).toEqual([
+      '2025-07-01_2025-09-30',
+      '2025-10-01_2025-12-31',
+      '2026-01-01_2026-03-31',
+      '2026-04-01_2026-06-30',
+    ]);
+    periods.forEach((period) => expect(getAtoQuarterKey(period)).not.toBeNull());
+  });
+
+  it('generates twelve months and one annual period', () => {
+    const monthly = generateReportingPeriods(2026, { frequency: 'Monthly' });
+    const annual = generateReportingPeriods(2026, { frequency: 'Annually', financialYearEnd: '2025-12-31' });
+
+    expect(monthly).toHaveLength(12);
+    expect(monthly[7].shortLabel).toBe('Feb 2026');
+    expect(ranges(annual)).toEqual(['2026-01-01_2026-12-31']);
+    expect(annual[0].shortLabel).toBe('2026');
+  });
+});
+
+describe('getPeriodForDate', () => {
+  it('finds the quarter of a date', () => {
+    expect(getPeriodForDate(new Date(2025, 10, 15)).key).toBe('2025-10-01_2025-12-31');
+  });
+
+  it('finds a quarter that ends in the next financial year', () => {
+    const period = getPeriodForDate(new Date(2026, 7, 15), { financialYearEnd: '2026-08-31' });
+
+    expect(period.key).toBe('2026-07-01_2026-09-30');
+    expect(period.financialYear).toBe(2027);
+  });
+});
+
+describe('shiftReportingPeriod', () => {
+  it('moves across financial years', () => {
+    const q1 = getPeriodForDate(new Date(2025, 7, 1));
+
+    expect(shiftReportingPeriod(q1, -1).key).toBe('2025-04-01_2025-06-30');
+    expect(shiftReportingPeriod(q1, -4).key).toBe('2024-07-01_2024-09-30');
+  });
+});
+
+describe('getAtoQuarterKey', () => {
+  it('maps calendar quarter ends to ATO quarters and returns null otherwise', () => {
+    expect(getAtoQuarterKey({ toDate: '2025-09-30' })).toBe('q1');
+    expect(getAtoQuarterKey({ toDate: '2026-03-31' })).toBe('q3');
+    expect(getAtoQuarterKey({ toDate: '2025-08-31' })).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { buildCsv, buildXlsxWorkbook } from '../utils/spreadsheetExport';
+import { parseCsv, readXlsxWorkbook } from '../utils/spreadsheetImport';
+
+const sheets = [
+  {
+    name: 'BAS Summary',
+    rows: [
+      ['Label', 'Description', 'Amount'],
+      ['G1', 'Total sales, "including" GST', 11000.5],
+      ['1A', 'GST on sales\nper Tax Summary', 1000],
+      ['W5', null, -25],
+    ],
+  },
+  { name: 'Purchases', rows: [['Contact', 'Amount'], ['Officeworks', 220]] },
+];
+
+describe('CSV export', () => {
+  it('round-trips quoted cells, line breaks and numbers', () => {
+    const csv = buildCsv([sheets[0]], { titles: false });
+
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(parseCsv(csv)).toEqual([
+      ['Label', 'Description', 'Amount'],
+      ['G1', 'Total sales, "including" GST', '11000.5'],
+      ['1A', 'GST on sales\nper Tax Summary', '1000'],
+      ['W5', '', '-25'],
+    ]);
+  });
+
+  it('writes each sheet as a titled section', () => {
+    const rows = parseCsv(buildCsv(sheets));
+
+    expect(rows[0]).toEqual(['BAS Summary']);
+    expect(rows).toContainEqual(['Purchases']);
+  });
+
+  it('prefixes text that starts like a formula but leaves numbers alone', () => {
+    const rows = parseCsv(
+      buildCsv([{ name: 'Contacts', rows: [['=HYPERLINK("http://example.com")', '@SUM(A1)', '-5', -5, '+61 2 9999 0000']] }], {
+        titles: false,
+      })
+    );
+
+    expect(rows[0]).toEqual(["'=HYPERLINK(\"http://example.com\")", "'@SUM(A1)", '-5', '-5', "'+61 2 9999 0000"]);
+  });
+});
+
+describe('XLSX export', () => {
+  it('round-trips sheet names, text and numbers', async () => {
+    const workbook = await readXlsxWorkbook(buildXlsxWorkbook(sheets));
+
+    expect(workbook.map((sheet) => sheet.name)).toEqual(['BAS Summary', 'Purchases']);
+    expect(workbook[0].rows).toEqual(sheets[0].rows);
+    expect(workbook[1].rows).toEqual(sheets[1].rows);
+  });
+});
@@ -0,0 +1,217 @@
+import { AnomalyBlankHandling, AnomalyColumnMapping } from '../api/anomalyDetectionService';
+import { getMedian, isMissing } from './anomalyStats';
+import { SpreadsheetCell, SpreadsheetSheet } from './spreadsheetExport';
+
+/**
+ * Anomaly Column Mapping
+ * Turns the rows of an imported CSV/XLSX file into an anomaly detection dataset
+ */
+
+export interface AnomalyImportedTable {
+  fileName: string;
+  columns: string[];
+  rows: SpreadsheetCell[][];
+}
+
+export type AnomalyColumnRole = 'numeric' | 'categorical' | 'identifier' | 'ignore';
+
+export interface AnomalyMappedDataset {
+  dataset: Record<string, string | number>[];
+  /** Identifier of each dataset row, or null when no identifier column is mapped */
+  identifiers: (string | null)[];
+  /** Position in the table rows of each dataset row */
+  rowIndexes: number[];
+  droppedRows: number;
+  /** The mapping with the fill values it was applied with */
+  mapping: AnomalyColumnMapping;
+}
+
+export const ANOMALY_COLUMN_ROLE_LABELS: Record<AnomalyColumnRole, string> = {
+  numeric: 'Numeric feature',
+  categorical: 'Categorical feature',
+  identifier: 'Identifier',
+  ignore: 'Ignore',
+};
+
+export const ANOMALY_BLANK_HANDLING_LABELS: Record<AnomalyBlankHandling, string> = {
+  dropRow: 'Drop rows with blanks',
+  fillZero: 'Fill numeric blanks with 0',
+  fillMedian: 'Fill numeric blanks with the median',
+};
+
+// Value given to blank categorical cells when rows with blanks are kept
+export const CATEGORICAL_BLANK = '(blank)';
+
+// Text columns with more distinct values than this share of the rows are treated as free text
+const MAX_CATEGORICAL_SHARE = 0.5;
+
+const IDENTIFIER_PATTERN = /^(id|.*[\s_-]id|.*number|.*no\.?|reference|ref)$/i;
+
+export const isBlankCell = (value: SpreadsheetCell) => isMissing(value);
+
+/**
+ * Reads a numeric cell, accepting currency symbols, thousands separators and negative amounts in brackets
+ * @returns The number, or null when the cell is blank or not numeric
+ */
+export const parseNumericCell = (value: SpreadsheetCell): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (isBlankCell(value)) return null;
+  const text = String(value).trim();
+  const negative = /^\(.*\)$/.test(text);
+  const cleaned = text.replace(/[()$,\s]/g, '');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  const number = Number(cleaned);
+  return negative ? -number : number;
+};
+
+/**
+ * Takes the first non-blank row as the column headers. Blank and repeated headers are renamed so every
+ * column can be mapped.
+ * @param sheet - Worksheet or CSV rows
+ * @param fileName - Name of the imported file
+ */
+export const toImportedTable = (sheet: SpreadsheetSheet, fileName: string): AnomalyImportedTable => {
+  const headerIndex = sheet.rows.findIndex((row) => row.some((cell) => !isBlankCell(cell)));
+  if (headerIndex === -1) return { fileName, columns: [], rows: [] };
+
+  const used = new Set<string>();
+  const columns = sheet.rows[headerIndex].map((cell, index) => {
+    const base = isBlankCell(cell) ? `Column ${index + 1}` : String(cell).trim();
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix += 1) name = `${base} (${suffix})`;
+    used.add(name);
+    return name;
+  });
+  const rows = sheet.rows
+    .slice(headerIndex + 1)
+    .filter((row) => row.some((cell) => !isBlankCell(cell)))
+    .map((row) => columns.map((_, index) => row[index] ?? null));
+
+  return { fileName, columns, rows };
+};
+
+/**
+ * Suggests a mapping: columns whose values are all numbers are numeric features, repeated text values are
+ * categorical and the first identifier-like column with unique values is the identifier
+ */
+export const guessColumnMapping = (table: AnomalyImportedTable): AnomalyColumnMapping => {
+  const mapping: AnomalyColumnMapping = {
+    numericColumns: [],
+    categoricalColumns: [],
+    identifierColumn: null,
+    blankHandling: 'fillMedian',
+  };
+
+  table.columns.forEach((column, index) => {
+    const values = table.rows.map((row) => row[index]).filter((value) => !isBlankCell(value));
+    if (values.length === 0) return;
+    const distinct = new Set(values.map((value) => String(value).trim())).size;
+
+    if (!mapping.identifierColumn && IDENTIFIER_PATTERN.test(column) && distinct === values.length) {
+      mapping.identifierColumn = column;
+    } else if (values.every((value) => parseNumericCell(value) !== null)) {
+      mapping.numericColumns.push(column);
+    } else if (distinct <= Math.max(2, values.length * MAX_CATEGORICAL_SHARE)) {
+      mapping.categoricalColumns.push(column);
+    }
+  });
+
+  return mapping;
+};
+
+export const getColumnRole = (mapping: AnomalyColumnMapping, column: string): AnomalyColumnRole => {
+  if (mapping.identifierColumn === column) return 'identifier';
+  if (mapping.numericColumns.includes(column)) return 'numeric';
+  if (mapping.categoricalColumns.includes(column)) return 'categorical';
+  return 'ignore';
+};
+
+/**
+ * Changes the role of a column. Fill values are dropped, since they belong to the previous mapping.
+ */
+export const setColumnRole = (
+  mapping: AnomalyColumnMapping,
+  column: string,
+  role: AnomalyColumnRole
+): AnomalyColumnMapping => ({
+  numericColumns: [...mapping.numericColumns.filter((name) => name !== column), ...(role === 'numeric' ? [column] : [])],
+  categoricalColumns: [
+    ...mapping.categoricalColumns.filter((name) => name !== column),
+    ...(role === 'categorical' ? [column] : []),
+  ],
+  identifierColumn: role === 'identifier' ? column : mapping.identifierColumn === column ? null : mapping.identifierColumn,
+  blankHandling: mapping.blankHandling,
+});
+
+/**
+ * Mapped columns that are not in a table, e.g. when scoring a file with a model trained on another layout
+ */
+export const getMissingMappedColumns = (table: AnomalyImportedTable, mapping: AnomalyColumnMapping): string[] =>
+  [...mapping.numericColumns, ...mapping.categoricalColumns, ...(mapping.identifierColumn ? [mapping.identifierColumn] : [])].filter(
+    (column) => !table.columns.includes(column)
+  );
+
+/**
+ * Builds the dataset of an imported table. Numeric cells that are not numbers count as blanks.
+ * Fill values saved with the mapping are reused, so a file is scored with the values the model was trained with.
+ * @param table - Imported file
+ * @param mapping - Column mapping chosen for the file or saved with the model
+ */
+export const applyColumnMapping = (table: AnomalyImportedTable, mapping: AnomalyColumnMapping): AnomalyMappedDataset => {
+  const columnIndex = new Map(table.columns.map((column, index) => [column, index]));
+  const readNumber = (row: SpreadsheetCell[], column: string) => parseNumericCell(row[columnIndex.get(column) ?? -1]);
+
+  const fillValues: Record<string, number> = {};
+  mapping.numericColumns.forEach((column) => {
+    fillValues[column] =
+      mapping.fillValues?.[column] ??
+      (mapping.blankHandling === 'fillMedian'
+        ? getMedian(table.rows.map((row) => readNumber(row, column)).filter((value): value is number => value !== null))
+        : 0);
+  });
+
+  const result: AnomalyMappedDataset = {
+    dataset: [],
+    identifiers: [],
+    rowIndexes: [],
+    droppedRows: 0,
+    mapping: { ...mapping, fillValues: mapping.blankHandling === 'fillMedian' ? fillValues : undefined },
+  };
+
+  table.rows.forEach((row, rowIndex) => {
+    const record: Record<string, string | number> = {};
+    let hasBlank = false;
+
+    mapping.numericColumns.forEach((column) => {
+      const value = readNumber(row, column);
+      hasBlank = hasBlank || value === null;
+      record[column] = value ?? (mapping.blankHandling === 'fillZero' ? 0 : fillValues[column]);
+    });
+    mapping.categoricalColumns.forEach((column) => {
+      const value = row[columnIndex.get(column) ?? -1];
+      hasBlank = hasBlank || isBlankCell(value);
+      record[column] = isBlankCell(value) ? CATEGORICAL_BLANK : String(value).trim();
+    });
+
+    if (hasBlank && mapping.blankHandling === 'dropRow') {
+      result.droppedRows += 1;
+      return;
+    }
+
+    const identifier = mapping.identifierColumn ? row[columnIndex.get(mapping.identifierColumn) ?? -1] : null;
+    result.dataset.push(record);
+    result.identifiers.push(isBlankCell(identifier) ? null : String(identifier).trim());
+    result.rowIndexes.push(rowIndex);
+  });
+
+  return result;
+};
+
+/**
+ * A row of an imported table keyed by column name, as shown when explaining a result
+ */
+export const getImportedRow = (table: AnomalyImportedTable, rowIndex: number): Record<string, SpreadsheetCell> =>
+  table.columns.reduce<Record<string, SpreadsheetCell>>((row, column, index) => {
+    row[column] = table.rows[rowIndex]?.[index] ?? null;
+    return row;
+  }, {});
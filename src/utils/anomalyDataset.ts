@@ -0,0 +1,196 @@
+import { XeroBankTransaction, XeroInvoice, XeroLineItem, XeroPayment } from '../integrations/xero/types';
+import { AnomalyPeerGroup } from './anomalyExplanation';
+import { parseXeroDate, roundCurrency, toAmount, toISODate } from './xeroRecords';
+
+/**
+ * Anomaly Dataset
+ * Builds anomaly detection training data from Xero invoices, bills and bank transactions
+ */
+
+export type AnomalySourceType = 'invoice' | 'bill' | 'bankTransaction';
+
+/** Features of a transaction; see toAnomalyTrainingDataset for the rows sent to the anomaly detection service */
+export interface AnomalyFeatures {
+  amount: number;
+  /** 0 (Sunday) to 6 (Saturday) */
+  dayOfWeek: number;
+  /** Number of transactions with the same contact in the dataset */
+  contactFrequency: number;
+  accountCode: string;
+  taxType: string;
+  daysToPay: number;
+}
+
+export interface AnomalyDatasetRecord {
+  id: string;
+  sourceType: AnomalySourceType;
+  /** Transaction date (YYYY-MM-DD) */
+  date: string;
+  reference: string;
+  contactId: string;
+  contactName: string;
+  features: AnomalyFeatures;
+}
+
+export const ANOMALY_SOURCE_LABELS: Record<AnomalySourceType, string> = {
+  invoice: 'Invoice',
+  bill: 'Bill',
+  bankTransaction: 'Bank Transaction',
+};
+
+export const DAY_OF_WEEK_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Features of the Xero dataset that are codes or labels rather than amounts, even when they look like numbers
+export const ANOMALY_CATEGORICAL_FEATURES: (keyof AnomalyFeatures)[] = ['dayOfWeek', 'accountCode', 'taxType'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Placeholder for transactions without an account code or tax type, so the categorical features are never blank
+const NONE = 'NONE';
+
+const isExcluded = (status: unknown) => ['DRAFT', 'SUBMITTED', 'VOIDED', 'DELETED'].includes(String(status || '').toUpperCase());
+
+const daysBetween = (from: string, to: string) =>
+  Math.max(0, Math.round((new Date(`${to}T00:00:00`).getTime() - new Date(`${from}T00:00:00`).getTime()) / DAY_MS));
+
+// The line with the largest amount decides the account code and tax type of the transaction
+const getMainLine = (lineItems?: XeroLineItem[]): XeroLineItem | null =>
+  (lineItems || []).reduce<XeroLineItem | null>(
+    (main, line) => (!main || Math.abs(toAmount(line.LineAmount)) > Math.abs(toAmount(main.LineAmount)) ? line : main),
+    null
+  );
+
+/**
+ * Works out when each invoice was paid in full from its payments
+ * @returns Date of the last payment of each invoice (YYYY-MM-DD), by InvoiceID
+ */
+const getLastPaymentDates = (payments: XeroPayment[]) => {
+  const dates = new Map<string, string>();
+  payments.forEach((payment) => {
+    const invoiceId = payment?.Invoice?.InvoiceID;
+    const date = parseXeroDate(payment?.Date);
+    if (!invoiceId || !date || String(payment.Status || '').toUpperCase() === 'DELETED') return;
+    const day = toISODate(date);
+    if (!dates.has(invoiceId) || day > dates.get(invoiceId)!) dates.set(invoiceId, day);
+  });
+  return dates;
+};
+
+/**
+ * Derives the anomaly detection features of a period's invoices, bills and bank transactions. Draft,
+ * voided and deleted transactions are left out. Days to pay is measured to the date an invoice was
+ * paid in full; unpaid invoices count the days outstanding at the end of the period, and bank
+ * transactions are paid on the day.
+ * @param params.invoices - Sales invoices and bills of the period
+ * @param params.bankTransactions - Bank transactions of the period
+ * @param params.payments - Payments against the invoices, used when Xero does not return FullyPaidOnDate
+ * @param params.toDate - Period end (YYYY-MM-DD)
+ */
+export const buildAnomalyDataset = ({
+  invoices,
+  bankTransactions,
+  payments = [],
+  toDate,
+}: {
+  invoices: XeroInvoice[];
+  bankTransactions: XeroBankTransaction[];
+  payments?: XeroPayment[];
+  toDate: string;
+}): AnomalyDatasetRecord[] => {
+  const lastPaymentDates = getLastPaymentDates(payments);
+  const records: (Omit<AnomalyDatasetRecord, 'features'> & { features: Omit<AnomalyFeatures, 'contactFrequency'> })[] = [];
+
+  invoices.forEach((invoice) => {
+    const date = parseXeroDate(invoice?.Date);
+    if (!date || isExcluded(invoice.Status)) return;
+    const day = toISODate(date);
+    const mainLine = getMainLine(invoice.LineItems);
+    const fullyPaidDate = parseXeroDate(invoice.FullyPaidOnDate);
+    const paidDate =
+      (fullyPaidDate && toISODate(fullyPaidDate)) ||
+      (String(invoice.Status).toUpperCase() === 'PAID' ? lastPaymentDates.get(invoice.InvoiceID) : undefined);
+
+    records.push({
+      id: invoice.InvoiceID,
+      sourceType: invoice.Type === 'ACCPAY' ? 'bill' : 'invoice',
+      date: day,
+      reference: invoice.InvoiceNumber || invoice.Reference || '',
+      contactId: invoice.Contact?.ContactID || '',
+      contactName: invoice.Contact?.Name || '',
+      features: {
+        amount: roundCurrency(Math.abs(toAmount(invoice.Total))),
+        dayOfWeek: date.getDay(),
+        accountCode: mainLine?.AccountCode || NONE,
+        taxType: mainLine?.TaxType || NONE,
+        daysToPay: daysBetween(day, paidDate || toDate),
+      },
+    });
+  });
+
+  bankTransactions.forEach((transaction) => {
+    const date = parseXeroDate(transaction?.Date);
+    if (!date || isExcluded(transaction.Status)) return;
+    const mainLine = getMainLine(transaction.LineItems);
+
+    records.push({
+      id: transaction.BankTransactionID,
+      sourceType: 'bankTransaction',
+      date: toISODate(date),
+      reference: transaction.Reference || '',
+      contactId: transaction.Contact?.ContactID || '',
+      contactName: transaction.Contact?.Name || '',
+      features: {
+        amount: roundCurrency(Math.abs(toAmount(transaction.Total))),
+        dayOfWeek: date.getDay(),
+        accountCode: mainLine?.AccountCode || NONE,
+        taxType: mainLine?.TaxType || NONE,
+        daysToPay: 0,
+      },
+    });
+  });
+
+  // Transactions without a contact are counted together
+  const contactCounts = new Map<string, number>();
+  records.forEach((record) => contactCounts.set(record.contactId, (contactCounts.get(record.contactId) || 0) + 1));
+
+  return records
+    .map((record) => ({
+      ...record,
+      features: { ...record.features, contactFrequency: contactCounts.get(record.contactId) || 0 },
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Feature rows to send as the training or scoring dataset, in the same order as the records. The day of the
+ * week is sent as its name so it is treated as a category; as a number Saturday would sit furthest from Sunday.
+ */
+export const toAnomalyTrainingDataset = (records: AnomalyDatasetRecord[]): Record<string, any>[] =>
+  records.map((record) => {
+    const { amount, dayOfWeek, contactFrequency, accountCode, taxType, daysToPay } = record.features;
+    return { amount, dayOfWeek: DAY_OF_WEEK_LABELS[dayOfWeek], contactFrequency, accountCode, taxType, daysToPay };
+  });
+
+/**
+ * The transaction behind a dataset row, as shown when explaining a result
+ */
+export const getAnomalyRecordDetails = (record: AnomalyDatasetRecord): Record<string, string | number> => ({
+  Type: ANOMALY_SOURCE_LABELS[record.sourceType],
+  Date: record.date,
+  Reference: record.reference || '-',
+  Contact: record.contactName || '-',
+  Amount: record.features.amount,
+  Day: DAY_OF_WEEK_LABELS[record.features.dayOfWeek],
+  'Account Code': record.features.accountCode,
+  'Tax Type': record.features.taxType,
+  'Days to Pay': record.features.daysToPay,
+  'Transactions with Contact': record.features.contactFrequency,
+});
+
+/**
+ * Peer groups of a Xero dataset: transactions with the same contact and coded to the same account
+ */
+export const getAnomalyDatasetPeerGroups = (records: AnomalyDatasetRecord[]): AnomalyPeerGroup[] => [
+  { name: 'contact', keys: records.map((record) => record.contactName || null) },
+  { name: 'account', keys: records.map((record) => (record.features.accountCode !== NONE ? record.features.accountCode : null)) },
+];
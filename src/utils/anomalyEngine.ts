@@ -0,0 +1,274 @@
+import { ScoringResponse, ScoringResult, TrainingParameters } from '../api/anomalyDetectionService';
+import { parseNumericCell } from './anomalyColumnMapping';
+import { getMedian, getRobustStats, isMissing, RobustStats } from './anomalyStats';
+
+/**
+ * Anomaly Engine
+ * Isolation forest and robust z-score (MAD) detectors that train and score in the browser,
+ * for when the anomaly detection service is unavailable
+ */
+
+export type AnomalyEngine = 'service' | 'isolationForest' | 'robustZScore';
+
+export type LocalAnomalyEngine = Exclude<AnomalyEngine, 'service'>;
+
+interface IsolationTreeNode {
+  size: number;
+  feature?: number;
+  split?: number;
+  left?: IsolationTreeNode;
+  right?: IsolationTreeNode;
+}
+
+interface FeatureEncoding {
+  name: string;
+  kind: 'numeric' | 'categorical';
+  /** Training median, used for missing numeric values */
+  median: number;
+  /** Share of the training rows with each category; categories are scored on how rare they are */
+  frequencies: Record<string, number>;
+}
+
+export interface LocalAnomalyModel {
+  engine: LocalAnomalyEngine;
+  name: string;
+  parameters: TrainingParameters;
+  trainedAt: string;
+  sampleCount: number;
+  features: FeatureEncoding[];
+  /** Scores at or above this are anomalies; set so the contamination share of the training rows is flagged */
+  cutoff: number;
+  trees: IsolationTreeNode[];
+  subsampleSize: number;
+  scales: RobustStats[];
+}
+
+export const ANOMALY_ENGINE_LABELS: Record<AnomalyEngine, string> = {
+  service: 'Anomaly detection service',
+  isolationForest: 'Isolation forest (in browser)',
+  robustZScore: 'Robust z-score / MAD (in browser)',
+};
+
+export const DEFAULT_LOCAL_PARAMETERS: Required<Pick<TrainingParameters, 'contamination' | 'nEstimators' | 'randomState'>> = {
+  contamination: 0.1,
+  nEstimators: 100,
+  randomState: 42,
+};
+
+// Rows sampled to grow each isolation tree
+const MAX_SUBSAMPLE_SIZE = 256;
+
+// Robust z-score given to a value that differs from a feature that was constant in training
+const MAX_ROBUST_Z = 100;
+
+// Rows are only flagged by the robust z-score detector beyond this |z|, the usual outlier cut-off for modified z-scores
+const MIN_ROBUST_Z_CUTOFF = 3.5;
+
+const EULER_GAMMA = 0.5772156649;
+
+/**
+ * Seeded random number generator (mulberry32), so training with the same randomState gives the same model
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Works out how each field of the training rows is encoded: the given categorical fields and fields with
+ * any value that is not a number are categorical, and the rest are numeric. Codes such as Xero account
+ * codes look like numbers but must be passed as categorical, or they would be treated as magnitudes.
+ */
+const getFeatureEncodings = (dataset: Record<string, any>[], categoricalFields: string[]): FeatureEncoding[] => {
+  const names = Array.from(new Set(dataset.reduce<string[]>((keys, row) => keys.concat(Object.keys(row || {})), [])));
+
+  return names.map((name) => {
+    const values = dataset.map((row) => row?.[name]).filter((value) => !isMissing(value));
+    const numbers = values.map((value) => parseNumericCell(value));
+    if (!categoricalFields.includes(name) && numbers.every((value) => value !== null)) {
+      return { name, kind: 'numeric', median: getMedian(numbers as number[]), frequencies: {} };
+    }
+
+    const frequencies: Record<string, number> = {};
+    dataset.forEach((row) => {
+      const category = isMissing(row?.[name]) ? '' : String(row[name]).trim();
+      frequencies[category] = (frequencies[category] || 0) + 1 / dataset.length;
+    });
+    return { name, kind: 'categorical', median: 0, frequencies };
+  });
+};
+
+const encodeRow = (row: Record<string, any>, features: FeatureEncoding[]): number[] =>
+  features.map((feature) => {
+    const value = row?.[feature.name];
+    if (feature.kind === 'numeric') {
+      return isMissing(value) ? feature.median : parseNumericCell(value) ?? feature.median;
+    }
+    return feature.frequencies[isMissing(value) ? '' : String(value).trim()] || 0;
+  });
+
+/**
+ * Average path length of an unsuccessful search in a binary search tree of n rows, used to normalise path lengths
+ */
+const averagePathLength = (n: number) => {
+  if (n > 2) return 2 * (Math.log(n - 1) + EULER_GAMMA) - (2 * (n - 1)) / n;
+  return n === 2 ? 1 : 0;
+};
+
+const growTree = (rows: number[][], depth: number, maxDepth: number, random: () => number): IsolationTreeNode => {
+  if (depth >= maxDepth || rows.length <= 1) return { size: rows.length };
+
+  // Only features that still vary within the node can split it
+  const candidates: { feature: number; min: number; max: number }[] = [];
+  for (let feature = 0; feature < rows[0].length; feature += 1) {
+    let min = Infinity;
+    let max = -Infinity;
+    rows.forEach((row) => {
+      min = Math.min(min, row[feature]);
+      max = Math.max(max, row[feature]);
+    });
+    if (max > min) candidates.push({ feature, min, max });
+  }
+  if (candidates.length === 0) return { size: rows.length };
+
+  const { feature, min, max } = candidates[Math.floor(random() * candidates.length)];
+  const split = min + random() * (max - min);
+  return {
+    size: rows.length,
+    feature,
+    split,
+    left: growTree(rows.filter((row) => row[feature] < split), depth + 1, maxDepth, random),
+    right: growTree(rows.filter((row) => row[feature] >= split), depth + 1, maxDepth, random),
+  };
+};
+
+const getPathLength = (node: IsolationTreeNode, row: number[], depth = 0): number => {
+  if (node.feature === undefined || !node.left || !node.right) return depth + averagePathLength(node.size);
+  return getPathLength(row[node.feature] < node.split! ? node.left : node.right, row, depth + 1);
+};
+
+const getRobustScales = (rows: number[][]): RobustStats[] =>
+  (rows[0] || []).map((_, feature) => getRobustStats(rows.map((row) => row[feature])));
+
+/**
+ * Scores encoded rows: the isolation forest gives 2^(-E[h(x)]/c(n)) between 0 and 1, and the robust
+ * z-score detector gives the largest |z| across the features
+ */
+const scoreRows = (model: LocalAnomalyModel, rows: number[][]): number[] => {
+  if (model.engine === 'isolationForest') {
+    const normaliser = averagePathLength(model.subsampleSize) || 1;
+    return rows.map((row) => {
+      const meanPath = model.trees.reduce((sum, tree) => sum + getPathLength(tree, row), 0) / model.trees.length;
+      return Math.pow(2, -meanPath / normaliser);
+    });
+  }
+
+  return rows.map((row) =>
+    model.scales.reduce((largest, { median, scale }, feature) => {
+      const deviation = Math.abs(row[feature] - median);
+      const z = scale > 0 ? deviation / scale : deviation > 0 ? MAX_ROBUST_Z : 0;
+      return Math.max(largest, z);
+    }, 0)
+  );
+};
+
+/**
+ * Trains an anomaly model on a dataset in the browser
+ * @param params.engine - Isolation forest or robust z-score detector
+ * @param params.dataset - Training rows; numeric and categorical fields are detected from the values
+ * @param params.parameters - contamination sets the share of training rows flagged (at most, for the
+ * robust z-score detector); nEstimators and randomState are used by the isolation forest
+ * @param params.categoricalFields - Fields encoded as categories even when their values are numbers;
+ * defaults to the categorical columns of the parameters' column mapping
+ */
+export const trainLocalAnomalyModel = ({
+  engine,
+  dataset,
+  name,
+  parameters,
+  categoricalFields = parameters.columnMapping?.categoricalColumns || [],
+}: {
+  engine: LocalAnomalyEngine;
+  dataset: Record<string, any>[];
+  name: string;
+  parameters: TrainingParameters;
+  categoricalFields?: string[];
+}): LocalAnomalyModel => {
+  if (dataset.length === 0) throw new Error('The dataset is empty');
+  const { contamination, nEstimators, randomState } = { ...DEFAULT_LOCAL_PARAMETERS, ...parameters };
+  const features = getFeatureEncodings(dataset, categoricalFields);
+  if (features.length === 0) throw new Error('The dataset has no fields to train on');
+  const rows = dataset.map((row) => encodeRow(row, features));
+
+  const random = createRandom(randomState);
+  const subsampleSize = Math.min(MAX_SUBSAMPLE_SIZE, rows.length);
+  const trees =
+    engine === 'isolationForest'
+      ? Array.from({ length: Math.max(1, nEstimators) }, () => {
+          // Sample without replacement with a partial Fisher-Yates shuffle
+          const indexes = rows.map((_, index) => index);
+          for (let i = 0; i < subsampleSize; i += 1) {
+            const j = i + Math.floor(random() * (indexes.length - i));
+            [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+          }
+          const sample = indexes.slice(0, subsampleSize).map((index) => rows[index]);
+          return growTree(sample, 0, Math.ceil(Math.log2(Math.max(2, subsampleSize))), random);
+        })
+      : [];
+
+  const model: LocalAnomalyModel = {
+    engine,
+    name,
+    parameters: { ...parameters, contamination, nEstimators, randomState },
+    trainedAt: new Date().toISOString(),
+    sampleCount: rows.length,
+    features,
+    cutoff: Infinity,
+    trees,
+    subsampleSize,
+    scales: engine === 'robustZScore' ? getRobustScales(rows) : [],
+  };
+
+  // The cutoff is the score of the last row inside the contamination share, highest scores first
+  const scores = scoreRows(model, rows).sort((a, b) => b - a);
+  const flagged = Math.min(scores.length, Math.max(1, Math.round(scores.length * Math.min(Math.max(contamination, 0), 0.5))));
+  model.cutoff = engine === 'robustZScore' ? Math.max(scores[flagged - 1], MIN_ROBUST_Z_CUTOFF) : scores[flagged - 1];
+  return model;
+};
+
+/**
+ * Scores rows with a browser model, in the same shape as the anomaly detection service's response
+ * @param model - Model from trainLocalAnomalyModel
+ * @param data - Rows to score, with the fields the model was trained on
+ */
+export const scoreWithLocalModel = (model: LocalAnomalyModel, data: Record<string, any>[]): ScoringResponse => {
+  const scores = scoreRows(
+    model,
+    data.map((row) => encodeRow(row, model.features))
+  );
+  const results: ScoringResult[] = scores.map((score, index) => ({ index, score, isAnomaly: score >= model.cutoff }));
+  const anomaliesDetected = results.filter((result) => result.isAnomaly).length;
+  const meanScore = scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+  const variance = scores.length ? scores.reduce((sum, score) => sum + Math.pow(score - meanScore, 2), 0) / scores.length : 0;
+
+  return {
+    success: true,
+    message: `Scored in the browser with ${ANOMALY_ENGINE_LABELS[model.engine]}`,
+    data: {
+      totalSamples: scores.length,
+      anomaliesDetected,
+      summary: {
+        anomalyRate: scores.length ? anomaliesDetected / scores.length : 0,
+        meanScore,
+        stdScore: Math.sqrt(variance),
+      },
+      results,
+    },
+  };
+};
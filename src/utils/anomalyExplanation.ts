@@ -0,0 +1,249 @@
+import { ScoringResult } from '../api/anomalyDetectionService';
+import { parseNumericCell } from './anomalyColumnMapping';
+import { getRobustStats, isMissing, RobustStats } from './anomalyStats';
+
+/**
+ * Anomaly Explanation
+ * Explains why rows were flagged: which fields deviate most from their typical values, overall and
+ * within peer groups such as the same contact or account
+ */
+
+/** Rows that share a key, e.g. the contact of each row; rows without a key belong to no group */
+export interface AnomalyPeerGroup {
+  name: string;
+  keys: (string | null)[];
+}
+
+/** What was scored, kept with the results so they can be explained */
+export interface AnomalyScoredDataset {
+  /** Rows as sent for scoring */
+  data: Record<string, any>[];
+  /** Original record of each row, e.g. the Xero transaction or the row of the imported file */
+  originals: Record<string, any>[];
+  identifiers: (string | null)[] | null;
+  peerGroups: AnomalyPeerGroup[];
+  /** Fields that are categories even when their values look like numbers, e.g. account codes */
+  categoricalFields?: string[];
+}
+
+export interface AnomalyPeerComparison {
+  group: string;
+  key: string;
+  /** Number of other rows in the group */
+  size: number;
+  typical: number;
+  deviation: number;
+}
+
+export interface AnomalyFeatureContribution {
+  field: string;
+  kind: 'numeric' | 'categorical';
+  value: string | number | null;
+  /** Median of the field across all rows; null for categorical fields */
+  typical: number | null;
+  /** Robust z-score for numeric fields, or the rarity of the value on the same scale for categorical fields */
+  deviation: number;
+  /** Share of the row's total deviation */
+  share: number;
+  /** Share of rows with the same value, for categorical fields */
+  frequency: number | null;
+  /** Comparison with the peer group in which the value is most unusual */
+  peer: AnomalyPeerComparison | null;
+}
+
+export interface AnomalyExplanation {
+  index: number;
+  score: number;
+  identifier: string | null;
+  record: Record<string, any>;
+  contributions: AnomalyFeatureContribution[];
+  reason: string;
+}
+
+// Deviation at which a field is considered unusual: the usual outlier cut-off for modified z-scores
+export const UNUSUAL_DEVIATION = 3.5;
+
+// Fields below this deviation are not mentioned in the reason
+const NOTABLE_DEVIATION = 2;
+
+// A categorical value seen in this share of rows counts as deviating by UNUSUAL_DEVIATION
+const RARE_CATEGORY_SHARE = 0.05;
+
+// Peer groups need this many other rows to be compared with
+const MIN_PEER_SIZE = 5;
+
+// Fields mentioned in the reason
+const REASON_FIELDS = 3;
+
+const getDeviation = (value: number, { median, scale }: RobustStats) => {
+  if (scale > 0) return (value - median) / scale;
+  // Every other value is the same, so any difference is as unusual as it gets
+  return value === median ? 0 : Math.sign(value - median) * UNUSUAL_DEVIATION * 2;
+};
+
+/**
+ * Turns a field name into words, e.g. 'dayOfWeek' -> 'day of week'
+ */
+export const toFieldLabel = (field: string) =>
+  field
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+const formatNumber = (value: number) => value.toLocaleString('en-AU', { maximumFractionDigits: 2 });
+
+const describeDeviation = (deviation: number) => {
+  const size = Math.abs(deviation);
+  const direction = deviation > 0 ? 'above' : 'below';
+  if (size >= UNUSUAL_DEVIATION * 3) return `far ${direction}`;
+  if (size >= UNUSUAL_DEVIATION) return `well ${direction}`;
+  return direction;
+};
+
+/**
+ * Peer groups from the text fields of the rows that repeat, e.g. a location or account code
+ * @param data - Scored rows
+ * @param fields - Fields to group by, even when their values are numbers; defaults to every field with
+ * repeated text values
+ */
+export const getFieldPeerGroups = (data: Record<string, any>[], fields?: string[]): AnomalyPeerGroup[] => {
+  const names =
+    fields ||
+    Array.from(new Set(data.reduce<string[]>((keys, row) => keys.concat(Object.keys(row || {})), []))).filter((name) => {
+      const values = data.map((row) => row?.[name]).filter((value) => !isMissing(value));
+      return values.some((value) => parseNumericCell(value) === null) && new Set(values.map(String)).size < values.length;
+    });
+  return names.map((name) => ({
+    name: toFieldLabel(name),
+    keys: data.map((row) => (isMissing(row?.[name]) ? null : String(row[name]).trim())),
+  }));
+};
+
+/**
+ * Explains the flagged results of a scoring run
+ * @param dataset - What was scored
+ * @param results - Scoring results; only anomalies are explained
+ * @returns Explanations of the anomalies, highest score first
+ */
+export const explainAnomalies = (dataset: AnomalyScoredDataset, results: ScoringResult[]): AnomalyExplanation[] => {
+  const { data, originals, identifiers, peerGroups, categoricalFields: categoricalNames = [] } = dataset;
+  const fields = Array.from(new Set(data.reduce<string[]>((keys, row) => keys.concat(Object.keys(row || {})), [])));
+
+  const numericFields = new Map<string, (number | null)[]>();
+  const categoricalFields = new Map<string, Map<string, number>>();
+  fields.forEach((field) => {
+    const values = data.map((row) => (isMissing(row?.[field]) ? null : parseNumericCell(row[field])));
+    const present = data.filter((row) => !isMissing(row?.[field])).length;
+    if (!categoricalNames.includes(field) && present > 0 && values.filter((value) => value !== null).length === present) {
+      numericFields.set(field, values);
+    } else {
+      const counts = new Map<string, number>();
+      data.forEach((row) => {
+        const key = isMissing(row?.[field]) ? '' : String(row[field]).trim();
+        counts.set(key, (counts.get(key) || 0) + 1);
+      });
+      categoricalFields.set(field, counts);
+    }
+  });
+
+  const overallStats = new Map<string, RobustStats>();
+  numericFields.forEach((values, field) =>
+    overallStats.set(field, getRobustStats(values.filter((value): value is number => value !== null)))
+  );
+
+  // A row is compared with the other rows of its peer group, leaving itself out
+  const comparePeers = (field: string, value: number, rowIndex: number) =>
+    peerGroups.reduce<AnomalyPeerComparison | null>((mostUnusual, group) => {
+      const key = group.keys[rowIndex];
+      if (!key) return mostUnusual;
+      const values = numericFields.get(field)!;
+      const others = group.keys
+        .map((peerKey, index) => (peerKey === key && index !== rowIndex ? values[index] : null))
+        .filter((peerValue): peerValue is number => peerValue !== null);
+      if (others.length < MIN_PEER_SIZE) return mostUnusual;
+
+      const stats = getRobustStats(others);
+      const deviation = getDeviation(value, stats);
+      return !mostUnusual || Math.abs(deviation) > Math.abs(mostUnusual.deviation)
+        ? { group: group.name, key, size: others.length, typical: stats.median, deviation }
+        : mostUnusual;
+    }, null);
+
+  return results
+    .filter((result) => result.isAnomaly && data[result.index])
+    .sort((a, b) => b.score - a.score)
+    .map((result) => {
+      const row = data[result.index];
+
+      const contributions: AnomalyFeatureContribution[] = fields.map((field) => {
+        const numericValues = numericFields.get(field);
+        if (numericValues) {
+          const value = numericValues[result.index];
+          if (value === null) {
+            const { median } = overallStats.get(field)!;
+            return { field, kind: 'numeric', value: null, typical: median, deviation: 0, share: 0, frequency: null, peer: null };
+          }
+          const stats = overallStats.get(field)!;
+          return {
+            field,
+            kind: 'numeric',
+            value,
+            typical: stats.median,
+            deviation: getDeviation(value, stats),
+            share: 0,
+            frequency: null,
+            peer: comparePeers(field, value, result.index),
+          };
+        }
+
+        const counts = categoricalFields.get(field)!;
+        const value = isMissing(row?.[field]) ? null : String(row[field]).trim();
+        const frequency = (counts.get(value ?? '') || 0) / data.length;
+        // Rarity on the robust z-score scale: a value in RARE_CATEGORY_SHARE of rows scores UNUSUAL_DEVIATION
+        const deviation = frequency > 0 ? (UNUSUAL_DEVIATION * Math.log(1 / frequency)) / Math.log(1 / RARE_CATEGORY_SHARE) : 0;
+        return { field, kind: 'categorical', value, typical: null, deviation, share: 0, frequency, peer: null };
+      });
+
+      const strength = (contribution: AnomalyFeatureContribution) =>
+        Math.max(Math.abs(contribution.deviation), Math.abs(contribution.peer?.deviation || 0));
+      const total = contributions.reduce((sum, contribution) => sum + strength(contribution), 0);
+      contributions.forEach((contribution) => {
+        contribution.share = total > 0 ? strength(contribution) / total : 0;
+      });
+      contributions.sort((a, b) => strength(b) - strength(a));
+
+      const reasons = contributions
+        .filter((contribution) => strength(contribution) >= NOTABLE_DEVIATION)
+        .slice(0, REASON_FIELDS)
+        .map((contribution) => {
+          const label = toFieldLabel(contribution.field);
+          if (contribution.kind === 'categorical') {
+            return `${label} "${contribution.value ?? 'blank'}" appears in only ${((contribution.frequency || 0) * 100).toFixed(1)}% of rows`;
+          }
+          const value = contribution.value as number;
+          const parts: string[] = [];
+          if (Math.abs(contribution.deviation) >= NOTABLE_DEVIATION) {
+            parts.push(`${describeDeviation(contribution.deviation)} the typical ${formatNumber(contribution.typical!)}`);
+          }
+          if (contribution.peer && Math.abs(contribution.peer.deviation) >= NOTABLE_DEVIATION) {
+            parts.push(
+              `${describeDeviation(contribution.peer.deviation)} the typical ${formatNumber(contribution.peer.typical)} for ${contribution.peer.group} "${contribution.peer.key}"`
+            );
+          }
+          return `${label} ${formatNumber(value)} is ${parts.join(' and ')}`;
+        });
+      const reason = reasons.length
+        ? `Flagged because ${reasons.join('; ')}.`
+        : 'No single field stands out; it is the combination of values that is unusual.';
+
+      return {
+        index: result.index,
+        score: result.score,
+        identifier: identifiers?.[result.index] ?? null,
+        record: originals[result.index] || row,
+        contributions,
+        reason,
+      };
+    });
+};
@@ -0,0 +1,135 @@
+import {
+  AnomalyFalsePositiveHandling,
+  AnomalyReview,
+  AnomalyReviewStatus,
+  ModelMetrics,
+} from '../api/anomalyDetectionService';
+
+/**
+ * Anomaly Reviews
+ * Matches analyst reviews of flagged results to dataset rows, reports model precision and applies
+ * reviewed false positives when retraining
+ */
+
+export const ANOMALY_REVIEW_STATUS_LABELS: Record<AnomalyReviewStatus, string> = {
+  confirmed: 'Confirmed issue',
+  falsePositive: 'False positive',
+  followUp: 'Needs follow-up',
+};
+
+export const ANOMALY_REVIEW_STATUS_COLORS: Record<AnomalyReviewStatus, 'error' | 'success' | 'warning'> = {
+  confirmed: 'error',
+  falsePositive: 'success',
+  followUp: 'warning',
+};
+
+export const ANOMALY_FALSE_POSITIVE_HANDLING_LABELS: Record<AnomalyFalsePositiveHandling, string> = {
+  exclude: 'Leave false positives out of training',
+  weight: 'Weight false positives as normal',
+};
+
+export const DEFAULT_FALSE_POSITIVE_WEIGHT = 3;
+
+// FNV-1a, enough to tell rows apart without keeping their values in the key
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Fingerprint of a row's values, independent of the order of its fields
+ */
+export const getAnomalyRowFingerprint = (row: Record<string, any>) =>
+  `row:${hashText(
+    JSON.stringify(
+      Object.keys(row || {})
+        .sort()
+        .map((field) => [field, row[field]])
+    )
+  )}`;
+
+/**
+ * Keys reviews are saved under: the identifiers when every row has a different one, otherwise a fingerprint of each row
+ * @param data - Dataset rows
+ * @param identifiers - Identifier of each row, e.g. the Xero transaction ID
+ */
+export const getAnomalyRowKeys = (data: Record<string, any>[], identifiers?: (string | null)[] | null): string[] => {
+  const present = (identifiers || []).filter((identifier): identifier is string => Boolean(identifier));
+  if (identifiers && present.length === data.length && new Set(present).size === data.length) {
+    return present.map((identifier) => `id:${identifier}`);
+  }
+  return data.map(getAnomalyRowFingerprint);
+};
+
+const getReviewTime = (review: AnomalyReview) => (review.reviewedAt ? new Date(review.reviewedAt).getTime() : 0);
+
+/**
+ * The latest review of each row, optionally only those given on one model's results
+ * @param reviews - Saved reviews
+ * @param modelId - Model whose results were reviewed; undefined for reviews of any model
+ * @returns Reviews by row key
+ */
+export const getLatestReviews = (reviews: AnomalyReview[], modelId?: string | null): Map<string, AnomalyReview> => {
+  const latest = new Map<string, AnomalyReview>();
+  reviews
+    .filter((review) => modelId === undefined || review.modelId === modelId)
+    .forEach((review) => {
+      const current = latest.get(review.rowKey);
+      if (!current || getReviewTime(review) >= getReviewTime(current)) latest.set(review.rowKey, review);
+    });
+  return latest;
+};
+
+/**
+ * Precision of a model from the reviews of its flags. Flags that need follow-up are not counted until
+ * they are confirmed or marked as false positives. Recall needs the anomalies the model missed, which
+ * reviews of flagged results cannot tell, so it is left out.
+ * @param reviews - Reviews of the model's results
+ */
+export const getReviewMetrics = (reviews: AnomalyReview[]): ModelMetrics => {
+  const latest = Array.from(getLatestReviews(reviews).values());
+  const confirmed = latest.filter((review) => review.status === 'confirmed').length;
+  const reviewedCount = confirmed + latest.filter((review) => review.status === 'falsePositive').length;
+  return reviewedCount > 0 ? { precision: confirmed / reviewedCount, reviewedCount } : { reviewedCount };
+};
+
+/**
+ * Applies reviewed false positives to a training dataset: they are either left out or repeated so the
+ * model learns them as normal
+ * @param params.dataset - Training rows
+ * @param params.rowKeys - Key of each training row
+ * @param params.reviews - Saved reviews of any model; the latest review of each row counts
+ * @param params.handling - Whether to exclude or weight the false positives
+ * @param params.weight - Times each false positive is included when weighted
+ */
+export const applyReviewFeedback = <T>({
+  dataset,
+  rowKeys,
+  reviews,
+  handling,
+  weight = DEFAULT_FALSE_POSITIVE_WEIGHT,
+}: {
+  dataset: T[];
+  rowKeys: string[];
+  reviews: AnomalyReview[];
+  handling: AnomalyFalsePositiveHandling;
+  weight?: number;
+}): { dataset: T[]; falsePositiveRows: number } => {
+  const latest = getLatestReviews(reviews);
+  const isFalsePositive = (index: number) => latest.get(rowKeys[index])?.status === 'falsePositive';
+  const falsePositiveRows = dataset.filter((_, index) => isFalsePositive(index)).length;
+
+  if (handling === 'exclude') {
+    return { dataset: dataset.filter((_, index) => !isFalsePositive(index)), falsePositiveRows };
+  }
+  const copies = Math.max(1, Math.round(weight));
+  const weighted: T[] = [];
+  dataset.forEach((row, index) => {
+    for (let copy = isFalsePositive(index) ? copies : 1; copy > 0; copy -= 1) weighted.push(row);
+  });
+  return { dataset: weighted, falsePositiveRows };
+};
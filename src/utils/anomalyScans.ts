@@ -0,0 +1,68 @@
+import { AnomalyScanFrequency, AnomalyScanSchedule } from '../api/anomalyScanService';
+import { DAY_OF_WEEK_LABELS } from './anomalyDataset';
+
+/**
+ * Anomaly Scans
+ * Defaults and wording for scheduled scans of new Xero transactions
+ */
+
+export const ANOMALY_SCAN_FREQUENCY_LABELS: Record<AnomalyScanFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+// Used when the browser does not report its time zone
+const FALLBACK_TIME_ZONE = 'Australia/Sydney';
+
+/**
+ * IANA time zone of the browser, which new schedules run in
+ */
+export const getBrowserTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || FALLBACK_TIME_ZONE;
+  } catch {
+    return FALLBACK_TIME_ZONE;
+  }
+};
+
+// Query parameter that opens a scan on the Anomaly Detection page; alerts link to it
+export const ANOMALY_SCAN_QUERY_PARAM = 'scan';
+
+export const DEFAULT_ANOMALY_SCAN_SCHEDULE: AnomalyScanSchedule = {
+  enabled: false,
+  tenantId: '',
+  frequency: 'daily',
+  dayOfWeek: 1,
+  runAt: '06:00',
+  timeZone: getBrowserTimeZone(),
+  alertMinAnomalies: 1,
+  alertMinScore: null,
+  smsEnabled: false,
+  emailEnabled: true,
+};
+
+/**
+ * Path of the page showing a scan's flagged transactions
+ */
+export const getAnomalyScanRunPath = (runId: number | string) =>
+  `/anomaly-detection?${ANOMALY_SCAN_QUERY_PARAM}=${encodeURIComponent(String(runId))}`;
+
+/**
+ * Describes when a schedule runs, e.g. 'Weekly on Mon at 06:00 (Australia/Sydney)'
+ */
+export const describeAnomalyScanSchedule = (
+  schedule: Pick<AnomalyScanSchedule, 'frequency' | 'dayOfWeek' | 'runAt' | 'timeZone'>
+) => {
+  const time = `${schedule.runAt} (${schedule.timeZone})`;
+  return schedule.frequency === 'weekly'
+    ? `Weekly on ${DAY_OF_WEEK_LABELS[schedule.dayOfWeek] || DAY_OF_WEEK_LABELS[1]} at ${time}`
+    : `Daily at ${time}`;
+};
+
+/**
+ * Describes when a scan sends an alert, e.g. 'at least 3 flagged transactions or a score of 0.8 or more'
+ */
+export const describeAnomalyScanAlert = (schedule: Pick<AnomalyScanSchedule, 'alertMinAnomalies' | 'alertMinScore'>) => {
+  const count = `at least ${schedule.alertMinAnomalies} flagged ${schedule.alertMinAnomalies === 1 ? 'transaction' : 'transactions'}`;
+  return schedule.alertMinScore !== null ? `${count} or a score of ${schedule.alertMinScore} or more` : count;
+};
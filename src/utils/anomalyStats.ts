@@ -0,0 +1,42 @@
+/**
+ * Anomaly Stats
+ * Robust statistics shared by the local anomaly detectors, the explanations and the column mapping
+ */
+
+export interface RobustStats {
+  median: number;
+  /** MAD scaled to a standard deviation, or the scaled mean absolute deviation when the MAD is 0 */
+  scale: number;
+}
+
+// Scales the MAD to the standard deviation of normally distributed data
+export const MAD_TO_SD = 1.4826;
+export const MEAN_AD_TO_SD = 1.2533;
+
+/**
+ * Blank cells: null, undefined or only whitespace
+ */
+export const isMissing = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+/**
+ * Median of the values, 0 when there are none
+ */
+export const getMedian = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Median and robust scale of the values. Falls back to the mean absolute deviation when more than half
+ * the values equal the median.
+ */
+export const getRobustStats = (values: number[]): RobustStats => {
+  const median = getMedian(values);
+  const mad = getMedian(values.map((value) => Math.abs(value - median)));
+  const meanAbsoluteDeviation = values.length
+    ? values.reduce((sum, value) => sum + Math.abs(value - median), 0) / values.length
+    : 0;
+  return { median, scale: mad > 0 ? mad * MAD_TO_SD : meanAbsoluteDeviation * MEAN_AD_TO_SD };
+};
@@ -0,0 +1,111 @@
+import { BASAdjustment, BASFieldValues } from '../api/basRecordService';
+import { roundCurrency, toAmount } from './xeroRecords';
+
+/**
+ * BAS Adjustments
+ * Applies manual G7/G18 adjustments and label overrides on top of the figures calculated from Xero
+ */
+
+export interface BASAdjustedLabel {
+  label: string;
+  calculated: number | string | null;
+  adjusted: number | string | null;
+}
+
+/**
+ * Labels a preparer can override. Adjustment labels are set through G7/G18 adjustments instead,
+ * and the derived labels (DERIVED_LABELS) are always worked out from the labels they total.
+ */
+export const OVERRIDABLE_LABELS = [
+  'G1', 'G2', 'G3', 'G10', 'G11', '1A', '1B',
+  'W1', 'W2', 'W3', 'W4',
+  'T1', 'T2', 'T3', 'T7', 'T9', '5B',
+  '1C', '1D', '1E', '1F', '7D',
+];
+
+/**
+ * Labels recalculated after overrides: W5 = W2 + W3 + W4, T11 = T1 × rate and 5A from T11 or the
+ * instalment amount
+ */
+export const DERIVED_LABELS = ['W5', 'T11', '5A'];
+
+/**
+ * GST included in a GST-inclusive adjustment amount
+ */
+export const getAdjustmentGst = (amount: number): number => roundCurrency(amount / 11);
+
+const isReported = (fields: BASFieldValues, label: string) =>
+  fields[label] !== undefined && fields[label] !== null && fields[label] !== '';
+
+/**
+ * Recalculates the derived labels the figures report, so they agree with overridden labels
+ */
+const recalculateDerivedLabels = (fields: BASFieldValues) => {
+  if (isReported(fields, 'W5')) {
+    fields.W5 = roundCurrency(toAmount(fields.W2) + toAmount(fields.W3) + toAmount(fields.W4));
+  }
+
+  // Rate method: T11 = T1 × (T3 when varied, otherwise T2) and 5A = T11
+  if (isReported(fields, 'T11')) {
+    const rate = isReported(fields, 'T3') ? toAmount(fields.T3) : toAmount(fields.T2);
+    fields.T11 = roundCurrency((toAmount(fields.T1) * rate) / 100);
+    fields['5A'] = fields.T11;
+  } else if (isReported(fields, 'T7') && isReported(fields, '5A')) {
+    // Amount method: 5A = T9 when varied, otherwise T7
+    fields['5A'] = roundCurrency(toAmount(isReported(fields, 'T9') ? fields.T9 : fields.T7));
+  }
+};
+
+/**
+ * Applies adjustments to BAS figures.
+ * Overrides replace the value of their label first; the latest override wins. G7 (increasing)
+ * adjustments then add their GST to 1A and G18 (decreasing) adjustments add theirs to 1B, so an
+ * override of 1A or 1B replaces the GST calculated from Xero but keeps the adjustments. Finally the
+ * derived labels are recalculated. The net amount is worked out from the returned figures.
+ * @param fields - Figures calculated from Xero
+ * @param adjustments - Manual adjustments recorded by the preparer
+ * @returns The adjusted figures, the labels whose value changed, and warnings about overrides that were not applied
+ */
+export const applyBASAdjustments = (
+  fields: BASFieldValues,
+  adjustments: BASAdjustment[]
+): { fields: BASFieldValues; changes: BASAdjustedLabel[]; warnings: string[] } => {
+  const adjusted: BASFieldValues = { ...fields };
+  const warnings: string[] = [];
+
+  [...adjustments]
+    .filter((adjustment) => adjustment.kind === 'Override')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach((adjustment) => {
+      if (DERIVED_LABELS.includes(adjustment.label)) {
+        warnings.push(
+          `The override of ${adjustment.label} was not applied: ${adjustment.label} is worked out from other labels. Override those instead.`
+        );
+        return;
+      }
+      adjusted[adjustment.label] = roundCurrency(toAmount(adjustment.amount));
+    });
+
+  const increasing = adjustments.filter((adjustment) => adjustment.kind === 'G7');
+  const decreasing = adjustments.filter((adjustment) => adjustment.kind === 'G18');
+  const total = (items: BASAdjustment[]) => roundCurrency(items.reduce((sum, item) => sum + toAmount(item.amount), 0));
+
+  if (increasing.length > 0) {
+    const amount = total(increasing);
+    adjusted.G7 = amount;
+    adjusted['1A'] = roundCurrency(toAmount(adjusted['1A']) + getAdjustmentGst(amount));
+  }
+  if (decreasing.length > 0) {
+    const amount = total(decreasing);
+    adjusted.G18 = amount;
+    adjusted['1B'] = roundCurrency(toAmount(adjusted['1B']) + getAdjustmentGst(amount));
+  }
+
+  recalculateDerivedLabels(adjusted);
+
+  const changes = Object.keys(adjusted)
+    .filter((label) => adjusted[label] !== fields[label])
+    .map((label) => ({ label, calculated: fields[label] ?? null, adjusted: adjusted[label] ?? null }));
+
+  return { fields: adjusted, changes, warnings };
+};
@@ -0,0 +1,182 @@
+import { Company, ComplianceDeadlines } from '../api/companyService';
+import { XeroCompanyStatus } from '../api/xeroService';
+import { BASCalculationResult } from './basCalculation';
+import { getBasDueDate } from './basWorkflow';
+import { generateReportingPeriods, getFinancialYearForDate, ReportingPeriod, ReportingPeriodOptions } from './reportingPeriods';
+import { toISODate } from './xeroRecords';
+
+/**
+ * BAS Batch
+ * Selects the companies whose BAS falls due in a month and runs their calculations in a throttled queue
+ */
+
+export type BASBatchStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BASBatchCandidate {
+  companyId: number;
+  companyName: string;
+  tenantId: string;
+  period: ReportingPeriod;
+  /** Lodgement due date (YYYY-MM-DD) */
+  dueDate: string;
+}
+
+// Reconciliation differences up to this amount are treated as rounding
+const RECONCILIATION_TOLERANCE = 1;
+
+/**
+ * Finds the BAS period whose lodgement falls due in a month
+ * @param month - Due month (YYYY-MM)
+ * @param options - Lodgement frequency and financial year end of the company
+ * @param deadlines - Configured compliance deadlines
+ * @returns The period and its due date, or null when the company has no BAS due that month
+ */
+export const findBasPeriodDueIn = (
+  month: string,
+  options: ReportingPeriodOptions,
+  deadlines?: ComplianceDeadlines | null
+): { period: ReportingPeriod; dueDate: Date } | null => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  if (!year || !monthNumber) return null;
+  const monthStart = new Date(year, monthNumber - 1, 1);
+  const monthEnd = new Date(year, monthNumber, 0);
+
+  // A BAS falls due up to four months after its period ends, so the previous financial year is searched too
+  const financialYear = getFinancialYearForDate(monthStart, options.financialYearEnd);
+  const periods = [financialYear - 1, financialYear].flatMap((fy) => generateReportingPeriods(fy, options));
+
+  for (const period of periods) {
+    const dueDate = getBasDueDate(period, deadlines);
+    if (dueDate >= monthStart && dueDate <= monthEnd) {
+      return { period, dueDate };
+    }
+  }
+  return null;
+};
+
+/**
+ * Lists the companies with a connected Xero organisation whose BAS falls due in a month
+ * @param params.companies - All companies, with their compliance profile
+ * @param params.statuses - Xero connection status of each company
+ * @param params.month - Due month (YYYY-MM)
+ * @param params.deadlines - Configured compliance deadlines
+ */
+export const getBASBatchCandidates = ({
+  companies,
+  statuses,
+  month,
+  deadlines,
+}: {
+  companies: Company[];
+  statuses: XeroCompanyStatus[];
+  month: string;
+  deadlines?: ComplianceDeadlines | null;
+}): BASBatchCandidate[] => {
+  const statusById = new Map(statuses.map((status) => [status.id, status]));
+
+  return companies
+    .filter((company) => company.isActive !== false && !company.superadmin && company.role !== 'superadmin')
+    .flatMap((company) => {
+      const xero = statusById.get(company.id)?.xeroSettings;
+      if (!xero?.isConnected || !xero.tenantId) return [];
+
+      const due = findBasPeriodDueIn(
+        month,
+        { frequency: company.basFrequency, financialYearEnd: company.financialYearEnd },
+        deadlines
+      );
+      if (!due) return [];
+
+      return [{
+        companyId: company.id,
+        companyName: company.companyName,
+        tenantId: xero.tenantId,
+        period: due.period,
+        dueDate: toISODate(due.dueDate),
+      }];
+    })
+    .sort((a, b) => a.companyName.localeCompare(b.companyName));
+};
+
+/**
+ * Summarises what a reviewer should look at before relying on a batch calculation
+ * @param result - BAS calculation of the company
+ * @param payrollUnavailable - True when the pay runs could not be loaded
+ */
+export const getBASBatchWarnings = (result: BASCalculationResult, payrollUnavailable = false): string[] => {
+  const warnings: string[] = [];
+
+  const codingErrors = result.gstCodingExceptions.filter((exception) => exception.severity === 'error').length;
+  if (result.gstCodingExceptions.length > 0) {
+    warnings.push(
+      `${result.gstCodingExceptions.length} line(s) may be miscoded${codingErrors > 0 ? ` (${codingErrors} error(s))` : ''}`
+    );
+  }
+
+  const variances = result.reconciliation.lines.filter((line) => Math.abs(line.variance) > RECONCILIATION_TOLERANCE);
+  if (variances.length > 0) {
+    warnings.push(`GST report differs from transactions on ${variances.map((line) => line.label).join(', ')}`);
+  }
+  if (!result.reconciliation.hasGstReport) {
+    warnings.push('No GST report returned by Xero');
+  }
+  if (result.unmatchedPayments.count > 0) {
+    warnings.push(`${result.unmatchedPayments.count} payment(s) without a matching invoice`);
+  }
+  if (result.unmappedAccountCodes.length > 0) {
+    warnings.push(`Account code(s) missing from the chart of accounts: ${result.unmappedAccountCodes.join(', ')}`);
+  }
+  if (result.payrollWithholding.draftPayRunCount > 0) {
+    warnings.push(`${result.payrollWithholding.draftPayRunCount} draft pay run(s) left out of W1/W2`);
+  }
+  if (payrollUnavailable) {
+    warnings.push('Pay runs could not be loaded; W1/W2 reported as nil');
+  }
+
+  return warnings;
+};
+
+/**
+ * Runs a task for each item with at most `concurrency` tasks in flight, starting tasks at least
+ * `intervalMs` apart so the Xero API rate limit is not exceeded. A failing task does not stop the queue.
+ * @param items - Items to process, in order
+ * @param task - Work for one item; rejections are passed to onError
+ * @param options.shouldStop - Checked before each task starts; queued items are skipped once it returns true
+ */
+export const runThrottledQueue = async <T>(
+  items: T[],
+  task: (item: T, index: number) => Promise<void>,
+  options: {
+    concurrency?: number;
+    intervalMs?: number;
+    shouldStop?: () => boolean;
+    onError?: (item: T, error: unknown) => void;
+  } = {}
+): Promise<void> => {
+  const { concurrency = 2, intervalMs = 1000, shouldStop, onError } = options;
+  let next = 0;
+  let lastStart = 0;
+
+  const worker = async () => {
+    while (next < items.length && !shouldStop?.()) {
+      const index = next;
+      next += 1;
+
+      // Tasks are spaced from the last start across all workers
+      const wait = lastStart + intervalMs - Date.now();
+      lastStart = Math.max(Date.now(), lastStart + intervalMs);
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      if (shouldStop?.()) return;
+
+      try {
+        await task(items[index], index);
+      } catch (error) {
+        onError?.(items[index], error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+};
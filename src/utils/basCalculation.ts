@@ -0,0 +1,345 @@
+import { BASOtherTaxSettings, GstAccountingBasis } from '../api/companyService';
+import { BASAdjustment, BASAdjustmentLogEntry, BASFieldValues } from '../api/basRecordService';
+import { XeroAccount, XeroBankTransaction, XeroInvoice, XeroPayment, XeroPayRun } from '../integrations/xero/types';
+import { calculateBASGst } from './basGstCalculation';
+import { classifyPurchases, BASPurchaseLine } from './basPurchaseClassification';
+import { summarisePayrollWithholding, BASPayrollWithholding } from './basPayrollWithholding';
+import {
+  calculatePaygInstalment,
+  getInstalmentIncomeFromProfitLoss,
+  BASPaygInstalment,
+  PaygInstalmentInputs,
+} from './basPaygInstalment';
+import { reconcileBAS, BASReconciliation } from './basReconciliation';
+import { validateGstCoding, GstCodingException } from './basGstCoding';
+import { calculateOtherTaxes, FuelTaxCreditLine, summariseAccountAmounts, BASOtherTaxes } from './basOtherTaxes';
+import { extractXeroCollection, getSectionData, isPlainObject, roundCurrency, toAmount } from './xeroRecords';
+
+/**
+ * BAS Calculation
+ * Works out every BAS label of a period from the loaded Xero data
+ */
+
+export interface BASCalculationResult {
+  totalSales: number;
+  exportSales: number;
+  totalPurchases: number;
+  gstOnSales: number;
+  gstOnPurchases: number;
+  netGST: number;
+  gstBasis: GstAccountingBasis;
+  unmatchedPayments: { count: number; amount: number };
+  capitalPurchases: number;
+  nonCapitalPurchases: number;
+  purchaseBreakdown: BASPurchaseLine[];
+  unmappedAccountCodes: string[];
+  payrollWithholding: BASPayrollWithholding;
+  paygInstalment: BASPaygInstalment;
+  reconciliation: BASReconciliation;
+  gstCodingExceptions: GstCodingException[];
+  otherTaxes: BASOtherTaxes;
+  period: {
+    fromDate: string;
+    toDate: string;
+  };
+  lastUpdated: string;
+}
+
+export interface BASCalculationInputs {
+  /** BAS data of the period as returned by the backend */
+  basData: any;
+  accounts: XeroAccount[];
+  payRuns: XeroPayRun[];
+  payments: XeroPayment[];
+  /** Invoices raised before the period that were paid in it */
+  paymentInvoices: XeroInvoice[];
+  basis: GstAccountingBasis;
+  fromDate: string;
+  toDate: string;
+  /** W3 - not tracked in Xero */
+  otherAmountsWithheld: number;
+  /** W4 - not tracked in Xero */
+  noABNWithheld: number;
+  paygInstalmentInputs: PaygInstalmentInputs;
+  otherTaxSettings: BASOtherTaxSettings;
+  fuelTaxCreditLines: FuelTaxCreditLine[];
+}
+
+/**
+ * BAS labels reported for a calculation; also the figures saved on the BAS record
+ */
+export const buildBASFields = (result: BASCalculationResult): BASFieldValues => ({
+  G1: result.totalSales,
+  G2: result.exportSales,
+  G3: 0, // Not calculated in current implementation
+  G10: result.capitalPurchases,
+  G11: result.nonCapitalPurchases,
+  '1A': result.gstOnSales,
+  '1B': result.gstOnPurchases,
+  W1: result.payrollWithholding.W1,
+  W2: result.payrollWithholding.W2,
+  W3: result.payrollWithholding.W3,
+  W4: result.payrollWithholding.W4,
+  W5: result.payrollWithholding.W5,
+  ...(result.paygInstalment.method === 'Rate' && {
+    T1: result.paygInstalment.T1,
+    T2: result.paygInstalment.T2,
+    T3: result.paygInstalment.T3,
+    T11: result.paygInstalment.T11,
+  }),
+  ...(result.paygInstalment.method === 'Amount' && {
+    T7: result.paygInstalment.T7,
+    T9: result.paygInstalment.T9,
+  }),
+  ...(result.paygInstalment.T4 && { T4: result.paygInstalment.T4 }),
+  '5A': result.paygInstalment['5A'],
+  '5B': result.paygInstalment['5B'],
+  // 7D and 1C-1F are only reported when the section applies to the company
+  ...Object.fromEntries(Object.entries(result.otherTaxes.values).filter(([, value]) => value !== null)),
+});
+
+/**
+ * Invoices and bank transactions of the loaded BAS data; invoices paid in the period are added for cash basis
+ */
+export const getBASTransactions = (basData: any, paymentInvoices: XeroInvoice[]) => {
+  const dataRoot = isPlainObject(basData.data) ? basData.data : basData;
+  const invoicesWrapper = getSectionData(basData, 'invoices') || getSectionData(dataRoot, 'invoices');
+  const periodInvoices: XeroInvoice[] = Array.isArray(invoicesWrapper?.Invoices)
+    ? invoicesWrapper.Invoices
+    : Array.isArray(invoicesWrapper)
+    ? invoicesWrapper
+    : [];
+  const periodInvoiceIds = new Set(periodInvoices.map((invoice) => invoice.InvoiceID));
+  const invoices = [
+    ...periodInvoices,
+    ...paymentInvoices.filter((invoice) => !periodInvoiceIds.has(invoice.InvoiceID))
+  ];
+  const bankTransactions = extractXeroCollection<XeroBankTransaction>(
+    getSectionData(basData, 'bankTransactions') || getSectionData(dataRoot, 'bankTransactions'),
+    'BankTransactions'
+  );
+  return { periodInvoices, invoices, bankTransactions };
+};
+
+/**
+ * Calculates the BAS of a period: GST (G1, G2, 1A, 1B), the capital split (G10/G11), PAYG withholding
+ * (W1-W5), PAYG instalments (T labels, 5A/5B) and the other taxes (7D, 1C-1F), with the reconciliation
+ * and GST coding checks
+ */
+export const calculateBASResult = ({
+  basData,
+  accounts,
+  payRuns,
+  payments,
+  paymentInvoices,
+  basis,
+  fromDate,
+  toDate,
+  otherAmountsWithheld,
+  noABNWithheld,
+  paygInstalmentInputs,
+  otherTaxSettings,
+  fuelTaxCreditLines,
+}: BASCalculationInputs): BASCalculationResult => {
+  const dataRoot = isPlainObject(basData.data) ? basData.data : basData;
+  const gstReport = getSectionData(basData, 'gstReport') || getSectionData(dataRoot, 'gstReport');
+  const profitLoss = getSectionData(basData, 'profitLoss') || getSectionData(dataRoot, 'profitLoss');
+  const { periodInvoices, invoices, bankTransactions } = getBASTransactions(basData, paymentInvoices);
+
+  // 1-3. G1, G2, 1A and 1B from the Tax Summary (accrual), transactions (cash or no report) or the P&L
+  const gstCalculation = calculateBASGst({
+    basis,
+    gstReport,
+    profitLoss,
+    invoices,
+    payments,
+    bankTransactions,
+    fromDate,
+    toDate
+  });
+  const { totalSales, exportSales, totalPurchases, gstOnSales, gstOnPurchases, netGST } = gstCalculation;
+  const gstTotals = gstCalculation.transactionTotals;
+  if (gstTotals.unmatchedPayments.length > 0) {
+    console.warn('⚠️ Payments without a matching invoice were left out of cash basis GST:', gstTotals.unmatchedPayments);
+  }
+
+  // Compare the Tax Summary with the transaction totals and collect what explains any gap
+  const reconciliation = reconcileBAS({
+    gstReport: gstCalculation.gstReportTotals,
+    transactionTotals: gstTotals,
+    invoices: periodInvoices,
+    bankTransactions,
+    fromDate,
+    toDate
+  });
+
+  // Flag lines whose tax type looks wrong for the account or supplier
+  const gstCodingExceptions = validateGstCoding({
+    invoices,
+    bankTransactions,
+    accounts,
+    fromDate,
+    toDate
+  });
+  if (gstCodingExceptions.length > 0) {
+    console.warn(`⚠️ ${gstCodingExceptions.length} line(s) may have the wrong GST coding`);
+  }
+
+  // 7D and 1C-1F: mapped account totals, with 7D from the fuel tax credit calculator when litres are entered
+  const accountAmounts = summariseAccountAmounts({ invoices, bankTransactions, fromDate, toDate });
+  const otherTaxes = calculateOtherTaxes(accountAmounts, otherTaxSettings, fuelTaxCreditLines);
+
+  // 4. Split purchases into capital (G10) and non-capital (G11) from bill and bank transaction lines
+  const purchaseClassification = classifyPurchases({
+    invoices,
+    bankTransactions,
+    accounts,
+    fromDate,
+    toDate,
+    billPaymentFractions: basis === 'Cash' ? gstTotals.paymentFractions : undefined
+  });
+  if (purchaseClassification.unmappedAccountCodes.length > 0) {
+    console.warn('⚠️ Purchase account codes missing from chart of accounts:', purchaseClassification.unmappedAccountCodes);
+  }
+
+  // 5. PAYG withholding from posted pay runs paid in the period
+  const payrollWithholding = summarisePayrollWithholding({
+    payRuns,
+    fromDate,
+    toDate,
+    otherAmountsWithheld,
+    noABNWithheld
+  });
+
+  // 6. PAYG instalments: T1 from the P&L income sections, 5A/5B from the company's instalment option
+  const paygInstalment = calculatePaygInstalment(
+    getInstalmentIncomeFromProfitLoss(profitLoss),
+    paygInstalmentInputs
+  );
+
+  return {
+    totalSales,
+    exportSales,
+    totalPurchases,
+    gstOnSales,
+    gstOnPurchases,
+    netGST,
+    gstBasis: basis,
+    unmatchedPayments: {
+      count: gstTotals.unmatchedPayments.length,
+      amount: roundCurrency(gstTotals.unmatchedPayments.reduce((sum, payment) => sum + Number(payment.Amount || 0), 0))
+    },
+    capitalPurchases: purchaseClassification.capitalPurchases,
+    nonCapitalPurchases: purchaseClassification.nonCapitalPurchases,
+    purchaseBreakdown: purchaseClassification.lines,
+    unmappedAccountCodes: purchaseClassification.unmappedAccountCodes,
+    payrollWithholding,
+    paygInstalment,
+    reconciliation,
+    gstCodingExceptions,
+    otherTaxes,
+    period: {
+      fromDate,
+      toDate
+    },
+    lastUpdated: new Date().toISOString()
+  };
+};
+
+/**
+ * Builds the request body of the BAS PDF report
+ * @param params.result - BAS calculation
+ * @param params.reportedFields - Figures to report, after adjustments or as locked on lodgement
+ * @param params.period - Reporting period; the label falls back to the date range
+ * @param params.rawXeroData - Loaded BAS data, included for reference
+ */
+export const buildBASReportPdfPayload = ({
+  result,
+  reportedFields,
+  adjustments,
+  adjustmentLog,
+  rawXeroData,
+  period,
+  companyName,
+  organisationName,
+  tenantId,
+}: {
+  result: BASCalculationResult;
+  reportedFields: BASFieldValues;
+  adjustments: BASAdjustment[];
+  adjustmentLog: BASAdjustmentLogEntry[];
+  rawXeroData: any;
+  period: { fromDate: string; toDate: string; label?: string | null; shortLabel?: string | null; frequency?: string | null };
+  companyName: string;
+  organisationName: string;
+  tenantId?: string;
+}) => {
+  const periodSummary = {
+    fromDate: period.fromDate,
+    toDate: period.toDate,
+    quarter: period.shortLabel || null,
+    frequency: period.frequency || null
+  };
+  const reported = (label: string) => toAmount(reportedFields[label]);
+
+  return {
+    basData: {
+      BAS_Period: period.label || `${period.fromDate} to ${period.toDate}`,
+      GST_Accounting_Basis: result.gstBasis,
+      BAS_Fields: reportedFields,
+      payg_instalment: {
+        method: result.paygInstalment.method,
+        t1_instalment_income: result.paygInstalment.T1,
+        t2_instalment_rate_percent: result.paygInstalment.T2,
+        t3_varied_rate_percent: result.paygInstalment.T3,
+        t11_calculated_instalment: result.paygInstalment.T11,
+        fiveA_payg_instalment: result.paygInstalment['5A'],
+        fiveB_payg_instalment_credit: result.paygInstalment['5B'],
+        variation_reason_code: result.paygInstalment.T4 || undefined,
+      },
+      other_taxes: {
+        sevenD_fuel_tax_credits: result.otherTaxes.values['7D'] ?? undefined,
+        oneC_wet_payable: result.otherTaxes.values['1C'] ?? undefined,
+        oneD_wet_refundable: result.otherTaxes.values['1D'] ?? undefined,
+        oneE_lct_payable: result.otherTaxes.values['1E'] ?? undefined,
+        oneF_lct_refundable: result.otherTaxes.values['1F'] ?? undefined,
+        fuel_tax_credit_lines: result.otherTaxes.fuelTaxCredits.lines
+      },
+      purchaseBreakdown: result.purchaseBreakdown,
+      payRunBreakdown: result.payrollWithholding.payRuns,
+      adjustments: {
+        calculatedFields: buildBASFields(result),
+        items: adjustments,
+        auditTrail: adjustmentLog
+      },
+      rawXeroData,
+    },
+    // Totals come from the reported labels so they match BAS_Fields after adjustments or lodgement
+    summary: {
+      totalSales: reported('G1'),
+      totalPurchases: roundCurrency(reported('G10') + reported('G11')),
+      capitalPurchases: reported('G10'),
+      nonCapitalPurchases: reported('G11'),
+      grossWages: reported('W1'),
+      totalWithheld: reported('W5'),
+      paygInstalment: reported('5A'),
+      paygInstalmentCredit: reported('5B'),
+      totalGST: reported('1A'),
+      gstOnPurchases: reported('1B'),
+      netGST: roundCurrency(reported('1A') - reported('1B')),
+      gstBasis: result.gstBasis,
+      period: periodSummary
+    },
+    metadata: {
+      companyName,
+      organizationName: organisationName,
+      tenantId,
+      generatedAt: new Date().toISOString(),
+      period: periodSummary,
+      gstBasis: result.gstBasis,
+      notes: `BAS PDF generated from Xero account data for ${organisationName || 'organization'} on a ${result.gstBasis.toLowerCase()} basis.`,
+      dataSource: 'Xero Accounting',
+      reportType: 'Business Activity Statement'
+    }
+  };
+};
@@ -0,0 +1,109 @@
+import { BASFieldValues } from '../api/basRecordService';
+import { roundCurrency, toAmount } from './xeroRecords';
+
+/**
+ * BAS Comparison
+ * Compares a BAS with the previous period and the same period last year and flags unusual swings
+ */
+
+export type ComparedLabel = 'G1' | '1A' | '1B' | 'netGST';
+
+export type BASComparisonFigures = Record<ComparedLabel, number>;
+
+export interface BASComparisonChange {
+  value: number;
+  delta: number;
+  /** Null when the comparison value is zero */
+  percentChange: number | null;
+  unusual: boolean;
+}
+
+export interface BASComparisonRow {
+  label: ComparedLabel;
+  description: string;
+  current: number;
+  previousPeriod: BASComparisonChange | null;
+  lastYear: BASComparisonChange | null;
+}
+
+export interface BASComparisonColumn {
+  /** Period label, e.g. 'Q1 FY2026 (Jul – Sep 2025)' */
+  label: string;
+  figures: BASComparisonFigures | null;
+  /** Lodged BAS figures are used when available, otherwise the period is calculated from Xero */
+  source: 'lodged' | 'xero';
+  error?: string;
+}
+
+export interface SwingThresholds {
+  /** Percentage change above which a swing is unusual */
+  percent: number;
+  /** Changes smaller than this amount are never flagged */
+  amount: number;
+}
+
+export const DEFAULT_SWING_THRESHOLDS: SwingThresholds = { percent: 30, amount: 1000 };
+
+export const COMPARED_LABELS: { label: ComparedLabel; description: string }[] = [
+  { label: 'G1', description: 'Total sales' },
+  { label: '1A', description: 'GST on sales' },
+  { label: '1B', description: 'GST on purchases' },
+  { label: 'netGST', description: 'Net GST (1A - 1B)' },
+];
+
+/**
+ * Reads the compared labels from saved BAS figures
+ */
+export const toComparisonFigures = (fields: BASFieldValues): BASComparisonFigures => {
+  const gstOnSales = toAmount(fields['1A']);
+  const gstOnPurchases = toAmount(fields['1B']);
+  return {
+    G1: toAmount(fields.G1),
+    '1A': gstOnSales,
+    '1B': gstOnPurchases,
+    netGST: roundCurrency(gstOnSales - gstOnPurchases),
+  };
+};
+
+/**
+ * Works out the change from a comparison value to the current value. A swing is unusual when it
+ * exceeds both thresholds, or when net GST flips between payable and refundable.
+ */
+export const getComparisonChange = (
+  label: ComparedLabel,
+  current: number,
+  comparison: number,
+  thresholds: SwingThresholds = DEFAULT_SWING_THRESHOLDS
+): BASComparisonChange => {
+  const delta = roundCurrency(current - comparison);
+  const percentChange = comparison === 0 ? null : roundCurrency((delta / Math.abs(comparison)) * 100);
+  const material = Math.abs(delta) >= thresholds.amount;
+  const flipped = label === 'netGST' && Math.sign(current) !== Math.sign(comparison) && current !== 0 && comparison !== 0;
+
+  return {
+    value: comparison,
+    delta,
+    percentChange,
+    unusual: material && (percentChange === null || Math.abs(percentChange) >= thresholds.percent || flipped),
+  };
+};
+
+/**
+ * Builds the comparison table of a BAS
+ * @param current - Figures of the period being prepared
+ * @param previousPeriod - Figures of the previous period, or null when unavailable
+ * @param lastYear - Figures of the same period last year, or null when unavailable
+ */
+export const compareBASFigures = (
+  current: BASComparisonFigures,
+  previousPeriod: BASComparisonFigures | null,
+  lastYear: BASComparisonFigures | null,
+  thresholds: SwingThresholds = DEFAULT_SWING_THRESHOLDS
+): BASComparisonRow[] =>
+  COMPARED_LABELS.map(({ label, description }) => ({
+    label,
+    description,
+    current: current[label],
+    previousPeriod: previousPeriod ? getComparisonChange(label, current[label], previousPeriod[label], thresholds) : null,
+    lastYear: lastYear ? getComparisonChange(label, current[label], lastYear[label], thresholds) : null,
+  }));
@@ -0,0 +1,198 @@
+import { GstAccountingBasis } from '../api/companyService';
+import { XeroBankTransaction, XeroInvoice, XeroPayment } from '../integrations/xero/types';
+import { XERO_BANK_TRANSACTION_TYPES } from '../integrations/xero/constants';
+import { getLineAmounts } from './basPurchaseClassification';
+import { isWithinPeriod, normaliseXeroCode, roundCurrency, toAmount } from './xeroRecords';
+
+/**
+ * BAS GST Attribution
+ * Attributes sales, purchases and GST to a BAS period on a cash or accrual basis
+ */
+
+export interface BASGstTotals {
+  basis: GstAccountingBasis;
+  /** GST-inclusive sales (G1) */
+  totalSales: number;
+  /** Sales coded to the EXPORT tax type (G2); included in totalSales */
+  exportSales: number;
+  /** GST-inclusive purchases (G10 + G11) */
+  totalPurchases: number;
+  gstOnSales: number;
+  gstOnPurchases: number;
+  /** Cash basis only: share of each invoice/bill paid in the period, keyed by InvoiceID */
+  paymentFractions: Map<string, number>;
+  /** Cash basis only: payments in the period whose invoice could not be found */
+  unmatchedPayments: XeroPayment[];
+}
+
+const REPORTABLE_INVOICE_STATUSES = new Set<string>(['AUTHORISED', 'PAID']);
+
+const SALES_BANK_TRANSACTION_TYPES = new Set<string>([
+  XERO_BANK_TRANSACTION_TYPES.RECEIVE,
+  XERO_BANK_TRANSACTION_TYPES.RECEIVEOVERPAYMENT,
+  XERO_BANK_TRANSACTION_TYPES.RECEIVEPREPAYMENT,
+]);
+
+const PURCHASE_BANK_TRANSACTION_TYPES = new Set<string>([
+  XERO_BANK_TRANSACTION_TYPES.SPEND,
+  XERO_BANK_TRANSACTION_TYPES.SPENDOVERPAYMENT,
+  XERO_BANK_TRANSACTION_TYPES.SPENDPREPAYMENT,
+]);
+
+// Xero tax type of GST-free export sales
+const EXPORT_TAX_TYPE = 'EXPORT';
+
+/**
+ * Sums the lines of a sale coded to the export tax type
+ */
+const getExportAmount = (record: Pick<XeroInvoice, 'LineItems' | 'LineAmountTypes'>): number =>
+  (record.LineItems || [])
+    .filter((line) => String(line.TaxType || '').toUpperCase() === EXPORT_TAX_TYPE)
+    .reduce((sum, line) => sum + getLineAmounts(line, record.LineAmountTypes).gross, 0);
+
+/**
+ * Works out how much of each invoice was paid in the period. Partial payments contribute
+ * their share of the invoice total; several payments against one invoice are added together.
+ * @param payments - Xero payments
+ * @param invoices - Invoices the payments may refer to, including invoices dated before the period
+ * @param fromDate - Optional period start (YYYY-MM-DD)
+ * @param toDate - Optional period end (YYYY-MM-DD)
+ */
+export const getPaymentFractions = (
+  payments: XeroPayment[],
+  invoices: XeroInvoice[],
+  fromDate?: string,
+  toDate?: string
+): { fractions: Map<string, number>; unmatched: XeroPayment[] } => {
+  const invoicesById = new Map(invoices.map((invoice) => [invoice.InvoiceID, invoice]));
+  const fractions = new Map<string, number>();
+  const unmatched: XeroPayment[] = [];
+
+  payments.forEach((payment) => {
+    if (!payment || String(payment.Status || '').toUpperCase() === 'DELETED') return;
+    if ((fromDate || toDate) && !isWithinPeriod(payment.Date, fromDate, toDate)) return;
+
+    const invoice = payment.Invoice?.InvoiceID ? invoicesById.get(payment.Invoice.InvoiceID) : undefined;
+    const invoiceTotal = toAmount(invoice?.Total);
+    if (!invoice || invoiceTotal === 0) {
+      unmatched.push(payment);
+      return;
+    }
+
+    const paid = (fractions.get(invoice.InvoiceID) || 0) + toAmount(payment.Amount) / invoiceTotal;
+    fractions.set(invoice.InvoiceID, Math.min(paid, 1));
+  });
+
+  return { fractions, unmatched };
+};
+
+/**
+ * Invoice IDs referenced by payments in the period that are missing from the loaded invoices
+ */
+export const getMissingPaymentInvoiceIds = (
+  payments: XeroPayment[],
+  invoices: XeroInvoice[],
+  fromDate?: string,
+  toDate?: string
+): string[] => {
+  const known = new Set(invoices.map((invoice) => invoice.InvoiceID));
+  const missing = new Set<string>();
+  payments.forEach((payment) => {
+    const invoiceId = payment?.Invoice?.InvoiceID;
+    if (!invoiceId || known.has(invoiceId)) return;
+    if ((fromDate || toDate) && !isWithinPeriod(payment.Date, fromDate, toDate)) return;
+    missing.add(invoiceId);
+  });
+  return Array.from(missing);
+};
+
+/**
+ * Attributes sales, purchases and GST to the period.
+ * Accrual: invoices and bills count in full when they are dated in the period.
+ * Cash: invoices and bills count in proportion to the payments made in the period.
+ * Spend and receive money bank transactions are cash transactions, so both bases use their date.
+ * @param params.basis - GST accounting basis of the company
+ * @param params.invoices - Sales invoices and bills
+ * @param params.payments - Payments against invoices and bills (used on cash basis)
+ * @param params.bankTransactions - Spend and receive money transactions
+ * @param params.fromDate - Optional period start (YYYY-MM-DD)
+ * @param params.toDate - Optional period end (YYYY-MM-DD)
+ */
+export const attributeGst = ({
+  basis,
+  invoices,
+  payments,
+  bankTransactions,
+  fromDate,
+  toDate,
+}: {
+  basis: GstAccountingBasis;
+  invoices: XeroInvoice[];
+  payments: XeroPayment[];
+  bankTransactions: XeroBankTransaction[];
+  fromDate?: string;
+  toDate?: string;
+}): BASGstTotals => {
+  let totalSales = 0;
+  let exportSales = 0;
+  let totalPurchases = 0;
+  let gstOnSales = 0;
+  let gstOnPurchases = 0;
+
+  const addAmounts = (type: string | undefined, total: number, tax: number, exports = 0) => {
+    if (type === 'ACCREC') {
+      totalSales += total;
+      exportSales += exports;
+      gstOnSales += tax;
+    } else if (type === 'ACCPAY') {
+      totalPurchases += total;
+      gstOnPurchases += tax;
+    }
+  };
+
+  const { fractions, unmatched } = basis === 'Cash'
+    ? getPaymentFractions(payments, invoices, fromDate, toDate)
+    : { fractions: new Map<string, number>(), unmatched: [] as XeroPayment[] };
+
+  invoices.forEach((invoice) => {
+    if (!invoice || !REPORTABLE_INVOICE_STATUSES.has(String(invoice.Status || '').toUpperCase())) return;
+
+    if (basis === 'Cash') {
+      const fraction = fractions.get(invoice.InvoiceID) || 0;
+      if (fraction === 0) return;
+      addAmounts(
+        invoice.Type,
+        toAmount(invoice.Total) * fraction,
+        toAmount(invoice.TotalTax) * fraction,
+        getExportAmount(invoice) * fraction
+      );
+      return;
+    }
+
+    if ((fromDate || toDate) && !isWithinPeriod(invoice.Date, fromDate, toDate)) return;
+    addAmounts(invoice.Type, toAmount(invoice.Total), toAmount(invoice.TotalTax), getExportAmount(invoice));
+  });
+
+  bankTransactions.forEach((transaction) => {
+    if (!transaction || ['VOIDED', 'DELETED'].includes(String(transaction.Status || '').toUpperCase())) return;
+    if ((fromDate || toDate) && !isWithinPeriod(transaction.Date, fromDate, toDate)) return;
+
+    const type = normaliseXeroCode(transaction.BankTransactionType);
+    if (SALES_BANK_TRANSACTION_TYPES.has(type)) {
+      addAmounts('ACCREC', toAmount(transaction.Total), toAmount(transaction.TotalTax), getExportAmount(transaction));
+    } else if (PURCHASE_BANK_TRANSACTION_TYPES.has(type)) {
+      addAmounts('ACCPAY', toAmount(transaction.Total), toAmount(transaction.TotalTax));
+    }
+  });
+
+  return {
+    basis,
+    totalSales: roundCurrency(totalSales),
+    exportSales: roundCurrency(exportSales),
+    totalPurchases: roundCurrency(totalPurchases),
+    gstOnSales: roundCurrency(gstOnSales),
+    gstOnPurchases: roundCurrency(gstOnPurchases),
+    paymentFractions: fractions,
+    unmatchedPayments: unmatched,
+  };
+};
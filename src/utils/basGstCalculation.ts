@@ -0,0 +1,109 @@
+import { GstAccountingBasis } from '../api/companyService';
+import { XeroBankTransaction, XeroInvoice, XeroPayment } from '../integrations/xero/types';
+import { attributeGst, BASGstTotals } from './basGstAttribution';
+import { GstReportTotals, parseGstReportTotals } from './basReconciliation';
+
+/**
+ * BAS GST Calculation
+ * Works out G1, G2, 1A and 1B for a period from the Xero GST report, transactions and the P&L
+ */
+
+export interface BASGstCalculation {
+  totalSales: number;
+  /** Export sales (G2), from the lines coded to the EXPORT tax type */
+  exportSales: number;
+  totalPurchases: number;
+  gstOnSales: number;
+  gstOnPurchases: number;
+  netGST: number;
+  /** Totals read from the Xero GST report, or null when it was not returned */
+  gstReportTotals: GstReportTotals | null;
+  /** Totals attributed from invoices, payments and bank transactions */
+  transactionTotals: BASGstTotals;
+}
+
+/**
+ * Sums the revenue sections of a Profit & Loss report
+ */
+export const getRevenueFromProfitLoss = (profitLoss: any): number => {
+  let revenue = 0;
+  const rows = profitLoss?.Reports?.[0]?.Rows;
+  if (!Array.isArray(rows)) return revenue;
+
+  rows.forEach((row: any) => {
+    if (row.RowType === 'Section' && row.Title?.toLowerCase().includes('revenue')) {
+      row.Rows?.forEach((subRow: any) => {
+        if (subRow.Cells && subRow.Cells.length > 0) {
+          const value = parseFloat(subRow.Cells[subRow.Cells.length - 1]?.Value || '0');
+          revenue += Math.abs(value);
+        }
+      });
+    }
+  });
+
+  return revenue;
+};
+
+/**
+ * Calculates the GST labels of a period.
+ * 1. Accrual: the Xero GST (Tax Summary) report. The report follows the basis set in Xero,
+ *    so cash-basis companies are always attributed from payments.
+ * 2. Cash basis, or no Tax Summary: invoices, payments and bank transactions attributed to the period.
+ * 3. No sales found: revenue from the Profit & Loss.
+ */
+export const calculateBASGst = ({
+  basis,
+  gstReport,
+  profitLoss,
+  invoices,
+  payments,
+  bankTransactions,
+  fromDate,
+  toDate,
+}: {
+  basis: GstAccountingBasis;
+  gstReport: any;
+  profitLoss: any;
+  invoices: XeroInvoice[];
+  payments: XeroPayment[];
+  bankTransactions: XeroBankTransaction[];
+  fromDate?: string;
+  toDate?: string;
+}): BASGstCalculation => {
+  let totalSales = 0;
+  let totalPurchases = 0;
+  let gstOnSales = 0;
+  let gstOnPurchases = 0;
+
+  const gstReportTotals = parseGstReportTotals(gstReport);
+  if (basis === 'Accrual' && gstReportTotals) {
+    totalSales = gstReportTotals.totalSales;
+    totalPurchases = gstReportTotals.totalPurchases;
+    gstOnSales = gstReportTotals.gstOnSales;
+    gstOnPurchases = gstReportTotals.gstOnPurchases;
+  }
+
+  const transactionTotals = attributeGst({ basis, invoices, payments, bankTransactions, fromDate, toDate });
+  if (basis === 'Cash' || gstOnSales === 0) {
+    totalSales = transactionTotals.totalSales;
+    totalPurchases = transactionTotals.totalPurchases;
+    gstOnSales = transactionTotals.gstOnSales;
+    gstOnPurchases = transactionTotals.gstOnPurchases;
+  }
+
+  if (totalSales === 0) {
+    totalSales = getRevenueFromProfitLoss(profitLoss);
+  }
+
+  return {
+    totalSales,
+    // The GST report does not break out exports, so G2 always comes from the transaction lines
+    exportSales: transactionTotals.exportSales,
+    totalPurchases,
+    gstOnSales,
+    gstOnPurchases,
+    netGST: gstOnSales - gstOnPurchases,
+    gstReportTotals,
+    transactionTotals,
+  };
+};
@@ -0,0 +1,327 @@
+import {
+  XeroAccount,
+  XeroBankTransaction,
+  XeroInvoice,
+  XeroLineItem,
+} from '../integrations/xero/types';
+import { XERO_ACCOUNT_TYPES, XERO_BANK_TRANSACTION_TYPES } from '../integrations/xero/constants';
+import { buildAccountIndex, getLineAmounts } from './basPurchaseClassification';
+import { isWithinPeriod, normaliseXeroCode, roundCurrency } from './xeroRecords';
+
+/**
+ * BAS GST Coding Validator
+ * Flags Xero lines whose tax type looks wrong for the account or supplier before the BAS is prepared
+ */
+
+export type GstCodingRule =
+  | 'gstFreeOnTaxableAccount'
+  | 'gstOnNonTaxableExpense'
+  | 'inconsistentSupplierTaxType'
+  | 'inputTaxedOnTaxableAccount';
+
+export type GstCodingSeverity = 'error' | 'warning';
+
+export interface GstCodingException {
+  rule: GstCodingRule;
+  severity: GstCodingSeverity;
+  source: 'invoice' | 'bill' | 'bankTransaction';
+  transactionId: string;
+  reference: string;
+  contactName: string;
+  date: string;
+  description: string;
+  accountCode: string;
+  accountName: string;
+  taxType: string;
+  /** Tax type the line would normally carry, when one can be suggested */
+  expectedTaxType: string | null;
+  /** GST-inclusive line amount */
+  amount: number;
+  gst: number;
+  detail: string;
+}
+
+export const GST_CODING_RULE_LABELS: Record<GstCodingRule, string> = {
+  gstFreeOnTaxableAccount: 'GST-free on a taxable account',
+  gstOnNonTaxableExpense: 'GST on bank fees or wages',
+  inconsistentSupplierTaxType: 'Inconsistent tax type for supplier',
+  inputTaxedOnTaxableAccount: 'Input-taxed on a taxable account',
+};
+
+const RULE_SEVERITY: Record<GstCodingRule, GstCodingSeverity> = {
+  gstFreeOnTaxableAccount: 'warning',
+  // Claiming GST on wages overstates 1B. GST on bank fees is only a warning, as merchant and
+  // payment provider fees often include GST.
+  gstOnNonTaxableExpense: 'error',
+  inconsistentSupplierTaxType: 'warning',
+  inputTaxedOnTaxableAccount: 'warning',
+};
+
+// Australian tax rates that carry GST
+const TAXABLE_TAX_TYPES = new Set<string>(['OUTPUT', 'INPUT', 'CAPEXINPUT', 'GSTONIMPORTS', 'GSTONCAPIMPORTS']);
+
+// Exports (EXEMPTEXPORT) are legitimately GST-free on sales accounts, so they are not flagged
+const GST_FREE_TAX_TYPES = new Set<string>(['EXEMPTOUTPUT', 'EXEMPTEXPENSES', 'EXEMPTCAPITAL']);
+
+const INPUT_TAXED_TAX_TYPES = new Set<string>(['INPUTTAXED']);
+
+const WAGES_ACCOUNT_TYPES = new Set<string>([
+  XERO_ACCOUNT_TYPES.WAGESEXPENSE,
+  XERO_ACCOUNT_TYPES.SUPERANNUATIONEXPENSE,
+]);
+
+const BANK_FEES_PATTERN = /\bbank\s+(fees?|charges?|service)/i;
+const WAGES_PATTERN = /\b(wages?|salar(y|ies)|superannuation)\b/i;
+
+const REPORTABLE_INVOICE_STATUSES = new Set<string>(['AUTHORISED', 'PAID']);
+
+const PURCHASE_BANK_TRANSACTION_TYPES = new Set<string>([
+  XERO_BANK_TRANSACTION_TYPES.SPEND,
+  XERO_BANK_TRANSACTION_TYPES.SPENDOVERPAYMENT,
+  XERO_BANK_TRANSACTION_TYPES.SPENDPREPAYMENT,
+]);
+
+interface CodedLine {
+  line: XeroLineItem;
+  lineAmountTypes: string | undefined;
+  isPurchase: boolean;
+  base: Pick<GstCodingException, 'source' | 'transactionId' | 'reference' | 'contactName' | 'date'>;
+  /** Groups lines by supplier for the consistency check */
+  supplierKey: string;
+}
+
+/**
+ * Determines whether an account is a bank fees or wages account, which never carry GST
+ */
+export const isNonTaxableExpenseAccount = (account?: XeroAccount | null): boolean => {
+  if (!account) return false;
+  if (WAGES_ACCOUNT_TYPES.has(String(account.Type || '').toUpperCase())) return true;
+  const name = String(account.Name || '');
+  return BANK_FEES_PATTERN.test(name) || WAGES_PATTERN.test(name);
+};
+
+/**
+ * Builds a link that opens the transaction in Xero. Xero opens it in the organisation the user last
+ * had selected, so the link is only reliable for the connected tenant.
+ */
+export const getXeroTransactionUrl = (exception: Pick<GstCodingException, 'source' | 'transactionId'>): string => {
+  const id = encodeURIComponent(exception.transactionId);
+  switch (exception.source) {
+    case 'invoice':
+      return `https://go.xero.com/AccountsReceivable/View.aspx?InvoiceID=${id}`;
+    case 'bill':
+      return `https://go.xero.com/AccountsPayable/View.aspx?InvoiceID=${id}`;
+    default:
+      return `https://go.xero.com/Bank/ViewTransaction.aspx?bankTransactionID=${id}`;
+  }
+};
+
+const collectLines = (
+  invoices: XeroInvoice[],
+  bankTransactions: XeroBankTransaction[],
+  fromDate?: string,
+  toDate?: string
+): CodedLine[] => {
+  const lines: CodedLine[] = [];
+
+  invoices.forEach((invoice) => {
+    if (!REPORTABLE_INVOICE_STATUSES.has(String(invoice?.Status || '').toUpperCase())) return;
+    if ((fromDate || toDate) && !isWithinPeriod(invoice.Date, fromDate, toDate)) return;
+
+    const isPurchase = invoice.Type === 'ACCPAY';
+    (invoice.LineItems || []).forEach((line) => {
+      lines.push({
+        line,
+        lineAmountTypes: invoice.LineAmountTypes,
+        isPurchase,
+        supplierKey: invoice.Contact?.ContactID || invoice.Contact?.Name || '',
+        base: {
+          source: isPurchase ? 'bill' : 'invoice',
+          transactionId: invoice.InvoiceID,
+          reference: invoice.InvoiceNumber || invoice.Reference || '',
+          contactName: invoice.Contact?.Name || '',
+          date: invoice.Date,
+        },
+      });
+    });
+  });
+
+  bankTransactions.forEach((transaction) => {
+    if (['VOIDED', 'DELETED'].includes(String(transaction?.Status || '').toUpperCase())) return;
+    if ((fromDate || toDate) && !isWithinPeriod(transaction.Date, fromDate, toDate)) return;
+
+    const isPurchase = PURCHASE_BANK_TRANSACTION_TYPES.has(normaliseXeroCode(transaction.BankTransactionType));
+    (transaction.LineItems || []).forEach((line) => {
+      lines.push({
+        line,
+        lineAmountTypes: transaction.LineAmountTypes,
+        isPurchase,
+        supplierKey: transaction.Contact?.ContactID || transaction.Contact?.Name || '',
+        base: {
+          source: 'bankTransaction',
+          transactionId: transaction.BankTransactionID,
+          reference: transaction.Reference || '',
+          contactName: transaction.Contact?.Name || '',
+          date: transaction.Date,
+        },
+      });
+    });
+  });
+
+  return lines;
+};
+
+/**
+ * Finds the tax type most purchases from a supplier are coded with.
+ * @returns The dominant tax type, or null when two or more tax types are equally common
+ */
+const getDominantTaxType = (counts: Map<string, number>): string | null => {
+  const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) return null;
+  if (ranked.length > 1 && ranked[0][1] === ranked[1][1]) return null;
+  return ranked[0][0];
+};
+
+/**
+ * Checks the tax type of every invoice, bill and bank transaction line in the period.
+ * Rules:
+ * - GST-free tax type on an account whose default tax type is taxable
+ * - GST charged or claimed on bank fees, wages or superannuation
+ * - Purchases from a supplier coded with a different tax type to the supplier's other purchases
+ * - Input-taxed tax type on an account whose default tax type is taxable
+ * @param params.invoices - Invoices and bills for the period
+ * @param params.bankTransactions - Bank transactions for the period
+ * @param params.accounts - Xero chart of accounts; the account default tax type drives the account checks
+ * @param params.fromDate - Optional period start (YYYY-MM-DD)
+ * @param params.toDate - Optional period end (YYYY-MM-DD)
+ * @returns The exceptions found, most severe first
+ */
+export const validateGstCoding = ({
+  invoices,
+  bankTransactions,
+  accounts,
+  fromDate,
+  toDate,
+}: {
+  invoices: XeroInvoice[];
+  bankTransactions: XeroBankTransaction[];
+  accounts: XeroAccount[];
+  fromDate?: string;
+  toDate?: string;
+}): GstCodingException[] => {
+  const accountIndex = buildAccountIndex(accounts);
+  const lines = collectLines(invoices, bankTransactions, fromDate, toDate);
+  const exceptions: GstCodingException[] = [];
+
+  const addException = (
+    coded: CodedLine,
+    rule: GstCodingRule,
+    detail: string,
+    expectedTaxType: string | null,
+    severity: GstCodingSeverity = RULE_SEVERITY[rule]
+  ) => {
+    const accountCode = coded.line.AccountCode ? String(coded.line.AccountCode) : '';
+    const { gross, gst } = getLineAmounts(coded.line, coded.lineAmountTypes);
+    exceptions.push({
+      ...coded.base,
+      rule,
+      severity,
+      description: coded.line.Description || '',
+      accountCode,
+      accountName: accountIndex.get(accountCode)?.Name || '',
+      taxType: String(coded.line.TaxType || '').toUpperCase(),
+      expectedTaxType,
+      amount: roundCurrency(gross),
+      gst: roundCurrency(gst),
+      detail,
+    });
+  };
+
+  lines.forEach((coded) => {
+    const taxType = String(coded.line.TaxType || '').toUpperCase();
+    if (!taxType) return; // Missing tax types are reported by the GST reconciliation
+
+    const accountCode = coded.line.AccountCode ? String(coded.line.AccountCode) : '';
+    const account = accountCode ? accountIndex.get(accountCode) : undefined;
+    const accountTaxType = String(account?.TaxType || '').toUpperCase();
+    const accountIsTaxable = TAXABLE_TAX_TYPES.has(accountTaxType);
+    const accountLabel = account ? `${account.Code} ${account.Name}` : accountCode;
+
+    if (GST_FREE_TAX_TYPES.has(taxType) && accountIsTaxable) {
+      addException(
+        coded,
+        'gstFreeOnTaxableAccount',
+        `Coded ${taxType} but account ${accountLabel} defaults to ${accountTaxType}`,
+        accountTaxType
+      );
+    }
+
+    if (INPUT_TAXED_TAX_TYPES.has(taxType) && accountIsTaxable) {
+      addException(
+        coded,
+        'inputTaxedOnTaxableAccount',
+        `Coded ${taxType} but account ${accountLabel} defaults to ${accountTaxType}`,
+        accountTaxType
+      );
+    }
+
+    const carriesGst = TAXABLE_TAX_TYPES.has(taxType) || getLineAmounts(coded.line, coded.lineAmountTypes).gst !== 0;
+    if (carriesGst && isNonTaxableExpenseAccount(account)) {
+      const isBankFees = BANK_FEES_PATTERN.test(String(account?.Name || ''));
+      if (isBankFees) {
+        addException(
+          coded,
+          'gstOnNonTaxableExpense',
+          `GST coded (${taxType}) on ${accountLabel}; bank fees are input taxed, but merchant and payment provider fees can include GST, so check the statement`,
+          'INPUTTAXED',
+          'warning'
+        );
+      } else {
+        addException(
+          coded,
+          'gstOnNonTaxableExpense',
+          `GST coded (${taxType}) on ${accountLabel}; wages and superannuation carry no GST`,
+          'BASEXCLUDED'
+        );
+      }
+    }
+  });
+
+  // Supplier consistency: compare each purchase with the supplier's other purchases in the period
+  const purchasesBySupplier = new Map<string, CodedLine[]>();
+  lines
+    .filter((coded) => coded.isPurchase && coded.supplierKey && coded.line.TaxType)
+    .forEach((coded) => {
+      purchasesBySupplier.set(coded.supplierKey, [...(purchasesBySupplier.get(coded.supplierKey) || []), coded]);
+    });
+
+  purchasesBySupplier.forEach((supplierLines) => {
+    const counts = new Map<string, number>();
+    supplierLines.forEach((coded) => {
+      const taxType = String(coded.line.TaxType).toUpperCase();
+      counts.set(taxType, (counts.get(taxType) || 0) + 1);
+    });
+    // A single bill mixing tax types (e.g. taxable and GST-free groceries) is not an inconsistency
+    if (counts.size < 2 || new Set(supplierLines.map((coded) => coded.base.transactionId)).size < 2) return;
+
+    const dominant = getDominantTaxType(counts);
+    const summary = Array.from(counts.entries()).map(([taxType, count]) => `${taxType} × ${count}`).join(', ');
+    supplierLines
+      .filter((coded) => String(coded.line.TaxType).toUpperCase() !== dominant)
+      .forEach((coded) => {
+        addException(
+          coded,
+          'inconsistentSupplierTaxType',
+          dominant
+            ? `Coded ${String(coded.line.TaxType).toUpperCase()}; other purchases from this supplier are coded ${dominant} (${summary})`
+            : `Purchases from this supplier use different tax types (${summary})`,
+          dominant
+        );
+      });
+  });
+
+  return exceptions.sort((a, b) => {
+    if (a.severity !== b.severity) return a.severity === 'error' ? -1 : 1;
+    return String(a.date).localeCompare(String(b.date));
+  });
+};
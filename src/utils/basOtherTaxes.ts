@@ -0,0 +1,218 @@
+import { BASOtherTaxLabel, BASOtherTaxSettings } from '../api/companyService';
+import { XeroBankTransaction, XeroInvoice } from '../integrations/xero/types';
+import { isWithinPeriod, roundCurrency, toAmount } from './xeroRecords';
+
+/**
+ * BAS Other Taxes
+ * Fuel tax credits (7D), wine equalisation tax (1C/1D) and luxury car tax (1E/1F)
+ */
+
+export type FuelTaxActivity = 'heavyVehicleOnRoad' | 'offRoad';
+
+export interface FuelTaxRatePeriod {
+  id: string;
+  fromDate: string;
+  /** Null for the current rate period */
+  toDate: string | null;
+  /** Cents per litre by activity */
+  rates: Record<FuelTaxActivity, number>;
+}
+
+export interface FuelTaxCreditLine {
+  id: string;
+  activity: FuelTaxActivity;
+  ratePeriodId: string;
+  litres: number;
+}
+
+export interface FuelTaxCreditCalculation {
+  lines: (FuelTaxCreditLine & { rate: number; credit: number })[];
+  total: number;
+}
+
+export interface BASOtherTaxes {
+  /** Null when the label does not apply to the company */
+  values: Record<BASOtherTaxLabel, number | null>;
+  /** 7D comes from the calculator when litres were entered, otherwise from the mapped accounts */
+  fuelTaxCreditSource: 'calculator' | 'accounts' | null;
+  fuelTaxCredits: FuelTaxCreditCalculation;
+  /** GST-exclusive totals of the period's transactions by account code */
+  accountAmounts: Record<string, number>;
+}
+
+export const OTHER_TAX_LABELS: Record<BASOtherTaxLabel, string> = {
+  '7D': 'Fuel tax credit',
+  '1C': 'Wine equalisation tax payable',
+  '1D': 'Wine equalisation tax refundable',
+  '1E': 'Luxury car tax payable',
+  '1F': 'Luxury car tax refundable',
+};
+
+export const FUEL_TAX_ACTIVITY_LABELS: Record<FuelTaxActivity, string> = {
+  heavyVehicleOnRoad: 'Heavy vehicles on public roads',
+  offRoad: 'Off-road and other business uses',
+};
+
+/**
+ * ATO fuel tax credit rates for liquid fuels (cents per litre). Rates change with fuel excise
+ * indexation each February and August and with the road user charge each July; add new periods
+ * here as the ATO publishes them.
+ */
+export const FUEL_TAX_RATE_PERIODS: FuelTaxRatePeriod[] = [
+  { id: '2024-07-01', fromDate: '2024-07-01', toDate: '2024-08-04', rates: { heavyVehicleOnRoad: 19.2, offRoad: 49.6 } },
+  { id: '2024-08-05', fromDate: '2024-08-05', toDate: '2025-02-02', rates: { heavyVehicleOnRoad: 20.4, offRoad: 50.8 } },
+  { id: '2025-02-03', fromDate: '2025-02-03', toDate: '2025-06-30', rates: { heavyVehicleOnRoad: 21.2, offRoad: 51.6 } },
+  { id: '2025-07-01', fromDate: '2025-07-01', toDate: '2025-08-03', rates: { heavyVehicleOnRoad: 19.2, offRoad: 51.6 } },
+  { id: '2025-08-04', fromDate: '2025-08-04', toDate: null, rates: { heavyVehicleOnRoad: 20.2, offRoad: 52.6 } },
+];
+
+/**
+ * Last day the rate table is known to cover: the day before the next excise indexation after the
+ * latest rate period. Move it forward when rate periods are added.
+ */
+export const FUEL_TAX_RATES_KNOWN_TO = '2026-02-01';
+
+export const DEFAULT_OTHER_TAX_SETTINGS: BASOtherTaxSettings = {
+  fuelTaxCredits: false,
+  wineEqualisationTax: false,
+  luxuryCarTax: false,
+  accountMappings: {},
+};
+
+const REPORTABLE_INVOICE_STATUSES = new Set<string>(['AUTHORISED', 'PAID']);
+
+/**
+ * Lists the rate periods that overlap a BAS period, so fuel acquired in the period can be
+ * claimed at the rate in force when it was acquired
+ */
+export const getFuelTaxRatePeriods = (fromDate?: string, toDate?: string): FuelTaxRatePeriod[] => {
+  const overlapping = FUEL_TAX_RATE_PERIODS.filter(
+    (period) => (!toDate || period.fromDate <= toDate) && (!fromDate || !period.toDate || period.toDate >= fromDate)
+  );
+  // Periods outside the table fall back to the latest published rates; getFuelTaxRateWarning reports them
+  return overlapping.length > 0 ? overlapping : FUEL_TAX_RATE_PERIODS.slice(-1);
+};
+
+const formatRateDate = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Warns when a BAS period falls outside the rate table, so out-of-date rates are not claimed unnoticed
+ * @returns The warning, or null when the table covers the whole period
+ */
+export const getFuelTaxRateWarning = (fromDate?: string, toDate?: string): string | null => {
+  const firstDate = FUEL_TAX_RATE_PERIODS[0].fromDate;
+  if (fromDate && fromDate < firstDate) {
+    return `The fuel tax credit rate table starts on ${formatRateDate(firstDate)}. Check the ATO rates for fuel acquired earlier in this period.`;
+  }
+  if (toDate && toDate > FUEL_TAX_RATES_KNOWN_TO) {
+    return `The fuel tax credit rates may be out of date after ${formatRateDate(FUEL_TAX_RATES_KNOWN_TO)}. Check the current ATO rates before claiming 7D.`;
+  }
+  return null;
+};
+
+/**
+ * Formats a rate period for display, e.g. '4 Aug 2025 onwards'
+ */
+export const formatFuelTaxRatePeriod = (period: FuelTaxRatePeriod): string =>
+  period.toDate
+    ? `${formatRateDate(period.fromDate)} – ${formatRateDate(period.toDate)}`
+    : `${formatRateDate(period.fromDate)} onwards`;
+
+/**
+ * Calculates fuel tax credits from litres acquired by activity and rate period
+ */
+export const calculateFuelTaxCredits = (lines: FuelTaxCreditLine[]): FuelTaxCreditCalculation => {
+  const calculated = lines.map((line) => {
+    const period = FUEL_TAX_RATE_PERIODS.find((candidate) => candidate.id === line.ratePeriodId);
+    const rate = period ? period.rates[line.activity] : 0;
+    return { ...line, rate, credit: roundCurrency((Math.max(0, line.litres) * rate) / 100) };
+  });
+  return { lines: calculated, total: roundCurrency(calculated.reduce((sum, line) => sum + line.credit, 0)) };
+};
+
+/**
+ * Totals the GST-exclusive line amounts of the period's invoices, bills and bank transactions by account code
+ * @param params.invoices - Invoices and bills for the period
+ * @param params.bankTransactions - Bank transactions for the period
+ * @param params.fromDate - Optional period start (YYYY-MM-DD)
+ * @param params.toDate - Optional period end (YYYY-MM-DD)
+ */
+export const summariseAccountAmounts = ({
+  invoices,
+  bankTransactions,
+  fromDate,
+  toDate,
+}: {
+  invoices: XeroInvoice[];
+  bankTransactions: XeroBankTransaction[];
+  fromDate?: string;
+  toDate?: string;
+}): Record<string, number> => {
+  const totals: Record<string, number> = {};
+
+  const addLines = (transaction: XeroInvoice | XeroBankTransaction) => {
+    (transaction.LineItems || []).forEach((line) => {
+      if (!line.AccountCode) return;
+      const lineAmount = toAmount(line.LineAmount);
+      const net = transaction.LineAmountTypes === 'Inclusive' ? lineAmount - toAmount(line.TaxAmount) : lineAmount;
+      const code = String(line.AccountCode);
+      totals[code] = roundCurrency((totals[code] || 0) + net);
+    });
+  };
+
+  invoices
+    .filter((invoice) => REPORTABLE_INVOICE_STATUSES.has(String(invoice?.Status || '').toUpperCase()))
+    .filter((invoice) => !(fromDate || toDate) || isWithinPeriod(invoice.Date, fromDate, toDate))
+    .forEach(addLines);
+
+  bankTransactions
+    .filter((transaction) => !['VOIDED', 'DELETED'].includes(String(transaction?.Status || '').toUpperCase()))
+    .filter((transaction) => !(fromDate || toDate) || isWithinPeriod(transaction.Date, fromDate, toDate))
+    .forEach(addLines);
+
+  return totals;
+};
+
+/**
+ * Works out 7D and 1C–1F for the period. Labels the company has not switched on are null.
+ * Mapped account totals are reported as positive amounts, since the labels carry no sign on the BAS.
+ * @param accountAmounts - GST-exclusive totals by account code, from summariseAccountAmounts
+ * @param settings - Sections that apply to the company and their account mappings
+ * @param fuelTaxCreditLines - Litres entered in the fuel tax credit calculator
+ */
+export const calculateOtherTaxes = (
+  accountAmounts: Record<string, number>,
+  settings: BASOtherTaxSettings,
+  fuelTaxCreditLines: FuelTaxCreditLine[]
+): BASOtherTaxes => {
+  const mapped = (label: BASOtherTaxLabel) =>
+    roundCurrency(
+      Math.abs((settings.accountMappings[label] || []).reduce((sum, code) => sum + (accountAmounts[code] || 0), 0))
+    );
+
+  const fuelTaxCredits = calculateFuelTaxCredits(fuelTaxCreditLines);
+  const useCalculator = fuelTaxCredits.lines.some((line) => line.litres > 0);
+
+  return {
+    values: {
+      '7D': settings.fuelTaxCredits ? (useCalculator ? fuelTaxCredits.total : mapped('7D')) : null,
+      '1C': settings.wineEqualisationTax ? mapped('1C') : null,
+      '1D': settings.wineEqualisationTax ? mapped('1D') : null,
+      '1E': settings.luxuryCarTax ? mapped('1E') : null,
+      '1F': settings.luxuryCarTax ? mapped('1F') : null,
+    },
+    fuelTaxCreditSource: settings.fuelTaxCredits ? (useCalculator ? 'calculator' : 'accounts') : null,
+    fuelTaxCredits,
+    accountAmounts,
+  };
+};
+
+/**
+ * Effect of the other tax labels on the amount payable: 1C and 1E are payable,
+ * 1D, 1F and the 7D fuel tax credit are refundable
+ */
+export const getOtherTaxesNetPayable = (values: Record<BASOtherTaxLabel, number | null>): number =>
+  roundCurrency(
+    toAmount(values['1C']) + toAmount(values['1E']) - toAmount(values['1D']) - toAmount(values['1F']) - toAmount(values['7D'])
+  );
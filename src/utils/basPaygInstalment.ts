@@ -0,0 +1,117 @@
+import { PaygInstalmentMethod } from '../api/companyService';
+import { roundCurrency, toAmount } from './xeroRecords';
+
+/**
+ * BAS PAYG Instalments
+ * Works out T1/T2/T3/T11 (rate method) or T7/T9 (amount method) and the 5A/5B labels
+ */
+
+export interface PaygInstalmentInputs {
+  method: PaygInstalmentMethod;
+  /** T2 - ATO-notified instalment rate (%) */
+  notifiedRate: number;
+  /** T3 - varied instalment rate (%), when the client has varied */
+  variedRate: number | null;
+  /** T7 - ATO-notified instalment amount */
+  notifiedAmount: number;
+  /** T9 - varied instalment amount, when the client has varied */
+  variedAmount: number | null;
+  /** T4 - reason code for the variation */
+  variationReasonCode: string;
+  /** 5B - credit from reducing instalments earlier in the income year */
+  variationCredit: number;
+}
+
+export interface BASPaygInstalment {
+  method: PaygInstalmentMethod;
+  T1: number;
+  T2: number;
+  T3: number | null;
+  T4: string;
+  T7: number;
+  T9: number | null;
+  T11: number;
+  '5A': number;
+  '5B': number;
+}
+
+export const DEFAULT_PAYG_INSTALMENT_INPUTS: PaygInstalmentInputs = {
+  method: 'None',
+  notifiedRate: 0,
+  variedRate: null,
+  notifiedAmount: 0,
+  variedAmount: null,
+  variationReasonCode: '',
+  variationCredit: 0,
+};
+
+/**
+ * Derives T1 instalment income from a Xero Profit & Loss report: ordinary business and
+ * investment income for the period, excluding GST (Xero reports P&L net of GST).
+ * @param profitLoss - Raw Profit & Loss report as returned by the backend
+ */
+export const getInstalmentIncomeFromProfitLoss = (profitLoss: any): number => {
+  const rows = profitLoss?.Reports?.[0]?.Rows;
+  if (!Array.isArray(rows)) return 0;
+
+  let income = 0;
+  rows.forEach((row: any) => {
+    const title = String(row?.Title || '').toLowerCase();
+    if (row?.RowType !== 'Section' || !/income|revenue/.test(title)) return;
+
+    row.Rows?.forEach((subRow: any) => {
+      // Section totals are SummaryRows; only sum the account rows
+      if (subRow?.RowType !== 'Row' || !Array.isArray(subRow.Cells)) return;
+      // The first value column is the selected period; later columns are comparatives
+      income += toAmount(subRow.Cells[1]?.Value);
+    });
+  });
+
+  return roundCurrency(income);
+};
+
+/**
+ * Calculates the PAYG instalment labels for the period.
+ * Rate method: T11 = T1 × (T3 when varied, otherwise T2) and 5A = T11.
+ * Amount method: 5A = T9 when varied, otherwise T7.
+ * A 5B credit can only be claimed when the instalment has been varied.
+ * @param instalmentIncome - T1 instalment income for the period
+ * @param inputs - Company instalment settings and any variation for the period
+ */
+export const calculatePaygInstalment = (
+  instalmentIncome: number,
+  inputs: PaygInstalmentInputs
+): BASPaygInstalment => {
+  const T1 = roundCurrency(instalmentIncome);
+  const base: BASPaygInstalment = {
+    method: inputs.method,
+    T1,
+    T2: inputs.notifiedRate,
+    T3: inputs.variedRate,
+    T4: inputs.variationReasonCode,
+    T7: roundCurrency(inputs.notifiedAmount),
+    T9: inputs.variedAmount === null ? null : roundCurrency(inputs.variedAmount),
+    T11: 0,
+    '5A': 0,
+    '5B': 0,
+  };
+
+  if (inputs.method === 'None') {
+    return base;
+  }
+
+  const isVaried = inputs.method === 'Rate' ? inputs.variedRate !== null : inputs.variedAmount !== null;
+  const variationCredit = isVaried ? roundCurrency(Math.max(0, inputs.variationCredit)) : 0;
+
+  if (inputs.method === 'Rate') {
+    const rate = inputs.variedRate ?? inputs.notifiedRate;
+    const T11 = roundCurrency((T1 * rate) / 100);
+    return { ...base, T11, '5A': T11, '5B': variationCredit };
+  }
+
+  return {
+    ...base,
+    '5A': inputs.variedAmount !== null ? roundCurrency(inputs.variedAmount) : roundCurrency(inputs.notifiedAmount),
+    '5B': variationCredit,
+  };
+};
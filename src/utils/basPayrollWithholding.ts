@@ -0,0 +1,101 @@
+import { XeroPayRun } from '../integrations/xero/types';
+import { isWithinPeriod, roundCurrency, toAmount } from './xeroRecords';
+
+/**
+ * BAS PAYG Withholding
+ * Builds W1-W5 from posted Xero Payroll pay runs
+ */
+
+export interface BASPayRunLine {
+  payRunId: string;
+  periodStart: string;
+  periodEnd: string;
+  paymentDate: string;
+  employeeCount: number;
+  /** Gross wages paid in the pay run (W1) */
+  wages: number;
+  /** PAYG tax withheld from the pay run (W2) */
+  tax: number;
+}
+
+export interface BASPayrollWithholding {
+  W1: number;
+  W2: number;
+  W3: number;
+  W4: number;
+  /** Total amounts withheld (W2 + W3 + W4) */
+  W5: number;
+  payRuns: BASPayRunLine[];
+  /** Draft pay runs paid in the period that were left out of the totals */
+  draftPayRunCount: number;
+}
+
+/**
+ * Sums gross wages (W1) and tax withheld (W2) from posted pay runs whose payment date
+ * falls in the period. PAYG withholding is reported when wages are paid, so the payment
+ * date is used rather than the pay period.
+ * @param params.payRuns - Xero Payroll pay runs
+ * @param params.fromDate - Optional period start (YYYY-MM-DD)
+ * @param params.toDate - Optional period end (YYYY-MM-DD)
+ * @param params.otherAmountsWithheld - W3 amount, e.g. withholding from investment distributions
+ * @param params.noABNWithheld - W4 amount withheld where an ABN was not quoted
+ */
+export const summarisePayrollWithholding = ({
+  payRuns,
+  fromDate,
+  toDate,
+  otherAmountsWithheld = 0,
+  noABNWithheld = 0,
+}: {
+  payRuns: XeroPayRun[];
+  fromDate?: string;
+  toDate?: string;
+  otherAmountsWithheld?: number;
+  noABNWithheld?: number;
+}): BASPayrollWithholding => {
+  const lines: BASPayRunLine[] = [];
+  let draftPayRunCount = 0;
+
+  payRuns.forEach((payRun) => {
+    if (!payRun) return;
+    if ((fromDate || toDate) && !isWithinPeriod(payRun.PaymentDate, fromDate, toDate)) return;
+
+    if (String(payRun.PayRunStatus || '').toUpperCase() !== 'POSTED') {
+      draftPayRunCount += 1;
+      return;
+    }
+
+    const payslips = payRun.Payslips || [];
+    const wages = payRun.Wages !== undefined
+      ? toAmount(payRun.Wages)
+      : payslips.reduce((sum, payslip) => sum + toAmount(payslip.Wages), 0);
+    const tax = payRun.Tax !== undefined
+      ? toAmount(payRun.Tax)
+      : payslips.reduce((sum, payslip) => sum + toAmount(payslip.Tax), 0);
+
+    lines.push({
+      payRunId: payRun.PayRunID,
+      periodStart: payRun.PayRunPeriodStartDate,
+      periodEnd: payRun.PayRunPeriodEndDate,
+      paymentDate: payRun.PaymentDate,
+      employeeCount: new Set(payslips.map((payslip) => payslip.EmployeeID)).size,
+      wages: roundCurrency(wages),
+      tax: roundCurrency(tax),
+    });
+  });
+
+  const W1 = roundCurrency(lines.reduce((sum, line) => sum + line.wages, 0));
+  const W2 = roundCurrency(lines.reduce((sum, line) => sum + line.tax, 0));
+  const W3 = roundCurrency(otherAmountsWithheld);
+  const W4 = roundCurrency(noABNWithheld);
+
+  return {
+    W1,
+    W2,
+    W3,
+    W4,
+    W5: roundCurrency(W2 + W3 + W4),
+    payRuns: lines,
+    draftPayRunCount,
+  };
+};
@@ -0,0 +1,233 @@
+import {
+  XeroAccount,
+  XeroBankTransaction,
+  XeroInvoice,
+  XeroLineItem,
+} from '../integrations/xero/types';
+import { XERO_ACCOUNT_TYPES, XERO_BANK_TRANSACTION_TYPES } from '../integrations/xero/constants';
+import { isWithinPeriod, normaliseXeroCode, roundCurrency, toAmount } from './xeroRecords';
+
+/**
+ * BAS Purchase Classification
+ * Splits purchases into capital (G10) and non-capital (G11) using the Xero chart of accounts
+ */
+
+export type PurchaseLabel = 'G10' | 'G11';
+
+export interface BASPurchaseLine {
+  label: PurchaseLabel;
+  source: 'bill' | 'bankTransaction';
+  transactionId: string;
+  reference: string;
+  contactName: string;
+  date: string;
+  description: string;
+  accountCode: string;
+  accountName: string;
+  taxType: string;
+  /** GST-inclusive amount reported at the label */
+  amount: number;
+  gst: number;
+  reason: string;
+}
+
+export interface BASPurchaseClassification {
+  capitalPurchases: number;
+  nonCapitalPurchases: number;
+  lines: BASPurchaseLine[];
+  /** Account codes used on purchases that were not found in the chart of accounts */
+  unmappedAccountCodes: string[];
+}
+
+// Xero returns FIXED/NONCURRENT from the Accounting API; the FIXEDASSET/NONCURRENTASSET
+// spellings are what the plug-and-play backend normalises to.
+const CAPITAL_ACCOUNT_TYPES = new Set<string>([
+  'FIXED',
+  'NONCURRENT',
+  XERO_ACCOUNT_TYPES.FIXEDASSET,
+  XERO_ACCOUNT_TYPES.NONCURRENTASSET,
+]);
+
+// Australian tax rates that Xero reserves for capital acquisitions
+const CAPITAL_TAX_TYPES = new Set<string>(['CAPEXINPUT', 'EXEMPTCAPITAL', 'GSTONCAPIMPORTS']);
+
+// Lines coded outside the BAS never appear at G10/G11
+const EXCLUDED_TAX_TYPES = new Set<string>(['BASEXCLUDED']);
+
+const REPORTABLE_BILL_STATUSES = new Set<string>(['AUTHORISED', 'PAID']);
+
+const PURCHASE_BANK_TRANSACTION_TYPES = new Set<string>([
+  XERO_BANK_TRANSACTION_TYPES.SPEND,
+  XERO_BANK_TRANSACTION_TYPES.SPENDOVERPAYMENT,
+  XERO_BANK_TRANSACTION_TYPES.SPENDPREPAYMENT,
+]);
+
+/**
+ * Indexes the chart of accounts by account code
+ */
+export const buildAccountIndex = (accounts: XeroAccount[]): Map<string, XeroAccount> => {
+  const index = new Map<string, XeroAccount>();
+  accounts.forEach((account) => {
+    if (account?.Code) {
+      index.set(String(account.Code), account);
+    }
+  });
+  return index;
+};
+
+/**
+ * Determines whether an account holds capital acquisitions (fixed or non-current assets)
+ */
+export const isCapitalAccount = (account?: XeroAccount | null): boolean => {
+  if (!account) return false;
+  const type = String(account.Type || '').toUpperCase();
+  const accountClass = String(account.Class || '').toUpperCase();
+  if (accountClass && accountClass !== 'ASSET') return false;
+  return CAPITAL_ACCOUNT_TYPES.has(type);
+};
+
+/**
+ * Returns the GST-inclusive amount and GST component of a line item
+ */
+export const getLineAmounts = (
+  line: XeroLineItem,
+  lineAmountTypes: string | undefined
+): { gross: number; gst: number } => {
+  const lineAmount = toAmount(line.LineAmount);
+  const gst = toAmount(line.TaxAmount);
+  const gross = lineAmountTypes === 'Inclusive' ? lineAmount : lineAmount + gst;
+  return { gross, gst };
+};
+
+/**
+ * Decides whether a purchase line is reported at G10 (capital) or G11 (non-capital)
+ */
+export const classifyPurchaseLine = (
+  line: XeroLineItem,
+  account: XeroAccount | undefined
+): { label: PurchaseLabel; reason: string } => {
+  const taxType = String(line.TaxType || '').toUpperCase();
+
+  if (isCapitalAccount(account)) {
+    return { label: 'G10', reason: `Account ${account?.Code} is a ${account?.Type} asset account` };
+  }
+  if (CAPITAL_TAX_TYPES.has(taxType)) {
+    return { label: 'G10', reason: `Coded with capital tax rate ${taxType}` };
+  }
+  if (account) {
+    return { label: 'G11', reason: `Account ${account.Code} is a ${account.Type} account` };
+  }
+  return { label: 'G11', reason: 'Account not found in chart of accounts; treated as non-capital' };
+};
+
+/**
+ * Splits bills and spend bank transactions into capital (G10) and non-capital (G11) purchases.
+ * Amounts are GST-inclusive, as reported on the BAS.
+ * @param params.invoices - Invoices for the period; only ACCPAY bills are considered
+ * @param params.bankTransactions - Bank transactions for the period; only spend transactions are considered
+ * @param params.accounts - Xero chart of accounts
+ * @param params.fromDate - Optional period start (YYYY-MM-DD)
+ * @param params.toDate - Optional period end (YYYY-MM-DD)
+ * @param params.billPaymentFractions - Cash basis only: share of each bill paid in the period, keyed by InvoiceID.
+ *   When supplied, bills are attributed by payment rather than by bill date.
+ */
+export const classifyPurchases = ({
+  invoices,
+  bankTransactions,
+  accounts,
+  fromDate,
+  toDate,
+  billPaymentFractions,
+}: {
+  invoices: XeroInvoice[];
+  bankTransactions: XeroBankTransaction[];
+  accounts: XeroAccount[];
+  fromDate?: string;
+  toDate?: string;
+  billPaymentFractions?: Map<string, number>;
+}): BASPurchaseClassification => {
+  const accountIndex = buildAccountIndex(accounts);
+  const unmapped = new Set<string>();
+  const lines: BASPurchaseLine[] = [];
+
+  const addLines = (
+    items: XeroLineItem[] | undefined,
+    lineAmountTypes: string | undefined,
+    base: Pick<BASPurchaseLine, 'source' | 'transactionId' | 'reference' | 'contactName' | 'date'>,
+    fraction = 1
+  ) => {
+    (items || []).forEach((line) => {
+      const taxType = String(line.TaxType || '').toUpperCase();
+      if (EXCLUDED_TAX_TYPES.has(taxType)) return;
+
+      const accountCode = line.AccountCode ? String(line.AccountCode) : '';
+      const account = accountCode ? accountIndex.get(accountCode) : undefined;
+      if (accountCode && !account && accountIndex.size > 0) {
+        unmapped.add(accountCode);
+      }
+
+      const amounts = getLineAmounts(line, lineAmountTypes);
+      const gross = amounts.gross * fraction;
+      const gst = amounts.gst * fraction;
+      if (gross === 0) return;
+
+      const { label, reason } = classifyPurchaseLine(line, account);
+      lines.push({
+        ...base,
+        label,
+        description: line.Description || '',
+        accountCode,
+        accountName: account?.Name || '',
+        taxType,
+        amount: roundCurrency(gross),
+        gst: roundCurrency(gst),
+        reason,
+      });
+    });
+  };
+
+  invoices.forEach((invoice) => {
+    if (invoice?.Type !== 'ACCPAY') return;
+    if (!REPORTABLE_BILL_STATUSES.has(String(invoice.Status || '').toUpperCase())) return;
+
+    let fraction = 1;
+    if (billPaymentFractions) {
+      fraction = billPaymentFractions.get(invoice.InvoiceID) || 0;
+      if (fraction === 0) return;
+    } else if ((fromDate || toDate) && !isWithinPeriod(invoice.Date, fromDate, toDate)) {
+      return;
+    }
+
+    addLines(invoice.LineItems, invoice.LineAmountTypes, {
+      source: 'bill',
+      transactionId: invoice.InvoiceID,
+      reference: invoice.InvoiceNumber || invoice.Reference || '',
+      contactName: invoice.Contact?.Name || '',
+      date: invoice.Date,
+    }, fraction);
+  });
+
+  bankTransactions.forEach((transaction) => {
+    if (!PURCHASE_BANK_TRANSACTION_TYPES.has(normaliseXeroCode(transaction?.BankTransactionType))) return;
+    if (['VOIDED', 'DELETED'].includes(String(transaction.Status || '').toUpperCase())) return;
+    if ((fromDate || toDate) && !isWithinPeriod(transaction.Date, fromDate, toDate)) return;
+
+    addLines(transaction.LineItems, transaction.LineAmountTypes, {
+      source: 'bankTransaction',
+      transactionId: transaction.BankTransactionID,
+      reference: transaction.Reference || '',
+      contactName: transaction.Contact?.Name || '',
+      date: transaction.Date,
+    });
+  });
+
+  const sumFor = (label: PurchaseLabel) =>
+    roundCurrency(lines.filter((line) => line.label === label).reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    capitalPurchases: sumFor('G10'),
+    nonCapitalPurchases: sumFor('G11'),
+    lines,
+    unmappedAccountCodes: Array.from(unmapped),
+  };
+};
@@ -0,0 +1,219 @@
+import { XeroBankTransaction, XeroInvoice } from '../integrations/xero/types';
+import { BASGstTotals } from './basGstAttribution';
+import { isWithinPeriod, parseXeroDate, roundCurrency, toAmount, toISODate } from './xeroRecords';
+
+/**
+ * BAS Reconciliation
+ * Compares the Xero GST report with totals rebuilt from transactions and lists what explains the gap
+ */
+
+export type ReconciledLabel = 'G1' | '1A' | '1B';
+
+export interface GstReportTotals {
+  totalSales: number;
+  totalPurchases: number;
+  gstOnSales: number;
+  gstOnPurchases: number;
+}
+
+export interface BASReconciliationLine {
+  label: ReconciledLabel;
+  description: string;
+  gstReport: number;
+  transactions: number;
+  /** GST report minus transactions */
+  variance: number;
+}
+
+export type ReconciliationItemType = 'missingTaxType' | 'voided' | 'draft' | 'editedAfterPeriod';
+
+export interface BASReconciliationItem {
+  type: ReconciliationItemType;
+  source: 'invoice' | 'bankTransaction';
+  transactionId: string;
+  reference: string;
+  contactName: string;
+  date: string;
+  amount: number;
+  gst: number;
+  detail: string;
+}
+
+export interface BASReconciliation {
+  /** False when Xero returned no GST report for the period */
+  hasGstReport: boolean;
+  lines: BASReconciliationLine[];
+  items: BASReconciliationItem[];
+}
+
+export const RECONCILIATION_ITEM_LABELS: Record<ReconciliationItemType, string> = {
+  missingTaxType: 'Lines without a tax type',
+  voided: 'Voided or deleted in the period',
+  draft: 'Draft or awaiting approval',
+  editedAfterPeriod: 'Edited after the period ended',
+};
+
+/**
+ * Reads G1, 1A and 1B from the rows of the Xero GST (Tax Summary) report
+ * @param gstReport - Raw report as returned by the backend
+ * @returns The report totals, or null when the report has no rows
+ */
+export const parseGstReportTotals = (gstReport: any): GstReportTotals | null => {
+  const rows = gstReport?.Reports?.[0]?.Rows;
+  if (!Array.isArray(rows)) return null;
+
+  const totals: GstReportTotals = { totalSales: 0, totalPurchases: 0, gstOnSales: 0, gstOnPurchases: 0 };
+  rows.forEach((row: any) => {
+    if (!row?.Cells || row.Cells.length === 0) return;
+    const cells = row.Cells;
+    const description = String(cells[0]?.Value || '').toLowerCase();
+    const value = Math.abs(parseFloat(cells[cells.length - 1]?.Value || '0') || 0);
+
+    if (description.includes('gst on sales') || description.includes('output tax')) {
+      totals.gstOnSales += value;
+    } else if (description.includes('gst on purchases') || description.includes('input tax')) {
+      totals.gstOnPurchases += value;
+    } else if (description.includes('total sales')) {
+      totals.totalSales += value;
+    } else if (description.includes('total purchases')) {
+      totals.totalPurchases += value;
+    }
+  });
+
+  return totals;
+};
+
+const describeInvoice = (invoice: XeroInvoice) => ({
+  source: 'invoice' as const,
+  transactionId: invoice.InvoiceID,
+  reference: invoice.InvoiceNumber || invoice.Reference || '',
+  contactName: invoice.Contact?.Name || '',
+  date: invoice.Date,
+  amount: roundCurrency(toAmount(invoice.Total)),
+  gst: roundCurrency(toAmount(invoice.TotalTax)),
+});
+
+const describeBankTransaction = (transaction: XeroBankTransaction) => ({
+  source: 'bankTransaction' as const,
+  transactionId: transaction.BankTransactionID,
+  reference: transaction.Reference || '',
+  contactName: transaction.Contact?.Name || '',
+  date: transaction.Date,
+  amount: roundCurrency(toAmount(transaction.Total)),
+  gst: roundCurrency(toAmount(transaction.TotalTax)),
+});
+
+const formatUpdated = (value: unknown) => {
+  const date = parseXeroDate(value);
+  return date ? toISODate(date) : '';
+};
+
+/**
+ * Finds transactions dated in the period that commonly explain a difference between the
+ * GST report and the transaction totals
+ */
+export const findReconciliationItems = ({
+  invoices,
+  bankTransactions,
+  fromDate,
+  toDate,
+}: {
+  invoices: XeroInvoice[];
+  bankTransactions: XeroBankTransaction[];
+  fromDate: string;
+  toDate: string;
+}): BASReconciliationItem[] => {
+  const items: BASReconciliationItem[] = [];
+
+  const checkRecord = (
+    status: string,
+    updated: unknown,
+    lines: { TaxType?: string; LineAmount: number }[] | undefined,
+    base: Omit<BASReconciliationItem, 'type' | 'detail'>
+  ) => {
+    const normalisedStatus = String(status || '').toUpperCase();
+
+    if (['VOIDED', 'DELETED'].includes(normalisedStatus)) {
+      items.push({ ...base, type: 'voided', detail: `Status ${normalisedStatus}` });
+      return;
+    }
+    if (['DRAFT', 'SUBMITTED'].includes(normalisedStatus)) {
+      items.push({ ...base, type: 'draft', detail: `Status ${normalisedStatus}; excluded from the BAS` });
+      return;
+    }
+
+    const untaxedLines = (lines || []).filter((line) => !line.TaxType && toAmount(line.LineAmount) !== 0);
+    if (untaxedLines.length > 0) {
+      items.push({
+        ...base,
+        type: 'missingTaxType',
+        detail: `${untaxedLines.length} line(s) totalling $${roundCurrency(
+          untaxedLines.reduce((sum, line) => sum + toAmount(line.LineAmount), 0)
+        ).toFixed(2)} have no tax type`,
+      });
+    }
+
+    const updatedDay = formatUpdated(updated);
+    if (updatedDay && updatedDay > toDate) {
+      items.push({ ...base, type: 'editedAfterPeriod', detail: `Last updated ${updatedDay}` });
+    }
+  };
+
+  invoices.forEach((invoice) => {
+    if (!invoice || !isWithinPeriod(invoice.Date, fromDate, toDate)) return;
+    checkRecord(invoice.Status, invoice.UpdatedDateUTC, invoice.LineItems, describeInvoice(invoice));
+  });
+
+  bankTransactions.forEach((transaction) => {
+    if (!transaction || !isWithinPeriod(transaction.Date, fromDate, toDate)) return;
+    checkRecord(transaction.Status, transaction.UpdatedDateUTC, transaction.LineItems, describeBankTransaction(transaction));
+  });
+
+  return items;
+};
+
+/**
+ * Builds the side-by-side comparison of G1, 1A and 1B from the GST report and from transactions
+ * @param params.gstReport - Totals read from the Xero GST report (null when unavailable)
+ * @param params.transactionTotals - Totals attributed from invoices, payments and bank transactions
+ */
+export const reconcileBAS = ({
+  gstReport,
+  transactionTotals,
+  invoices,
+  bankTransactions,
+  fromDate,
+  toDate,
+}: {
+  gstReport: GstReportTotals | null;
+  transactionTotals: Pick<BASGstTotals, 'totalSales' | 'gstOnSales' | 'gstOnPurchases'>;
+  invoices: XeroInvoice[];
+  bankTransactions: XeroBankTransaction[];
+  fromDate: string;
+  toDate: string;
+}): BASReconciliation => {
+  const line = (
+    label: ReconciledLabel,
+    description: string,
+    reportValue: number,
+    transactionValue: number
+  ): BASReconciliationLine => ({
+    label,
+    description,
+    gstReport: roundCurrency(reportValue),
+    transactions: roundCurrency(transactionValue),
+    variance: roundCurrency(reportValue - transactionValue),
+  });
+
+  return {
+    hasGstReport: gstReport !== null,
+    lines: gstReport
+      ? [
+          line('G1', 'Total sales', gstReport.totalSales, transactionTotals.totalSales),
+          line('1A', 'GST on sales', gstReport.gstOnSales, transactionTotals.gstOnSales),
+          line('1B', 'GST on purchases', gstReport.gstOnPurchases, transactionTotals.gstOnPurchases),
+        ]
+      : [],
+    items: findReconciliationItems({ invoices, bankTransactions, fromDate, toDate }),
+  };
+};
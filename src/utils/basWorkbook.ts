@@ -0,0 +1,331 @@
+import { GstAccountingBasis } from '../api/companyService';
+import { BASAdjustment, BASAdjustmentLogEntry, BASFieldValues } from '../api/basRecordService';
+import {
+  XeroAccount,
+  XeroBankTransaction,
+  XeroInvoice,
+  XeroLineItem,
+  XeroPayment,
+} from '../integrations/xero/types';
+import { XERO_BANK_TRANSACTION_TYPES } from '../integrations/xero/constants';
+import { getPaymentFractions } from './basGstAttribution';
+import { getAdjustmentGst } from './basAdjustments';
+import { FuelTaxCreditCalculation, FUEL_TAX_ACTIVITY_LABELS, FUEL_TAX_RATE_PERIODS, formatFuelTaxRatePeriod } from './basOtherTaxes';
+import { buildAccountIndex, classifyPurchaseLine, getLineAmounts } from './basPurchaseClassification';
+import { SpreadsheetCell, SpreadsheetSheet } from './spreadsheetExport';
+import { isWithinPeriod, normaliseXeroCode, parseXeroDate, roundCurrency, toISODate } from './xeroRecords';
+
+/**
+ * BAS Workbook
+ * Builds the working papers of a BAS: a summary of every label, the transactions behind them and the adjustments
+ */
+
+/**
+ * ATO descriptions of the BAS labels, in the order they appear on the activity statement
+ */
+export const BAS_LABEL_DESCRIPTIONS: Record<string, string> = {
+  G1: 'Total sales',
+  G2: 'Export sales',
+  G3: 'Other GST-free sales',
+  G7: 'Adjustments (increasing)',
+  G10: 'Capital purchases',
+  G11: 'Non-capital purchases',
+  G18: 'Adjustments (decreasing)',
+  '1A': 'GST on sales',
+  '1B': 'GST on purchases',
+  '1C': 'Wine equalisation tax payable',
+  '1D': 'Wine equalisation tax refundable',
+  '1E': 'Luxury car tax payable',
+  '1F': 'Luxury car tax refundable',
+  W1: 'Total salary, wages and other payments',
+  W2: 'Amounts withheld from payments shown at W1',
+  W3: 'Other amounts withheld',
+  W4: 'Amounts withheld where no ABN is quoted',
+  W5: 'Total amounts withheld',
+  T1: 'PAYG instalment income',
+  T2: 'Instalment rate',
+  T3: 'Varied instalment rate',
+  T4: 'Reason code for variation',
+  T7: 'Instalment amount',
+  T9: 'Varied amount payable for the quarter',
+  T11: 'PAYG instalment (T1 × T2 or T3)',
+  '5A': 'PAYG instalment payable',
+  '5B': 'Credit from PAYG instalment variation',
+  '7D': 'Fuel tax credit',
+};
+
+const REPORTABLE_INVOICE_STATUSES = new Set<string>(['AUTHORISED', 'PAID']);
+
+const SALES_BANK_TRANSACTION_TYPES = new Set<string>([
+  XERO_BANK_TRANSACTION_TYPES.RECEIVE,
+  XERO_BANK_TRANSACTION_TYPES.RECEIVEOVERPAYMENT,
+  XERO_BANK_TRANSACTION_TYPES.RECEIVEPREPAYMENT,
+]);
+
+const PURCHASE_BANK_TRANSACTION_TYPES = new Set<string>([
+  XERO_BANK_TRANSACTION_TYPES.SPEND,
+  XERO_BANK_TRANSACTION_TYPES.SPENDOVERPAYMENT,
+  XERO_BANK_TRANSACTION_TYPES.SPENDPREPAYMENT,
+]);
+
+const TRANSACTION_COLUMNS = [
+  'Type', 'Date', 'Reference', 'Contact', 'Status', 'Description', 'Account Code', 'Account Name', 'Tax Type',
+  'Gross Amount', 'GST', 'Share Reported', 'Reported Amount', 'Reported GST', 'BAS Labels',
+];
+
+const formatDate = (value: unknown): string => {
+  const date = parseXeroDate(value);
+  return date ? toISODate(date) : '';
+};
+
+const formatDateTime = (value: string): string => new Date(value).toLocaleString('en-AU');
+
+const buildSummarySheet = ({
+  calculatedFields,
+  reportedFields,
+  periodLabel,
+  organisationName,
+  basis,
+}: {
+  calculatedFields: BASFieldValues;
+  reportedFields: BASFieldValues;
+  periodLabel: string;
+  organisationName: string;
+  basis: GstAccountingBasis;
+}): SpreadsheetSheet => {
+  const labels = [
+    ...Object.keys(BAS_LABEL_DESCRIPTIONS),
+    ...Object.keys({ ...calculatedFields, ...reportedFields }).filter((label) => !(label in BAS_LABEL_DESCRIPTIONS)),
+  ].filter((label) => label in calculatedFields || label in reportedFields);
+
+  return {
+    name: 'Summary',
+    rows: [
+      ['Label', 'Description', 'Calculated from Xero', 'Reported', 'Difference'],
+      ...labels.map((label) => {
+        const calculated = calculatedFields[label] ?? null;
+        const reported = reportedFields[label] ?? null;
+        const difference =
+          typeof calculated === 'number' && typeof reported === 'number' ? roundCurrency(reported - calculated) : null;
+        return [label, BAS_LABEL_DESCRIPTIONS[label] || '', calculated, reported, difference || null];
+      }),
+      [],
+      ['Organisation', organisationName],
+      ['Period', periodLabel],
+      ['GST basis', basis],
+      ['Generated', new Date().toLocaleString('en-AU')],
+    ],
+  };
+};
+
+/**
+ * Lists every invoice, bill and bank transaction line included in the BAS with the labels it fed.
+ * Inclusion follows the GST attribution: accrual by transaction date, cash by the share paid in the period.
+ */
+const buildTransactionsSheet = ({
+  basis,
+  invoices,
+  payments,
+  bankTransactions,
+  accounts,
+  fromDate,
+  toDate,
+}: {
+  basis: GstAccountingBasis;
+  invoices: XeroInvoice[];
+  payments: XeroPayment[];
+  bankTransactions: XeroBankTransaction[];
+  accounts: XeroAccount[];
+  fromDate: string;
+  toDate: string;
+}): SpreadsheetSheet => {
+  const accountIndex = buildAccountIndex(accounts);
+  const { fractions } = basis === 'Cash'
+    ? getPaymentFractions(payments, invoices, fromDate, toDate)
+    : { fractions: new Map<string, number>() };
+  const rows: SpreadsheetCell[][] = [];
+
+  const addLines = (
+    items: XeroLineItem[] | undefined,
+    lineAmountTypes: string | undefined,
+    isSale: boolean,
+    fraction: number,
+    base: { type: string; date: string; reference: string; contact: string; status: string }
+  ) => {
+    (items || []).forEach((line) => {
+      const taxType = String(line.TaxType || '').toUpperCase();
+      const accountCode = line.AccountCode ? String(line.AccountCode) : '';
+      const account = accountCode ? accountIndex.get(accountCode) : undefined;
+      const { gross, gst } = getLineAmounts(line, lineAmountTypes);
+
+      let labels: string;
+      if (taxType === 'BASEXCLUDED') {
+        labels = 'Excluded from BAS';
+      } else if (isSale) {
+        labels = gst !== 0 ? 'G1, 1A' : 'G1';
+      } else {
+        const { label } = classifyPurchaseLine(line, account);
+        labels = gst !== 0 ? `${label}, 1B` : label;
+      }
+
+      rows.push([
+        base.type,
+        base.date,
+        base.reference,
+        base.contact,
+        base.status,
+        line.Description || '',
+        accountCode,
+        account?.Name || '',
+        taxType,
+        roundCurrency(gross),
+        roundCurrency(gst),
+        Math.round(fraction * 10000) / 10000,
+        roundCurrency(gross * fraction),
+        roundCurrency(gst * fraction),
+        labels,
+      ]);
+    });
+  };
+
+  invoices.forEach((invoice) => {
+    if (!invoice || !REPORTABLE_INVOICE_STATUSES.has(String(invoice.Status || '').toUpperCase())) return;
+    if (invoice.Type !== 'ACCREC' && invoice.Type !== 'ACCPAY') return;
+
+    let fraction = 1;
+    if (basis === 'Cash') {
+      fraction = fractions.get(invoice.InvoiceID) || 0;
+      if (fraction === 0) return;
+    } else if (!isWithinPeriod(invoice.Date, fromDate, toDate)) {
+      return;
+    }
+
+    addLines(invoice.LineItems, invoice.LineAmountTypes, invoice.Type === 'ACCREC', fraction, {
+      type: invoice.Type === 'ACCREC' ? 'Invoice' : 'Bill',
+      date: formatDate(invoice.Date),
+      reference: invoice.InvoiceNumber || invoice.Reference || '',
+      contact: invoice.Contact?.Name || '',
+      status: invoice.Status,
+    });
+  });
+
+  bankTransactions.forEach((transaction) => {
+    if (!transaction || ['VOIDED', 'DELETED'].includes(String(transaction.Status || '').toUpperCase())) return;
+    if (!isWithinPeriod(transaction.Date, fromDate, toDate)) return;
+
+    const type = normaliseXeroCode(transaction.BankTransactionType);
+    if (!SALES_BANK_TRANSACTION_TYPES.has(type) && !PURCHASE_BANK_TRANSACTION_TYPES.has(type)) return;
+
+    addLines(transaction.LineItems, transaction.LineAmountTypes, SALES_BANK_TRANSACTION_TYPES.has(type), 1, {
+      type: SALES_BANK_TRANSACTION_TYPES.has(type) ? 'Receive money' : 'Spend money',
+      date: formatDate(transaction.Date),
+      reference: transaction.Reference || '',
+      contact: transaction.Contact?.Name || '',
+      status: transaction.Status,
+    });
+  });
+
+  rows.sort((a, b) => String(a[1]).localeCompare(String(b[1])));
+  return { name: 'Transactions', rows: [TRANSACTION_COLUMNS, ...rows] };
+};
+
+const buildAdjustmentsSheet = (
+  adjustments: BASAdjustment[],
+  adjustmentLog: BASAdjustmentLogEntry[]
+): SpreadsheetSheet => ({
+  name: 'Adjustments',
+  rows: [
+    ['Label', 'Type', 'Amount', 'GST', 'Reason', 'Attachment Reference', 'Added By', 'Added At'],
+    ...adjustments.map((adjustment) => [
+      adjustment.label,
+      adjustment.kind === 'Override' ? 'Override' : adjustment.kind === 'G7' ? 'Increasing adjustment' : 'Decreasing adjustment',
+      adjustment.amount,
+      adjustment.kind === 'Override' ? null : getAdjustmentGst(adjustment.amount),
+      adjustment.reason,
+      adjustment.attachmentReference || '',
+      adjustment.createdBy,
+      formatDateTime(adjustment.createdAt),
+    ]),
+    ...(adjustmentLog.length > 0
+      ? [
+          [],
+          ['Audit Trail'],
+          ['Action', 'Label', 'Amount', 'Reason', 'Changed By', 'Changed At'],
+          ...adjustmentLog.map((entry) => [
+            entry.action,
+            entry.adjustment.label,
+            entry.adjustment.amount,
+            entry.adjustment.reason,
+            entry.changedBy,
+            formatDateTime(entry.changedAt),
+          ]),
+        ]
+      : []),
+  ],
+});
+
+const buildFuelTaxCreditsSheet = (fuelTaxCredits: FuelTaxCreditCalculation): SpreadsheetSheet => ({
+  name: 'Fuel Tax Credits',
+  rows: [
+    ['Activity', 'Rate Period', 'Litres', 'Rate (c/L)', 'Credit'],
+    ...fuelTaxCredits.lines.map((line) => {
+      const period = FUEL_TAX_RATE_PERIODS.find((candidate) => candidate.id === line.ratePeriodId);
+      return [
+        FUEL_TAX_ACTIVITY_LABELS[line.activity],
+        period ? formatFuelTaxRatePeriod(period) : line.ratePeriodId,
+        line.litres,
+        line.rate,
+        line.credit,
+      ];
+    }),
+    ['Total (7D)', null, null, null, fuelTaxCredits.total],
+  ],
+});
+
+/**
+ * Builds the BAS working papers from the Xero data already loaded for the period
+ * @param params.calculatedFields - BAS labels as calculated from Xero
+ * @param params.reportedFields - BAS labels as reported, after adjustments
+ * @param params.invoices - Invoices and bills loaded for the period, including those paid in it
+ * @param params.payments - Payments in the period (cash basis)
+ * @param params.bankTransactions - Bank transactions for the period
+ * @param params.accounts - Xero chart of accounts
+ * @param params.fuelTaxCredits - Fuel tax credit calculation; a sheet is added when litres were entered
+ * @returns The Summary, Transactions and Adjustments sheets
+ */
+export const buildBASWorkbookSheets = ({
+  periodLabel,
+  organisationName,
+  basis,
+  calculatedFields,
+  reportedFields,
+  invoices,
+  payments,
+  bankTransactions,
+  accounts,
+  fromDate,
+  toDate,
+  adjustments,
+  adjustmentLog,
+  fuelTaxCredits,
+}: {
+  periodLabel: string;
+  organisationName: string;
+  basis: GstAccountingBasis;
+  calculatedFields: BASFieldValues;
+  reportedFields: BASFieldValues;
+  invoices: XeroInvoice[];
+  payments: XeroPayment[];
+  bankTransactions: XeroBankTransaction[];
+  accounts: XeroAccount[];
+  fromDate: string;
+  toDate: string;
+  adjustments: BASAdjustment[];
+  adjustmentLog: BASAdjustmentLogEntry[];
+  fuelTaxCredits?: FuelTaxCreditCalculation;
+}): SpreadsheetSheet[] => [
+  buildSummarySheet({ calculatedFields, reportedFields, periodLabel, organisationName, basis }),
+  buildTransactionsSheet({ basis, invoices, payments, bankTransactions, accounts, fromDate, toDate }),
+  buildAdjustmentsSheet(adjustments, adjustmentLog),
+  ...(fuelTaxCredits && fuelTaxCredits.lines.length > 0 ? [buildFuelTaxCreditsSheet(fuelTaxCredits)] : []),
+];
@@ -0,0 +1,115 @@
+import { BASRecord, BASRecordStatus } from '../api/basRecordService';
+import { ComplianceDeadlines } from '../api/companyService';
+import { getAtoQuarterKey, getPeriodForDate, ReportingPeriod, ReportingPeriodOptions } from './reportingPeriods';
+import { parseXeroDate } from './xeroRecords';
+
+/**
+ * BAS Workflow
+ * Status rules for saved BAS records and the roll-forward of the next BAS due date
+ */
+
+export const BAS_RECORD_STATUSES: BASRecordStatus[] = ['Draft', 'Prepared', 'Reviewed', 'Client Approved', 'Lodged'];
+
+export const BAS_STATUS_COLORS: Record<BASRecordStatus, 'default' | 'info' | 'primary' | 'warning' | 'success'> = {
+  Draft: 'default',
+  Prepared: 'info',
+  Reviewed: 'primary',
+  'Client Approved': 'warning',
+  Lodged: 'success',
+};
+
+// A BAS moves forward one step at a time; before lodgement it can be sent back to Draft for rework
+const ALLOWED_TRANSITIONS: Record<BASRecordStatus, BASRecordStatus[]> = {
+  Draft: ['Prepared'],
+  Prepared: ['Reviewed', 'Draft'],
+  Reviewed: ['Client Approved', 'Draft'],
+  'Client Approved': ['Lodged', 'Draft'],
+  Lodged: [],
+};
+
+// ATO due dates for quarterly lodgers (day, 0-indexed month), by quarter
+const DEFAULT_QUARTERLY_DUE: Record<'q1' | 'q2' | 'q3' | 'q4', [number, number]> = {
+  q1: [28, 9], // 28 October
+  q2: [28, 1], // 28 February
+  q3: [28, 3], // 28 April
+  q4: [28, 6], // 28 July
+};
+
+const DEFAULT_MONTHLY_DUE_DAY = 21;
+
+export const getAllowedTransitions = (status: BASRecordStatus): BASRecordStatus[] => ALLOWED_TRANSITIONS[status] || [];
+
+/**
+ * A lodged BAS is locked: its figures are frozen and no further transitions are allowed
+ */
+export const isBASRecordLocked = (record: Pick<BASRecord, 'status' | 'lockedAt'>): boolean =>
+  record.status === 'Lodged' || !!record.lockedAt;
+
+const parseDay = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// First date on the given day and month that falls after a date
+const nextOccurrence = (day: number, month: number, after: Date) => {
+  const candidate = new Date(after.getFullYear(), month, day);
+  return candidate > after ? candidate : new Date(after.getFullYear() + 1, month, day);
+};
+
+/**
+ * Returns the lodgement due date of a BAS period. Configured compliance deadlines take
+ * precedence; otherwise the standard ATO due dates are used.
+ * @param period - Reporting period of the BAS
+ * @param deadlines - Compliance deadlines configured by the superadmin
+ */
+export const getBasDueDate = (
+  period: Pick<ReportingPeriod, 'frequency' | 'toDate'>,
+  deadlines?: ComplianceDeadlines | null
+): Date => {
+  const periodEnd = parseDay(period.toDate);
+
+  if (period.frequency === 'Monthly') {
+    const day = Number(deadlines?.bas.monthly) || DEFAULT_MONTHLY_DUE_DAY;
+    return new Date(periodEnd.getFullYear(), periodEnd.getMonth() + 1, day);
+  }
+
+  const quarterKey = period.frequency === 'Quarterly' ? getAtoQuarterKey(period) : null;
+  const configured = period.frequency === 'Quarterly'
+    ? quarterKey && deadlines?.bas.quarterly[quarterKey]
+    : deadlines?.annual.standard;
+  const configuredDate = parseXeroDate(configured);
+  if (configuredDate) {
+    return nextOccurrence(configuredDate.getDate(), configuredDate.getMonth(), periodEnd);
+  }
+
+  if (quarterKey) {
+    const [day, month] = DEFAULT_QUARTERLY_DUE[quarterKey];
+    return nextOccurrence(day, month, periodEnd);
+  }
+
+  // Annual GST returns and non-standard quarters: the 28th of the fourth month after the period
+  return new Date(periodEnd.getFullYear(), periodEnd.getMonth() + 4, 28);
+};
+
+/**
+ * Rolls the next BAS due date forward past the latest lodged BAS
+ * @param records - Saved BAS records of the company
+ * @param options - Lodgement frequency and financial year end from the compliance profile
+ * @param deadlines - Configured compliance deadlines
+ * @returns The due date of the period after the latest lodged BAS, or null when nothing is lodged
+ */
+export const getNextBasDue = (
+  records: Pick<BASRecord, 'status' | 'toDate'>[],
+  options: ReportingPeriodOptions,
+  deadlines?: ComplianceDeadlines | null
+): { period: ReportingPeriod; dueDate: Date } | null => {
+  const latestLodged = records
+    .filter((record) => record.status === 'Lodged')
+    .reduce<string | null>((latest, record) => (!latest || record.toDate > latest ? record.toDate : latest), null);
+  if (!latestLodged) return null;
+
+  const dayAfter = parseDay(latestLodged);
+  dayAfter.setDate(dayAfter.getDate() + 1);
+  const period = getPeriodForDate(dayAfter, options);
+  return { period, dueDate: getBasDueDate(period, deadlines) };
+};
@@ -0,0 +1,239 @@
+import { BASFieldValues } from '../api/basRecordService';
+import { toAmount } from './xeroRecords';
+
+/**
+ * BAS XBRL Export
+ * Builds an XBRL instance of the activity statement for import into practice software, and checks it
+ * before download. The namespace and element names are this application's own, not the ATO SBR
+ * taxonomy's, so the file cannot be lodged through SBR.
+ */
+
+type XbrlFactType = 'monetary' | 'percent' | 'code';
+
+interface XbrlElementDefinition {
+  /** Element name in the BAS export namespace, without the prefix */
+  element: string;
+  type: XbrlFactType;
+  required?: boolean;
+}
+
+export const XBRL_INSTANCE_NAMESPACE = 'http://www.xbrl.org/2003/instance';
+// Namespace and identifier scheme owned by this application; neither is an ATO or SBR identifier
+export const BAS_EXPORT_NAMESPACE = 'urn:compliance-manager:bas-export:1';
+export const ABN_IDENTIFIER_SCHEME = 'urn:compliance-manager:abn';
+
+const CONTEXT_ID = 'RP';
+const MONETARY_UNIT_ID = 'AUD';
+const PURE_UNIT_ID = 'PURE';
+
+/**
+ * BAS labels and the export elements they are reported under. Amounts are reported in whole dollars,
+ * as on the paper activity statement.
+ */
+export const BAS_XBRL_ELEMENTS: Record<string, XbrlElementDefinition> = {
+  G1: { element: 'GoodsAndServicesTax.Supplies.Total.Amount', type: 'monetary', required: true },
+  G2: { element: 'GoodsAndServicesTax.Supplies.Export.Amount', type: 'monetary' },
+  G3: { element: 'GoodsAndServicesTax.Supplies.GSTFree.Amount', type: 'monetary' },
+  G7: { element: 'GoodsAndServicesTax.Adjustments.Increasing.Amount', type: 'monetary' },
+  G10: { element: 'GoodsAndServicesTax.Acquisitions.Capital.Amount', type: 'monetary' },
+  G11: { element: 'GoodsAndServicesTax.Acquisitions.NonCapital.Amount', type: 'monetary' },
+  G18: { element: 'GoodsAndServicesTax.Adjustments.Decreasing.Amount', type: 'monetary' },
+  '1A': { element: 'GoodsAndServicesTax.Payable.Amount', type: 'monetary', required: true },
+  '1B': { element: 'GoodsAndServicesTax.Credit.Amount', type: 'monetary', required: true },
+  '1C': { element: 'WineEqualisationTax.Payable.Amount', type: 'monetary' },
+  '1D': { element: 'WineEqualisationTax.Refundable.Amount', type: 'monetary' },
+  '1E': { element: 'LuxuryCarTax.Payable.Amount', type: 'monetary' },
+  '1F': { element: 'LuxuryCarTax.Refundable.Amount', type: 'monetary' },
+  W1: { element: 'PayAsYouGoWithholding.SalaryWagesAndOtherPayments.Amount', type: 'monetary' },
+  W2: { element: 'PayAsYouGoWithholding.SalaryWagesAndOtherPayments.Withheld.Amount', type: 'monetary' },
+  W3: { element: 'PayAsYouGoWithholding.Other.Withheld.Amount', type: 'monetary' },
+  W4: { element: 'PayAsYouGoWithholding.NoABNQuoted.Withheld.Amount', type: 'monetary' },
+  W5: { element: 'PayAsYouGoWithholding.Total.Withheld.Amount', type: 'monetary' },
+  T1: { element: 'IncomeTax.PayAsYouGoInstalment.InstalmentIncome.Amount', type: 'monetary' },
+  T2: { element: 'IncomeTax.PayAsYouGoInstalment.CommissionerRate.Percent', type: 'percent' },
+  T3: { element: 'IncomeTax.PayAsYouGoInstalment.VariedRate.Percent', type: 'percent' },
+  T4: { element: 'IncomeTax.PayAsYouGoInstalment.VariationReason.Code', type: 'code' },
+  T7: { element: 'IncomeTax.PayAsYouGoInstalment.NotifiedAmount.Amount', type: 'monetary' },
+  T9: { element: 'IncomeTax.PayAsYouGoInstalment.VariedAmount.Amount', type: 'monetary' },
+  T11: { element: 'IncomeTax.PayAsYouGoInstalment.Calculated.Amount', type: 'monetary' },
+  '5A': { element: 'IncomeTax.PayAsYouGoInstalment.Payable.Amount', type: 'monetary' },
+  '5B': { element: 'IncomeTax.PayAsYouGoInstalment.VariationCredit.Amount', type: 'monetary' },
+  '7D': { element: 'FuelTaxCredit.Claimed.Amount', type: 'monetary' },
+};
+
+const FACT_VALUE_PATTERNS: Record<XbrlFactType, RegExp> = {
+  monetary: /^-?\d+$/,
+  percent: /^\d+(\.\d{1,2})?$/,
+  code: /^\d{2}$/,
+};
+
+const ABN_WEIGHTS = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+
+/**
+ * Validates an ABN with the ATO check digit algorithm
+ */
+export const isValidABN = (value: string | null | undefined): boolean => {
+  const digits = String(value || '').replace(/\s/g, '');
+  if (!/^\d{11}$/.test(digits)) return false;
+  const sum = digits
+    .split('')
+    .map(Number)
+    .reduce((total, digit, index) => total + (index === 0 ? digit - 1 : digit) * ABN_WEIGHTS[index], 0);
+  return sum % 89 === 0;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const formatFactValue = (type: XbrlFactType, value: number | string) => {
+  if (type === 'code') return String(value).trim();
+  if (type === 'percent') return toAmount(value).toFixed(2);
+  // Whole dollars; cents are dropped as on the activity statement
+  return String(Math.trunc(toAmount(value)));
+};
+
+/**
+ * Builds the XBRL instance document of a BAS
+ * @param params.fields - BAS labels and values, as sent to the PDF report
+ * @param params.abn - ABN of the reporting entity
+ * @param params.fromDate - Period start (YYYY-MM-DD)
+ * @param params.toDate - Period end (YYYY-MM-DD)
+ */
+export const buildBASXbrl = ({
+  fields,
+  abn,
+  fromDate,
+  toDate,
+}: {
+  fields: BASFieldValues;
+  abn: string;
+  fromDate: string;
+  toDate: string;
+}): string => {
+  const facts = Object.entries(BAS_XBRL_ELEMENTS)
+    .filter(([label]) => fields[label] !== undefined && fields[label] !== null && fields[label] !== '')
+    .map(([label, definition]) => {
+      const value = formatFactValue(definition.type, fields[label] as number | string);
+      const attributes =
+        definition.type === 'code'
+          ? `contextRef="${CONTEXT_ID}"`
+          : `contextRef="${CONTEXT_ID}" unitRef="${definition.type === 'monetary' ? MONETARY_UNIT_ID : PURE_UNIT_ID}" decimals="${
+              definition.type === 'monetary' ? 0 : 2
+            }"`;
+      return `  <bas:${definition.element} ${attributes}>${escapeXml(value)}</bas:${definition.element}>`;
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xbrli:xbrl xmlns:xbrli="${XBRL_INSTANCE_NAMESPACE}" xmlns:iso4217="http://www.xbrl.org/2003/iso4217" xmlns:bas="${BAS_EXPORT_NAMESPACE}">`,
+    `  <xbrli:context id="${CONTEXT_ID}">`,
+    '    <xbrli:entity>',
+    `      <xbrli:identifier scheme="${ABN_IDENTIFIER_SCHEME}">${escapeXml(abn.replace(/\s/g, ''))}</xbrli:identifier>`,
+    '    </xbrli:entity>',
+    '    <xbrli:period>',
+    `      <xbrli:startDate>${escapeXml(fromDate)}</xbrli:startDate>`,
+    `      <xbrli:endDate>${escapeXml(toDate)}</xbrli:endDate>`,
+    '    </xbrli:period>',
+    '  </xbrli:context>',
+    `  <xbrli:unit id="${MONETARY_UNIT_ID}"><xbrli:measure>iso4217:AUD</xbrli:measure></xbrli:unit>`,
+    `  <xbrli:unit id="${PURE_UNIT_ID}"><xbrli:measure>xbrli:pure</xbrli:measure></xbrli:unit>`,
+    ...facts,
+    '</xbrli:xbrl>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Checks a generated XBRL instance against the BAS element definitions above: well-formed XML,
+ * a single ABN-identified period context, known elements with valid values and units, the
+ * required labels, and W5 equal to W2 + W3 + W4
+ * @param xml - XBRL instance document
+ * @returns Problems found; empty when the document passes
+ */
+export const checkBASXbrl = (xml: string): string[] => {
+  const errors: string[] = [];
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    return ['The document is not well-formed XML.'];
+  }
+
+  const root = document.documentElement;
+  if (root.localName !== 'xbrl' || root.namespaceURI !== XBRL_INSTANCE_NAMESPACE) {
+    return ['The root element must be xbrli:xbrl.'];
+  }
+
+  const contexts = document.getElementsByTagNameNS(XBRL_INSTANCE_NAMESPACE, 'context');
+  if (contexts.length !== 1) {
+    errors.push(`Expected one reporting period context, found ${contexts.length}.`);
+  } else {
+    const context = contexts[0];
+    const identifier = context.getElementsByTagNameNS(XBRL_INSTANCE_NAMESPACE, 'identifier')[0];
+    if (!identifier || identifier.getAttribute('scheme') !== ABN_IDENTIFIER_SCHEME) {
+      errors.push('The entity identifier must use the ABN scheme.');
+    } else if (!isValidABN(identifier.textContent)) {
+      errors.push(`"${identifier.textContent || ''}" is not a valid ABN.`);
+    }
+
+    const startDate = context.getElementsByTagNameNS(XBRL_INSTANCE_NAMESPACE, 'startDate')[0]?.textContent || '';
+    const endDate = context.getElementsByTagNameNS(XBRL_INSTANCE_NAMESPACE, 'endDate')[0]?.textContent || '';
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+      errors.push('The period start and end dates must be in YYYY-MM-DD format.');
+    } else if (startDate > endDate) {
+      errors.push('The period start date is after the end date.');
+    }
+  }
+
+  const unitIds = new Set(
+    Array.from(document.getElementsByTagNameNS(XBRL_INSTANCE_NAMESPACE, 'unit')).map((unit) => unit.getAttribute('id'))
+  );
+  const definitionsByElement = new Map(
+    Object.entries(BAS_XBRL_ELEMENTS).map(([label, definition]) => [definition.element, { label, ...definition }])
+  );
+  const reported = new Map<string, number>();
+
+  Array.from(root.children)
+    .filter((element) => element.namespaceURI === BAS_EXPORT_NAMESPACE)
+    .forEach((element) => {
+      const definition = definitionsByElement.get(element.localName);
+      if (!definition) {
+        errors.push(`${element.localName} is not a BAS element.`);
+        return;
+      }
+      if (reported.has(definition.label)) {
+        errors.push(`${definition.label} is reported more than once.`);
+      }
+      if (element.getAttribute('contextRef') !== CONTEXT_ID) {
+        errors.push(`${definition.label} does not refer to the reporting period context.`);
+      }
+      if (definition.type !== 'code' && !unitIds.has(element.getAttribute('unitRef'))) {
+        errors.push(`${definition.label} refers to an undeclared unit.`);
+      }
+
+      const value = (element.textContent || '').trim();
+      if (!FACT_VALUE_PATTERNS[definition.type].test(value)) {
+        errors.push(`${definition.label} has an invalid value "${value}".`);
+      } else if (definition.type === 'monetary' && Number(value) < 0) {
+        errors.push(`${definition.label} cannot be negative.`);
+      }
+      reported.set(definition.label, Number(value));
+    });
+
+  Object.entries(BAS_XBRL_ELEMENTS)
+    .filter(([label, definition]) => definition.required && !reported.has(label))
+    .forEach(([label]) => errors.push(`${label} is required.`));
+
+  if (reported.has('W5')) {
+    const withheld = (reported.get('W2') || 0) + (reported.get('W3') || 0) + (reported.get('W4') || 0);
+    // Each label is truncated to whole dollars, so allow for the dropped cents
+    if (Math.abs(withheld - (reported.get('W5') || 0)) > 2) {
+      errors.push('W5 must equal W2 + W3 + W4.');
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,212 @@
+import { getSectionData, isPlainObject, roundCurrency, toAmount } from './xeroRecords';
+
+/**
+ * FBT Calculation
+ * Classifies fringe benefits into Type 1 and Type 2 amounts and grosses them up at the rates of the FBT year
+ */
+
+export type FBTBenefitCategory = 'car' | 'entertainment' | 'other';
+
+/** Type 1 benefits carry a GST credit for the employer, Type 2 benefits do not */
+export type FBTBenefitType = 'type1' | 'type2';
+
+export type FBTBenefitAmounts = Record<FBTBenefitType, number>;
+
+export type FBTBenefitSummary = Record<FBTBenefitCategory, FBTBenefitAmounts>;
+
+export interface FBTRates {
+  /** First FBT year (the year in which 31 March falls) the rates apply to */
+  fromYear: number;
+  /** FBT rate as a percentage */
+  fbtRate: number;
+  type1GrossUpRate: number;
+  type2GrossUpRate: number;
+}
+
+export interface FBTCalculation {
+  fbtYear: number;
+  rates: FBTRates;
+  /** Taxable values by category and type, before gross-up */
+  benefits: FBTBenefitSummary;
+  type1Aggregate: number;
+  type2Aggregate: number;
+  type1GrossedUp: number;
+  type2GrossedUp: number;
+  grossTaxableValue: number;
+  fbtPayable: number;
+  /** 'benefits' when calculated from classified benefits, 'report' when taken from the gross taxable value Xero reported */
+  source: 'benefits' | 'report';
+}
+
+export const FBT_BENEFIT_CATEGORY_LABELS: Record<FBTBenefitCategory, string> = {
+  car: 'Car fringe benefits',
+  entertainment: 'Entertainment',
+  other: 'Other benefits',
+};
+
+/**
+ * ATO FBT rate and gross-up rates by FBT year. The rates follow the top marginal tax rate plus the
+ * Medicare levy; add a row here when the ATO publishes new rates.
+ */
+export const FBT_RATES: FBTRates[] = [
+  { fromYear: 2014, fbtRate: 46.5, type1GrossUpRate: 2.0647, type2GrossUpRate: 1.8692 },
+  { fromYear: 2015, fbtRate: 49, type1GrossUpRate: 2.1463, type2GrossUpRate: 1.9608 },
+  { fromYear: 2018, fbtRate: 47, type1GrossUpRate: 2.0802, type2GrossUpRate: 1.8868 },
+];
+
+// Xero tax types on which the employer claims a GST credit
+const GST_CREDITABLE_TAX_TYPES = new Set<string>(['INPUT', 'CAPEXINPUT', 'GSTONIMPORTS', 'GSTONCAPIMPORTS']);
+
+const TYPE_2_PATTERN = /type\s*2|non[-\s]?creditable|no gst|gst[-\s]?free/i;
+
+export const createEmptyBenefitSummary = (): FBTBenefitSummary => ({
+  car: { type1: 0, type2: 0 },
+  entertainment: { type1: 0, type2: 0 },
+  other: { type1: 0, type2: 0 },
+});
+
+/**
+ * Returns the rates in force for an FBT year. Years before the table use its earliest rates.
+ * @param fbtYear - Year in which the FBT year ends (31 March)
+ */
+export const getFbtRates = (fbtYear: number): FBTRates =>
+  [...FBT_RATES].reverse().find((rates) => rates.fromYear <= fbtYear) || FBT_RATES[0];
+
+const getBenefitCategory = (description: string): FBTBenefitCategory | null => {
+  const value = description.toLowerCase();
+  if (value.includes('car')) return 'car';
+  if (value.includes('entertainment')) return 'entertainment';
+  if (value.includes('fbt')) return 'other';
+  return null;
+};
+
+/**
+ * Works out whether a benefit is Type 1 or Type 2. GST charged on the transaction or a creditable tax type
+ * makes it Type 1. Anything that cannot be determined is treated as Type 1, the higher gross-up, so the
+ * liability is not understated.
+ */
+const getBenefitType = ({
+  description,
+  taxType,
+  taxAmount,
+}: {
+  description: string;
+  taxType?: unknown;
+  taxAmount?: unknown;
+}): FBTBenefitType => {
+  if (toAmount(taxAmount) !== 0) return 'type1';
+  const normalisedTaxType = String(taxType || '').trim().toUpperCase();
+  if (normalisedTaxType) {
+    return GST_CREDITABLE_TAX_TYPES.has(normalisedTaxType) ? 'type1' : 'type2';
+  }
+  return TYPE_2_PATTERN.test(description) ? 'type2' : 'type1';
+};
+
+/**
+ * Classifies the benefits in Xero FAS data by category and type. Report rows are used when present,
+ * otherwise the period's transactions.
+ * @param fasData - FAS data returned by the backend
+ * @returns The benefits and any gross taxable value reported by Xero
+ */
+export const classifyFbtBenefits = (
+  fasData: any
+): { benefits: FBTBenefitSummary; reportedGrossTaxableValue: number } => {
+  const benefits = createEmptyBenefitSummary();
+  let reportedGrossTaxableValue = 0;
+  let benefitCount = 0;
+
+  const dataRoot = isPlainObject(fasData?.data) ? fasData.data : fasData;
+  const fasReport =
+    getSectionData(fasData, 'fasReport') ||
+    getSectionData(dataRoot, 'fasReport') ||
+    getSectionData(dataRoot, 'reports');
+
+  const rows = Array.isArray(fasReport?.Rows)
+    ? fasReport.Rows
+    : Array.isArray(fasReport)
+    ? fasReport
+    : fasReport?.Reports?.[0]?.Rows || [];
+
+  (Array.isArray(rows) ? rows : []).forEach((row: any) => {
+    const cells = row?.Cells;
+    if (!Array.isArray(cells) || cells.length === 0) return;
+
+    const description = String(cells[0]?.Value || '');
+    const value = Math.abs(toAmount(cells[cells.length - 1]?.Value));
+    if (description.toLowerCase().includes('gross taxable value')) {
+      reportedGrossTaxableValue += value;
+      return;
+    }
+
+    const category = getBenefitCategory(description);
+    if (!category) return;
+    benefits[category][getBenefitType({ description })] += value;
+    benefitCount += 1;
+  });
+
+  if (benefitCount === 0) {
+    const transactions = getSectionData(fasData, 'transactions');
+    if (Array.isArray(transactions)) {
+      transactions.forEach((tx: any) => {
+        const description = String(tx?.Category || tx?.Type || '');
+        const category = getBenefitCategory(description);
+        if (!category) return;
+
+        // Type 1 benefits are valued GST-inclusive, so the total is preferred where the transaction has one
+        const value = Math.abs(toAmount(tx?.Total ?? tx?.Amount ?? tx?.Value));
+        benefits[category][getBenefitType({ description, taxType: tx?.TaxType, taxAmount: tx?.TaxAmount })] += value;
+      });
+    }
+  }
+
+  (Object.keys(benefits) as FBTBenefitCategory[]).forEach((category) => {
+    benefits[category].type1 = roundCurrency(benefits[category].type1);
+    benefits[category].type2 = roundCurrency(benefits[category].type2);
+  });
+
+  return { benefits, reportedGrossTaxableValue: roundCurrency(reportedGrossTaxableValue) };
+};
+
+/**
+ * Grosses up the Type 1 and Type 2 aggregate amounts and applies the FBT rate of the year
+ * @param params.benefits - Taxable values by category and type
+ * @param params.fbtYear - Year in which the FBT year ends (31 March)
+ * @param params.reportedGrossTaxableValue - Gross taxable value reported by Xero, used when no benefits were classified
+ */
+export const calculateFbt = ({
+  benefits,
+  fbtYear,
+  reportedGrossTaxableValue = 0,
+}: {
+  benefits: FBTBenefitSummary;
+  fbtYear: number;
+  reportedGrossTaxableValue?: number;
+}): FBTCalculation => {
+  const rates = getFbtRates(fbtYear);
+  const categories = Object.values(benefits);
+  const type1Aggregate = roundCurrency(categories.reduce((sum, amounts) => sum + amounts.type1, 0));
+  const type2Aggregate = roundCurrency(categories.reduce((sum, amounts) => sum + amounts.type2, 0));
+  const type1GrossedUp = roundCurrency(type1Aggregate * rates.type1GrossUpRate);
+  const type2GrossedUp = roundCurrency(type2Aggregate * rates.type2GrossUpRate);
+
+  const useReport = type1Aggregate === 0 && type2Aggregate === 0 && reportedGrossTaxableValue > 0;
+  const grossTaxableValue = useReport ? reportedGrossTaxableValue : roundCurrency(type1GrossedUp + type2GrossedUp);
+
+  return {
+    fbtYear,
+    rates,
+    benefits,
+    type1Aggregate,
+    type2Aggregate,
+    type1GrossedUp,
+    type2GrossedUp,
+    grossTaxableValue,
+    fbtPayable: roundCurrency((grossTaxableValue * rates.fbtRate) / 100),
+    source: useReport ? 'report' : 'benefits',
+  };
+};
+
+/**
+ * Total taxable value of a category across both types
+ */
+export const getBenefitTotal = (amounts: FBTBenefitAmounts): number => roundCurrency(amounts.type1 + amounts.type2);
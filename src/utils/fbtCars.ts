@@ -0,0 +1,229 @@
+import { FBTCar, FBTCarFuelType } from '../api/companyService';
+import { FBTBenefitAmounts, FBTBenefitType } from './fbtCalculation';
+import { FBT_YEAR_END, getFinancialYearBounds, getFinancialYearForDate } from './reportingPeriods';
+import { roundCurrency, toISODate } from './xeroRecords';
+
+/**
+ * FBT Cars
+ * Car fringe benefit taxable values under the statutory formula and operating cost methods
+ */
+
+export type FBTCarMethod = 'statutory' | 'operatingCost';
+
+export interface FBTCarCalculation {
+  car: FBTCar;
+  statutoryValue: number;
+  operatingCostValue: number;
+  /** The method giving the lower taxable value */
+  recommendedMethod: FBTCarMethod;
+  /** Taxable value under the recommended method, or nil when the car is exempt as an electric vehicle */
+  taxableValue: number;
+  benefitType: FBTBenefitType;
+  electricVehicle: {
+    eligible: boolean;
+    /** Why the car does not qualify, when it is a zero or low emissions car */
+    reasons: string[];
+  };
+}
+
+export interface FBTCarRegisterSummary {
+  cars: FBTCarCalculation[];
+  /** Taxable values for the whole FBT year */
+  annual: FBTBenefitAmounts;
+  /** Share of the FBT year covered by the reporting period */
+  periodShare: number;
+  /** Annual taxable values apportioned to the reporting period */
+  period: FBTBenefitAmounts;
+}
+
+export const FBT_CAR_METHOD_LABELS: Record<FBTCarMethod, string> = {
+  statutory: 'Statutory formula',
+  operatingCost: 'Operating cost',
+};
+
+export const FBT_CAR_FUEL_TYPE_LABELS: Record<FBTCarFuelType, string> = {
+  Petrol: 'Petrol',
+  Diesel: 'Diesel',
+  Hybrid: 'Hybrid',
+  PlugInHybrid: 'Plug-in hybrid',
+  Electric: 'Battery electric',
+  Hydrogen: 'Hydrogen fuel cell',
+};
+
+// The statutory formula applies a flat 20% to the base value regardless of kilometres travelled
+const STATUTORY_RATE = 0.2;
+
+// Cars first held and used before this date cannot use the electric vehicle exemption
+const EV_EXEMPTION_START = '2022-07-01';
+
+// Plug-in hybrids stopped qualifying from the FBT year ending 31 March 2026
+const PLUG_IN_HYBRID_LAST_FBT_YEAR = 2025;
+
+/**
+ * Luxury car tax threshold for fuel-efficient cars by financial year (ending 30 June). A car only
+ * qualifies for the electric vehicle exemption if its first retail sale was below the threshold.
+ */
+export const LCT_FUEL_EFFICIENT_THRESHOLDS: Record<number, number> = {
+  2023: 84916,
+  2024: 89332,
+  2025: 89332,
+  2026: 91387,
+};
+
+const ZERO_EMISSIONS_FUEL_TYPES = new Set<FBTCarFuelType>(['Electric', 'Hydrogen', 'PlugInHybrid']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const countDays = (start: Date, end: Date) => Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+
+/**
+ * Number of days in an FBT year (1 April to 31 March)
+ */
+export const getDaysInFbtYear = (fbtYear: number): number => {
+  const { start, end } = getFinancialYearBounds(fbtYear, FBT_YEAR_END);
+  return countDays(start, end);
+};
+
+/**
+ * New car register entry for an FBT year, available for private use all year
+ */
+export const createFbtCar = (fbtYear: number): FBTCar => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  fbtYear,
+  vehicle: '',
+  fuelType: 'Petrol',
+  acquisitionDate: '',
+  costBase: 0,
+  daysAvailable: getDaysInFbtYear(fbtYear),
+  operatingCosts: 0,
+  logbookBusinessPercentage: null,
+  employeeContributions: 0,
+  gstCreditClaimed: true,
+});
+
+const getLctThreshold = (financialYear: number): number => {
+  const years = Object.keys(LCT_FUEL_EFFICIENT_THRESHOLDS).map(Number).sort((a, b) => a - b);
+  const year = [...years].reverse().find((candidate) => candidate <= financialYear) ?? years[0];
+  return LCT_FUEL_EFFICIENT_THRESHOLDS[year];
+};
+
+/**
+ * Checks the electric vehicle exemption conditions: a zero or low emissions car, first held and used
+ * on or after 1 July 2022, with a value below the luxury car tax threshold for fuel-efficient cars
+ */
+const checkElectricVehicleExemption = (car: FBTCar): FBTCarCalculation['electricVehicle'] => {
+  if (!ZERO_EMISSIONS_FUEL_TYPES.has(car.fuelType)) {
+    return { eligible: false, reasons: [] };
+  }
+
+  const reasons: string[] = [];
+  if (car.fuelType === 'PlugInHybrid' && car.fbtYear > PLUG_IN_HYBRID_LAST_FBT_YEAR) {
+    reasons.push('Plug-in hybrids only remain exempt under a binding commitment made before 1 April 2025');
+  }
+  if (!car.acquisitionDate) {
+    reasons.push('Enter the date the car was first held');
+  } else if (car.acquisitionDate < EV_EXEMPTION_START) {
+    reasons.push('First held before 1 July 2022');
+  } else {
+    const threshold = getLctThreshold(getFinancialYearForDate(new Date(`${car.acquisitionDate}T00:00:00`)));
+    if (car.costBase > threshold) {
+      reasons.push(`Cost of $${car.costBase.toFixed(2)} is above the luxury car tax threshold of $${threshold.toFixed(2)}`);
+    }
+  }
+
+  return { eligible: reasons.length === 0, reasons };
+};
+
+/**
+ * Base value for the statutory formula: the cost base, reduced by a third once the car has been
+ * held for four years at the start of the FBT year
+ */
+const getStatutoryBaseValue = (car: FBTCar): number => {
+  if (!car.acquisitionDate) return car.costBase;
+  const { start } = getFinancialYearBounds(car.fbtYear, FBT_YEAR_END);
+  const fourYearsBeforeStart = toISODate(new Date(start.getFullYear() - 4, start.getMonth(), start.getDate()));
+  return car.acquisitionDate <= fourYearsBeforeStart ? (car.costBase * 2) / 3 : car.costBase;
+};
+
+/**
+ * Calculates a car's taxable value for its FBT year under both methods and recommends the lower
+ * @param car - Car register entry
+ */
+export const calculateCarFringeBenefit = (car: FBTCar): FBTCarCalculation => {
+  const daysInYear = getDaysInFbtYear(car.fbtYear);
+  const daysAvailable = Math.min(Math.max(0, car.daysAvailable), daysInYear);
+  const contributions = Math.max(0, car.employeeContributions);
+
+  const statutoryValue = roundCurrency(
+    Math.max(0, (getStatutoryBaseValue(car) * STATUTORY_RATE * daysAvailable) / daysInYear - contributions)
+  );
+
+  // Without a valid logbook the business use percentage is nil
+  const businessPercentage = Math.min(Math.max(0, car.logbookBusinessPercentage ?? 0), 100);
+  const operatingCostValue = roundCurrency(
+    Math.max(0, (Math.max(0, car.operatingCosts) * (100 - businessPercentage)) / 100 - contributions)
+  );
+
+  // The operating cost method is only compared once running costs have been entered
+  const recommendedMethod: FBTCarMethod =
+    car.operatingCosts > 0 && operatingCostValue < statutoryValue ? 'operatingCost' : 'statutory';
+  const electricVehicle = checkElectricVehicleExemption(car);
+
+  return {
+    car,
+    statutoryValue,
+    operatingCostValue,
+    recommendedMethod,
+    taxableValue: electricVehicle.eligible
+      ? 0
+      : recommendedMethod === 'operatingCost'
+      ? operatingCostValue
+      : statutoryValue,
+    benefitType: car.gstCreditClaimed ? 'type1' : 'type2',
+    electricVehicle,
+  };
+};
+
+/**
+ * Calculates the cars registered for an FBT year and apportions their taxable values to a reporting period
+ * @param params.cars - Car register of the company, across all FBT years
+ * @param params.fbtYear - FBT year of the reporting period
+ * @param params.fromDate - Period start (YYYY-MM-DD)
+ * @param params.toDate - Period end (YYYY-MM-DD)
+ * @returns The summary, or null when no cars are registered for the FBT year
+ */
+export const summariseCarRegister = ({
+  cars,
+  fbtYear,
+  fromDate,
+  toDate,
+}: {
+  cars: FBTCar[];
+  fbtYear: number;
+  fromDate: string;
+  toDate: string;
+}): FBTCarRegisterSummary | null => {
+  const yearCars = cars.filter((car) => car.fbtYear === fbtYear);
+  if (yearCars.length === 0) return null;
+
+  const calculations = yearCars.map(calculateCarFringeBenefit);
+  const annual: FBTBenefitAmounts = { type1: 0, type2: 0 };
+  calculations.forEach((calculation) => {
+    annual[calculation.benefitType] = roundCurrency(annual[calculation.benefitType] + calculation.taxableValue);
+  });
+
+  const { start, end } = getFinancialYearBounds(fbtYear, FBT_YEAR_END);
+  const periodStart = fromDate && fromDate > toISODate(start) ? new Date(`${fromDate}T00:00:00`) : start;
+  const periodEnd = toDate && toDate < toISODate(end) ? new Date(`${toDate}T00:00:00`) : end;
+  const periodShare = periodEnd < periodStart ? 0 : countDays(periodStart, periodEnd) / getDaysInFbtYear(fbtYear);
+
+  return {
+    cars: calculations,
+    annual,
+    periodShare,
+    period: {
+      type1: roundCurrency(annual.type1 * periodShare),
+      type2: roundCurrency(annual.type2 * periodShare),
+    },
+  };
+};
@@ -0,0 +1,225 @@
+import { FBTEntertainmentElection, FBTEntertainmentEvent, FBTEntertainmentMethod } from '../api/companyService';
+import { FBTBenefitAmounts } from './fbtCalculation';
+import { roundCurrency, toISODate } from './xeroRecords';
+
+/**
+ * FBT Entertainment
+ * Meal entertainment taxable values under the actual, 50/50 split and 12-week register methods
+ */
+
+export interface FBTEntertainmentEventCalculation {
+  event: FBTEntertainmentEvent;
+  /** Share of the cost provided to employees and their associates */
+  employeeShare: number;
+  perHeadCost: number;
+  /** Exempt as a minor benefit under the actual method */
+  minorBenefit: boolean;
+  taxableValue: number;
+}
+
+export interface FBTEntertainmentRegister {
+  /** FBT year the register was kept in */
+  fbtYear: number;
+  fromDate: string;
+  toDate: string;
+  events: FBTEntertainmentEventCalculation[];
+  expenditure: number;
+  employeeExpenditure: number;
+  /** Register percentage applied to the year's meal entertainment expenditure */
+  percentage: number;
+}
+
+export interface FBTEntertainmentCalculation {
+  method: FBTEntertainmentMethod;
+  /** Meal entertainment expenditure of the period from the Xero data */
+  expenditure: FBTBenefitAmounts;
+  /** Percentage of the expenditure that is taxable under the 50/50 split or register method */
+  taxablePercentage: number | null;
+  register: FBTEntertainmentRegister | null;
+  /** Events of the period valued under the actual method */
+  events: FBTEntertainmentEventCalculation[];
+  minorBenefitsExempt: number;
+  taxableValue: FBTBenefitAmounts;
+  warnings: string[];
+}
+
+export const FBT_ENTERTAINMENT_METHOD_LABELS: Record<FBTEntertainmentMethod, string> = {
+  Actual: 'Actual (per event)',
+  FiftyFifty: '50/50 split',
+  TwelveWeekRegister: '12-week register',
+};
+
+// Benefits costing less than this per person can be exempt minor benefits under the actual method
+export const MINOR_BENEFIT_THRESHOLD = 300;
+
+export const REGISTER_WEEKS = 12;
+
+// A register can be used for the FBT year it was kept in and the following four years
+export const REGISTER_VALID_YEARS = 5;
+
+export const createEntertainmentEvent = (date: string): FBTEntertainmentEvent => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  date,
+  description: '',
+  cost: 0,
+  employeeAttendees: 1,
+  otherAttendees: 0,
+  gstCreditClaimed: true,
+});
+
+/**
+ * Last day of a 12-week register starting on a date
+ */
+export const getRegisterEndDate = (startDate: string): string => {
+  const end = new Date(`${startDate}T00:00:00`);
+  end.setDate(end.getDate() + REGISTER_WEEKS * 7 - 1);
+  return toISODate(end);
+};
+
+const evaluateEvent = (event: FBTEntertainmentEvent, applyMinorBenefits: boolean): FBTEntertainmentEventCalculation => {
+  const employees = Math.max(0, event.employeeAttendees);
+  const attendees = employees + Math.max(0, event.otherAttendees);
+  const cost = Math.max(0, event.cost);
+  const employeeShare = attendees > 0 ? employees / attendees : 0;
+  const perHeadCost = attendees > 0 ? roundCurrency(cost / attendees) : 0;
+  const minorBenefit = applyMinorBenefits && employees > 0 && perHeadCost < MINOR_BENEFIT_THRESHOLD;
+
+  return {
+    event,
+    employeeShare,
+    perHeadCost,
+    minorBenefit,
+    taxableValue: minorBenefit ? 0 : roundCurrency(cost * employeeShare),
+  };
+};
+
+/**
+ * Works out the register percentage from the events recorded in the 12 weeks of a register
+ * @returns The register, or null when the election has no register start date or no events in the 12 weeks
+ */
+export const getEntertainmentRegister = (election: FBTEntertainmentElection): FBTEntertainmentRegister | null => {
+  if (election.method !== 'TwelveWeekRegister' || !election.registerStartDate) return null;
+
+  const fromDate = election.registerStartDate;
+  const toDate = getRegisterEndDate(fromDate);
+  const events = election.events
+    .filter((event) => event.date >= fromDate && event.date <= toDate)
+    .map((event) => evaluateEvent(event, false));
+  const expenditure = roundCurrency(events.reduce((sum, item) => sum + Math.max(0, item.event.cost), 0));
+  if (expenditure === 0) return null;
+
+  const employeeExpenditure = roundCurrency(events.reduce((sum, item) => sum + item.taxableValue, 0));
+  return {
+    fbtYear: election.fbtYear,
+    fromDate,
+    toDate,
+    events,
+    expenditure,
+    employeeExpenditure,
+    percentage: employeeExpenditure / expenditure,
+  };
+};
+
+/**
+ * Finds the most recent 12-week register that can be used for an FBT year
+ * @param elections - Entertainment elections of the company, across all FBT years
+ * @param fbtYear - FBT year being calculated
+ */
+export const findEntertainmentRegister = (
+  elections: FBTEntertainmentElection[],
+  fbtYear: number
+): FBTEntertainmentRegister | null => {
+  const candidates = elections
+    .filter((election) => election.fbtYear <= fbtYear && election.fbtYear > fbtYear - REGISTER_VALID_YEARS)
+    .sort((a, b) => b.fbtYear - a.fbtYear);
+
+  for (const election of candidates) {
+    const register = getEntertainmentRegister(election);
+    if (register) return register;
+  }
+  return null;
+};
+
+/**
+ * Values a period's meal entertainment under the method elected for the FBT year
+ * @param params.elections - Entertainment elections of the company, across all FBT years
+ * @param params.fbtYear - FBT year of the reporting period
+ * @param params.expenditure - Meal entertainment expenditure of the period from the Xero data
+ * @param params.fromDate - Period start (YYYY-MM-DD)
+ * @param params.toDate - Period end (YYYY-MM-DD)
+ * @returns The calculation, or null when no method has been elected for the FBT year
+ */
+export const calculateEntertainmentBenefit = ({
+  elections,
+  fbtYear,
+  expenditure,
+  fromDate,
+  toDate,
+}: {
+  elections: FBTEntertainmentElection[];
+  fbtYear: number;
+  expenditure: FBTBenefitAmounts;
+  fromDate: string;
+  toDate: string;
+}): FBTEntertainmentCalculation | null => {
+  const election = elections.find((item) => item.fbtYear === fbtYear);
+  if (!election) return null;
+
+  const warnings: string[] = [];
+  const applyPercentage = (percentage: number): FBTBenefitAmounts => ({
+    type1: roundCurrency(expenditure.type1 * percentage),
+    type2: roundCurrency(expenditure.type2 * percentage),
+  });
+  const base = {
+    method: election.method,
+    expenditure,
+    taxablePercentage: null,
+    register: null,
+    events: [],
+    minorBenefitsExempt: 0,
+    warnings,
+  };
+
+  if (election.method === 'FiftyFifty') {
+    return { ...base, taxablePercentage: 0.5, taxableValue: applyPercentage(0.5) };
+  }
+
+  if (election.method === 'TwelveWeekRegister') {
+    const register = findEntertainmentRegister(elections, fbtYear);
+    if (!register) {
+      warnings.push('No 12-week register kept in this or the previous four FBT years; the expenditure is reported in full');
+      return { ...base, taxablePercentage: 1, taxableValue: applyPercentage(1) };
+    }
+    const outsideRegister = election.registerStartDate
+      ? election.events.filter((event) => event.date < register.fromDate || event.date > register.toDate).length
+      : 0;
+    if (register.fbtYear === fbtYear && outsideRegister > 0) {
+      warnings.push(`${outsideRegister} event(s) fall outside the 12 weeks of the register and are ignored`);
+    }
+    return { ...base, taxablePercentage: register.percentage, register, taxableValue: applyPercentage(register.percentage) };
+  }
+
+  // Actual method: each event of the period is valued on its own and minor benefits are exempt
+  const events = election.events
+    .filter((event) => (!fromDate || event.date >= fromDate) && (!toDate || event.date <= toDate))
+    .map((event) => evaluateEvent(event, true));
+  const taxableValue: FBTBenefitAmounts = { type1: 0, type2: 0 };
+  events.forEach((item) => {
+    const type = item.event.gstCreditClaimed ? 'type1' : 'type2';
+    taxableValue[type] = roundCurrency(taxableValue[type] + item.taxableValue);
+  });
+  if (events.length === 0 && expenditure.type1 + expenditure.type2 > 0) {
+    warnings.push('Meal entertainment was found in Xero but no events are recorded for the period');
+  }
+
+  return {
+    ...base,
+    events,
+    minorBenefitsExempt: roundCurrency(
+      events
+        .filter((item) => item.minorBenefit)
+        .reduce((sum, item) => sum + Math.max(0, item.event.cost) * item.employeeShare, 0)
+    ),
+    taxableValue,
+  };
+};
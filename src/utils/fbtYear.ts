@@ -0,0 +1,217 @@
+import { FBTBenefitAllocation, FBTCar, FBTEntertainmentElection } from '../api/companyService';
+import { XeroEmployee } from '../integrations/xero/types';
+import { calculateFbt, FBTBenefitSummary, FBTCalculation, getBenefitTotal, getFbtRates } from './fbtCalculation';
+import { calculateCarFringeBenefit, FBTCarRegisterSummary } from './fbtCars';
+import { calculateEntertainmentBenefit, FBTEntertainmentCalculation } from './fbtEntertainment';
+import { ReportingPeriod } from './reportingPeriods';
+import { SpreadsheetSheet } from './spreadsheetExport';
+import { roundCurrency } from './xeroRecords';
+
+/**
+ * FBT Year
+ * Period FBT figures, accumulation of the quarters of an FBT year and reportable fringe benefits per employee
+ */
+
+export interface FBTPeriodFigures {
+  totalFBT: number;
+  fbtOnCars: number;
+  fbtOnEntertainment: number;
+  fbtOnOther: number;
+  grossTaxableValue: number;
+  fbtPayable: number;
+  fbt: FBTCalculation;
+  carRegister: FBTCarRegisterSummary | null;
+  /** Meal entertainment under the elected method; null when no method is elected for the FBT year */
+  entertainment: FBTEntertainmentCalculation | null;
+}
+
+export interface FBTQuarter {
+  period: ReportingPeriod;
+  figures: FBTPeriodFigures | null;
+  error: string | null;
+}
+
+export interface FBTYearSummary {
+  quarters: (FBTQuarter & { cumulativeFbtPayable: number })[];
+  grossTaxableValue: number;
+  fbtPayable: number;
+  /** Quarters whose figures could be calculated */
+  loadedCount: number;
+}
+
+export interface FBTEmployeeReportableBenefit {
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  carTaxableValue: number;
+  otherTaxableValue: number;
+  taxableValue: number;
+  /** True when the taxable value is over the reporting threshold */
+  reportable: boolean;
+  /** Reportable fringe benefits amount: the taxable value grossed up at the Type 2 rate */
+  reportableAmount: number;
+}
+
+// Employees' benefits are only reported when their total taxable value for the FBT year exceeds this amount
+export const RFBA_THRESHOLD = 2000;
+
+/**
+ * Works out the FBT figures of a period. Car benefits come from the car register when it has cars for
+ * the FBT year, and meal entertainment is valued under the method elected for the year; otherwise both
+ * are taken from the Xero data.
+ * @param params.xeroBenefits - Benefits classified from the Xero data
+ * @param params.reportedGrossTaxableValue - Gross taxable value reported by Xero
+ * @param params.carRegister - Car register summary of the period, from summariseCarRegister
+ * @param params.entertainmentElections - Entertainment elections of the company, across all FBT years
+ */
+export const calculateFbtPeriod = ({
+  xeroBenefits,
+  reportedGrossTaxableValue,
+  carRegister,
+  entertainmentElections,
+  fbtYear,
+  fromDate,
+  toDate,
+}: {
+  xeroBenefits: FBTBenefitSummary;
+  reportedGrossTaxableValue: number;
+  carRegister: FBTCarRegisterSummary | null;
+  entertainmentElections: FBTEntertainmentElection[];
+  fbtYear: number;
+  fromDate: string;
+  toDate: string;
+}): FBTPeriodFigures => {
+  const entertainment = calculateEntertainmentBenefit({
+    elections: entertainmentElections,
+    fbtYear,
+    expenditure: xeroBenefits.entertainment,
+    fromDate,
+    toDate,
+  });
+  const benefits: FBTBenefitSummary = {
+    ...xeroBenefits,
+    car: carRegister ? carRegister.period : xeroBenefits.car,
+    entertainment: entertainment ? entertainment.taxableValue : xeroBenefits.entertainment,
+  };
+  const fbt = calculateFbt({ benefits, fbtYear, reportedGrossTaxableValue });
+  const fbtOnCars = getBenefitTotal(benefits.car);
+  const fbtOnEntertainment = getBenefitTotal(benefits.entertainment);
+  const fbtOnOther = getBenefitTotal(benefits.other);
+
+  return {
+    totalFBT: roundCurrency(fbtOnCars + fbtOnEntertainment + fbtOnOther),
+    fbtOnCars,
+    fbtOnEntertainment,
+    fbtOnOther,
+    grossTaxableValue: fbt.grossTaxableValue,
+    fbtPayable: fbt.fbtPayable,
+    fbt,
+    carRegister,
+    entertainment,
+  };
+};
+
+/**
+ * Accumulates the quarters of an FBT year into year-to-date instalment figures
+ * @param quarters - Quarters of the FBT year, in order
+ */
+export const summariseFbtYear = (quarters: FBTQuarter[]): FBTYearSummary => {
+  let cumulativeFbtPayable = 0;
+  let grossTaxableValue = 0;
+
+  const accumulated = quarters.map((quarter) => {
+    grossTaxableValue += quarter.figures?.grossTaxableValue || 0;
+    cumulativeFbtPayable = roundCurrency(cumulativeFbtPayable + (quarter.figures?.fbtPayable || 0));
+    return { ...quarter, cumulativeFbtPayable };
+  });
+
+  return {
+    quarters: accumulated,
+    grossTaxableValue: roundCurrency(grossTaxableValue),
+    fbtPayable: cumulativeFbtPayable,
+    loadedCount: quarters.filter((quarter) => quarter.figures).length,
+  };
+};
+
+/**
+ * Works out each employee's reportable fringe benefits amount for an FBT year. Cars count at their
+ * taxable value before the electric vehicle exemption, since exempt cars are still reportable.
+ * Meal entertainment is an excluded benefit and is never allocated.
+ * @param params.employees - Xero Payroll employees
+ * @param params.cars - Car register of the company, across all FBT years
+ * @param params.allocations - Other benefits allocated to employees, across all FBT years
+ */
+export const calculateReportableFringeBenefits = ({
+  employees,
+  cars,
+  allocations,
+  fbtYear,
+}: {
+  employees: XeroEmployee[];
+  cars: FBTCar[];
+  allocations: FBTBenefitAllocation[];
+  fbtYear: number;
+}): FBTEmployeeReportableBenefit[] => {
+  const type2GrossUpRate = getFbtRates(fbtYear).type2GrossUpRate;
+  const totals = new Map<string, { car: number; other: number }>();
+  const add = (employeeId: string, key: 'car' | 'other', value: number) => {
+    const current = totals.get(employeeId) || { car: 0, other: 0 };
+    current[key] = roundCurrency(current[key] + value);
+    totals.set(employeeId, current);
+  };
+
+  cars
+    .filter((car) => car.fbtYear === fbtYear && car.employeeId)
+    .forEach((car) => {
+      const calculation = calculateCarFringeBenefit(car);
+      const value = calculation.recommendedMethod === 'operatingCost' ? calculation.operatingCostValue : calculation.statutoryValue;
+      add(car.employeeId!, 'car', value);
+    });
+  allocations
+    .filter((allocation) => allocation.fbtYear === fbtYear && allocation.employeeId)
+    .forEach((allocation) => add(allocation.employeeId, 'other', Math.max(0, allocation.taxableValue)));
+
+  const employeesById = new Map(employees.map((employee) => [employee.EmployeeID, employee]));
+
+  return Array.from(totals.entries())
+    .map(([employeeId, amounts]) => {
+      const employee = employeesById.get(employeeId);
+      const taxableValue = roundCurrency(amounts.car + amounts.other);
+      const reportable = taxableValue > RFBA_THRESHOLD;
+      return {
+        employeeId,
+        firstName: employee?.FirstName || '',
+        lastName: employee?.LastName || 'Unknown employee',
+        carTaxableValue: amounts.car,
+        otherTaxableValue: amounts.other,
+        taxableValue,
+        reportable,
+        reportableAmount: reportable ? roundCurrency(taxableValue * type2GrossUpRate) : 0,
+      };
+    })
+    .sort((a, b) => `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`));
+};
+
+/**
+ * Builds the reportable fringe benefits amounts to key into STP finalisation. The FBT year ending
+ * 31 March is reported in the income year ending the following 30 June.
+ * @param rows - Reportable fringe benefits per employee
+ * @param fbtYear - Year in which the FBT year ends (31 March)
+ */
+export const buildStpFinalisationSheet = (rows: FBTEmployeeReportableBenefit[], fbtYear: number): SpreadsheetSheet => ({
+  name: `RFBA FBT${fbtYear}`,
+  rows: [
+    ['Employee ID', 'First Name', 'Last Name', 'FBT Year Ending', 'Income Year Ending', 'Taxable Value', 'Reportable Fringe Benefits Amount'],
+    ...rows
+      .filter((row) => row.reportable)
+      .map((row) => [
+        row.employeeId,
+        row.firstName,
+        row.lastName,
+        `${fbtYear}-03-31`,
+        `${fbtYear}-06-30`,
+        row.taxableValue,
+        row.reportableAmount,
+      ]),
+  ],
+});
@@ -0,0 +1,279 @@
+import { AnomalyDatasetRecord } from './anomalyDataset';
+
+/**
+ * Forensic Tests
+ * Classic audit tests on transaction amounts: Benford's law on the leading digits, duplicated amounts,
+ * round amounts and amounts clustered just below approval thresholds. Each result keeps the indexes of
+ * the records behind it so they can be listed.
+ */
+
+export type BenfordTestType = 'firstDigit' | 'firstTwoDigits';
+
+export type BenfordConformity = 'close' | 'acceptable' | 'marginal' | 'nonconformity';
+
+export interface BenfordDigitResult {
+  /** Leading digit (1-9) or first two digits (10-99) */
+  digits: number;
+  count: number;
+  /** Share of the tested amounts starting with the digits */
+  actual: number;
+  /** Share expected under Benford's law */
+  expected: number;
+  zScore: number;
+  /** The difference from the expected share is significant at the 5% level */
+  significant: boolean;
+  recordIndexes: number[];
+}
+
+export interface BenfordTestResult {
+  type: BenfordTestType;
+  /** Amounts tested; amounts under MIN_BENFORD_AMOUNT are left out */
+  sampleSize: number;
+  digits: BenfordDigitResult[];
+  chiSquare: number;
+  degreesOfFreedom: number;
+  /** Chi-square value above which the amounts do not follow Benford's law at the 5% level */
+  criticalValue: number;
+  /** Mean absolute deviation of the actual from the expected shares */
+  mad: number;
+  conformity: BenfordConformity;
+}
+
+export interface DuplicateAmountGroup {
+  amount: number;
+  count: number;
+  /** Different contacts the amount was used with */
+  contactCount: number;
+  recordIndexes: number[];
+}
+
+export type RoundAmountBucket = 'thousands' | 'hundreds' | 'tens' | 'wholeDollars';
+
+export interface RoundAmountResult {
+  bucket: RoundAmountBucket;
+  count: number;
+  /** Share of all tested amounts */
+  share: number;
+  recordIndexes: number[];
+}
+
+export interface ThresholdTestResult {
+  threshold: number;
+  /** Amounts in the window just below the threshold */
+  below: number[];
+  /** Amounts in a window of the same width from the threshold up */
+  above: number[];
+  /** More amounts fall just below the threshold than just above it */
+  suspicious: boolean;
+}
+
+export const BENFORD_TEST_LABELS: Record<BenfordTestType, string> = {
+  firstDigit: 'First Digit',
+  firstTwoDigits: 'First Two Digits',
+};
+
+export const BENFORD_CONFORMITY_LABELS: Record<BenfordConformity, string> = {
+  close: 'Close conformity',
+  acceptable: 'Acceptable conformity',
+  marginal: 'Marginal conformity',
+  nonconformity: 'Nonconformity',
+};
+
+export const ROUND_AMOUNT_LABELS: Record<RoundAmountBucket, string> = {
+  thousands: 'Multiples of $1,000',
+  hundreds: 'Multiples of $100',
+  tens: 'Multiples of $10',
+  wholeDollars: 'Other whole dollars',
+};
+
+export const DEFAULT_APPROVAL_THRESHOLDS = [1000, 5000, 10000];
+
+// Amounts within this share below a threshold count as just below it
+export const DEFAULT_THRESHOLD_WINDOW = 0.05;
+
+// Benford's law describes amounts spanning several orders of magnitude; small amounts are left out
+export const MIN_BENFORD_AMOUNT = 10;
+
+// Two-tailed z for the 5% level
+const Z_CRITICAL = 1.96;
+
+// Chi-square at the 5% level for 8 and 89 degrees of freedom
+const CHI_SQUARE_CRITICAL: Record<BenfordTestType, number> = {
+  firstDigit: 15.507,
+  firstTwoDigits: 112.022,
+};
+
+// Nigrini's MAD limits for close, acceptable and marginal conformity
+const MAD_LIMITS: Record<BenfordTestType, [number, number, number]> = {
+  firstDigit: [0.006, 0.012, 0.015],
+  firstTwoDigits: [0.0012, 0.0018, 0.0022],
+};
+
+// Amounts just below a threshold are only suspicious when there are at least this many
+const MIN_THRESHOLD_CLUSTER = 3;
+
+/**
+ * Share of amounts expected to start with the digits under Benford's law
+ */
+export const getBenfordExpected = (digits: number) => Math.log10(1 + 1 / digits);
+
+// Read from the amount in cents, so floating point never changes a digit
+const getLeadingDigits = (amount: number, length: number) =>
+  Number(String(Math.round(Math.abs(amount) * 100)).slice(0, length));
+
+const getConformity = (mad: number, type: BenfordTestType): BenfordConformity => {
+  const [close, acceptable, marginal] = MAD_LIMITS[type];
+  if (mad <= close) return 'close';
+  if (mad <= acceptable) return 'acceptable';
+  if (mad <= marginal) return 'marginal';
+  return 'nonconformity';
+};
+
+/**
+ * Compares the leading digits of the amounts with Benford's law
+ * @param records - Transactions to test
+ * @param type - First digit or first two digits
+ */
+export const runBenfordTest = (records: AnomalyDatasetRecord[], type: BenfordTestType): BenfordTestResult => {
+  const length = type === 'firstDigit' ? 1 : 2;
+  const [first, last] = type === 'firstDigit' ? [1, 9] : [10, 99];
+  const groups = new Map<number, number[]>();
+  for (let digits = first; digits <= last; digits += 1) groups.set(digits, []);
+
+  records.forEach((record, index) => {
+    if (Math.abs(record.features.amount) < MIN_BENFORD_AMOUNT) return;
+    groups.get(getLeadingDigits(record.features.amount, length))?.push(index);
+  });
+
+  const sampleSize = Array.from(groups.values()).reduce((sum, indexes) => sum + indexes.length, 0);
+  const digits = Array.from(groups.entries()).map(([value, recordIndexes]): BenfordDigitResult => {
+    const expected = getBenfordExpected(value);
+    const actual = sampleSize ? recordIndexes.length / sampleSize : 0;
+    // Nigrini's z-statistic, with the continuity correction when it does not exceed the difference
+    const difference = Math.abs(actual - expected);
+    const correction = sampleSize ? 1 / (2 * sampleSize) : 0;
+    const zScore = sampleSize
+      ? (difference - (correction < difference ? correction : 0)) / Math.sqrt((expected * (1 - expected)) / sampleSize)
+      : 0;
+    return {
+      digits: value,
+      count: recordIndexes.length,
+      actual,
+      expected,
+      zScore,
+      significant: zScore > Z_CRITICAL,
+      recordIndexes,
+    };
+  });
+
+  const chiSquare = digits.reduce((sum, digit) => {
+    const expectedCount = digit.expected * sampleSize;
+    return expectedCount ? sum + (digit.count - expectedCount) ** 2 / expectedCount : sum;
+  }, 0);
+  const mad = digits.reduce((sum, digit) => sum + Math.abs(digit.actual - digit.expected), 0) / digits.length;
+
+  return {
+    type,
+    sampleSize,
+    digits,
+    chiSquare,
+    degreesOfFreedom: digits.length - 1,
+    criticalValue: CHI_SQUARE_CRITICAL[type],
+    mad,
+    conformity: getConformity(mad, type),
+  };
+};
+
+/**
+ * Amounts used more than once, most repeated first
+ * @param records - Transactions to test
+ */
+export const findDuplicateAmounts = (records: AnomalyDatasetRecord[]): DuplicateAmountGroup[] => {
+  const groups = new Map<number, number[]>();
+  records.forEach((record, index) => {
+    const cents = Math.round(Math.abs(record.features.amount) * 100);
+    if (!cents) return;
+    if (!groups.has(cents)) groups.set(cents, []);
+    groups.get(cents)!.push(index);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, recordIndexes]) => recordIndexes.length > 1)
+    .map(([cents, recordIndexes]) => ({
+      amount: cents / 100,
+      count: recordIndexes.length,
+      contactCount: new Set(recordIndexes.map((index) => records[index].contactId || records[index].contactName)).size,
+      recordIndexes,
+    }))
+    .sort((a, b) => b.count - a.count || b.amount - a.amount);
+};
+
+/**
+ * Counts round amounts. Each amount is counted once, in the roundest bucket it fits.
+ * @param records - Transactions to test
+ */
+export const runRoundAmountTest = (records: AnomalyDatasetRecord[]): RoundAmountResult[] => {
+  const buckets: Record<RoundAmountBucket, number[]> = { thousands: [], hundreds: [], tens: [], wholeDollars: [] };
+  let tested = 0;
+
+  records.forEach((record, index) => {
+    const cents = Math.round(Math.abs(record.features.amount) * 100);
+    if (!cents) return;
+    tested += 1;
+    if (cents % 100000 === 0) buckets.thousands.push(index);
+    else if (cents % 10000 === 0) buckets.hundreds.push(index);
+    else if (cents % 1000 === 0) buckets.tens.push(index);
+    else if (cents % 100 === 0) buckets.wholeDollars.push(index);
+  });
+
+  return (Object.keys(buckets) as RoundAmountBucket[]).map((bucket) => ({
+    bucket,
+    count: buckets[bucket].length,
+    share: tested ? buckets[bucket].length / tested : 0,
+    recordIndexes: buckets[bucket],
+  }));
+};
+
+/**
+ * Looks for amounts clustered just below approval thresholds, e.g. bills split to avoid a second approval
+ * @param records - Transactions to test
+ * @param thresholds - Approval limits
+ * @param window - Share of each threshold below it that counts as just below
+ */
+export const runThresholdTest = (
+  records: AnomalyDatasetRecord[],
+  thresholds: number[],
+  window = DEFAULT_THRESHOLD_WINDOW
+): ThresholdTestResult[] =>
+  thresholds
+    .filter((threshold) => threshold > 0)
+    .sort((a, b) => a - b)
+    .map((threshold) => {
+      const width = threshold * window;
+      const below: number[] = [];
+      const above: number[] = [];
+      records.forEach((record, index) => {
+        const amount = Math.abs(record.features.amount);
+        if (amount >= threshold - width && amount < threshold) below.push(index);
+        else if (amount >= threshold && amount < threshold + width) above.push(index);
+      });
+      return {
+        threshold,
+        below,
+        above,
+        suspicious: below.length >= MIN_THRESHOLD_CLUSTER && below.length > 2 * above.length,
+      };
+    });
+
+/**
+ * Reads a comma-separated list of thresholds, ignoring anything that is not a positive amount
+ */
+export const parseThresholds = (input: string): number[] =>
+  Array.from(
+    new Set(
+      input
+        .split(',')
+        .map((value) => Number(value.replace(/[$\s]/g, '')))
+        .filter((value) => Number.isFinite(value) && value > 0)
+    )
+  );
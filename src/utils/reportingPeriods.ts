@@ -0,0 +1,226 @@
+import { toISODate } from './xeroRecords';
+
+/**
+ * Reporting Periods
+ * Generates BAS/IAS/FBT reporting periods from a lodgement frequency and financial year end.
+ * Quarterly periods are always calendar quarters, as the ATO sets them for every entity.
+ */
+
+export type ReportingFrequency = 'Monthly' | 'Quarterly' | 'Annually';
+
+export interface ReportingPeriod {
+  /** Stable identifier, e.g. '2025-07-01_2025-09-30' */
+  key: string;
+  /** Full label, e.g. 'Q1 FY2026 (Jul – Sep 2025)' */
+  label: string;
+  /** Compact label, e.g. 'Q1 FY2026', 'Jul 2025' or 'FY2026' */
+  shortLabel: string;
+  frequency: ReportingFrequency;
+  /** Inclusive start date (YYYY-MM-DD) */
+  fromDate: string;
+  /** Inclusive end date (YYYY-MM-DD) */
+  toDate: string;
+  /** Calendar year in which the financial year ends */
+  financialYear: number;
+  /** 1-based position of the period within the financial year */
+  index: number;
+}
+
+export interface ReportingPeriodOptions {
+  frequency?: string | null;
+  /** Financial year end as stored on the compliance profile (ISO string or Date); defaults to 30 June */
+  financialYearEnd?: string | Date | null;
+  /** Prefix used in year labels; defaults to 'FY' */
+  yearLabelPrefix?: string;
+}
+
+/** Default Australian financial year end month (June, 0-indexed) */
+export const DEFAULT_FINANCIAL_YEAR_END_MONTH = 5;
+
+/** The FBT year always ends on 31 March, whatever the company's financial year */
+export const FBT_YEAR_END = new Date(2000, 2, 31);
+
+const MONTHS_PER_PERIOD: Record<ReportingFrequency, number> = {
+  Monthly: 1,
+  Quarterly: 3,
+  Annually: 12,
+};
+
+// ATO quarter keys used by the compliance deadline settings, by quarter end month (0-indexed)
+const ATO_QUARTER_KEYS: Record<number, 'q1' | 'q2' | 'q3' | 'q4'> = {
+  8: 'q1', // Jul - Sep
+  11: 'q2', // Oct - Dec
+  2: 'q3', // Jan - Mar
+  5: 'q4', // Apr - Jun
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const monthName = (date: Date) => MONTH_NAMES[date.getMonth()];
+
+/**
+ * Normalises a stored frequency; the compliance form uses 'Yearly' where the API uses 'Annually'
+ */
+export const normaliseFrequency = (value?: string | null): ReportingFrequency => {
+  switch (String(value || '').toLowerCase()) {
+    case 'monthly':
+      return 'Monthly';
+    case 'annually':
+    case 'yearly':
+    case 'annual':
+      return 'Annually';
+    default:
+      return 'Quarterly';
+  }
+};
+
+/**
+ * Returns the month (0-11) in which the financial year ends.
+ * Financial years are treated as ending on the last day of that month.
+ */
+export const getFinancialYearEndMonth = (financialYearEnd?: string | Date | null): number => {
+  if (!financialYearEnd) return DEFAULT_FINANCIAL_YEAR_END_MONTH;
+  const date = financialYearEnd instanceof Date ? financialYearEnd : new Date(financialYearEnd);
+  return Number.isNaN(date.getTime()) ? DEFAULT_FINANCIAL_YEAR_END_MONTH : date.getMonth();
+};
+
+/**
+ * Returns the financial year (the calendar year it ends in) that contains a date
+ */
+export const getFinancialYearForDate = (date: Date, financialYearEnd?: string | Date | null): number => {
+  const endMonth = getFinancialYearEndMonth(financialYearEnd);
+  return date.getMonth() > endMonth ? date.getFullYear() + 1 : date.getFullYear();
+};
+
+/**
+ * Returns the first and last day of a financial year
+ */
+export const getFinancialYearBounds = (
+  financialYear: number,
+  financialYearEnd?: string | Date | null
+): { start: Date; end: Date } => {
+  const endMonth = getFinancialYearEndMonth(financialYearEnd);
+  return {
+    start: new Date(financialYear - 1, endMonth + 1, 1),
+    end: new Date(financialYear, endMonth + 1, 0),
+  };
+};
+
+const formatFinancialYear = (financialYear: number, endMonth: number, prefix?: string) => {
+  if (prefix) return `${prefix}${financialYear}`;
+  // Calendar-year entities are usually referred to by the year alone
+  return endMonth === 11 ? String(financialYear) : `FY${financialYear}`;
+};
+
+const formatMonthRange = (start: Date, end: Date) => {
+  const startLabel = monthName(start);
+  const endLabel = `${monthName(end)} ${end.getFullYear()}`;
+  if (start.getFullYear() !== end.getFullYear()) {
+    return `${startLabel} ${start.getFullYear()} – ${endLabel}`;
+  }
+  return `${startLabel} – ${endLabel}`;
+};
+
+// Months from the start of the financial year to the start of its first period. A quarter belongs to the
+// financial year its last month falls in, so with a year end outside March, June, September or December
+// the first quarter starts in the previous financial year.
+const getFirstPeriodOffset = (frequency: ReportingFrequency, yearStart: Date): number => {
+  if (frequency !== 'Quarterly') return 0;
+  return ((2 - (yearStart.getMonth() % 3) + 3) % 3) - 2;
+};
+
+/**
+ * Generates the reporting periods of a financial year
+ * @param financialYear - Calendar year in which the financial year ends
+ * @param options - Lodgement frequency and financial year end from the compliance profile
+ */
+export const generateReportingPeriods = (
+  financialYear: number,
+  options: ReportingPeriodOptions = {}
+): ReportingPeriod[] => {
+  const frequency = normaliseFrequency(options.frequency);
+  const endMonth = getFinancialYearEndMonth(options.financialYearEnd);
+  const { start: yearStart } = getFinancialYearBounds(financialYear, options.financialYearEnd);
+  const monthsPerPeriod = MONTHS_PER_PERIOD[frequency];
+  const fyLabel = formatFinancialYear(financialYear, endMonth, options.yearLabelPrefix);
+
+  const firstOffset = getFirstPeriodOffset(frequency, yearStart);
+
+  const periods: ReportingPeriod[] = [];
+  for (let offset = firstOffset, index = 1; offset < firstOffset + 12; offset += monthsPerPeriod, index += 1) {
+    const start = new Date(yearStart.getFullYear(), yearStart.getMonth() + offset, 1);
+    const end = new Date(yearStart.getFullYear(), yearStart.getMonth() + offset + monthsPerPeriod, 0);
+    const fromDate = toISODate(start);
+    const toDate = toISODate(end);
+
+    let shortLabel: string;
+    let label: string;
+    if (frequency === 'Monthly') {
+      shortLabel = `${monthName(start)} ${start.getFullYear()}`;
+      label = endMonth === 11 && !options.yearLabelPrefix ? shortLabel : `${shortLabel} (${fyLabel})`;
+    } else if (frequency === 'Quarterly') {
+      shortLabel = `Q${index} ${fyLabel}`;
+      label = `${shortLabel} (${formatMonthRange(start, end)})`;
+    } else {
+      shortLabel = fyLabel;
+      label = `${fyLabel} (${formatMonthRange(start, end)})`;
+    }
+
+    periods.push({
+      key: `${fromDate}_${toDate}`,
+      label,
+      shortLabel,
+      frequency,
+      fromDate,
+      toDate,
+      financialYear,
+      index,
+    });
+  }
+
+  return periods;
+};
+
+/**
+ * Returns the reporting period that contains a date
+ */
+export const getPeriodForDate = (date: Date, options: ReportingPeriodOptions = {}): ReportingPeriod => {
+  const financialYear = getFinancialYearForDate(date, options.financialYearEnd);
+  const day = toISODate(date);
+  // The quarter of a date late in the financial year can end in, and belong to, the next one
+  const periods = [financialYear, financialYear + 1].flatMap((year) => generateReportingPeriods(year, options));
+  return periods.find((period) => period.fromDate <= day && day <= period.toDate) || periods[0];
+};
+
+/**
+ * Returns the period a given number of periods before (negative) or after (positive) another period
+ */
+export const shiftReportingPeriod = (
+  period: ReportingPeriod,
+  offset: number,
+  options: ReportingPeriodOptions = {}
+): ReportingPeriod => {
+  const [year, month] = period.fromDate.split('-').map(Number);
+  const target = new Date(year, month - 1 + offset * MONTHS_PER_PERIOD[period.frequency], 1);
+  return getPeriodForDate(target, { ...options, frequency: period.frequency });
+};
+
+/**
+ * Returns the financial years offered for selection: the current year and the previous ones
+ */
+export const getFinancialYearOptions = (
+  financialYearEnd?: string | Date | null,
+  count = 3,
+  date: Date = new Date()
+): number[] => {
+  const current = getFinancialYearForDate(date, financialYearEnd);
+  return Array.from({ length: count }, (_, offset) => current - offset);
+};
+
+/**
+ * Maps a quarterly period to the ATO quarter key used by the compliance deadline settings
+ * @returns The quarter key, or null when the period does not end with a calendar quarter
+ */
+export const getAtoQuarterKey = (period: Pick<ReportingPeriod, 'toDate'>): 'q1' | 'q2' | 'q3' | 'q4' | null => {
+  const endMonth = Number(period.toDate.split('-')[1]) - 1;
+  return ATO_QUARTER_KEYS[endMonth] ?? null;
+};
@@ -0,0 +1,260 @@
+/**
+ * Spreadsheet Export
+ * Writes XLSX workbooks, CSV files and ZIP archives in the browser, without a spreadsheet library or a backend round-trip
+ */
+
+export type SpreadsheetCell = string | number | null | undefined;
+
+export interface SpreadsheetSheet {
+  name: string;
+  /** The first row is written as a bold header */
+  rows: SpreadsheetCell[][];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+export const CSV_MIME_TYPE = 'text/csv;charset=utf-8';
+export const ZIP_MIME_TYPE = 'application/zip';
+
+const encoder = new TextEncoder();
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+/**
+ * Converts a zero-based column index to a spreadsheet column name, e.g. 0 -> A, 27 -> AB
+ */
+const getColumnName = (index: number): string => {
+  let name = '';
+  for (let current = index + 1; current > 0; current = Math.floor((current - 1) / 26)) {
+    name = String.fromCharCode(65 + ((current - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Excel rejects sheet names over 31 characters or containing []:*?/\
+const toSheetName = (name: string, index: number, used: Set<string>): string => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${index + 1}`;
+  let candidate = base;
+  for (let suffix = 2; used.has(candidate.toLowerCase()); suffix += 1) {
+    candidate = `${base.slice(0, 31 - String(suffix).length - 1)} ${suffix}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const buildSheetXml = (rows: SpreadsheetCell[][]): string => {
+  const rowXml = rows.map((row, rowIndex) => {
+    const cells = row
+      .map((value, columnIndex) => {
+        if (value === null || value === undefined || value === '') return '';
+        const ref = `${getColumnName(columnIndex)}${rowIndex + 1}`;
+        const style = rowIndex === 0 ? ' s="1"' : '';
+        if (typeof value === 'number' && Number.isFinite(value)) {
+          return `<c r="${ref}"${style}><v>${value}</v></c>`;
+        }
+        return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+      })
+      .join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    rows.length > 1 ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' : '',
+    `<sheetData>${rowXml.join('')}</sheetData>`,
+    '</worksheet>',
+  ].join('');
+};
+
+const STYLES_XML = [
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>',
+  '</styleSheet>',
+].join('');
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Packs files into an uncompressed (stored) ZIP archive, which is all an XLSX package needs.
+ * Also used to bundle downloads that are already compressed, such as PDFs.
+ * @param files - Archive paths and their text or binary contents
+ */
+export const buildZip = (files: { path: string; content: string | Uint8Array }[]): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.path);
+    const data = typeof file.content === 'string' ? encoder.encode(file.content) : file.content;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(12, 0x21, true); // 1980-01-01
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true); // version needed
+    central.setUint16(10, 0, true); // stored
+    central.setUint16(14, 0x21, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = centralDirectory.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...centralDirectory, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach((part) => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+};
+
+/**
+ * Builds an XLSX workbook with one worksheet per sheet
+ * @param sheets - Worksheets in tab order
+ * @returns The workbook file contents
+ */
+export const buildXlsxWorkbook = (sheets: SpreadsheetSheet[]): Uint8Array => {
+  const used = new Set<string>();
+  const names = sheets.map((sheet, index) => toSheetName(sheet.name, index, used));
+
+  const files = [
+    {
+      path: '[Content_Types].xml',
+      content: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+        '<Default Extension="xml" ContentType="application/xml"/>',
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+        ...sheets.map(
+          (_, index) =>
+            `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ),
+        '</Types>',
+      ].join(''),
+    },
+    {
+      path: '_rels/.rels',
+      content: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+        '</Relationships>',
+      ].join(''),
+    },
+    {
+      path: 'xl/workbook.xml',
+      content: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+        '<sheets>',
+        ...names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`),
+        '</sheets>',
+        '</workbook>',
+      ].join(''),
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      content: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        ...sheets.map(
+          (_, index) =>
+            `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        ),
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`,
+        '</Relationships>',
+      ].join(''),
+    },
+    { path: 'xl/styles.xml', content: STYLES_XML },
+    ...sheets.map((sheet, index) => ({ path: `xl/worksheets/sheet${index + 1}.xml`, content: buildSheetXml(sheet.rows) })),
+  ];
+
+  return buildZip(files);
+};
+
+// Text a spreadsheet would run as a formula; contact names and descriptions come from Xero, so they are not trusted
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+const NUMERIC_TEXT_PATTERN = /^[+-]?\d+(\.\d+)?$/;
+
+const toCsvValue = (value: SpreadsheetCell): string => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // A leading apostrophe makes the spreadsheet show the text instead of evaluating it
+  if (typeof value === 'string' && FORMULA_PREFIX_PATTERN.test(text) && !NUMERIC_TEXT_PATTERN.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a CSV file. CSV has no worksheets, so each sheet is written as a titled section.
+ * A byte order mark is included so Excel reads the file as UTF-8, and text cells that start like a
+ * formula (=, +, -, @) are prefixed with an apostrophe.
+ * @param options.titles - Set to false to leave out the section titles, e.g. for a file another system imports
+ */
+export const buildCsv = (sheets: SpreadsheetSheet[], options: { titles?: boolean } = {}): string => {
+  const { titles = true } = options;
+  const sections = sheets.map((sheet) =>
+    [...(titles ? [toCsvValue(sheet.name)] : []), ...sheet.rows.map((row) => row.map(toCsvValue).join(','))].join('\r\n')
+  );
+  return `\uFEFF${sections.join('\r\n\r\n')}\r\n`;
+};
@@ -0,0 +1,226 @@
+import { SpreadsheetCell, SpreadsheetSheet } from './spreadsheetExport';
+
+/**
+ * Spreadsheet Import
+ * Reads CSV files and XLSX workbooks in the browser, without a spreadsheet library
+ */
+
+// Not in the TypeScript 4.9 DOM library yet; supported by all current browsers
+declare const DecompressionStream: {
+  new (format: 'deflate' | 'deflate-raw' | 'gzip'): ReadableWritablePair<Uint8Array, Uint8Array>;
+};
+
+const decoder = new TextDecoder();
+
+/**
+ * Picks the delimiter used in the first line of a CSV file: comma, semicolon or tab
+ */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/)).replace(/"[^"]*"/g, '');
+  return [',', ';', '\t'].reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+};
+
+/**
+ * Parses CSV text into rows of cells. Quoted cells may contain delimiters, quotes ("") and line breaks.
+ * @param text - File contents; a leading byte order mark is ignored
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads the files of a ZIP archive, e.g. the parts of an XLSX package
+ * @returns File contents by archive path
+ */
+export const readZip = async (data: Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let end = data.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end -= 1;
+  if (end < 0) throw new Error('The file is not a valid XLSX workbook');
+
+  const files = new Map<string, Uint8Array>();
+  const entryCount = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+
+  for (let entry = 0; entry < entryCount; entry += 1) {
+    if (view.getUint32(position, true) !== 0x02014b50) break;
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(data.subarray(position + 46, position + 46 + nameLength));
+
+    // The local header's name and extra field can differ in length from the central directory's
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const content = data.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files.set(name, content);
+    } else if (method === 8) {
+      files.set(name, await inflateRaw(content));
+    }
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+};
+
+const parseXml = (files: Map<string, Uint8Array>, path: string): Document | null => {
+  const content = files.get(path);
+  return content ? new DOMParser().parseFromString(decoder.decode(content), 'application/xml') : null;
+};
+
+const getElements = (parent: Document | Element, tagName: string): Element[] =>
+  Array.prototype.slice.call(parent.getElementsByTagName(tagName));
+
+// Text of a shared or inline string, joining rich text runs and leaving out phonetic guides
+const getStringText = (element: Element) =>
+  getElements(element, 't')
+    .filter((text) => text.parentElement?.tagName !== 'rPh')
+    .map((text) => text.textContent || '')
+    .join('');
+
+/**
+ * Converts a cell reference's column letters to a zero-based index, e.g. B7 -> 1, AB2 -> 27
+ */
+const getColumnIndex = (reference: string): number =>
+  reference
+    .replace(/[^A-Z]/gi, '')
+    .toUpperCase()
+    .split('')
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const readWorksheet = (sheet: Document, sharedStrings: string[]): SpreadsheetCell[][] => {
+  const rows: SpreadsheetCell[][] = [];
+
+  getElements(sheet, 'row').forEach((rowElement, rowPosition) => {
+    const rowNumber = Number(rowElement.getAttribute('r')) || rowPosition + 1;
+    const row: SpreadsheetCell[] = [];
+
+    getElements(rowElement, 'c').forEach((cell, cellPosition) => {
+      const reference = cell.getAttribute('r');
+      const columnIndex = reference ? getColumnIndex(reference) : cellPosition;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? null;
+
+      let content: SpreadsheetCell = null;
+      if (type === 's') {
+        content = value !== null ? sharedStrings[Number(value)] ?? '' : null;
+      } else if (type === 'inlineStr') {
+        const inline = cell.getElementsByTagName('is')[0];
+        content = inline ? getStringText(inline) : null;
+      } else if (type === 'str' || type === 'e') {
+        content = value;
+      } else if (type === 'b') {
+        content = value === '1' ? 'TRUE' : 'FALSE';
+      } else if (value !== null) {
+        const number = Number(value);
+        content = Number.isFinite(number) ? number : value;
+      }
+      row[columnIndex] = content;
+    });
+
+    rows[rowNumber - 1] = row;
+  });
+
+  // Fill the gaps left by missing rows and cells
+  return Array.from({ length: rows.length }, (_, index) => {
+    const row = rows[index] || [];
+    return Array.from({ length: row.length }, (__, column) => row[column] ?? null);
+  });
+};
+
+/**
+ * Reads the worksheets of an XLSX workbook. Dates are returned as Excel serial numbers.
+ * @param data - Workbook file contents
+ * @returns The worksheets in tab order
+ */
+export const readXlsxWorkbook = async (data: Uint8Array): Promise<SpreadsheetSheet[]> => {
+  const files = await readZip(data);
+  const workbook = parseXml(files, 'xl/workbook.xml');
+  if (!workbook) throw new Error('The file is not a valid XLSX workbook');
+
+  const sharedStringsXml = parseXml(files, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml ? getElements(sharedStringsXml, 'si').map(getStringText) : [];
+
+  const relationships = new Map<string, string>();
+  const relationshipsXml = parseXml(files, 'xl/_rels/workbook.xml.rels');
+  if (relationshipsXml) {
+    getElements(relationshipsXml, 'Relationship').forEach((relationship) => {
+      const target = relationship.getAttribute('Target') || '';
+      relationships.set(relationship.getAttribute('Id') || '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    });
+  }
+
+  return getElements(workbook, 'sheet').reduce<SpreadsheetSheet[]>((sheets, sheetElement, index) => {
+    const relationshipId = sheetElement.getAttribute('r:id') || sheetElement.getAttributeNS(
+      'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+      'id'
+    );
+    const path = (relationshipId && relationships.get(relationshipId)) || `xl/worksheets/sheet${index + 1}.xml`;
+    const sheet = parseXml(files, path);
+    if (sheet) {
+      sheets.push({ name: sheetElement.getAttribute('name') || `Sheet${index + 1}`, rows: readWorksheet(sheet, sharedStrings) });
+    }
+    return sheets;
+  }, []);
+};
+
+/**
+ * Reads the first worksheet of an XLSX workbook, or the rows of a CSV file
+ * @param file - File chosen by the user
+ */
+export const readSpreadsheetFile = async (file: File): Promise<SpreadsheetSheet> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    const [sheet] = await readXlsxWorkbook(new Uint8Array(await file.arrayBuffer()));
+    if (!sheet) throw new Error('The workbook has no worksheets');
+    return sheet;
+  }
+  return { name: file.name.replace(/\.[^.]+$/, ''), rows: parseCsv(await file.text()) };
+};
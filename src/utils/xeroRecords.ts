@@ -0,0 +1,130 @@
+/**
+ * Xero Record Utilities
+ * Helpers for reading raw Xero payloads returned by the backend proxy
+ */
+
+export const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Reads a section of a Xero payload by key, in any casing, at the top level or under `data`
+ * @param source - Payload returned by the backend proxy
+ * @param key - Section name, e.g. 'Invoices'
+ * @returns The section, or null when the payload does not have it
+ */
+export const getSectionData = (source: any, key: string) => {
+  if (!source) return null;
+  const variants = [key, key.toLowerCase(), key.toUpperCase()];
+
+  for (const variant of variants) {
+    if (source[variant] !== undefined) {
+      return source[variant];
+    }
+  }
+
+  if (isPlainObject(source.data)) {
+    for (const variant of variants) {
+      if (source.data[variant] !== undefined) {
+        return source.data[variant];
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Converts a Xero numeric field (number or numeric string) to a finite number
+ * @param value - Raw value from a Xero payload
+ * @returns The numeric value, or 0 when it cannot be parsed
+ */
+export const toAmount = (value: unknown): number => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : 0;
+  }
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[$,\s]/g, ''));
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+  return 0;
+};
+
+/**
+ * Rounds a currency amount to whole cents
+ */
+export const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Normalises a Xero enum value for comparison, e.g. 'SPEND-OVERPAYMENT' -> 'SPENDOVERPAYMENT'
+ */
+export const normaliseXeroCode = (value: unknown): string =>
+  String(value || '').toUpperCase().replace(/[-_\s]/g, '');
+
+/**
+ * Parses a Xero date, accepting both ISO strings and the legacy `/Date(1234567890000+0000)/` format
+ * @param value - Raw date value from a Xero payload
+ * @returns A Date, or null when the value is missing or invalid
+ */
+export const parseXeroDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value !== 'string') return null;
+
+  const legacyMatch = value.match(/\/Date\((-?\d+)([+-]\d{4})?\)\//);
+  if (legacyMatch) {
+    return new Date(Number(legacyMatch[1]));
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/**
+ * Formats a Date as YYYY-MM-DD using local time
+ */
+export const toISODate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Checks whether a Xero date falls inside an inclusive YYYY-MM-DD range.
+ * Missing range bounds are treated as open-ended.
+ */
+export const isWithinPeriod = (value: unknown, fromDate?: string, toDate?: string): boolean => {
+  const date = parseXeroDate(value);
+  if (!date) return false;
+  const day = toISODate(date);
+  if (fromDate && day < fromDate) return false;
+  if (toDate && day > toDate) return false;
+  return true;
+};
+
+/**
+ * Extracts an array of records from the different wrappers the backend returns,
+ * e.g. `[...]`, `{ Invoices: [...] }`, `{ data: { Invoices: [...] } }` or `{ data: [...] }`
+ * @param source - Raw section or API response
+ * @param key - Xero collection name, e.g. 'Invoices', 'Accounts', 'BankTransactions'
+ */
+export const extractXeroCollection = <T = any>(source: any, key: string): T[] => {
+  if (!source) return [];
+  if (Array.isArray(source)) return source as T[];
+  if (!isPlainObject(source)) return [];
+
+  const variants = [key, key.charAt(0).toLowerCase() + key.slice(1), key.toLowerCase()];
+  for (const variant of variants) {
+    if (Array.isArray(source[variant])) {
+      return source[variant] as T[];
+    }
+  }
+
+  if (source.data !== undefined) {
+    return extractXeroCollection<T>(source.data, key);
+  }
+
+  return [];
+};